@@ -0,0 +1,36 @@
+import re
+
+# Recording languages the user can pick; without one the model detects it
+LANGUAGE_NAMES = {"en": "English", "kn": "Kannada", "hi": "Hindi", "tcy": "Tulu"}
+# A hint that the speakers switch between languages, rather than one language
+MIXED_LANGUAGE = "mixed"
+
+# The model is asked for codes, but sometimes names the language instead, in English or in its own script
+LANGUAGE_ALIASES = {
+    **{code: code for code in LANGUAGE_NAMES},
+    **{name.lower(): code for code, name in LANGUAGE_NAMES.items()},
+    "ಕನ್ನಡ": "kn",
+    "हिन्दी": "hi",
+    "हिंदी": "hi",
+    "ತುಳು": "tcy",
+}
+
+# The transcription ends with a line like "LANGUAGES: tcy, kn" naming what was spoken. Anything else
+# on the line (markdown bold, a full stop, "and") is tolerated so the line never ends up in the transcript.
+DETECTED_LANGUAGES_LINE = re.compile(r"(?:^|\n)[\s*_#]*LANGUAGES[*_]*\s*:([^\n]*)$", re.IGNORECASE)
+# Words in Latin, Kannada or Devanagari script; \w alone misses their vowel signs and viramas
+LANGUAGE_WORD = re.compile(r"[\w\u0c80-\u0cff\u0900-\u097f]+")
+
+def split_detected_languages(text: str):
+    """Separates the transcript from its closing LANGUAGES line. Unknown languages become "other"."""
+    match = DETECTED_LANGUAGES_LINE.search(text.rstrip())
+    if not match:
+        return text.strip(), []
+    languages = []
+    for word in LANGUAGE_WORD.findall(match.group(1).lower()):
+        if word == "and":
+            continue
+        code = LANGUAGE_ALIASES.get(word, "other")
+        if code not in languages:
+            languages.append(code)
+    return text[:match.start()].strip(), languages
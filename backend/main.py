@@ -1,12 +1,21 @@
 import os
+import asyncio
+import base64
+import io
+import json
+import time
+import uuid
+from contextlib import asynccontextmanager
+from datetime import datetime, timedelta, timezone
 import google.generativeai as genai
 # We do NOT import 'Part' to avoid library version issues
-from fastapi import FastAPI, File, UploadFile, Depends, HTTPException, Form
+from fastapi import FastAPI, File, UploadFile, Depends, HTTPException, Form, Request
 from fastapi.middleware.cors import CORSMiddleware
 from fastapi.security import HTTPBearer
 from dotenv import load_dotenv
 from supabase import create_client, Client
 import mimetypes
+from languages import LANGUAGE_NAMES, MIXED_LANGUAGE, split_detected_languages
 
 # --- 1. Load Environment Variables & Initialize API Clients ---
 load_dotenv()
@@ -20,8 +29,44 @@ supabase: Client = create_client(SUPABASE_URL, SUPABASE_KEY)
 genai.configure(api_key=os.getenv("GEMINI_API_KEY"))
 gemini_model = genai.GenerativeModel('gemini-2.5-flash')
 
+# Gemini takes audio inline up to about 20 MB per request; longer consultations go through its File API
+INLINE_AUDIO_BYTES = 20 * 1024 * 1024
+MAX_AUDIO_BYTES = 100 * 1024 * 1024
+# Largest part of a chunked upload. The frontend sends 2 MB parts, or one MediaRecorder chunk at a time.
+MAX_PART_BYTES = 8 * 1024 * 1024
+# How long to wait for Gemini to finish processing an uploaded file
+GEMINI_FILE_TIMEOUT_SECONDS = 120
+# Dictaphones and messaging apps label the same formats differently (audio/x-m4a, audio/opus...);
+# Gemini wants one of these
+AUDIO_MIME_TYPES = {
+    ".webm": "audio/webm",
+    ".m4a": "audio/mp4",
+    ".mp4": "audio/mp4",
+    ".aac": "audio/aac",
+    ".mp3": "audio/mpeg",
+    ".ogg": "audio/ogg",
+    ".oga": "audio/ogg",
+    ".opus": "audio/ogg",
+    ".wav": "audio/wav",
+    ".flac": "audio/flac",
+}
+
+# Source audio is kept in Supabase Storage so a disputed summary can be checked against the recording.
+# Recordings are deleted AUDIO_RETENTION_DAYS after upload; 0 keeps them indefinitely.
+AUDIO_BUCKET = "note-audio"
+AUDIO_RETENTION_DAYS = int(os.getenv("AUDIO_RETENTION_DAYS", "30"))
+AUDIO_PURGE_INTERVAL_SECONDS = 60 * 60
+# Chunked uploads that never reached /process-audio/ are deleted after this long
+ABANDONED_UPLOAD_DAYS = 7
+
+@asynccontextmanager
+async def lifespan(app):
+    purge_task = asyncio.create_task(purge_audio_periodically())
+    yield
+    purge_task.cancel()
+
 # FastAPI App
-app = FastAPI(title="JanScribe Backend")
+app = FastAPI(title="JanScribe Backend", lifespan=lifespan)
 
 # --- 2. Configure CORS ---
 app.add_middleware(
@@ -39,77 +84,99 @@ app.add_middleware(
 # --- 3. Authentication Dependency ---
 bearer_scheme = HTTPBearer()
 
+def token_claims(token: str) -> dict:
+    """Reads a JWT's payload. Only for tokens Supabase has already validated."""
+    payload = token.split(".")[1]
+    return json.loads(base64.urlsafe_b64decode(payload + "=" * (-len(payload) % 4)))
+
 def get_user_from_token(token: str = Depends(bearer_scheme)):
     """Validates a Supabase auth token and returns the user object."""
     try:
         user_data = supabase.auth.get_user(token.credentials)
-        if user_data.user:
-            return user_data.user
-        else:
-            raise HTTPException(status_code=401, detail="Invalid auth token")
     except Exception as e:
         raise HTTPException(status_code=401, detail=f"Auth error: {str(e)}")
+    if not user_data.user:
+        raise HTTPException(status_code=401, detail="Invalid auth token")
+    # Two-factor authentication is optional, but once a user has set it up their sessions need
+    # it (aal2), as the database policies do. Workspaces can require it too; see require_workspace_mfa.
+    if has_mfa_factor(user_data.user) and token_claims(token.credentials).get("aal") != "aal2":
+        raise mfa_required_error()
+    return user_data.user
 
-# --- 4. The Main AI Processing Endpoint (Gemini-Only Version) ---
-@app.post("/process-audio/")
-async def process_audio(
-    file: UploadFile = File(...),
-    client_name: str = Form(None),
-    user = Depends(get_user_from_token)
-):
-    """
-    Transcribes, translates, summarizes, and saves the audio using only Gemini.
-    """
-    try:
-        user_id = user.id
+def session_aal(token: str = Depends(bearer_scheme)) -> str:
+    """The session's assurance level: "aal2" after a two-factor code, otherwise "aal1"."""
+    return token_claims(token.credentials).get("aal", "aal1")
 
-        # --- Step 1: Prepare Audio Blob Dictionary ---
-        audio_data = await file.read()
+def has_mfa_factor(user) -> bool:
+    return any(factor.status == "verified" for factor in (user.factors or []))
 
-        mime_type = file.content_type
-        if not mime_type:
-            # Guess mime type if not provided (e.g., 'audio/webm')
-            mime_type = mimetypes.guess_type(file.filename or 'audio.webm')[0] or 'application/octet-stream' # Fallback needed
+def mfa_required_error():
+    return HTTPException(status_code=403, detail={"code": "mfa_required", "message": "Two-factor authentication required."})
 
-        # Create the audio part as a raw dictionary (Bypasses import issues)
-        audio_part = {
-            "mime_type": mime_type,
-            "data": audio_data
-        }
+def require_workspace_mfa(workspace_id: str, aal: str):
+    """Workspaces whose owners turned on require_mfa only answer two-factor sessions."""
+    if not workspace_id or aal == "aal2":
+        return
+    result = supabase.table("workspaces").select("require_mfa").eq("id", workspace_id).execute()
+    if result.data and result.data[0]["require_mfa"]:
+        raise mfa_required_error()
 
-        # --- Step 2: Transcribe with Gemini (Pass 1) ---
-        transcription_prompt = """
-        Please transcribe the attached audio file accurately.
-        The audio may be in English, Kannada, Tulu, Hindi, or a mix of languages.
-        Provide ONLY the raw, full transcription of all spoken words. Do not add any extra commentary.
-        """
+# Workspace members who may record and edit notes; assistants and read-only members only read them
+EDITOR_ROLES = ("owner", "clinician")
 
-        # Send the prompt AND the audio part dictionary in ONE call
-        transcription_response = gemini_model.generate_content([transcription_prompt, audio_part])
+def workspace_role(workspace_id: str, user_id: str):
+    """The user's role in the workspace, or None if they aren't a member."""
+    if not workspace_id:
+        return None
+    result = (
+        supabase.table("workspace_members").select("role")
+        .eq("workspace_id", workspace_id).eq("user_id", user_id).execute()
+    )
+    return result.data[0]["role"] if result.data else None
 
-        # Add robust error checking for Gemini response format
-        try:
-             original_transcript = transcription_response.text
-        except ValueError:
-             # Handle cases where the response might not contain 'text' directly (e.g., safety blocks)
-             print(f"Warning: Could not extract transcription text directly. Full Gemini response: {transcription_response.candidates}")
-             if transcription_response.candidates and transcription_response.candidates[0].content.parts:
-                 original_transcript = "".join(part.text for part in transcription_response.candidates[0].content.parts)
-             else:
-                 raise HTTPException(status_code=500, detail="Gemini transcription failed or returned an unexpected format.")
-        except Exception as e: # Catch any other unexpected errors during text extraction
-            raise HTTPException(status_code=500, detail=f"Error extracting transcription: {str(e)}")
-
-
-        # Check if transcript is empty or just noise
-        if not original_transcript or len(original_transcript.split()) < 2:
-            raise HTTPException(status_code=400, detail="Audio was silent or could not be transcribed reliably by Gemini.")
+# --- 4. Note Templates ---
+def get_template(template_id: str, user_id: str):
+    """Loads a built-in or user-owned note template. Returns None when no template was chosen."""
+    if not template_id:
+        return None
+    result = supabase.table("note_templates").select("*").eq("id", template_id).execute()
+    template = result.data[0] if result.data else None
+    if not template or (template.get("user_id") and template["user_id"] != user_id):
+        raise HTTPException(status_code=404, detail="Note template not found.")
+    return template
 
-        # --- Step 3: Translate & Summarize with Gemini (Pass 2) ---
+# Script for summaries written in a language other than English (see LANGUAGE_NAMES). Tulu is usually
+# written in Kannada script.
+SUMMARY_SCRIPTS = {"kn": "Kannada", "hi": "Devanagari", "tcy": "Kannada"}
 
-        # Prompt for clean PDFs without markdown
-        summarization_prompt = f"""
-        You are an expert professional assistant (like a doctor's or lawyer's scribe).
+def build_summarization_prompt(original_transcript: str, template=None, output_language: str = "en") -> str:
+    """Builds the translate-and-summarize prompt, following the template's sections if it has any."""
+    scribe_role = (template or {}).get("scribe_role") or "an expert professional assistant (like a doctor's or lawyer's scribe)"
+    sections = (template or {}).get("sections") or []
+    instructions = (template or {}).get("instructions")
+
+    if sections:
+        heading_rule = (
+            "4.  Use exactly these headings, in this order, in **ALL CAPS**: "
+            + ", ".join(sections)
+            + ". Write \"Not discussed.\" under any heading the transcript does not cover. Do not add other headings."
+        )
+    else:
+        heading_rule = "4.  Use **ALL CAPS** for headings (e.g., CHIEF COMPLAINT, HISTORY)."
+
+    rules = [instructions] if instructions else []
+    # Headings stay in English in every language so the app can split the summary into its sections
+    language = LANGUAGE_NAMES.get(output_language, "English")
+    if output_language in SUMMARY_SCRIPTS:
+        rules.append(
+            f"Write everything under the headings in {language}, in {SUMMARY_SCRIPTS[output_language]} script, "
+            "in plain words a patient can follow. Keep the headings themselves in English exactly as given, "
+            "and keep drug names and doses in English."
+        )
+    extra = "".join(f"\n        {number}.  {rule}" for number, rule in enumerate(rules, start=6))
+
+    return f"""
+        You are {scribe_role}.
         Your task is to process the following transcript.
 
         1.  First, translate the entire transcript into fluent, professional English.
@@ -117,49 +184,587 @@ async def process_audio(
 
         **IMPORTANT FORMATTING RULES:**
         3.  Format the summary as **plain text only**.
-        4.  Use **ALL CAPS** for headings (e.g., CHIEF COMPLAINT, HISTORY).
-        5.  **Do NOT use any markdown characters** like `*`, `#`, or `_`. The output must be clean text for a PDF report.
+        {heading_rule}
+        5.  **Do NOT use any markdown characters** like `*`, `#`, or `_`. The output must be clean text for a PDF report.{extra}
 
         Transcript: "{original_transcript}"
 
-        Structured English Summary:
+        Structured {language} Summary:
         """
 
-        summarization_response = gemini_model.generate_content(summarization_prompt)
+def audio_mime_type(filename: str, content_type: str):
+    """Works out the Gemini mime type for an upload, or None if it isn't a supported audio format."""
+    extension = os.path.splitext(filename or "")[1].lower()
+    if extension in AUDIO_MIME_TYPES:
+        return AUDIO_MIME_TYPES[extension]
+    declared = (content_type or "").split(";")[0].strip().lower()
+    if declared in AUDIO_MIME_TYPES.values():
+        return declared
+    guessed = mimetypes.guess_type(filename or "")[0]
+    return guessed if guessed in AUDIO_MIME_TYPES.values() else None
 
-        # Add robust error checking for summarization response
+# --- 5. Stored Audio ---
+def audio_retention_days(user_id: str) -> int:
+    """The user's retention setting from /settings, or the server default if they haven't chosen one."""
+    result = supabase.table("user_preferences").select("audio_retention_days").eq("user_id", user_id).execute()
+    days = result.data[0]["audio_retention_days"] if result.data else None
+    return AUDIO_RETENTION_DAYS if days is None else days
+
+def store_audio(user_id: str, filename: str, audio_data: bytes, mime_type: str):
+    """Uploads the source audio under the user's folder. Returns the row fields to save, or {} if the upload failed."""
+    extension = os.path.splitext(filename or "")[1].lower()
+    path = f"{user_id}/{uuid.uuid4()}{extension if extension in AUDIO_MIME_TYPES else ''}"
+    try:
+        supabase.storage.from_(AUDIO_BUCKET).upload(path, audio_data, {"content-type": mime_type})
+    except Exception as e:
+        # The note is still worth saving without its audio
+        print(f"ERROR storing audio: {e}")
+        return {}
+    expires_at = None
+    retention_days = audio_retention_days(user_id)
+    if retention_days > 0:
+        expires_at = (datetime.now(timezone.utc) + timedelta(days=retention_days)).isoformat()
+    return {"audio_path": path, "audio_mime_type": mime_type, "audio_expires_at": expires_at}
+
+def remove_stored_audio(path: str):
+    try:
+        supabase.storage.from_(AUDIO_BUCKET).remove([path])
+    except Exception as e:
+        print(f"ERROR removing audio {path}: {e}")
+
+def purge_expired_audio(batch_size: int = 500) -> int:
+    """Deletes recordings past their retention date and unlinks them from their notes."""
+    now = datetime.now(timezone.utc).isoformat()
+    result = (
+        supabase.table("summaries")
+        .select("id, audio_path")
+        .lt("audio_expires_at", now)
+        .not_.is_("audio_path", "null")
+        .limit(batch_size)
+        .execute()
+    )
+    rows = result.data or []
+    if not rows:
+        return 0
+    supabase.storage.from_(AUDIO_BUCKET).remove([row["audio_path"] for row in rows])
+    supabase.table("summaries").update({"audio_path": None}).in_("id", [row["id"] for row in rows]).execute()
+    return len(rows)
+
+def delete_upload(upload):
+    """Removes a chunked upload's parts and its row."""
+    if upload.get("parts"):
+        supabase.storage.from_(AUDIO_BUCKET).remove(upload["parts"])
+    supabase.table("audio_uploads").delete().eq("id", upload["id"]).execute()
+
+def purge_abandoned_uploads() -> int:
+    cutoff = (datetime.now(timezone.utc) - timedelta(days=ABANDONED_UPLOAD_DAYS)).isoformat()
+    result = supabase.table("audio_uploads").select("id, parts").lt("updated_at", cutoff).limit(100).execute()
+    for upload in result.data or []:
+        delete_upload(upload)
+    return len(result.data or [])
+
+async def purge_audio_periodically():
+    while True:
         try:
-             structured_summary = summarization_response.text
-        except ValueError:
-             print(f"Warning: Could not extract summary text directly. Full Gemini response: {summarization_response.candidates}")
-             if summarization_response.candidates and summarization_response.candidates[0].content.parts:
-                 structured_summary = "".join(part.text for part in summarization_response.candidates[0].content.parts)
-             else:
-                 raise HTTPException(status_code=500, detail="Gemini summarization failed or returned an unexpected format.")
+            purged = await asyncio.to_thread(purge_expired_audio)
+            if purged:
+                print(f"Deleted {purged} expired recordings")
+            abandoned = await asyncio.to_thread(purge_abandoned_uploads)
+            if abandoned:
+                print(f"Deleted {abandoned} abandoned uploads")
+            await asyncio.to_thread(purge_old_jobs)
+            trashed = await asyncio.to_thread(purge_trash)
+            if trashed:
+                print(f"Deleted {trashed} notes from the trash")
         except Exception as e:
-            raise HTTPException(status_code=500, detail=f"Error extracting summary: {str(e)}")
+            print(f"ERROR purging expired audio: {e}")
+        await asyncio.sleep(AUDIO_PURGE_INTERVAL_SECONDS)
+
+# --- 6. Chunked, Resumable Uploads ---
+# The client creates an upload, sends the audio in parts (each tagged with its byte offset),
+# asks for the confirmed offset after an interruption, and finally calls /process-audio/ with
+# the upload_id instead of a file. Parts are only accepted at the confirmed offset, so a
+# part sent twice, or by two tabs at once, can't duplicate or corrupt audio.
+
+def get_upload(upload_id: str, user_id: str):
+    result = supabase.table("audio_uploads").select("*").eq("id", upload_id).eq("user_id", user_id).execute()
+    if not result.data:
+        raise HTTPException(status_code=404, detail="Upload not found.")
+    return result.data[0]
+
+def assemble_upload(upload) -> bytes:
+    """Downloads an upload's parts and joins them back into the original file."""
+    bucket = supabase.storage.from_(AUDIO_BUCKET)
+    audio_data = b"".join(bucket.download(path) for path in upload["parts"])
+    if len(audio_data) != upload["received_bytes"]:
+        raise HTTPException(status_code=500, detail="Stored upload is incomplete. Please upload the recording again.")
+    return audio_data
+
+async def read_body(request: Request, limit: int, too_large: str) -> bytes:
+    """Reads the request body, refusing it as soon as it is known to be longer than `limit` bytes."""
+    declared = request.headers.get("content-length")
+    if declared and declared.isdigit() and int(declared) > limit:
+        raise HTTPException(status_code=413, detail=too_large)
+    body = bytearray()
+    # Content-Length can be missing (chunked encoding) or wrong, so the stream is counted too
+    async for chunk in request.stream():
+        body.extend(chunk)
+        if len(body) > limit:
+            raise HTTPException(status_code=413, detail=too_large)
+    return bytes(body)
+
+@app.post("/uploads/")
+async def create_upload(file_name: str = Form(...), user = Depends(get_user_from_token)):
+    mime_type = audio_mime_type(file_name, None)
+    if not mime_type:
+        raise HTTPException(status_code=415, detail="Unsupported audio format. Use webm, m4a, mp3, ogg, wav or flac.")
+    result = supabase.table("audio_uploads").insert({
+        "user_id": user.id,
+        "file_name": file_name,
+        "mime_type": mime_type,
+    }).execute()
+    return {"upload_id": result.data[0]["id"], "received_bytes": 0}
+
+@app.get("/uploads/{upload_id}")
+async def get_upload_status(upload_id: str, user = Depends(get_user_from_token)):
+    upload = get_upload(upload_id, user.id)
+    return {"upload_id": upload["id"], "received_bytes": upload["received_bytes"]}
+
+@app.put("/uploads/{upload_id}/parts")
+async def upload_part(upload_id: str, offset: int, request: Request, user = Depends(get_user_from_token)):
+    if offset < 0:
+        raise HTTPException(status_code=400, detail="The offset can't be negative.")
+    upload = get_upload(upload_id, user.id)
+    received = upload["received_bytes"]
+    if offset > received:
+        # A part went missing; the client resumes from received_bytes
+        raise HTTPException(status_code=400, detail={"message": "Part is ahead of the upload.", "received_bytes": received})
+
+    # The part must fit both the part limit and what is left of the file limit
+    limit = min(MAX_PART_BYTES, MAX_AUDIO_BYTES - offset)
+    too_large = "Upload parts can be up to 8 MB." if limit == MAX_PART_BYTES else "Audio file is larger than 100 MB."
+    data = await read_body(request, limit, too_large)
+    # Skip bytes we already have from a retried or overlapping part
+    data = data[received - offset:]
+    if not data:
+        return {"upload_id": upload_id, "received_bytes": received}
+
+    path = f"{user.id}/uploads/{upload_id}/{received:012d}-{uuid.uuid4().hex}.part"
+    supabase.storage.from_(AUDIO_BUCKET).upload(path, data, {"content-type": "application/octet-stream"})
+
+    # Only counts if nobody else appended in the meantime
+    updated = (
+        supabase.table("audio_uploads")
+        .update({
+            "received_bytes": received + len(data),
+            "parts": upload["parts"] + [path],
+            "updated_at": datetime.now(timezone.utc).isoformat(),
+        })
+        .eq("id", upload_id)
+        .eq("received_bytes", received)
+        .execute()
+    )
+    if not updated.data:
+        supabase.storage.from_(AUDIO_BUCKET).remove([path])
+        current = get_upload(upload_id, user.id)
+        raise HTTPException(status_code=409, detail={"message": "Upload moved on.", "received_bytes": current["received_bytes"]})
+
+    return {"upload_id": upload_id, "received_bytes": received + len(data)}
+
+# --- 7. Processing Jobs ---
+# /process-audio/ starts a job and returns straight away; the client polls /jobs/{id} for its stage.
+# Jobs run on the server, so closing the tab doesn't stop them, and reopening it picks the job up again.
+JOB_STAGES_ACTIVE = ("queued", "transcribing", "summarizing", "saving")
+# A job that hasn't moved for this long was cut off, e.g. by a server restart
+JOB_STALE_AFTER = timedelta(minutes=15)
+
+# Errors the client handles specially carry a code next to the message
+def coded_error(status_code: int, code: str, message: str):
+    return HTTPException(status_code=status_code, detail={"code": code, "message": message})
+
+def upstream_error(message: str):
+    """Gemini failed or returned something unusable. 502 tells the client it's worth retrying."""
+    return coded_error(502, "upstream_model", message)
+
+class JobCancelled(Exception):
+    pass
+
+# Keeps running jobs referenced so they aren't garbage-collected mid-run
+running_jobs = set()
+
+def note_fields(saved):
+    """The saved row, as the dashboard's Summary type."""
+    return {
+        "id": saved["id"],
+        "created_at": saved["created_at"],
+        "client_name": saved.get("client_name"),
+        "client_id": saved.get("client_id"),
+        "template_id": saved.get("template_id"),
+        "original_transcript": saved.get("original_transcript"),
+        "structured_summary": saved.get("structured_summary"),
+        "summary_language": saved.get("summary_language"),
+        "spoken_language_hint": saved.get("spoken_language_hint"),
+        "detected_languages": saved.get("detected_languages") or [],
+        "audio_path": saved.get("audio_path"),
+        "audio_expires_at": saved.get("audio_expires_at"),
+        "workspace_id": saved.get("workspace_id"),
+        "archived_at": saved.get("archived_at"),
+        "deleted_at": saved.get("deleted_at"),
+    }
+
+def update_job(job_id: str, **fields):
+    fields["updated_at"] = datetime.now(timezone.utc).isoformat()
+    supabase.table("processing_jobs").update(fields).eq("id", job_id).execute()
+
+def enter_stage(job_id: str, stage: str):
+    """Moves the job on, unless the user has cancelled it. The check and the update are one
+    statement, so a cancel can't land between them."""
+    updated = (
+        supabase.table("processing_jobs")
+        .update({"stage": stage, "updated_at": datetime.now(timezone.utc).isoformat()})
+        .eq("id", job_id)
+        .neq("stage", "cancelled")
+        .execute()
+    )
+    if not updated.data:
+        raise JobCancelled()
+
+def fail_job(job_id: str, status: int, code, message):
+    """Records the error on the job. A job the user cancelled stays cancelled."""
+    (
+        supabase.table("processing_jobs")
+        .update({"stage": "failed", "error_status": status, "error_code": code, "error_message": message,
+                 "updated_at": datetime.now(timezone.utc).isoformat()})
+        .eq("id", job_id)
+        .neq("stage", "cancelled")
+        .execute()
+    )
+
+def is_stale(job) -> bool:
+    updated_at = datetime.fromisoformat(job["updated_at"].replace("Z", "+00:00"))
+    return job["stage"] in JOB_STAGES_ACTIVE and datetime.now(timezone.utc) - updated_at > JOB_STALE_AFTER
 
+def job_status(job):
+    """What the client sees of a job. The note is included once it is done."""
+    if is_stale(job):
+        update_job(job["id"], stage="failed", error_status=500, error_code="interrupted",
+                   error_message="Processing was interrupted. Please try again.")
+        job = {**job, "stage": "failed", "error_status": 500, "error_code": "interrupted",
+               "error_message": "Processing was interrupted. Please try again."}
+
+    status = {"job_id": job["id"], "stage": job["stage"], "error": None, "note": None}
+    if job["stage"] == "failed":
+        status["error"] = {"status": job["error_status"], "code": job["error_code"], "message": job["error_message"]}
+    if job["stage"] == "done" and job.get("summary_id"):
+        saved = supabase.table("summaries").select("*").eq("id", job["summary_id"]).execute()
+        if saved.data:
+            status["note"] = note_fields(saved.data[0])
+    return status
+
+def upload_gemini_file(audio_data: bytes, mime_type: str):
+    """Sends audio too large to go inline through Gemini's File API and waits until it can be used."""
+    gemini_file = genai.upload_file(io.BytesIO(audio_data), mime_type=mime_type)
+    deadline = time.monotonic() + GEMINI_FILE_TIMEOUT_SECONDS
+    while gemini_file.state.name == "PROCESSING":
+        if time.monotonic() > deadline:
+            genai.delete_file(gemini_file.name)
+            raise upstream_error("Gemini took too long to process the recording.")
+        time.sleep(2)
+        gemini_file = genai.get_file(gemini_file.name)
+    if gemini_file.state.name != "ACTIVE":
+        genai.delete_file(gemini_file.name)
+        raise upstream_error("Gemini could not process the recording.")
+    return gemini_file
+
+def transcribe_audio(audio_data: bytes, mime_type: str, language: str = None):
+    """Returns the transcript and the codes of the languages heard in it, most used first."""
+    transcription_prompt = """
+        Please transcribe the attached audio file accurately.
+        The audio may be in English, Kannada, Tulu, Hindi, or a mix of languages.
+        Tulu and Kannada are different languages even though both are written in Kannada script; do not transcribe Tulu as Kannada.
+        Provide ONLY the raw, full transcription of all spoken words. Do not add any extra commentary.
+        After the transcription, add one last line "LANGUAGES: " followed by the codes of the languages spoken,
+        most used first, separated by commas: en (English), kn (Kannada), tcy (Tulu), hi (Hindi), or other.
+        """
+    if language in LANGUAGE_NAMES:
+        transcription_prompt += f"The speakers mostly use {LANGUAGE_NAMES[language]}.\n"
+    elif language == MIXED_LANGUAGE:
+        transcription_prompt += "The speakers switch between languages, often within a sentence. Write each part in the language it was spoken.\n"
+
+    # Send the prompt AND the audio in ONE call
+    gemini_file = None
+    try:
+        if len(audio_data) <= INLINE_AUDIO_BYTES:
+            # Create the audio part as a raw dictionary (Bypasses import issues)
+            audio_part = {"mime_type": mime_type, "data": audio_data}
+        else:
+            gemini_file = audio_part = upload_gemini_file(audio_data, mime_type)
+        transcription_response = gemini_model.generate_content([transcription_prompt, audio_part])
+    except HTTPException:
+        raise
+    except Exception as e:
+        raise upstream_error(f"Gemini transcription request failed: {str(e)}")
+    finally:
+        if gemini_file:
+            try:
+                genai.delete_file(gemini_file.name)
+            except Exception as e:
+                print(f"Warning: could not delete Gemini file {gemini_file.name}: {e}")
+
+    # Add robust error checking for Gemini response format
+    try:
+         original_transcript = transcription_response.text
+    except ValueError:
+         # Handle cases where the response might not contain 'text' directly (e.g., safety blocks)
+         print(f"Warning: Could not extract transcription text directly. Full Gemini response: {transcription_response.candidates}")
+         if transcription_response.candidates and transcription_response.candidates[0].content.parts:
+             original_transcript = "".join(part.text for part in transcription_response.candidates[0].content.parts)
+         else:
+             raise upstream_error("Gemini transcription failed or returned an unexpected format.")
+    except Exception as e: # Catch any other unexpected errors during text extraction
+        raise upstream_error(f"Error extracting transcription: {str(e)}")
+
+    original_transcript, languages = split_detected_languages(original_transcript or "")
+
+    # Check if transcript is empty or just noise
+    if not original_transcript or len(original_transcript.split()) < 2:
+        raise coded_error(400, "silent_audio", "Audio was silent or could not be transcribed reliably by Gemini.")
+    return original_transcript, languages
+
+def summarize_transcript(original_transcript: str, template, output_language: str = "en") -> str:
+    # Prompt for clean PDFs without markdown, shaped by the chosen template
+    summarization_prompt = build_summarization_prompt(original_transcript, template, output_language)
+
+    try:
+        summarization_response = gemini_model.generate_content(summarization_prompt)
+    except Exception as e:
+        raise upstream_error(f"Gemini summarization request failed: {str(e)}")
+
+    # Add robust error checking for summarization response
+    try:
+         structured_summary = summarization_response.text
+    except ValueError:
+         print(f"Warning: Could not extract summary text directly. Full Gemini response: {summarization_response.candidates}")
+         if summarization_response.candidates and summarization_response.candidates[0].content.parts:
+             structured_summary = "".join(part.text for part in summarization_response.candidates[0].content.parts)
+         else:
+             raise upstream_error("Gemini summarization failed or returned an unexpected format.")
+    except Exception as e:
+        raise upstream_error(f"Error extracting summary: {str(e)}")
+    return structured_summary
+
+def run_job(job_id: str, user_id: str, workspace_id, client_name, client_id, template, language, output_language, load_audio):
+    """Transcribes, translates, summarizes, and saves the audio using only Gemini, recording each stage on the job."""
+    try:
+        # --- Step 1: Prepare Audio ---
+        upload, audio_data, file_name, mime_type = load_audio()
+        if len(audio_data) > MAX_AUDIO_BYTES:
+            raise HTTPException(status_code=413, detail="Audio file is larger than 100 MB.")
+        if not mime_type:
+            raise HTTPException(status_code=415, detail="Unsupported audio format. Use webm, m4a, mp3, ogg, wav or flac.")
+
+        # --- Step 2: Transcribe with Gemini (Pass 1) ---
+        enter_stage(job_id, "transcribing")
+        original_transcript, detected_languages = transcribe_audio(audio_data, mime_type, language)
+
+        # --- Step 3: Translate & Summarize with Gemini (Pass 2) ---
+        enter_stage(job_id, "summarizing")
+        structured_summary = summarize_transcript(original_transcript, template, output_language)
 
         # --- Step 4: Save to Supabase ---
+        enter_stage(job_id, "saving")
         db_data = {
             "user_id": user_id,
             "original_transcript": original_transcript,
             "structured_summary": structured_summary,
-            "client_name": client_name
+            "summary_language": output_language,
+            "spoken_language_hint": language if language in LANGUAGE_NAMES or language == MIXED_LANGUAGE else None,
+            "detected_languages": detected_languages,
+            "client_name": client_name,
+            "client_id": client_id or None,
+            "template_id": template["id"] if template else None,
+            "workspace_id": workspace_id or None,
         }
-        supabase.table("summaries").insert(db_data).execute()
+        audio_fields = store_audio(user_id, file_name, audio_data, mime_type)
+        try:
+            insert_result = supabase.table("summaries").insert({**db_data, **audio_fields}).execute()
+        except Exception:
+            # Without the note nothing points at the recording, and the purge would never find it
+            if audio_fields:
+                remove_stored_audio(audio_fields["audio_path"])
+            raise
+        saved = insert_result.data[0] if insert_result.data else None
 
-        # --- Step 5: Return the Final Summary ---
+        # The parts are only needed until the note exists. If anything above failed, they are
+        # kept so a retry can process the upload again without sending the audio a second time.
+        if upload:
+            try:
+                delete_upload(upload)
+            except Exception as e:
+                print(f"ERROR cleaning up upload {upload['id']}: {e}")
 
-        return {"structured_summary": structured_summary}
+        # --- Step 5: Mark the Job Done ---
+        update_job(job_id, stage="done", summary_id=saved["id"] if saved else None)
 
-    except HTTPException as http_exc: # Re-raise HTTP exceptions directly
-        raise http_exc
+    except JobCancelled:
+        print(f"Job {job_id} cancelled")
+    except HTTPException as http_exc:
+        detail = http_exc.detail if isinstance(http_exc.detail, dict) else {"message": http_exc.detail}
+        fail_job(job_id, http_exc.status_code, detail.get("code"), detail.get("message"))
     except Exception as e:
         # Provide more specific error detail if available
         error_detail = getattr(e, 'detail', str(e))
         print(f"ERROR processing audio: {error_detail}") # Log the error server-side
-        raise HTTPException(status_code=500, detail=f"An error occurred: {error_detail}")
+        fail_job(job_id, 500, None, f"An error occurred: {error_detail}")
+
+def purge_old_jobs():
+    """Finished jobs are only needed until the client has seen the result."""
+    cutoff = (datetime.now(timezone.utc) - timedelta(days=ABANDONED_UPLOAD_DAYS)).isoformat()
+    supabase.table("processing_jobs").delete().in_("stage", ["done", "failed", "cancelled"]).lt("updated_at", cutoff).execute()
+
+def start_job(*args):
+    task = asyncio.create_task(asyncio.to_thread(run_job, *args))
+    running_jobs.add(task)
+    task.add_done_callback(running_jobs.discard)
+
+@app.post("/process-audio/", status_code=202)
+async def process_audio(
+    # Either the whole recording, or the ID of a finished chunked upload
+    file: UploadFile = File(None),
+    upload_id: str = Form(None),
+    client_name: str = Form(None),
+    client_id: str = Form(None),
+    template_id: str = Form(None),
+    # The note goes into this workspace; without one it is personal
+    workspace_id: str = Form(None),
+    # Language code from LANGUAGE_NAMES, or "mixed"; anything else means detect it
+    language: str = Form(None),
+    # Language code from LANGUAGE_NAMES to write the summary in; defaults to English
+    output_language: str = Form("en"),
+    user = Depends(get_user_from_token),
+    aal: str = Depends(session_aal),
+):
+    """
+    Starts a job that transcribes, translates, summarizes, and saves the audio. Returns the job's status.
+    """
+    user_id = user.id
+
+    # Processing an upload a second time (a retry after a lost response) returns the same job,
+    # and only starts it again if it failed or was cancelled
+    job = None
+    if upload_id:
+        existing = supabase.table("processing_jobs").select("*").eq("upload_id", upload_id).eq("user_id", user_id).execute()
+        if existing.data:
+            job = existing.data[0]
+            if job["stage"] not in ("failed", "cancelled") and not is_stale(job):
+                return job_status(job)
+
+    if output_language not in LANGUAGE_NAMES:
+        raise HTTPException(status_code=400, detail="Unsupported summary language.")
+
+    template = get_template(template_id, user_id)
+    if workspace_id:
+        role = workspace_role(workspace_id, user_id)
+        if not role:
+            raise HTTPException(status_code=404, detail="Workspace not found.")
+        if role not in EDITOR_ROLES:
+            raise HTTPException(status_code=403, detail="Your role in this workspace can't add notes.")
+        require_workspace_mfa(workspace_id, aal)
+
+    # The note is filed under the client record; its name is copied onto the note.
+    # A workspace note needs one of the workspace's clients, a personal note one of the user's own.
+    if client_id:
+        client_query = supabase.table("clients").select("id, full_name").eq("id", client_id)
+        if workspace_id:
+            client_query = client_query.eq("workspace_id", workspace_id)
+        else:
+            client_query = client_query.eq("user_id", user_id).is_("workspace_id", "null")
+        client_result = client_query.execute()
+        if not client_result.data:
+            raise HTTPException(status_code=404, detail="Client not found.")
+        client_name = client_result.data[0]["full_name"]
+
+    if upload_id:
+        upload = get_upload(upload_id, user_id)
+        load_audio = lambda: (upload, assemble_upload(upload), upload["file_name"], upload["mime_type"])
+    elif file:
+        audio_data = await file.read()
+        mime_type = audio_mime_type(file.filename, file.content_type)
+        load_audio = lambda: (None, audio_data, file.filename, mime_type)
+    else:
+        raise HTTPException(status_code=400, detail="No audio was sent.")
+
+    job_fields = {
+        "stage": "queued",
+        "error_status": None,
+        "error_code": None,
+        "error_message": None,
+        "updated_at": datetime.now(timezone.utc).isoformat(),
+    }
+    if job:
+        job = supabase.table("processing_jobs").update(job_fields).eq("id", job["id"]).execute().data[0]
+    else:
+        job = supabase.table("processing_jobs").insert({**job_fields, "user_id": user_id, "upload_id": upload_id}).execute().data[0]
+
+    start_job(job["id"], user_id, workspace_id, client_name, client_id, template, language, output_language, load_audio)
+    return job_status(job)
+
+def get_job(job_id: str, user_id: str):
+    result = supabase.table("processing_jobs").select("*").eq("id", job_id).eq("user_id", user_id).execute()
+    if not result.data:
+        raise HTTPException(status_code=404, detail="Job not found.")
+    return result.data[0]
+
+@app.get("/jobs/{job_id}")
+async def get_job_status(job_id: str, user = Depends(get_user_from_token)):
+    return job_status(get_job(job_id, user.id))
+
+@app.post("/jobs/{job_id}/cancel")
+async def cancel_job(job_id: str, user = Depends(get_user_from_token)):
+    """Stops the job before its next stage. A note that is already being saved is kept."""
+    get_job(job_id, user.id)
+    # Only a job that hasn't reached "saving" by the time the update runs is cancelled
+    (
+        supabase.table("processing_jobs")
+        .update({"stage": "cancelled", "updated_at": datetime.now(timezone.utc).isoformat()})
+        .eq("id", job_id)
+        .in_("stage", ["queued", "transcribing", "summarizing"])
+        .execute()
+    )
+    return job_status(get_job(job_id, user.id))
+
+# --- 8. Trash ---
+# Notes are moved to the trash by setting deleted_at (the client does this directly, so it can be undone).
+# Anything left in the trash for TRASH_RETENTION_DAYS is deleted for good, recording included.
+TRASH_RETENTION_DAYS = 30
+
+def delete_notes(rows):
+    """Deletes notes and their recordings. Versions go with the note (on delete cascade)."""
+    paths = [row["audio_path"] for row in rows if row.get("audio_path")]
+    if paths:
+        supabase.storage.from_(AUDIO_BUCKET).remove(paths)
+    supabase.table("summaries").delete().in_("id", [row["id"] for row in rows]).execute()
+
+def purge_trash(batch_size: int = 500) -> int:
+    cutoff = (datetime.now(timezone.utc) - timedelta(days=TRASH_RETENTION_DAYS)).isoformat()
+    result = supabase.table("summaries").select("id, audio_path").lt("deleted_at", cutoff).limit(batch_size).execute()
+    rows = result.data or []
+    if rows:
+        delete_notes(rows)
+    return len(rows)
+
+@app.delete("/notes/{note_id}", status_code=204)
+async def delete_note_forever(note_id: str, user = Depends(get_user_from_token), aal: str = Depends(session_aal)):
+    """Deletes a note from the trash right away, e.g. a recording of the wrong patient."""
+    result = supabase.table("summaries").select("id, user_id, workspace_id, audio_path, deleted_at").eq("id", note_id).execute()
+    note = result.data[0] if result.data else None
+    # The author, or an owner or clinician of the note's workspace
+    if not note or (note["user_id"] != user.id and workspace_role(note["workspace_id"], user.id) not in EDITOR_ROLES):
+        raise HTTPException(status_code=404, detail="Note not found.")
+    require_workspace_mfa(note["workspace_id"], aal)
+    if not note["deleted_at"]:
+        raise HTTPException(status_code=409, detail="Move the note to the trash first.")
+    delete_notes(result.data)
 
 @app.get("/")
 def read_root():
@@ -0,0 +1,27 @@
+import unittest
+
+from languages import split_detected_languages
+
+class SplitDetectedLanguagesTest(unittest.TestCase):
+    def test_codes(self):
+        self.assertEqual(split_detected_languages("Hello there.\nLANGUAGES: tcy, kn"), ("Hello there.", ["tcy", "kn"]))
+
+    def test_no_languages_line(self):
+        self.assertEqual(split_detected_languages("  Hello there.  "), ("Hello there.", []))
+
+    def test_markdown_and_punctuation(self):
+        self.assertEqual(split_detected_languages("Hello there.\n**LANGUAGES:** kn and en."), ("Hello there.", ["kn", "en"]))
+
+    def test_english_names(self):
+        text = "Hello there.\nLanguages: Kannada, HINDI, tulu and English"
+        self.assertEqual(split_detected_languages(text), ("Hello there.", ["kn", "hi", "tcy", "en"]))
+
+    def test_native_names(self):
+        text = "Hello there.\nLANGUAGES: ಕನ್ನಡ, हिन्दी, हिंदी, ತುಳು"
+        self.assertEqual(split_detected_languages(text), ("Hello there.", ["kn", "hi", "tcy"]))
+
+    def test_unknown_languages(self):
+        self.assertEqual(split_detected_languages("Hello there.\nLANGUAGES: ta, Malayalam, kn"), ("Hello there.", ["other", "kn"]))
+
+if __name__ == "__main__":
+    unittest.main()
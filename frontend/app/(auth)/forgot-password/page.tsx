@@ -0,0 +1,52 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/utils/supabase/client'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import LanguageSwitcher from '@/app/components/LanguageSwitcher'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import { authCallbackUrl } from '@/lib/auth'
+
+type Message = { text: string; isError: boolean }
+
+export default function ForgotPassword() {
+    const [email, setEmail] = useState('')
+    const [message, setMessage] = useState<Message | null>(null)
+    const router = useRouter()
+    const supabase = createClient()
+    const { t } = useTranslation()
+
+    const handleReset = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setMessage(null)
+        // The emailed link signs the user in through the callback and opens the new-password form
+        const { error } = await supabase.auth.resetPasswordForEmail(email, {
+            redirectTo: authCallbackUrl('/update-password'),
+        })
+        if (error) setMessage({ text: t('forgotPassword.failed', { error: error.message }), isError: true })
+        else setMessage({ text: t('forgotPassword.sent'), isError: false })
+    }
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-background">
+            <LanguageSwitcher className="absolute top-4 right-4" />
+            <Card className="w-full max-w-sm">
+                <CardHeader><CardTitle className="text-2xl text-center">{t('forgotPassword.title')}</CardTitle></CardHeader>
+                <CardContent>
+                    <form onSubmit={handleReset}>
+                        <div className="grid gap-4">
+                            <div className="grid gap-2"><Label htmlFor="email">{t('auth.email')}</Label><Input id="email" type="email" placeholder={t('auth.emailPlaceholder')} required value={email} onChange={(e) => setEmail(e.target.value)} /></div>
+                            <Button type="submit" className="w-full">{t('forgotPassword.submit')}</Button>
+                            <Button type="button" variant="outline" className="w-full" onClick={() => router.push('/login')}>{t('forgotPassword.back')}</Button>
+                            {message && <p className={`text-sm text-center ${message.isError ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>}
+                        </div>
+                    </form>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
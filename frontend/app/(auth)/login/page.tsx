@@ -1,44 +1,96 @@
 'use client'
 
-import { useState } from 'react'
-import { useRouter } from 'next/navigation'
+import { Suspense, useState } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { createClient } from '@/utils/supabase/client'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import LanguageSwitcher from '@/app/components/LanguageSwitcher'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import { authCallbackUrl, safeNextPath } from '@/lib/auth'
 
-export default function Login() {
+type Message = { text: string; isError: boolean }
+
+// `next` is where the user was heading before middleware sent them here
+function LoginForm() {
     const [email, setEmail] = useState('')
     const [password, setPassword] = useState('')
-    const [message, setMessage] = useState('')
+    const [message, setMessage] = useState<Message | null>(null)
     const router = useRouter()
+    const next = safeNextPath(useSearchParams().get('next'))
     const supabase = createClient()
+    const { t } = useTranslation()
 
     const handleLogin = async (e: React.FormEvent) => {
         e.preventDefault()
-        setMessage('')
+        setMessage(null)
         const { error } = await supabase.auth.signInWithPassword({ email, password })
-        if (error) setMessage(`Login failed: ${error.message}`)
-        else { router.push('/'); router.refresh(); }
+        if (error) setMessage({ text: t('login.failed', { error: error.message }), isError: true })
+        // Middleware asks for the two-factor code (or its setup) before showing notes
+        else { router.push(next); router.refresh(); }
+    }
+
+    // Passwordless sign-in for existing accounts
+    const handleMagicLink = async () => {
+        setMessage(null)
+        if (!email) {
+            setMessage({ text: t('login.enterEmailFirst'), isError: true })
+            return
+        }
+        const { error } = await supabase.auth.signInWithOtp({
+            email,
+            options: { emailRedirectTo: authCallbackUrl(next), shouldCreateUser: false },
+        })
+        if (error) setMessage({ text: t('login.linkFailed', { error: error.message }), isError: true })
+        else setMessage({ text: t('login.linkSent'), isError: false })
+    }
+
+    const handleGoogle = async () => {
+        setMessage(null)
+        const { error } = await supabase.auth.signInWithOAuth({
+            provider: 'google',
+            options: { redirectTo: authCallbackUrl(next) },
+        })
+        if (error) setMessage({ text: t('login.googleFailed', { error: error.message }), isError: true })
     }
 
     return (
-        <div className="flex items-center justify-center min-h-screen bg-gray-100">
+        <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-background">
+            <LanguageSwitcher className="absolute top-4 right-4" />
             <Card className="w-full max-w-sm">
-                <CardHeader><CardTitle className="text-2xl text-center">Login to JanScribe</CardTitle></CardHeader>
+                <CardHeader><CardTitle className="text-2xl text-center">{t('login.title')}</CardTitle></CardHeader>
                 <CardContent>
                     <form onSubmit={handleLogin}>
                         <div className="grid gap-4">
-                            <div className="grid gap-2"><Label htmlFor="email">Email</Label><Input id="email" type="email" placeholder="name@example.com" required value={email} onChange={(e) => setEmail(e.target.value)} /></div>
-                            <div className="grid gap-2"><Label htmlFor="password">Password</Label><Input id="password" type="password" required value={password} onChange={(e) => setPassword(e.target.value)} /></div>
-                            <Button type="submit" className="w-full">Login</Button>
-                            <Button variant="outline" className="w-full" onClick={() => router.push('/signup')}>Don't have an account? Sign Up</Button>
-                            {message && <p className="text-sm text-center text-red-600">{message}</p>}
+                            <div className="grid gap-2"><Label htmlFor="email">{t('auth.email')}</Label><Input id="email" type="email" placeholder={t('auth.emailPlaceholder')} required value={email} onChange={(e) => setEmail(e.target.value)} /></div>
+                            <div className="grid gap-2">
+                                <div className="flex justify-between items-center">
+                                    <Label htmlFor="password">{t('auth.password')}</Label>
+                                    <Link href="/forgot-password" className="text-xs text-blue-600 hover:underline">{t('login.forgotPassword')}</Link>
+                                </div>
+                                <Input id="password" type="password" required value={password} onChange={(e) => setPassword(e.target.value)} />
+                            </div>
+                            <Button type="submit" className="w-full">{t('login.submit')}</Button>
+                            <Button type="button" variant="outline" className="w-full" onClick={handleMagicLink}>{t('login.magicLink')}</Button>
+                            <Button type="button" variant="outline" className="w-full" onClick={handleGoogle}>{t('login.google')}</Button>
+                            <Button type="button" variant="outline" className="w-full" onClick={() => router.push(`/signup?next=${encodeURIComponent(next)}`)}>{t('login.toSignup')}</Button>
+                            {message && <p className={`text-sm text-center ${message.isError ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>}
                         </div>
                     </form>
                 </CardContent>
             </Card>
         </div>
     )
-}
\ No newline at end of file
+}
+
+// useSearchParams needs a Suspense boundary in a prerendered page
+export default function Login() {
+    return (
+        <Suspense>
+            <LoginForm />
+        </Suspense>
+    )
+}
@@ -0,0 +1,12 @@
+import MfaChallenge from '@/app/components/MfaChallenge'
+import { safeNextPath } from '@/lib/auth'
+
+type MfaPageProps = {
+  searchParams: Promise<{ next?: string }>
+}
+
+export default async function MfaPage({ searchParams }: MfaPageProps) {
+  // Middleware sends users here on their way to a page with patient notes
+  const { next } = await searchParams
+  return <MfaChallenge next={safeNextPath(next)} />
+}
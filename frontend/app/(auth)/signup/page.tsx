@@ -1,48 +1,66 @@
 'use client'
 
-import { useState } from 'react'
-import { useRouter } from 'next/navigation'
+import { Suspense, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { createClient } from '@/utils/supabase/client'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import LanguageSwitcher from '@/app/components/LanguageSwitcher'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import { authCallbackUrl, safeNextPath } from '@/lib/auth'
 
-export default function Signup() {
+type Message = { text: string; isError: boolean }
+
+// `next` is where the user was heading before middleware sent them here
+function SignupForm() {
     const [email, setEmail] = useState('')
     const [password, setPassword] = useState('')
-    const [message, setMessage] = useState('')
+    const [message, setMessage] = useState<Message | null>(null)
     const router = useRouter()
+    const next = safeNextPath(useSearchParams().get('next'))
     const supabase = createClient()
+    const { t } = useTranslation()
 
     const handleSignUp = async (e: React.FormEvent) => {
         e.preventDefault()
-        setMessage('')
+        setMessage(null)
         const { error } = await supabase.auth.signUp({
             email,
             password,
-            options: { emailRedirectTo: `${location.origin}/auth/callback` },
+            options: { emailRedirectTo: authCallbackUrl(next) },
         })
-        if (error) setMessage(`Signup failed: ${error.message}`)
-        else setMessage('Signup successful! Please check your email to confirm.')
+        if (error) setMessage({ text: t('signup.failed', { error: error.message }), isError: true })
+        else setMessage({ text: t('signup.succeeded'), isError: false })
     }
 
     return (
-        <div className="flex items-center justify-center min-h-screen bg-gray-100">
+        <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-background">
+            <LanguageSwitcher className="absolute top-4 right-4" />
             <Card className="w-full max-w-sm">
-                <CardHeader><CardTitle className="text-2xl text-center">Sign Up for JanScribe</CardTitle></CardHeader>
+                <CardHeader><CardTitle className="text-2xl text-center">{t('signup.title')}</CardTitle></CardHeader>
                 <CardContent>
                     <form onSubmit={handleSignUp}>
                         <div className="grid gap-4">
-                            <div className="grid gap-2"><Label htmlFor="email">Email</Label><Input id="email" type="email" placeholder="name@example.com" required value={email} onChange={(e) => setEmail(e.target.value)} /></div>
-                            <div className="grid gap-2"><Label htmlFor="password">Password</Label><Input id="password" type="password" required value={password} onChange={(e) => setPassword(e.target.value)} /></div>
-                            <Button type="submit" className="w-full">Sign Up</Button>
-                            <Button variant="outline" className="w-full" onClick={() => router.push('/login')}>Already have an account? Log In</Button>
-                            {message && <p className="text-sm text-center text-red-600">{message}</p>}
+                            <div className="grid gap-2"><Label htmlFor="email">{t('auth.email')}</Label><Input id="email" type="email" placeholder={t('auth.emailPlaceholder')} required value={email} onChange={(e) => setEmail(e.target.value)} /></div>
+                            <div className="grid gap-2"><Label htmlFor="password">{t('auth.password')}</Label><Input id="password" type="password" required value={password} onChange={(e) => setPassword(e.target.value)} /></div>
+                            <Button type="submit" className="w-full">{t('signup.submit')}</Button>
+                            <Button type="button" variant="outline" className="w-full" onClick={() => router.push(`/login?next=${encodeURIComponent(next)}`)}>{t('signup.toLogin')}</Button>
+                            {message && <p className={`text-sm text-center ${message.isError ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>}
                         </div>
                     </form>
                 </CardContent>
             </Card>
         </div>
     )
-}
\ No newline at end of file
+}
+
+// useSearchParams needs a Suspense boundary in a prerendered page
+export default function Signup() {
+    return (
+        <Suspense>
+            <SignupForm />
+        </Suspense>
+    )
+}
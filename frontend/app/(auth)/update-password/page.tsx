@@ -0,0 +1,59 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { createClient } from '@/utils/supabase/client'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useTranslation } from '@/app/components/LocaleProvider'
+
+// Reached from the reset email through /auth/callback, or from the security page.
+// Middleware makes sure the user is signed in (and has entered their two-factor code).
+export default function UpdatePassword() {
+    const [password, setPassword] = useState('')
+    const [confirmation, setConfirmation] = useState('')
+    const [message, setMessage] = useState('')
+    const [isSaving, setIsSaving] = useState(false)
+    const router = useRouter()
+    const supabase = createClient()
+    const { t } = useTranslation()
+
+    const handleUpdate = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setMessage('')
+        if (password !== confirmation) {
+            setMessage(t('updatePassword.mismatch'))
+            return
+        }
+        setIsSaving(true)
+        const { error } = await supabase.auth.updateUser({ password })
+        setIsSaving(false)
+        if (error) setMessage(t('updatePassword.failed', { error: error.message }))
+        else {
+            toast.success(t('updatePassword.updated'))
+            router.push('/')
+            router.refresh()
+        }
+    }
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-background">
+            <Card className="w-full max-w-sm">
+                <CardHeader><CardTitle className="text-2xl text-center">{t('updatePassword.title')}</CardTitle></CardHeader>
+                <CardContent>
+                    <form onSubmit={handleUpdate}>
+                        <div className="grid gap-4">
+                            <div className="grid gap-2"><Label htmlFor="password">{t('updatePassword.newPassword')}</Label><Input id="password" type="password" autoComplete="new-password" required value={password} onChange={(e) => setPassword(e.target.value)} /></div>
+                            <div className="grid gap-2"><Label htmlFor="confirmation">{t('updatePassword.confirmation')}</Label><Input id="confirmation" type="password" autoComplete="new-password" required value={confirmation} onChange={(e) => setConfirmation(e.target.value)} /></div>
+                            <Button type="submit" className="w-full" disabled={isSaving}>{isSaving ? t('common.saving') : t('updatePassword.submit')}</Button>
+                            {message && <p className="text-sm text-center text-red-600">{message}</p>}
+                        </div>
+                    </form>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
@@ -2,13 +2,35 @@ import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
 import { cookies } from 'next/headers'
 import { NextResponse } from 'next/server'
 import { NextRequest } from 'next/server'
+import { safeNextPath } from '@/lib/auth'
 
+// Landing point for signup confirmations, magic links, password resets and Google sign-in.
+// Each arrives with a one-time code; `next` says where to go once the session has started.
 export async function GET(request: NextRequest) {
     const requestUrl = new URL(request.url)
     const code = requestUrl.searchParams.get('code')
-    if (code) {
-        const supabase = createRouteHandlerClient({ cookies })
-        await supabase.auth.exchangeCodeForSession(code)
+    const next = safeNextPath(requestUrl.searchParams.get('next'))
+
+    const fail = (reason: string) => {
+        const url = new URL('/auth/error', requestUrl.origin)
+        url.searchParams.set('reason', reason)
+        url.searchParams.set('next', next)
+        return NextResponse.redirect(url)
     }
-    return NextResponse.redirect(requestUrl.origin)
-}
\ No newline at end of file
+
+    // Supabase reports expired links and cancelled Google sign-ins as error parameters instead of a code
+    const providerError = requestUrl.searchParams.get('error_code') ?? requestUrl.searchParams.get('error')
+    if (providerError) return fail(providerError)
+    if (!code) return fail('missing_code')
+
+    // Same as utils/supabase/server: resolve the async cookie store before handing it over
+    const cookieStore = await cookies()
+    const supabase = createRouteHandlerClient({
+        cookies: () => cookieStore as unknown as ReturnType<typeof cookies>,
+    })
+    const { error } = await supabase.auth.exchangeCodeForSession(code)
+    // Usually a link opened twice, or in a different browser from the one that asked for it
+    if (error) return fail(error.code ?? 'exchange_failed')
+
+    return NextResponse.redirect(new URL(next, requestUrl.origin))
+}
@@ -0,0 +1,51 @@
+import { cookies } from 'next/headers'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { safeNextPath } from '@/lib/auth'
+import { DEFAULT_LOCALE, isLocale, LOCALE_COOKIE, translate, type MessageKey } from '@/lib/i18n'
+
+type AuthErrorPageProps = {
+  searchParams: Promise<{ reason?: string; next?: string }>
+}
+
+// Reasons /auth/callback passes along; Supabase error codes or our own
+const REASON_MESSAGES: Record<string, MessageKey> = {
+  otp_expired: 'authError.otpExpired',
+  flow_state_expired: 'authError.flowStateExpired',
+  flow_state_not_found: 'authError.flowStateNotFound',
+  // The code verifier lives in the browser that asked for the link
+  bad_code_verifier: 'authError.otherBrowser',
+  pkce_code_verifier_not_found: 'authError.otherBrowser',
+  access_denied: 'authError.accessDenied',
+  missing_code: 'authError.missingCode',
+  // Set by middleware when Supabase couldn't say whether the session passed two-factor authentication
+  mfa_check_failed: 'authError.mfaCheckFailed',
+}
+
+export default async function AuthErrorPage({ searchParams }: AuthErrorPageProps) {
+  const { reason, next } = await searchParams
+  const savedLocale = (await cookies()).get(LOCALE_COOKIE)?.value
+  const locale = isLocale(savedLocale) ? savedLocale : DEFAULT_LOCALE
+  const t = (key: MessageKey, vars?: Record<string, string>) => translate(locale, key, vars)
+  const message = t((reason && REASON_MESSAGES[reason]) || 'authError.generic')
+  // Keep the page the user was heading to for their next attempt
+  const loginHref = `/login?next=${encodeURIComponent(safeNextPath(next))}`
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-background">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-xl text-center">{t('authError.title')}</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 text-center">
+          <p className="text-gray-600">{message}</p>
+          {reason && <p className="text-xs text-gray-400">{t('authError.reason', { reason })}</p>}
+          <div className="flex justify-center gap-4 text-sm">
+            <Link href={loginHref} className="text-blue-600 hover:underline">{t('authError.backToLogin')}</Link>
+            <Link href="/forgot-password" className="text-blue-600 hover:underline">{t('authError.resetPassword')}</Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
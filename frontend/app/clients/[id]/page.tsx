@@ -0,0 +1,27 @@
+import { cookies } from 'next/headers'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/utils/supabase/server'
+import ClientTimeline from '@/app/components/ClientTimeline'
+import { fetchClientWithNotes } from '@/lib/clients'
+import { DEFAULT_LOCALE, isLocale, LOCALE_COOKIE } from '@/lib/i18n'
+import { DEFAULT_PREFERENCES, fetchPreferences } from '@/lib/preferences'
+
+export default async function ClientPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  // RLS limits this to the signed-in user's own clients and those of their workspaces
+  const result = await fetchClientWithNotes(supabase, id)
+  if (!result) notFound()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  const preferences = user ? await fetchPreferences(supabase, user.id) : DEFAULT_PREFERENCES
+  const savedLocale = (await cookies()).get(LOCALE_COOKIE)?.value
+  const locale = isLocale(savedLocale) ? savedLocale : DEFAULT_LOCALE
+
+  return (
+    <main className="min-h-screen bg-gray-50 dark:bg-background">
+      <ClientTimeline client={result.client} notes={result.notes} dateFormat={preferences.date_format} locale={locale} />
+    </main>
+  )
+}
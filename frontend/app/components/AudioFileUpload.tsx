@@ -0,0 +1,240 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import {
+    AUDIO_FILE_ACCEPT,
+    checkAudioFile,
+    formatDuration,
+    formatFileSize,
+    MAX_AUDIO_DURATION_SECONDS,
+    MAX_AUDIO_FILE_BYTES,
+    type AudioFileProblem,
+    type CheckedAudioFile,
+} from '@/lib/audio-files'
+import type { MessageKey } from '@/lib/i18n'
+import type { QueuedRecording } from '@/lib/offline-queue'
+
+type SelectedFile = {
+    key: string
+    file: File
+    previewUrl: string
+    // null while the file is being checked
+    checked: CheckedAudioFile | null
+    // Set once the file has been handed to the upload queue
+    queueId: string | null
+}
+
+type FileStatus = 'checking' | 'invalid' | 'ready' | 'pending' | 'uploading' | 'failed' | 'done' | 'discarded'
+
+const statusStyles: Record<FileStatus, string> = {
+    checking: 'bg-gray-100 text-gray-600',
+    invalid: 'bg-red-100 text-red-800',
+    ready: 'bg-gray-100 text-gray-800',
+    pending: 'bg-amber-100 text-amber-800',
+    uploading: 'bg-blue-100 text-blue-800',
+    failed: 'bg-red-100 text-red-800',
+    done: 'bg-green-100 text-green-800',
+    discarded: 'bg-gray-100 text-gray-500',
+}
+
+const STATUS_LABELS: Record<FileStatus, MessageKey> = {
+    checking: 'fileUpload.status.checking',
+    invalid: 'fileUpload.status.invalid',
+    ready: 'fileUpload.status.ready',
+    pending: 'fileUpload.status.pending',
+    uploading: 'fileUpload.status.uploading',
+    failed: 'fileUpload.status.failed',
+    done: 'fileUpload.status.done',
+    discarded: 'fileUpload.status.discarded',
+}
+
+const PROBLEM_MESSAGES: Record<AudioFileProblem, MessageKey> = {
+    unsupported: 'fileUpload.problem.unsupported',
+    empty: 'fileUpload.problem.empty',
+    tooLarge: 'fileUpload.problem.tooLarge',
+    tooLong: 'fileUpload.problem.tooLong',
+    tooShort: 'fileUpload.problem.tooShort',
+}
+
+// Filled into the problem messages and the hint under the drop zone
+const LIMITS = {
+    size: formatFileSize(MAX_AUDIO_FILE_BYTES),
+    duration: formatDuration(MAX_AUDIO_DURATION_SECONDS),
+    minutes: MAX_AUDIO_DURATION_SECONDS / 60,
+}
+
+export type AudioFileToProcess = { audio: Blob; fileName: string }
+
+type AudioFileUploadProps = {
+    queue: QueuedRecording[]
+    // Queue entries the backend has turned into notes
+    completedIds: Set<string>
+    // Queues the files; resolves with each file's queue entry ID, or null if it couldn't be queued
+    onProcess: (files: AudioFileToProcess[]) => Promise<(string | null)[]>
+    disabled?: boolean
+}
+
+// Drag-and-drop / file-picker alternative to live recording, for audio recorded elsewhere
+export default function AudioFileUpload({ queue, completedIds, onProcess, disabled = false }: AudioFileUploadProps) {
+    const { t } = useTranslation()
+    const [files, setFiles] = useState<SelectedFile[]>([])
+    const [isDragging, setIsDragging] = useState(false)
+    const [isQueueing, setIsQueueing] = useState(false)
+    const inputRef = useRef<HTMLInputElement>(null)
+
+    // Release the preview URLs when the component goes away
+    const filesRef = useRef(files)
+    useEffect(() => {
+        filesRef.current = files
+    })
+    useEffect(() => () => filesRef.current.forEach((f) => URL.revokeObjectURL(f.previewUrl)), [])
+
+    const statusOf = (file: SelectedFile): FileStatus => {
+        if (!file.checked) return 'checking'
+        if (file.checked.error) return 'invalid'
+        if (!file.queueId) return 'ready'
+        if (completedIds.has(file.queueId)) return 'done'
+        return queue.find((entry) => entry.id === file.queueId)?.status ?? 'discarded'
+    }
+
+    const addFiles = (list: FileList | null) => {
+        if (!list || list.length === 0) return
+        const added = Array.from(list).map((file) => ({
+            key: crypto.randomUUID(),
+            file,
+            previewUrl: URL.createObjectURL(file),
+            checked: null,
+            queueId: null,
+        }))
+        setFiles((prev) => [...prev, ...added])
+
+        for (const item of added) {
+            void checkAudioFile(item.file).then((checked) => {
+                setFiles((prev) => prev.map((f) => (f.key === item.key ? { ...f, checked } : f)))
+            })
+        }
+    }
+
+    const removeFile = (key: string) => {
+        setFiles((prev) => {
+            const file = prev.find((f) => f.key === key)
+            if (file) URL.revokeObjectURL(file.previewUrl)
+            return prev.filter((f) => f.key !== key)
+        })
+    }
+
+    const readyFiles = files.filter((f) => statusOf(f) === 'ready')
+    const finishedFiles = files.filter((f) => ['invalid', 'done', 'discarded'].includes(statusOf(f)))
+
+    const handleProcess = async () => {
+        setIsQueueing(true)
+        try {
+            const ids = await onProcess(
+                readyFiles.map((f) => ({ audio: f.checked?.audio ?? f.file, fileName: f.file.name }))
+            )
+            const queued = new Map(readyFiles.map((f, i) => [f.key, ids[i]]))
+            setFiles((prev) => prev.map((f) => (queued.get(f.key) ? { ...f, queueId: queued.get(f.key) ?? null } : f)))
+        } finally {
+            setIsQueueing(false)
+        }
+    }
+
+    return (
+        <div className="grid gap-3">
+            <div
+                onDragOver={(e) => {
+                    e.preventDefault()
+                    setIsDragging(true)
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={(e) => {
+                    e.preventDefault()
+                    setIsDragging(false)
+                    if (!disabled) addFiles(e.dataTransfer.files)
+                }}
+                className={`flex flex-col items-center gap-2 rounded-md border-2 border-dashed p-6 text-center text-sm transition-colors ${
+                    isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
+                }`}
+            >
+                <p className="text-gray-600">{t('fileUpload.drop')}</p>
+                <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={disabled}>
+                    {t('fileUpload.choose')}
+                </Button>
+                <p className="text-xs text-gray-500">{t('fileUpload.limits', LIMITS)}</p>
+                <input
+                    ref={inputRef}
+                    type="file"
+                    accept={AUDIO_FILE_ACCEPT}
+                    multiple
+                    hidden
+                    onChange={(e) => {
+                        addFiles(e.target.files)
+                        // Lets the same file be picked again after removing it
+                        e.target.value = ''
+                    }}
+                />
+            </div>
+
+            {files.length > 0 && (
+                <ul className="grid gap-2">
+                    {files.map((file) => {
+                        const status = statusOf(file)
+                        return (
+                            <li key={file.key} className="grid gap-2 rounded-md border p-3">
+                                <div className="flex items-center justify-between gap-2">
+                                    <div className="grid min-w-0">
+                                        <span className="truncate text-sm font-medium">{file.file.name}</span>
+                                        <span className="text-xs text-gray-500">
+                                            {formatFileSize(file.file.size)}
+                                            {file.checked?.duration != null && ` · ${formatDuration(file.checked.duration)}`}
+                                        </span>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <span className={`rounded px-2 py-0.5 text-xs font-medium ${statusStyles[status]}`}>
+                                            {t(STATUS_LABELS[status])}
+                                        </span>
+                                        {['checking', 'invalid', 'ready', 'done', 'discarded'].includes(status) && (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() => removeFile(file.key)}
+                                                aria-label={t('fileUpload.remove', { file: file.file.name })}
+                                            >
+                                                ✕
+                                            </Button>
+                                        )}
+                                    </div>
+                                </div>
+                                {file.checked?.error && (
+                                    <span className="text-xs text-red-600">{t(PROBLEM_MESSAGES[file.checked.error], LIMITS)}</span>
+                                )}
+                                {status !== 'invalid' && (
+                                    <audio controls preload="metadata" src={file.previewUrl} className="h-8 w-full" />
+                                )}
+                            </li>
+                        )
+                    })}
+                </ul>
+            )}
+
+            {files.length > 0 && (
+                <div className="flex gap-2">
+                    <Button onClick={handleProcess} disabled={disabled || isQueueing || readyFiles.length === 0}>
+                        {isQueueing
+                            ? t('fileUpload.queueing')
+                            : readyFiles.length === 1
+                                ? t('fileUpload.processOne')
+                                : t('fileUpload.processMany', { count: readyFiles.length })}
+                    </Button>
+                    {finishedFiles.length > 0 && (
+                        <Button variant="ghost" onClick={() => finishedFiles.forEach((f) => removeFile(f.key))}>
+                            {t('fileUpload.clearFinished')}
+                        </Button>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
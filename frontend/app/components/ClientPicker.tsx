@@ -0,0 +1,245 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/utils/supabase/client'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import { addClient, clientAge, searchClients, type NewClient } from '@/lib/clients'
+import type { Client } from '@/lib/types'
+
+type ClientPickerProps = {
+    // Picks from and adds to this workspace's clients; null for personal ones
+    workspaceId: string | null
+    value: Client | null
+    onChange: (client: Client | null) => void
+}
+
+const SEARCH_DEBOUNCE_MS = 250
+
+// Autocomplete over the workspace's (or the user's own) clients, with an inline form to add a new one
+export default function ClientPicker({ workspaceId, value, onChange }: ClientPickerProps) {
+    const [query, setQuery] = useState('')
+    const [results, setResults] = useState<Client[]>([])
+    const [isOpen, setIsOpen] = useState(false)
+    const [highlighted, setHighlighted] = useState(0)
+    const [draft, setDraft] = useState<NewClient | null>(null)
+    const [isCreating, setIsCreating] = useState(false)
+
+    const supabase = createClient()
+    const { t } = useTranslation()
+
+    const describeClient = (client: Client) => {
+        const age = clientAge(client.date_of_birth)
+        return [
+            age !== null && t('clients.age', { age }),
+            client.sex && t(`clients.sex.${client.sex}`),
+            client.external_id && t('clients.externalIdValue', { id: client.external_id }),
+        ].filter(Boolean).join(' · ')
+    }
+
+    useEffect(() => {
+        const term = query.trim()
+        if (!term) return
+        let cancelled = false
+        const timer = setTimeout(async () => {
+            try {
+                const clients = await searchClients(supabase, term, workspaceId)
+                if (!cancelled) {
+                    setResults(clients)
+                    setHighlighted(0)
+                }
+            } catch {
+                if (!cancelled) setResults([])
+            }
+        }, SEARCH_DEBOUNCE_MS)
+        return () => {
+            cancelled = true
+            clearTimeout(timer)
+        }
+    }, [query, workspaceId, supabase])
+
+    const visibleResults = query.trim() ? results : []
+    // The last option is always "create new client"
+    const optionCount = visibleResults.length + 1
+
+    const select = (client: Client) => {
+        onChange(client)
+        setQuery('')
+        setIsOpen(false)
+    }
+
+    const startCreate = () => {
+        setDraft({ full_name: query.trim(), date_of_birth: null, sex: null, phone: null, external_id: null })
+        setIsOpen(false)
+    }
+
+    const handleCreate = async () => {
+        if (!draft?.full_name.trim()) return
+        setIsCreating(true)
+        try {
+            const client = await addClient(supabase, {
+                ...draft,
+                external_id: draft.external_id?.trim() || null,
+                phone: draft.phone?.trim() || null,
+            }, workspaceId)
+            setDraft(null)
+            select(client)
+            toast.success(t('toast.clientAdded'), { description: client.full_name })
+        } catch (error) {
+            toast.error(t('toast.addClientFailed'), {
+                description: error instanceof Error ? error.message : t('common.tryAgain'),
+            })
+        } finally {
+            setIsCreating(false)
+        }
+    }
+
+    // --- Selected client ---
+    if (value) {
+        return (
+            <div className="flex items-center justify-between gap-2 rounded-md border px-3 py-2">
+                <div className="grid">
+                    <span className="text-sm font-medium">{value.full_name}</span>
+                    <span className="text-xs text-gray-500">{describeClient(value)}</span>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => onChange(null)}>
+                    {t('clients.change')}
+                </Button>
+            </div>
+        )
+    }
+
+    // --- New client form ---
+    if (draft) {
+        return (
+            <div className="grid gap-3 rounded-md border p-3">
+                <div className="grid gap-1">
+                    <Label htmlFor="new-client-name">{t('clients.fullName')}</Label>
+                    <Input
+                        id="new-client-name"
+                        value={draft.full_name}
+                        onChange={(e) => setDraft({ ...draft, full_name: e.target.value })}
+                        autoFocus
+                    />
+                </div>
+                <div className="grid gap-3 sm:grid-cols-3">
+                    <div className="grid gap-1">
+                        <Label htmlFor="new-client-dob">{t('clients.dateOfBirth')}</Label>
+                        <Input
+                            id="new-client-dob"
+                            type="date"
+                            value={draft.date_of_birth ?? ''}
+                            onChange={(e) => setDraft({ ...draft, date_of_birth: e.target.value || null })}
+                        />
+                    </div>
+                    <div className="grid gap-1">
+                        <Label htmlFor="new-client-sex">{t('clients.sex')}</Label>
+                        <select
+                            id="new-client-sex"
+                            className="h-9 rounded-md border bg-transparent px-2 text-sm"
+                            value={draft.sex ?? ''}
+                            onChange={(e) => setDraft({ ...draft, sex: (e.target.value || null) as NewClient['sex'] })}
+                        >
+                            <option value="">—</option>
+                            <option value="female">{t('clients.sex.female')}</option>
+                            <option value="male">{t('clients.sex.male')}</option>
+                            <option value="other">{t('clients.sex.other')}</option>
+                        </select>
+                    </div>
+                    <div className="grid gap-1">
+                        <Label htmlFor="new-client-external-id">{t('clients.externalId')}</Label>
+                        <Input
+                            id="new-client-external-id"
+                            placeholder={t('clients.externalIdPlaceholder')}
+                            value={draft.external_id ?? ''}
+                            onChange={(e) => setDraft({ ...draft, external_id: e.target.value })}
+                        />
+                    </div>
+                </div>
+                <div className="grid gap-1">
+                    <Label htmlFor="new-client-phone">{t('clients.phone')}</Label>
+                    <Input
+                        id="new-client-phone"
+                        type="tel"
+                        value={draft.phone ?? ''}
+                        onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+                    />
+                </div>
+                <div className="flex gap-2">
+                    <Button size="sm" onClick={handleCreate} disabled={isCreating || !draft.full_name.trim()}>
+                        {isCreating ? t('common.saving') : t('clients.add')}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setDraft(null)} disabled={isCreating}>
+                        {t('common.cancel')}
+                    </Button>
+                </div>
+            </div>
+        )
+    }
+
+    // --- Search box with suggestions ---
+    return (
+        <div className="relative">
+            <Input
+                id="client-name"
+                placeholder={t('clients.searchPlaceholder')}
+                value={query}
+                role="combobox"
+                aria-expanded={isOpen}
+                aria-autocomplete="list"
+                onChange={(e) => {
+                    setQuery(e.target.value)
+                    setIsOpen(true)
+                }}
+                onFocus={() => setIsOpen(true)}
+                onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+                onKeyDown={(e) => {
+                    if (!isOpen || !query.trim()) return
+                    if (e.key === 'ArrowDown') {
+                        e.preventDefault()
+                        setHighlighted((h) => (h + 1) % optionCount)
+                    } else if (e.key === 'ArrowUp') {
+                        e.preventDefault()
+                        setHighlighted((h) => (h - 1 + optionCount) % optionCount)
+                    } else if (e.key === 'Enter') {
+                        e.preventDefault()
+                        if (highlighted < visibleResults.length) select(visibleResults[highlighted])
+                        else startCreate()
+                    } else if (e.key === 'Escape') {
+                        setIsOpen(false)
+                    }
+                }}
+            />
+            {isOpen && query.trim() && (
+                <ul role="listbox" className="absolute z-10 mt-1 w-full rounded-md border bg-white dark:bg-popover shadow-md py-1">
+                    {visibleResults.map((client, i) => (
+                        <li
+                            key={client.id}
+                            role="option"
+                            aria-selected={i === highlighted}
+                            className={`cursor-pointer px-3 py-2 ${i === highlighted ? 'bg-gray-100 dark:bg-muted' : ''}`}
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={() => select(client)}
+                        >
+                            <div className="text-sm">{client.full_name}</div>
+                            <div className="text-xs text-gray-500">{describeClient(client)}</div>
+                        </li>
+                    ))}
+                    <li
+                        role="option"
+                        aria-selected={highlighted === visibleResults.length}
+                        className={`cursor-pointer px-3 py-2 text-sm text-blue-600 ${highlighted === visibleResults.length ? 'bg-gray-100 dark:bg-muted' : ''}`}
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={startCreate}
+                    >
+                        {t('clients.create', { name: query.trim() })}
+                    </li>
+                </ul>
+            )}
+        </div>
+    )
+}
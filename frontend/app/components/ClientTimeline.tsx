@@ -0,0 +1,78 @@
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { clientAge } from '@/lib/clients'
+import { formatDate } from '@/lib/dates'
+import { INTL_LOCALES, translate, type Locale, type MessageKey } from '@/lib/i18n'
+import { formatNoteDate } from '@/lib/pdf'
+import type { Client, DateFormat, Summary } from '@/lib/types'
+
+type ClientTimelineProps = {
+    client: Client
+    notes: Summary[] // newest first
+    dateFormat: DateFormat
+    // The interface language
+    locale: Locale
+}
+
+// First few lines of a summary, for the timeline
+const preview = (summary: string, lines = 4) =>
+    summary.split('\n').map((line) => line.trim()).filter(Boolean).slice(0, lines).join('\n')
+
+// A client's demographics and every visit recorded for them, newest first
+export default function ClientTimeline({ client, notes, dateFormat, locale }: ClientTimelineProps) {
+    const t = (key: MessageKey, vars?: Record<string, string | number>) => translate(locale, key, vars)
+    const intlLocale = INTL_LOCALES[locale]
+    const age = clientAge(client.date_of_birth)
+    const born = client.date_of_birth && formatDate(client.date_of_birth, dateFormat, intlLocale)
+    const details = [
+        born && (age !== null ? t('clients.bornAge', { date: born, age }) : t('clients.born', { date: born })),
+        client.sex && t(`clients.sex.${client.sex}`),
+        client.external_id && t('clients.externalIdValue', { id: client.external_id }),
+        client.phone,
+    ].filter(Boolean)
+
+    return (
+        <div className="w-full max-w-4xl mx-auto p-4 md:p-8">
+            <header className="mb-6">
+                <Link href="/" className="text-sm text-blue-600 hover:underline">
+                    {t('noteDetail.back')}
+                </Link>
+                <h1 className="text-3xl font-bold mt-1">{client.full_name}</h1>
+                {details.length > 0 && <p className="text-sm text-gray-500">{details.join(' · ')}</p>}
+            </header>
+
+            <h2 className="text-2xl font-semibold mb-4">
+                {t('clients.visits')} <span className="text-base font-normal text-gray-500">({notes.length})</span>
+            </h2>
+
+            {notes.length === 0 ? (
+                <p className="text-gray-500">{t('clients.noVisits')}</p>
+            ) : (
+                <ol className="relative border-l border-gray-200 ml-2 grid gap-6">
+                    {notes.map((note) => (
+                        <li key={note.id} className="ml-6">
+                            <span className="absolute -left-1.5 mt-5 size-3 rounded-full border-2 border-white bg-blue-600" />
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex justify-between items-center">
+                                        <span className="font-medium">
+                                            {formatNoteDate(note.created_at, dateFormat, intlLocale)}
+                                        </span>
+                                        <Link href={`/notes/${note.id}`} className="text-sm font-normal text-blue-600 hover:underline">
+                                            {t('clients.openNote')}
+                                        </Link>
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                    <p className="font-mono text-sm whitespace-pre-wrap text-gray-700">
+                                        {preview(note.structured_summary)}
+                                    </p>
+                                </CardContent>
+                            </Card>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    )
+}
@@ -1,15 +1,13 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
-import { useRouter } from 'next/navigation'
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react'
+import { useRouter, usePathname, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
 import { createClient } from '@/utils/supabase/client'
-import { jsPDF } from 'jspdf'
 import { motion, AnimatePresence } from 'framer-motion' // <-- Import motion and AnimatePresence
 
 // Import UI components
 import { Button } from '@/components/ui/button'
-import { Textarea } from '@/components/ui/textarea'
-import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import {
@@ -22,178 +20,479 @@ import {
     AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
 import { toast } from 'sonner' // <-- Use sonner for notifications
+import AudioFileUpload, { type AudioFileToProcess } from '@/app/components/AudioFileUpload'
+import ClientPicker from '@/app/components/ClientPicker'
+import ExportMenu from '@/app/components/ExportMenu'
+import LanguageSwitcher from '@/app/components/LanguageSwitcher'
+import LiveIndicator from '@/app/components/LiveIndicator'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import NoteCard from '@/app/components/NoteCard'
+import NotesFilterBar from '@/app/components/NotesFilterBar'
+import PendingUploads from '@/app/components/PendingUploads'
+import { usePreferences } from '@/app/components/PreferencesProvider'
+import ProcessingStepper, { type ProcessingProgress } from '@/app/components/ProcessingStepper'
+import RecorderControls from '@/app/components/RecorderControls'
+import SummarySections from '@/app/components/SummarySections'
+import WorkspaceSwitcher from '@/app/components/WorkspaceSwitcher'
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll'
+import { useNotesRealtime } from '@/hooks/useNotesRealtime'
+import { useRecorder } from '@/hooks/useRecorder'
+import { useUploadQueue } from '@/hooks/useUploadQueue'
+import { ApiError, createApiClient, describeError, waitForJob, type JobStage } from '@/lib/api'
+import { recordingFileName } from '@/lib/audio-files'
+import { MFA_CHALLENGE_PATH } from '@/lib/auth'
+import { resumeUpload, startLiveUpload, type LiveUpload } from '@/lib/chunked-upload'
+import { toExportableNote } from '@/lib/exporters'
+import { LOCALE_NAMES, LOCALES, type MessageKey } from '@/lib/i18n'
+import {
+    fetchNotesPage,
+    filtersFromParams,
+    filtersToParams,
+    hasActiveFilters,
+    isNewNoteVisible,
+    noteView,
+    searchTerms,
+    TRASH_RETENTION_DAYS,
+    updateNoteState,
+    type NoteFilters,
+    type NoteState,
+    type NotesPage,
+    type NoteView,
+} from '@/lib/notes'
+import { updateQueuedRecording, type QueuedRecording } from '@/lib/offline-queue'
+import { RECORDING_LANGUAGES } from '@/lib/preferences'
+import type { Client, NoteTemplate, RecordingLanguage, Summary, SummaryLanguage } from '@/lib/types'
+import { canEditNotes, type Membership } from '@/lib/workspaces'
+
+// Toast after a note is archived, trashed or restored, by where it ended up
+const MOVE_MESSAGES: Record<NoteView, MessageKey> = {
+    notes: 'toast.moved.notes',
+    archived: 'toast.moved.archived',
+    trash: 'toast.moved.trash',
+}
 
-// Define the shape of our summary data
-type Summary = {
-    id: string
-    created_at: string
-    client_name: string
-    structured_summary: string
+const EMPTY_MESSAGES: Record<NoteView, MessageKey> = {
+    notes: 'dashboard.empty.notes',
+    archived: 'dashboard.empty.archived',
+    trash: 'dashboard.empty.trash',
 }
 
-export default function Dashboard() {
-    const [isRecording, setIsRecording] = useState(false)
-    const [isProcessing, setIsProcessing] = useState(false)
-    const [clientName, setClientName] = useState('')
+type DashboardProps = {
+    // The signed-in user; their queued recordings are the only ones this dashboard uploads
+    userId: string | null
+    // First page of notes, rendered on the server for the current filters
+    initialPage: NotesPage
+    // Built-in and user-defined note templates
+    templates: NoteTemplate[]
+    // The user's workspaces, and the one being shown (null for personal notes)
+    memberships: Membership[]
+    workspace: Membership | null
+}
+
+export default function Dashboard({ userId, initialPage, templates, memberships, workspace }: DashboardProps) {
+    const { preferences } = usePreferences()
+    const { t } = useTranslation()
+    const [selectedClient, setSelectedClient] = useState<Client | null>(null)
+    // The default template from /settings, if it still exists, otherwise the built-in General one
+    const [templateId, setTemplateId] = useState(
+        () =>
+            templates.find((t) => t.id === preferences.default_template_id)?.id ??
+            templates.find((t) => t.key === 'general')?.id ??
+            templates[0]?.id ??
+            ''
+    )
+    const [language, setLanguage] = useState<RecordingLanguage>(preferences.recording_language)
+    // The summary can be written in the patient's language to hand to them
+    const [outputLanguage, setOutputLanguage] = useState<SummaryLanguage>('en')
     const [latestSummary, setLatestSummary] = useState('')
-    const [summaries, setSummaries] = useState<Summary[]>([])
+    // The saved row behind the latest summary, for exports
+    const [latestNote, setLatestNote] = useState<Summary | null>(null)
+    // Queue entries that became notes this session, for the per-file status of uploaded files
+    const [uploadedIds, setUploadedIds] = useState<Set<string>>(new Set())
+    const [summaries, setSummaries] = useState<Summary[]>(initialPage.notes)
+    const [nextCursor, setNextCursor] = useState(initialPage.nextCursor)
+    const [isLoadingMore, setIsLoadingMore] = useState(false)
     const [showMicPermissionDialog, setShowMicPermissionDialog] = useState(false)
 
-    const mediaRecorderRef = useRef<MediaRecorder | null>(null)
-    const audioChunksRef = useRef<Blob[]>([])
+    // The last finished recording, waiting for "Process Audio"
+    const recordedAudioRef = useRef<Blob | null>(null)
+    // Uploads of the recording in progress, and of the finished one
+    const liveUploadRef = useRef<LiveUpload | null>(null)
+    const recordedUploadRef = useRef<LiveUpload | null>(null)
 
     const supabase = createClient()
     const router = useRouter()
+    const workspaceId = workspace?.id ?? null
+    // Assistants and read-only members browse and print the workspace's notes, but don't add or change them
+    const canEdit = canEditNotes(workspace?.role ?? null)
+    // Clients belong to a workspace; one picked before switching can't go on a note in the new one
+    if (selectedClient && selectedClient.workspace_id !== workspaceId) setSelectedClient(null)
 
-    // --- 1. Fetch Past Summaries on Load ---
+    // Search, date range and sort live in the URL so a search can be bookmarked
+    const searchParams = useSearchParams()
+    const pathname = usePathname()
+    const searchParamsKey = searchParams.toString()
+    const filters = useMemo(() => filtersFromParams(new URLSearchParams(searchParamsKey)), [searchParamsKey])
+    const highlightTerms = useMemo(() => searchTerms(filters.q), [filters.q])
+
+    const handleFiltersChange = useCallback((next: NoteFilters) => {
+        const query = filtersToParams(next).toString()
+        router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+    }, [router, pathname])
+
+    // --- 1. Past Summaries: first page comes from the server, the rest loads on scroll ---
+    // The server sends a new first page whenever the filters in the URL change
+    const [pageSource, setPageSource] = useState(initialPage)
+    if (initialPage !== pageSource) {
+        setPageSource(initialPage)
+        setSummaries(initialPage.notes)
+        setNextCursor(initialPage.nextCursor)
+    }
+
+    // Drops a page that arrives after the filters have changed underneath it
+    const filtersKeyRef = useRef(searchParamsKey)
     useEffect(() => {
-        const getSummaries = async () => {
-            const { data, error } = await supabase
-                .from('summaries')
-                .select('*')
-                .order('created_at', { ascending: false })
-
-            if (!error && data) {
-                setSummaries(data)
-            }
+        filtersKeyRef.current = searchParamsKey
+    }, [searchParamsKey])
+
+    const loadMore = async () => {
+        if (!nextCursor || isLoadingMore) return
+        const requestKey = searchParamsKey
+        setIsLoadingMore(true)
+        try {
+            const page = await fetchNotesPage(supabase, filters, workspaceId, nextCursor)
+            if (filtersKeyRef.current !== requestKey) return
+            setSummaries((prev) => {
+                const seen = new Set(prev.map((s) => s.id))
+                return [...prev, ...page.notes.filter((s) => !seen.has(s.id))]
+            })
+            setNextCursor(page.nextCursor)
+        } catch (error) {
+            toast.error(t('toast.loadMoreFailed'), {
+                description: error instanceof Error ? error.message : t('common.tryAgain'),
+            })
+        } finally {
+            setIsLoadingMore(false)
         }
-        getSummaries()
-    }, [supabase])
+    }
+    const loadMoreRef = useInfiniteScroll(loadMore, nextCursor !== null && !isLoadingMore)
+
+    // Notes made, edited or deleted on other tabs and devices
+    const realtimeStatus = useNotesRealtime(supabase, workspaceId, {
+        onInsert: (note) => {
+            if (note.workspace_id === workspaceId && isNewNoteVisible(filters)) {
+                setSummaries((prev) => [note, ...prev.filter((s) => s.id !== note.id)])
+            }
+        },
+        // Only notes already in the list; whether others now match the filters is up to the next search.
+        // A note archived or trashed elsewhere leaves the list.
+        onUpdate: (note) =>
+            setSummaries((prev) =>
+                noteView(note) === filters.view
+                    ? prev.map((s) => (s.id === note.id ? note : s))
+                    : prev.filter((s) => s.id !== note.id)
+            ),
+        onDelete: (id) => setSummaries((prev) => prev.filter((s) => s.id !== id)),
+    })
 
     // --- 2. Handle Microphone Permissions & Recording ---
+    const recorder = useRecorder({
+        onChunk: (chunk) => liveUploadRef.current?.push(chunk),
+        onRecorded: (audio, reason) => {
+            recordedAudioRef.current = audio
+            recordedUploadRef.current = liveUploadRef.current
+            liveUploadRef.current = null
+            if (reason === 'max-length') {
+                toast.warning(t('toast.maxLength'), {
+                    description: t('toast.maxLengthBody'),
+                })
+            } else {
+                toast.success(t('toast.recordingStopped'), {
+                    description: t('toast.recordingStoppedBody'),
+                })
+            }
+        },
+    })
+    const isRecording = recorder.status !== 'idle'
+
     const startRecording = async () => {
         try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
-            setIsRecording(true)
+            const mimeType = await recorder.start()
             setLatestSummary('')
-            audioChunksRef.current = []
-            const recorder = new MediaRecorder(stream)
-            mediaRecorderRef.current = recorder
-            recorder.ondataavailable = (event) => {
-                audioChunksRef.current.push(event.data)
+            recordedAudioRef.current = null
+            recordedUploadRef.current?.cancel()
+            recordedUploadRef.current = null
+            // Long recordings upload as they go; offline, the whole recording is queued at the end
+            if (navigator.onLine) {
+                liveUploadRef.current = startLiveUpload(api, recordingFileName(mimeType))
             }
-            recorder.start()
-            toast.info('🎙️ Recording started...', {
-                description: 'Speak into your microphone.',
+            toast.info(t('toast.recordingStarted'), {
+                description: t('toast.recordingStartedBody'),
             })
-        } catch (err) {
-            setShowMicPermissionDialog(true)
+        } catch (error) {
+            // An unplugged or busy mic isn't a permissions problem
+            const name = error instanceof DOMException ? error.name : ''
+            if (name === 'NotFoundError' || name === 'OverconstrainedError' || name === 'NotReadableError') {
+                toast.error(t('toast.micUnavailable'), {
+                    description: t('toast.micUnavailableBody'),
+                })
+            } else {
+                setShowMicPermissionDialog(true)
+            }
         }
     }
 
-    const stopRecording = () => {
-        if (mediaRecorderRef.current) {
-            mediaRecorderRef.current.stop()
-            setIsRecording(false)
-            toast.success('👍 Recording stopped.', {
-                description: "Click 'Process' to get your summary.",
-            })
+    // --- 3. Process Audio (Queue locally, then send to Backend) ---
+    const api = useMemo(() => createApiClient(supabase), [supabase])
+
+    // Stage of the entry being processed, for the stepper
+    const [progress, setProgress] = useState<ProcessingProgress>({ stage: 'uploading', uploadFraction: 0 })
+
+    // Uploads one queued recording and follows its job. Throws ApiError so the queue knows whether to retry.
+    const uploadRecording = async (entry: QueuedRecording, signal: AbortSignal) => {
+        setProgress({ stage: 'uploading', uploadFraction: 0 })
+        // Another account may have signed in on a different tab since this page loaded
+        const { data: { session } } = await supabase.auth.getSession()
+        if (session?.user.id !== entry.user_id) {
+            throw new ApiError('auth-expired', t('dashboard.otherAccount'))
+        }
+        const onStage = (stage: JobStage) => setProgress({ stage, uploadFraction: 1 })
+
+        // The job keeps running while the tab is closed; pick it up again unless it has ended badly
+        const existing = entry.job_id ? await api.getJob(entry.job_id, signal) : null
+        let job = existing && existing.stage !== 'failed' && existing.stage !== 'cancelled' ? existing : null
+
+        if (!job) {
+            // Send only what the backend hasn't confirmed yet, then have it process the whole upload
+            const uploadId = await resumeUpload(
+                api,
+                entry.audio,
+                entry.file_name,
+                entry.upload_id ?? null,
+                signal,
+                (uploadFraction) => setProgress({ stage: 'uploading', uploadFraction })
+            )
+            if (uploadId !== entry.upload_id) {
+                await updateQueuedRecording(entry.id, { upload_id: uploadId })
+            }
+
+            job = await api.processAudio(
+                {
+                    uploadId,
+                    clientName: entry.client_name,
+                    clientId: entry.client_id,
+                    templateId: entry.template_id,
+                    workspaceId: entry.workspace_id ?? null,
+                    language: entry.language,
+                    outputLanguage: entry.output_language,
+                },
+                signal
+            )
+            await updateQueuedRecording(entry.id, { job_id: job.job_id })
+        }
+
+        try {
+            return await waitForJob(api, job, onStage, signal)
+        } catch (error) {
+            // Cancelling only stops this tab watching; tell the backend too
+            if (signal.aborted) void api.cancelJob(job.job_id).catch(() => {})
+            throw error
         }
     }
 
-    // --- 3. Process Audio (Send to Backend) ---
+    const { queue, error: queueError, enqueue, retry, cancel, discard } = useUploadQueue({
+        userId,
+        upload: uploadRecording,
+        describeError: (error) => describeError(error, t),
+        onUploaded: (entry, { note }) => {
+            setUploadedIds((prev) => new Set(prev).add(entry.id))
+            setLatestSummary(note?.structured_summary ?? '')
+            setLatestNote(note)
+            // The finished job includes the saved row, so it can go straight into the list
+            if (note && isNewNoteVisible(filters)) {
+                setSummaries((prev) => [note, ...prev.filter((s) => s.id !== note.id)])
+            }
+            toast.success(t('toast.summaryReady'), {
+                description: t('toast.summaryReadyBody'),
+            })
+        },
+        onFailed: (entry, error) => {
+            const kind = error instanceof ApiError ? error.kind : null
+            if (kind === 'cancelled') {
+                toast.info(t('toast.processingCancelled'), {
+                    description: t('toast.processingCancelledBody'),
+                })
+            } else if (kind === 'auth-expired') {
+                toast.error(t('toast.sessionExpired'), {
+                    description: describeError(error, t),
+                    action: { label: t('toast.logIn'), onClick: () => router.push('/login') },
+                })
+            } else if (kind === 'mfa-required') {
+                // The challenge page sends users without an authenticator app on to set one up
+                toast.error(t('toast.mfaRequired'), {
+                    description: t('toast.mfaRequiredBody'),
+                    action: { label: t('toast.verify'), onClick: () => router.push(`${MFA_CHALLENGE_PATH}?next=/`) },
+                })
+            } else if (kind === 'silent-audio') {
+                toast.error(t('toast.noSpeech'), {
+                    description: t('toast.noSpeechBody'),
+                })
+            } else {
+                toast.error(t('toast.processFailed'), {
+                    description: describeError(error, t),
+                })
+            }
+        },
+    })
+    const processingEntry = queue.find((entry) => entry.status === 'uploading')
+    const isProcessing = processingEntry !== undefined
+
     const handleProcessAudio = async () => {
-        if (audioChunksRef.current.length === 0) {
-            toast.error('No audio recorded', {
-                description: 'Please record audio first.',
+        const audioBlob = recordedAudioRef.current
+        if (!audioBlob || audioBlob.size === 0) {
+            toast.error(t('toast.noAudio'), {
+                description: t('toast.noAudioBody'),
             })
             return
         }
 
-        setIsProcessing(true)
+        recordedAudioRef.current = null
         setLatestSummary('')
-        const { data: { session } } = await supabase.auth.getSession()
-        if (!session) {
-            toast.error('Authentication Error', {
-                description: 'Please log in again.',
+        // Whatever part of it has already reached the backend doesn't need sending again
+        const uploadId = (await recordedUploadRef.current?.finish()) ?? null
+        recordedUploadRef.current = null
+
+        try {
+            // Save the recording on this device first so nothing is lost if the upload fails
+            await enqueue(
+                audioBlob,
+                { id: selectedClient?.id ?? null, name: selectedClient?.full_name ?? '' },
+                {
+                    templateId: templateId || null,
+                    workspaceId,
+                    language,
+                    outputLanguage,
+                    fileName: recordingFileName(audioBlob.type),
+                    uploadId,
+                }
+            )
+        } catch {
+            toast.error(t('toast.saveRecordingFailed'), {
+                description: t('toast.storageUnavailable'),
             })
-            setIsProcessing(false)
+            recordedAudioRef.current = audioBlob
             return
         }
 
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' })
-        const formData = new FormData()
-        formData.append('file', audioBlob, 'recording.webm')
-        formData.append('client_name', clientName)
+        setSelectedClient(null) // Clear the client picker
+        if (!navigator.onLine) {
+            toast.info(t('toast.savedOffline'), {
+                description: t('toast.savedOfflineRecording'),
+            })
+        }
+    }
+
+    // Audio files from disk go through the same queue as live recordings, all for the selected client
+    const handleProcessFiles = async (files: AudioFileToProcess[]) => {
+        const client = { id: selectedClient?.id ?? null, name: selectedClient?.full_name ?? '' }
+        const ids: (string | null)[] = []
+        for (const { audio, fileName } of files) {
+            try {
+                const entry = await enqueue(audio, client, {
+                    templateId: templateId || null,
+                    workspaceId,
+                    language,
+                    outputLanguage,
+                    fileName,
+                })
+                ids.push(entry.id)
+            } catch {
+                toast.error(t('toast.saveFileFailed'), {
+                    description: t('toast.saveFileFailedBody', { file: fileName }),
+                })
+                ids.push(null)
+            }
+        }
 
-        try {
-            // Use the environment variable for the backend URL
-            const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL;
-            if (!backendUrl) {
-                toast.error("Configuration Error", { description: "Backend URL not set." });
-                setIsProcessing(false);
-                return;
+        if (ids.some(Boolean)) {
+            setLatestSummary('')
+            setSelectedClient(null)
+            if (!navigator.onLine) {
+                toast.info(t('toast.savedOffline'), {
+                    description: t('toast.savedOfflineFiles'),
+                })
             }
+        }
+        return ids
+    }
 
-            const response = await fetch(`${backendUrl}/process-audio/`, { // Use backendUrl
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${session.access_token}`,
-                },
-                body: formData,
+    // --- 4. Archive, Trash & Restore ---
+    // Puts a note back where it was in the list, if it isn't there already
+    const reinsertNote = (note: Summary, index: number) =>
+        setSummaries((prev) =>
+            prev.some((s) => s.id === note.id) ? prev : [...prev.slice(0, index), note, ...prev.slice(index)]
+        )
+
+    // The note leaves the current view straight away; the toast can put it back
+    const handleMoveNote = async (note: Summary, state: NoteState) => {
+        const index = summaries.findIndex((s) => s.id === note.id)
+        setSummaries((prev) => prev.filter((s) => s.id !== note.id))
+        let moved: Summary
+        try {
+            moved = await updateNoteState(supabase, note.id, state)
+        } catch (error) {
+            reinsertNote(note, index)
+            toast.error(t('toast.updateNoteFailed'), {
+                description: error instanceof Error ? error.message : t('common.tryAgain'),
             })
+            return
+        }
 
-            if (!response.ok) {
-                const err = await response.json()
-                throw new Error(err.detail || 'Failed to process audio')
+        const undo = async () => {
+            try {
+                const restored = await updateNoteState(supabase, note.id, {
+                    archived_at: note.archived_at,
+                    deleted_at: note.deleted_at,
+                })
+                if (noteView(restored) === filters.view) reinsertNote(restored, index)
+            } catch (error) {
+                toast.error(t('toast.undoFailed'), {
+                    description: error instanceof Error ? error.message : t('common.tryAgain'),
+                })
             }
+        }
+        toast.success(t(MOVE_MESSAGES[noteView(moved)], { days: TRASH_RETENTION_DAYS }), {
+            action: { label: t('toast.undo'), onClick: () => void undo() },
+        })
+    }
 
-            const result = await response.json()
-            setLatestSummary(result.structured_summary)
-
-            // Fetch summaries again to include the newly added one from the DB
-            // This ensures the ID and created_at are accurate
-            const { data, error } = await supabase
-                .from('summaries')
-                .select('*')
-                .order('created_at', { ascending: false })
-            if (!error && data) setSummaries(data)
-
-
-            // Old optimistic update (can cause issues with keys/ids):
-            // const newSummary = {
-            //   id: Math.random().toString(), // Use a more robust ID in production
-            //   created_at: new Date().toISOString(),
-            //   client_name: clientName || 'Untitled',
-            //   structured_summary: result.structured_summary,
-            // }
-            // setSummaries(prevSummaries => [newSummary, ...prevSummaries])
-
-            setClientName('') // Clear client name input
-            toast.success('🎉 Summary Generated!', {
-                description: 'Your new note is ready.',
-            })
-        } catch (error: any) {
-            toast.error('Error', {
-                description: error.message,
+    const handleDeleteForever = async (note: Summary) => {
+        const index = summaries.findIndex((s) => s.id === note.id)
+        setSummaries((prev) => prev.filter((s) => s.id !== note.id))
+        try {
+            await api.deleteNote(note.id)
+            toast.success(t('toast.noteDeleted'))
+        } catch (error) {
+            reinsertNote(note, index)
+            toast.error(t('toast.deleteFailed'), {
+                description: error instanceof Error ? error.message : t('common.tryAgain'),
             })
-        } finally {
-            setIsProcessing(false)
         }
     }
 
-    // --- 4. Helper Functions (Download & Logout) ---
-    const handleDownloadPDF = (summaryText: string, name: string) => {
-        const doc = new jsPDF()
-        doc.setFont('Helvetica', 'bold')
-        doc.setFontSize(16)
-        doc.text('JanScribe Summary', 10, 20)
-        doc.setFontSize(12)
-        doc.setFont('Helvetica', 'normal')
-        doc.text(`Client: ${name || 'N/A'}`, 10, 30)
-        doc.setFontSize(11)
-        const lines = doc.splitTextToSize(summaryText, 180)
-        doc.text(lines, 10, 45)
-        doc.save(`Summary_${name || 'JanScribe'}.pdf`)
-    }
+    // --- 5. Helper Functions (Templates & Logout) ---
+    const templatesById = useMemo(() => new Map(templates.map((t) => [t.id, t])), [templates])
+    const latestTemplate = latestNote?.template_id ? templatesById.get(latestNote.template_id) : undefined
 
+    // Queued recordings stay on this device for their owner's next sign-in; stop the one uploading now
     const handleLogout = async () => {
+        if (processingEntry) cancel(processingEntry.id)
         await supabase.auth.signOut()
         router.push('/login')
         router.refresh()
     }
 
-    // --- 5. The Component UI (JSX) ---
+    // --- 6. The Component UI (JSX) ---
     return (
         <div className="w-full max-w-4xl mx-auto p-4 md:p-8">
             <header className="flex justify-between items-center mb-6">
@@ -201,91 +500,178 @@ export default function Dashboard() {
                     JanScribe
                     <span className="text-blue-600">.</span>
                 </h1>
-                <Button variant="outline" onClick={handleLogout}>
-                    Logout
-                </Button>
+                <div className="flex items-center gap-3">
+                    <WorkspaceSwitcher memberships={memberships} workspace={workspace} />
+                    <LanguageSwitcher />
+                    <Link href="/settings" className="text-xs text-blue-600 hover:underline">
+                        {t('dashboard.settings')}
+                    </Link>
+                    <Link href="/security" className="text-xs text-blue-600 hover:underline">
+                        {t('dashboard.security')}
+                    </Link>
+                    <Button variant="outline" onClick={handleLogout}>
+                        {t('dashboard.logout')}
+                    </Button>
+                </div>
             </header>
 
             {/* --- Main Recorder Card --- */}
-            <Card className="mb-8">
-                <CardHeader>
-                    <CardTitle>Create New Note</CardTitle>
-                </CardHeader>
-                <CardContent className="grid gap-6">
-                    <div className="grid gap-2">
-                        <Label htmlFor="client-name">Client Name (Optional)</Label>
-                        <Input
-                            id="client-name"
-                            placeholder="e.g., Patient John Doe, Acme Corp Case"
-                            value={clientName}
-                            onChange={(e) => setClientName(e.target.value)}
-                        />
-                    </div>
-
-                    <div className="flex flex-col sm:flex-row gap-4 items-center">
-                        {/* Pulsating Record Button */}
-                        <motion.div
-                            className="w-full sm:w-1/3" // Moved width class here
-                            animate={isRecording ? { scale: [1, 1.05, 1], opacity: [1, 0.7, 1] } : {}}
-                            transition={isRecording ? { duration: 1.5, repeat: Infinity, ease: "easeInOut" } : {}}
-                        >
-                            <Button
-                                onClick={isRecording ? stopRecording : startRecording}
-                                className={`w-full ${isRecording ? 'bg-red-600 hover:bg-red-700' : ''}`}
+            {canEdit ? (
+                <Card className="mb-8">
+                    <CardHeader>
+                        <CardTitle>{t('dashboard.createNote')}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="grid gap-6">
+                        <div className="grid gap-2">
+                            <Label htmlFor="client-name">{t('dashboard.client')}</Label>
+                            <ClientPicker workspaceId={workspaceId} value={selectedClient} onChange={setSelectedClient} />
+                        </div>
+
+                        <div className="grid gap-2">
+                            <div className="flex justify-between items-center">
+                                <Label htmlFor="note-template">{t('dashboard.template')}</Label>
+                                <Link href="/templates" className="text-xs text-blue-600 hover:underline">
+                                    {t('dashboard.manageTemplates')}
+                                </Link>
+                            </div>
+                            <select
+                                id="note-template"
+                                className="h-9 rounded-md border bg-transparent px-2 text-sm"
+                                value={templateId}
+                                onChange={(e) => setTemplateId(e.target.value)}
                             >
-                                {isRecording ? 'Stop Recording' : 'Start Recording'}
-                            </Button>
-                        </motion.div>
-                        {/* Process Button */}
-                        <Button
-                            onClick={handleProcessAudio}
-                            className="w-full sm:w-2/3"
-                            disabled={isProcessing || isRecording}
-                        >
-                            {isProcessing ? 'Processing...' : 'Process Audio'}
-                        </Button>
-                    </div>
+                                {templates.map((template) => (
+                                    <option key={template.id} value={template.id}>
+                                        {template.user_id ? t('dashboard.customTemplate', { name: template.name }) : template.name}
+                                    </option>
+                                ))}
+                            </select>
+                            {templatesById.get(templateId)?.sections.length ? (
+                                <p className="text-xs text-gray-500">
+                                    {t('dashboard.templateSections', {
+                                        sections: templatesById.get(templateId)?.sections.join(' · ') ?? '',
+                                    })}
+                                </p>
+                            ) : null}
+                        </div>
 
-                    {/* --- Animated Latest Summary Display --- */}
-                    <AnimatePresence>
-                        {(isProcessing || latestSummary) && (
-                            <motion.div
-                                initial={{ opacity: 0, height: 0 }}
-                                animate={{ opacity: 1, height: 'auto' }}
-                                exit={{ opacity: 0, height: 0 }}
-                                transition={{ duration: 0.5 }}
-                                className="grid gap-2 overflow-hidden" // Added overflow-hidden
+                        <div className="grid gap-2">
+                            <Label htmlFor="recording-language">{t('dashboard.spokenLanguage')}</Label>
+                            <select
+                                id="recording-language"
+                                className="h-9 rounded-md border bg-transparent px-2 text-sm"
+                                value={language}
+                                onChange={(e) => setLanguage(e.target.value as RecordingLanguage)}
                             >
-                                <Label>Latest Summary</Label>
-                                <Textarea
-                                    className="min-h-[200px] font-mono" // Standard styling
-                                    value={
-                                        isProcessing
-                                            ? 'Generating your summary...'
-                                            : latestSummary
-                                    }
-                                    readOnly
-                                />
-                                <Button
-                                    variant="default"
-                                    onClick={() => handleDownloadPDF(latestSummary, clientName)}
-                                    disabled={!latestSummary || isProcessing}
+                                {RECORDING_LANGUAGES.map((code) => (
+                                    <option key={code} value={code}>
+                                        {t(`language.${code}`)}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="grid gap-2">
+                            <Label htmlFor="summary-language">{t('dashboard.summaryLanguage')}</Label>
+                            <select
+                                id="summary-language"
+                                className="h-9 rounded-md border bg-transparent px-2 text-sm"
+                                value={outputLanguage}
+                                onChange={(e) => setOutputLanguage(e.target.value as SummaryLanguage)}
+                            >
+                                {LOCALES.map((code) => (
+                                    <option key={code} value={code} lang={code}>
+                                        {LOCALE_NAMES[code]}
+                                    </option>
+                                ))}
+                            </select>
+                            {outputLanguage !== 'en' && (
+                                <p className="text-xs text-gray-500">{t('dashboard.summaryLanguageHint')}</p>
+                            )}
+                        </div>
+
+                        <RecorderControls recorder={recorder} onStart={startRecording} />
+                        <Button onClick={handleProcessAudio} disabled={isRecording}>
+                            {isProcessing ? t('dashboard.processing') : t('dashboard.processAudio')}
+                        </Button>
+
+                        {/* --- Upload existing audio files --- */}
+                        <div className="grid gap-2">
+                            <Label>{t('dashboard.uploadFiles')}</Label>
+                            <AudioFileUpload
+                                queue={queue}
+                                completedIds={uploadedIds}
+                                onProcess={handleProcessFiles}
+                                disabled={isRecording}
+                            />
+                        </div>
+
+                        {/* --- Animated Latest Summary Display --- */}
+                        <AnimatePresence>
+                            {(isProcessing || latestSummary) && (
+                                <motion.div
+                                    initial={{ opacity: 0, height: 0 }}
+                                    animate={{ opacity: 1, height: 'auto' }}
+                                    exit={{ opacity: 0, height: 0 }}
+                                    transition={{ duration: 0.5 }}
+                                    className="grid gap-2 overflow-hidden" // Added overflow-hidden
                                 >
-                                    Download as PDF
-                                </Button>
-                            </motion.div>
-                        )}
-                    </AnimatePresence>
-                </CardContent>
-            </Card>
+                                    <Label>{t('dashboard.latestSummary')}</Label>
+                                    {isProcessing ? (
+                                        <ProcessingStepper progress={progress} />
+                                    ) : (
+                                        <SummarySections
+                                            summary={latestSummary}
+                                            sectionOrder={latestTemplate?.sections}
+                                        />
+                                    )}
+                                    {processingEntry && (
+                                        <Button variant="outline" onClick={() => cancel(processingEntry.id)}>
+                                            {t('dashboard.cancelProcessing')}
+                                        </Button>
+                                    )}
+                                    {latestNote && !isProcessing && (
+                                        <ExportMenu
+                                            size="default"
+                                            getNote={() => toExportableNote(latestNote, latestTemplate)}
+                                        />
+                                    )}
+                                </motion.div>
+                            )}
+                        </AnimatePresence>
+                    </CardContent>
+                </Card>
+            ) : (
+                <Card className="mb-8">
+                    <CardContent className="pt-6 text-sm text-gray-600">
+                        {t('dashboard.readOnlyRole', {
+                            workspace: workspace?.name ?? '',
+                            role: t(`role.${workspace?.role ?? 'read_only'}`),
+                        })}
+                    </CardContent>
+                </Card>
+            )}
+
+            {/* --- Recordings waiting to upload --- */}
+            <PendingUploads
+                queue={queue}
+                error={queueError}
+                onRetry={retry}
+                onCancel={cancel}
+                onDiscard={discard}
+            />
 
             {/* --- Animated Past Summaries List --- */}
             <div>
-                <h2 className="text-2xl font-semibold mb-4">Past Notes</h2>
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-2xl font-semibold">{t('dashboard.pastNotes')}</h2>
+                    <LiveIndicator status={realtimeStatus} />
+                </div>
+                <NotesFilterBar filters={filters} onChange={handleFiltersChange} />
                 <div className="grid gap-4">
                     {summaries.length === 0 && !isProcessing && ( // Hide if processing first note
                         <p className="text-gray-500">
-                            Your saved summaries will appear here.
+                            {t(hasActiveFilters(filters) ? 'dashboard.noMatches' : EMPTY_MESSAGES[filters.view])}
                         </p>
                     )}
                     <AnimatePresence initial={false}> {/* initial=false prevents initial animation on load */}
@@ -298,39 +684,28 @@ export default function Dashboard() {
                                 exit={{ opacity: 0, y: -20, transition: { duration: 0.2 } }}
                                 transition={{ duration: 0.3, ease: "easeOut" }}
                             >
-                                <Card> {/* Standard styling */}
-                                    <CardHeader>
-                                        <CardTitle className="flex justify-between items-center">
-                                            <span className="font-medium">{summary.client_name || 'Untitled Note'}</span>
-                                            <span className="text-sm font-normal text-gray-500">
-                                                {new Date(summary.created_at).toLocaleDateString()}
-                                            </span>
-                                        </CardTitle>
-                                    </CardHeader>
-                                    <CardContent>
-                                        <Textarea
-                                            className="min-h-[100px] font-mono text-sm" // Standard styling
-                                            value={summary.structured_summary}
-                                            readOnly
-                                        />
-                                        <Button
-                                            variant="outline"
-                                            size="sm" // Smaller button
-                                            className="mt-3" // Adjusted margin
-                                            onClick={() =>
-                                                handleDownloadPDF(
-                                                    summary.structured_summary,
-                                                    summary.client_name
-                                                )
-                                            }
-                                        >
-                                            Download PDF
-                                        </Button>
-                                    </CardContent>
-                                </Card>
+                                <NoteCard
+                                    summary={summary}
+                                    template={summary.template_id ? templatesById.get(summary.template_id) : undefined}
+                                    highlightTerms={highlightTerms}
+                                    onUpdated={(updated) =>
+                                        setSummaries((prev) => prev.map((s) => (s.id === updated.id ? updated : s)))
+                                    }
+                                    canEdit={canEdit}
+                                    onMove={handleMoveNote}
+                                    onDeleteForever={handleDeleteForever}
+                                />
                             </motion.div>
                         ))}
                     </AnimatePresence>
+                    {/* Reaching this loads the next page */}
+                    <div ref={loadMoreRef} />
+                    {isLoadingMore && <p className="text-sm text-center text-gray-500">{t('dashboard.loadingMore')}</p>}
+                    {nextCursor && !isLoadingMore && (
+                        <Button variant="ghost" onClick={loadMore}>
+                            {t('dashboard.loadMore')}
+                        </Button>
+                    )}
                 </div>
             </div>
 
@@ -341,15 +716,11 @@ export default function Dashboard() {
             >
                 <AlertDialogContent>
                     <AlertDialogHeader>
-                        <AlertDialogTitle>Microphone Access Denied</AlertDialogTitle>
-                        <AlertDialogDescription>
-                            JanScribe needs access to your microphone to record audio. Please
-                            click "Allow" in your browser's permission pop-up. You may need
-                            to refresh the page or check your browser settings.
-                        </AlertDialogDescription>
+                        <AlertDialogTitle>{t('dashboard.micDenied.title')}</AlertDialogTitle>
+                        <AlertDialogDescription>{t('dashboard.micDenied.body')}</AlertDialogDescription>
                     </AlertDialogHeader>
                     <AlertDialogFooter>
-                        <AlertDialogAction onClick={() => setShowMicPermissionDialog(false)}>Got it</AlertDialogAction>
+                        <AlertDialogAction onClick={() => setShowMicPermissionDialog(false)}>{t('dashboard.micDenied.dismiss')}</AlertDialogAction>
                     </AlertDialogFooter>
                 </AlertDialogContent>
             </AlertDialog>
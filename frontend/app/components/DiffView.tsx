@@ -0,0 +1,50 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import { diffLines, type DiffRow } from '@/lib/diff'
+
+const cellStyles: Record<DiffRow['type'], { left: string; right: string }> = {
+    same: { left: '', right: '' },
+    removed: { left: 'bg-red-50 text-red-800', right: 'bg-gray-50' },
+    added: { left: 'bg-gray-50', right: 'bg-green-50 text-green-800' },
+    changed: { left: 'bg-red-50 text-red-800', right: 'bg-green-50 text-green-800' },
+}
+
+type DiffViewProps = {
+    before: string
+    after: string
+    beforeLabel: string
+    afterLabel: string
+}
+
+// Side-by-side, line-by-line comparison of two texts
+export default function DiffView({ before, after, beforeLabel, afterLabel }: DiffViewProps) {
+    const rows = useMemo(() => diffLines(before, after), [before, after])
+    const changes = rows.filter((row) => row.type !== 'same').length
+    const { t } = useTranslation()
+
+    return (
+        <div className="rounded-md border overflow-hidden">
+            <div className="grid grid-cols-2 border-b bg-gray-100 dark:bg-muted text-xs font-medium">
+                <div className="px-3 py-2 border-r">{beforeLabel}</div>
+                <div className="px-3 py-2">{afterLabel}</div>
+            </div>
+            <div className="max-h-[60vh] overflow-y-auto font-mono text-xs">
+                {changes === 0 && (
+                    <p className="px-3 py-2 text-gray-500 font-sans">{t('versions.identical')}</p>
+                )}
+                {rows.map((row, i) => (
+                    <div key={i} className="grid grid-cols-2">
+                        <div className={`px-3 py-0.5 border-r whitespace-pre-wrap ${cellStyles[row.type].left}`}>
+                            {row.left ?? ''}
+                        </div>
+                        <div className={`px-3 py-0.5 whitespace-pre-wrap ${cellStyles[row.type].right}`}>
+                            {row.right ?? ''}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
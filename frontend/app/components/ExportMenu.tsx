@@ -0,0 +1,87 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { useDates, useTranslation } from '@/app/components/LocaleProvider'
+import { usePreferences } from '@/app/components/PreferencesProvider'
+import { exportNote, listExporters, type ExportableNote } from '@/lib/exporters'
+import { exportOptions } from '@/lib/preferences'
+
+type ExportMenuProps = {
+    // Built lazily so a note is only parsed when the user actually exports it
+    getNote: () => ExportableNote
+    size?: 'sm' | 'default'
+    disabled?: boolean
+}
+
+// "Export as…" button with one entry per registered export format
+export default function ExportMenu({ getNote, size = 'sm', disabled = false }: ExportMenuProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const [busyId, setBusyId] = useState<string | null>(null)
+    const menuRef = useRef<HTMLDivElement>(null)
+    const { preferences } = usePreferences()
+    const { t } = useTranslation()
+    const { intlLocale } = useDates()
+
+    useEffect(() => {
+        if (!isOpen) return
+        const close = (e: MouseEvent | KeyboardEvent) => {
+            if (e instanceof KeyboardEvent ? e.key === 'Escape' : !menuRef.current?.contains(e.target as Node)) {
+                setIsOpen(false)
+            }
+        }
+        document.addEventListener('mousedown', close)
+        document.addEventListener('keydown', close)
+        return () => {
+            document.removeEventListener('mousedown', close)
+            document.removeEventListener('keydown', close)
+        }
+    }, [isOpen])
+
+    const handleExport = async (exporterId: string, label: string) => {
+        setIsOpen(false)
+        setBusyId(exporterId)
+        try {
+            await exportNote(getNote(), exporterId, exportOptions(preferences, intlLocale))
+        } catch (error) {
+            toast.error(t('toast.exportFailed', { format: label }), {
+                description: error instanceof Error ? error.message : t('common.tryAgain'),
+            })
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    return (
+        <div ref={menuRef} className="relative inline-block">
+            <Button
+                variant="outline"
+                size={size}
+                onClick={() => setIsOpen((open) => !open)}
+                disabled={disabled || busyId !== null}
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+            >
+                {busyId ? t('export.exporting') : t('export.button')}
+            </Button>
+            {isOpen && (
+                <ul role="menu" className="absolute z-10 mt-1 min-w-48 rounded-md border bg-white dark:bg-popover shadow-md py-1">
+                    {listExporters().map((exporter) => (
+                        <li key={exporter.id} role="none">
+                            <button
+                                type="button"
+                                role="menuitem"
+                                className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-muted"
+                                onClick={() => handleExport(exporter.id, exporter.label)}
+                            >
+                                {exporter.label}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    )
+}
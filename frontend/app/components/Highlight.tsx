@@ -0,0 +1,20 @@
+import { escapeRegExp } from '@/lib/utils'
+
+type HighlightProps = {
+    text: string
+    terms: string[]
+}
+
+// Renders text with every occurrence of the search terms wrapped in <mark>
+export default function Highlight({ text, terms }: HighlightProps) {
+    if (terms.length === 0) return <>{text}</>
+
+    const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi')
+    return (
+        <>
+            {text.split(pattern).map((part, i) =>
+                i % 2 === 1 ? <mark key={i} className="bg-yellow-200">{part}</mark> : <span key={i}>{part}</span>
+            )}
+        </>
+    )
+}
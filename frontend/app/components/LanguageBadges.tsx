@@ -0,0 +1,38 @@
+'use client'
+
+import { useTranslation } from '@/app/components/LocaleProvider'
+import type { Summary } from '@/lib/types'
+
+type LanguageBadgesProps = {
+    note: Pick<Summary, 'spoken_language_hint' | 'detected_languages'>
+}
+
+// The languages heard in a note's recording. A single-language hint the model didn't agree with
+// (e.g. Tulu heard as Kannada) is flagged so wrong-language transcripts stand out.
+export default function LanguageBadges({ note }: LanguageBadgesProps) {
+    const { t } = useTranslation()
+    const detected = note.detected_languages ?? []
+    const hint = note.spoken_language_hint
+    const missedHint = hint && hint !== 'mixed' && detected.length > 0 && !detected.includes(hint)
+    if (detected.length === 0 && !hint) return null
+
+    return (
+        <span className="inline-flex flex-wrap items-center gap-1">
+            {detected.map((code) => (
+                <span key={code} className="rounded-full border px-2 py-0.5 text-xs font-normal text-gray-600">
+                    {t(`language.${code}`)}
+                </span>
+            ))}
+            {hint && (detected.length === 0 || missedHint) && (
+                <span
+                    className={`rounded-full border px-2 py-0.5 text-xs font-normal ${
+                        missedHint ? 'border-amber-300 bg-amber-50 text-amber-800 dark:bg-transparent dark:text-amber-400' : 'text-gray-500'
+                    }`}
+                    title={missedHint ? t('language.markedNotHeard') : t('language.markedHint')}
+                >
+                    {t('language.marked', { language: t(`language.${hint}`) })}
+                </span>
+            )}
+        </span>
+    )
+}
@@ -0,0 +1,35 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import { LOCALE_NAMES, LOCALES, setLocaleCookie, type Locale } from '@/lib/i18n'
+
+// Picks the interface language; each language is listed in its own script
+export default function LanguageSwitcher({ className = '' }: { className?: string }) {
+    const { locale, t } = useTranslation()
+    const router = useRouter()
+
+    const handleChange = (next: Locale) => {
+        setLocaleCookie(next)
+        // The root layout reads the cookie and re-renders in the new language
+        router.refresh()
+    }
+
+    return (
+        <div className={className}>
+            <label htmlFor="language-switcher" className="sr-only">{t('common.language')}</label>
+            <select
+                id="language-switcher"
+                className="h-9 rounded-md border bg-transparent px-2 text-sm"
+                value={locale}
+                onChange={(e) => handleChange(e.target.value as Locale)}
+            >
+                {LOCALES.map((code) => (
+                    <option key={code} value={code} lang={code}>
+                        {LOCALE_NAMES[code]}
+                    </option>
+                ))}
+            </select>
+        </div>
+    )
+}
@@ -0,0 +1,32 @@
+'use client'
+
+import { useTranslation } from '@/app/components/LocaleProvider'
+import type { RealtimeStatus } from '@/hooks/useNotesRealtime'
+import type { MessageKey } from '@/lib/i18n'
+
+const LABELS: Record<RealtimeStatus, MessageKey> = {
+    live: 'live.live',
+    connecting: 'live.connecting',
+    offline: 'live.offline',
+}
+
+const DOT_CLASSES: Record<RealtimeStatus, string> = {
+    live: 'bg-green-500',
+    connecting: 'bg-amber-400 animate-pulse',
+    offline: 'bg-gray-400',
+}
+
+// Whether notes from other tabs and devices are arriving live
+export default function LiveIndicator({ status }: { status: RealtimeStatus }) {
+    const { t } = useTranslation()
+    return (
+        <span
+            className="inline-flex items-center gap-1.5 rounded-full border px-2.5 py-0.5 text-xs text-gray-600"
+            role="status"
+            title={status === 'offline' ? t('live.offlineHint') : undefined}
+        >
+            <span className={`h-2 w-2 rounded-full ${DOT_CLASSES[status]}`} aria-hidden />
+            {t(LABELS[status])}
+        </span>
+    )
+}
@@ -0,0 +1,39 @@
+'use client'
+
+import { createContext, useCallback, useContext, useMemo } from 'react'
+import { usePreferences } from '@/app/components/PreferencesProvider'
+import { formatDate, formatDateTime } from '@/lib/dates'
+import { DEFAULT_LOCALE, INTL_LOCALES, translate, type Locale, type MessageKey } from '@/lib/i18n'
+
+const LocaleContext = createContext<Locale>(DEFAULT_LOCALE)
+
+// The interface language from the locale cookie, read by the root layout
+export function LocaleProvider({ locale, children }: { locale: Locale; children: React.ReactNode }) {
+    return <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>
+}
+
+export const useLocale = () => useContext(LocaleContext)
+
+// t('dashboard.loadMore'), or t('toast.moved.trash', { days: 30 })
+export const useTranslation = () => {
+    const locale = useLocale()
+    const t = useCallback(
+        (key: MessageKey, vars?: Record<string, string | number>) => translate(locale, key, vars),
+        [locale]
+    )
+    return { locale, t }
+}
+
+// Date formatters in the user's date format and the interface language
+export const useDates = () => {
+    const locale = INTL_LOCALES[useLocale()]
+    const { date_format: format } = usePreferences().preferences
+    return useMemo(
+        () => ({
+            intlLocale: locale,
+            formatDate: (value: Date | string) => formatDate(value, format, locale),
+            formatDateTime: (value: Date | string) => formatDateTime(value, format, locale),
+        }),
+        [locale, format]
+    )
+}
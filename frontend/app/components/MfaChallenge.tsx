@@ -0,0 +1,112 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import type { Factor } from '@supabase/supabase-js'
+import { createClient } from '@/utils/supabase/client'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import { listTotpFactors, verifyTotp } from '@/lib/auth'
+
+// Asks for the code from the user's authenticator app after signing in, then continues to `next`
+export default function MfaChallenge({ next }: { next: string }) {
+    const [factors, setFactors] = useState<Factor[] | null>(null)
+    const [factorId, setFactorId] = useState('')
+    const [code, setCode] = useState('')
+    const [isVerifying, setIsVerifying] = useState(false)
+    const [error, setError] = useState('')
+    const router = useRouter()
+    const supabase = createClient()
+    const { t } = useTranslation()
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const loaded = await listTotpFactors(supabase)
+                setFactors(loaded)
+                setFactorId(loaded[0]?.id ?? '')
+            } catch {
+                setFactors([])
+                setError(t('mfa.loadFailed'))
+            }
+        }
+        void load()
+    }, [supabase, t])
+
+    const handleVerify = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setIsVerifying(true)
+        setError('')
+        try {
+            await verifyTotp(supabase, factorId, code)
+            router.push(next)
+            router.refresh()
+        } catch {
+            setError(t('mfa.wrongCode'))
+            setCode('')
+        } finally {
+            setIsVerifying(false)
+        }
+    }
+
+    const handleLogout = async () => {
+        await supabase.auth.signOut()
+        router.push('/login')
+        router.refresh()
+    }
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-background">
+            <Card className="w-full max-w-sm">
+                <CardHeader><CardTitle className="text-2xl text-center">{t('mfa.title')}</CardTitle></CardHeader>
+                <CardContent>
+                    <form onSubmit={handleVerify} className="grid gap-4">
+                        <p className="text-sm text-gray-600">{t('mfa.enterCode')}</p>
+                        {/* Only asked when the user has set up more than one app */}
+                        {factors && factors.length > 1 && (
+                            <div className="grid gap-2">
+                                <Label htmlFor="mfa-factor">{t('mfa.app')}</Label>
+                                <select
+                                    id="mfa-factor"
+                                    className="h-9 rounded-md border bg-transparent px-2 text-sm"
+                                    value={factorId}
+                                    onChange={(e) => setFactorId(e.target.value)}
+                                >
+                                    {factors.map((f) => (
+                                        <option key={f.id} value={f.id}>
+                                            {f.friendly_name || t('mfa.app')}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                        <div className="grid gap-2">
+                            <Label htmlFor="mfa-code">{t('mfa.code')}</Label>
+                            <Input
+                                id="mfa-code"
+                                inputMode="numeric"
+                                autoComplete="one-time-code"
+                                pattern="[0-9 ]{6,7}"
+                                required
+                                autoFocus
+                                value={code}
+                                onChange={(e) => setCode(e.target.value)}
+                            />
+                        </div>
+                        <Button type="submit" className="w-full" disabled={isVerifying || !factorId}>
+                            {isVerifying ? t('mfa.verifying') : t('mfa.verify')}
+                        </Button>
+                        <Button type="button" variant="outline" className="w-full" onClick={handleLogout}>
+                            {t('mfa.differentAccount')}
+                        </Button>
+                        {error && <p className="text-sm text-center text-red-600">{error}</p>}
+                    </form>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import { useEffect, useState, type RefObject } from 'react'
+import { createClient } from '@/utils/supabase/client'
+import { useDates, useTranslation } from '@/app/components/LocaleProvider'
+import { createAudioUrl, resolveDuration } from '@/lib/note-audio'
+import type { Summary } from '@/lib/types'
+
+type NoteAudioPlayerProps = {
+    note: Pick<Summary, 'audio_path' | 'audio_expires_at'>
+    // Lets the transcript seek the player
+    audioRef: RefObject<HTMLAudioElement | null>
+}
+
+// The note's source recording, or why there isn't one
+export default function NoteAudioPlayer({ note, audioRef }: NoteAudioPlayerProps) {
+    const [url, setUrl] = useState<string | null>(null)
+    // Set once loading fails: the error's message, or '' if it had none
+    const [loadError, setLoadError] = useState<string | null>(null)
+
+    const supabase = createClient()
+    const { formatDate } = useDates()
+    const { t } = useTranslation()
+    const audioPath = note.audio_path
+
+    useEffect(() => {
+        if (!audioPath) return
+        let cancelled = false
+        createAudioUrl(supabase, audioPath)
+            .then((signedUrl) => { if (!cancelled) setUrl(signedUrl) })
+            .catch((error) => {
+                if (!cancelled) setLoadError(error instanceof Error ? error.message : '')
+            })
+        return () => { cancelled = true }
+    }, [audioPath, supabase])
+
+    if (!audioPath) {
+        return (
+            <p className="text-sm text-gray-500">
+                {note.audio_expires_at && new Date(note.audio_expires_at) <= new Date()
+                    ? t('audio.deleted', { date: formatDate(note.audio_expires_at) })
+                    : t('audio.none')}
+            </p>
+        )
+    }
+
+    if (loadError !== null) {
+        return (
+            <p className="text-sm text-red-600">
+                {loadError ? t('audio.loadFailedWith', { error: loadError }) : t('audio.loadFailed')}
+            </p>
+        )
+    }
+
+    return (
+        <div className="grid gap-1">
+            <audio
+                ref={audioRef}
+                controls
+                preload="metadata"
+                src={url ?? undefined}
+                className="w-full"
+                onLoadedMetadata={(e) => resolveDuration(e.currentTarget)}
+            />
+            <p className="text-xs text-gray-500">
+                {t('audio.clickToPlay')}
+                {note.audio_expires_at && ` ${t('audio.willBeDeleted', { date: formatDate(note.audio_expires_at) })}`}
+            </p>
+        </div>
+    )
+}
@@ -0,0 +1,223 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/utils/supabase/client'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import ExportMenu from '@/app/components/ExportMenu'
+import Highlight from '@/app/components/Highlight'
+import LanguageBadges from '@/app/components/LanguageBadges'
+import { useDates, useTranslation } from '@/app/components/LocaleProvider'
+import ShareDialog from '@/app/components/ShareDialog'
+import SummarySections from '@/app/components/SummarySections'
+import { toExportableNote } from '@/lib/exporters'
+import { noteView, purgeDate, snippetAround, type NoteState } from '@/lib/notes'
+import type { NoteTemplate, Summary } from '@/lib/types'
+import { saveSummaryVersion } from '@/lib/versions'
+
+type NoteCardProps = {
+    summary: Summary
+    // The template the note was written with; its section order is used for display and exports
+    template?: NoteTemplate
+    // False for workspace members who may only read (assistants, read-only)
+    canEdit?: boolean
+    onUpdated: (summary: Summary) => void
+    // Archive, trash or restore; the dashboard applies the change and offers an undo
+    onMove: (summary: Summary, state: NoteState) => void
+    onDeleteForever: (summary: Summary) => void
+    // Search terms to mark in the summary and transcript
+    highlightTerms?: string[]
+}
+
+// One entry of the "Past Notes" list. The summary can be edited in place; each save is a new version.
+export default function NoteCard({
+    summary,
+    template,
+    canEdit = true,
+    onUpdated,
+    onMove,
+    onDeleteForever,
+    highlightTerms = [],
+}: NoteCardProps) {
+    const [isEditing, setIsEditing] = useState(false)
+    const [draft, setDraft] = useState(summary.structured_summary)
+    const [isSaving, setIsSaving] = useState(false)
+    const [isConfirmingDelete, setIsConfirmingDelete] = useState(false)
+    const view = noteView(summary)
+
+    const supabase = createClient()
+    const { formatDate } = useDates()
+    const { t } = useTranslation()
+    const isSearching = highlightTerms.length > 0 && !isEditing
+    const transcriptSnippet = isSearching ? snippetAround(summary.original_transcript ?? '', highlightTerms) : null
+
+    const handleSave = async () => {
+        if (draft === summary.structured_summary) {
+            setIsEditing(false)
+            return
+        }
+        setIsSaving(true)
+        try {
+            const version = await saveSummaryVersion(supabase, summary.id, draft)
+            onUpdated({ ...summary, structured_summary: version.structured_summary })
+            setIsEditing(false)
+            toast.success(t('toast.savedVersion', { version: version.version }))
+        } catch (error) {
+            toast.error(t('toast.saveNoteFailed'), {
+                description: error instanceof Error ? error.message : t('common.tryAgain'),
+            })
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <Card> {/* Standard styling */}
+            <CardHeader>
+                <CardTitle className="flex justify-between items-center">
+                    <span className="font-medium">
+                        {summary.client_id ? (
+                            <Link href={`/clients/${summary.client_id}`} className="hover:underline">
+                                <Highlight text={summary.client_name || t('common.untitledNote')} terms={isSearching ? highlightTerms : []} />
+                            </Link>
+                        ) : (
+                            <Highlight text={summary.client_name || t('common.untitledNote')} terms={isSearching ? highlightTerms : []} />
+                        )}
+                    </span>
+                    <span className="flex items-center gap-2 text-sm font-normal text-gray-500">
+                        <LanguageBadges note={summary} />
+                        {formatDate(summary.created_at)}
+                    </span>
+                </CardTitle>
+            </CardHeader>
+            <CardContent>
+                {isEditing ? (
+                    <Textarea
+                        className="min-h-[100px] font-mono text-sm border-blue-400"
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                    />
+                ) : (
+                    <SummarySections
+                        summary={summary.structured_summary}
+                        sectionOrder={template?.sections}
+                        highlightTerms={isSearching ? highlightTerms : []}
+                    />
+                )}
+                {transcriptSnippet && (
+                    <p className="mt-2 text-xs text-gray-600">
+                        <span className="font-medium">{t('noteCard.transcript')} </span>
+                        <Highlight text={transcriptSnippet} terms={highlightTerms} />
+                    </p>
+                )}
+                <div className="flex flex-wrap gap-2 mt-3">
+                    {isEditing ? (
+                        <>
+                            <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                                {isSaving ? t('common.saving') : t('common.save')}
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)} disabled={isSaving}>
+                                {t('common.cancel')}
+                            </Button>
+                        </>
+                    ) : (
+                        <>
+                            <ExportMenu getNote={() => toExportableNote(summary, template)} />
+                            {canEdit && (
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => {
+                                        setDraft(summary.structured_summary)
+                                        setIsEditing(true)
+                                    }}
+                                >
+                                    {t('noteCard.edit')}
+                                </Button>
+                            )}
+                            <Button variant="outline" size="sm" asChild>
+                                <Link href={`/notes/${summary.id}`}>{t('noteCard.history')}</Link>
+                            </Button>
+                            {canEdit && (
+                                <>
+                                    {view !== 'trash' && <ShareDialog summaryId={summary.id} />}
+                                    {view === 'trash' ? (
+                                        <>
+                                            <Button variant="outline" size="sm" onClick={() => onMove(summary, { deleted_at: null })}>
+                                                {t('noteCard.restore')}
+                                            </Button>
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                className="text-red-600"
+                                                onClick={() => setIsConfirmingDelete(true)}
+                                            >
+                                                {t('noteCard.deleteForever')}
+                                            </Button>
+                                        </>
+                                    ) : (
+                                        <>
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() =>
+                                                    onMove(summary, { archived_at: view === 'archived' ? null : new Date().toISOString() })
+                                                }
+                                            >
+                                                {view === 'archived' ? t('noteCard.unarchive') : t('noteCard.archive')}
+                                            </Button>
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="text-red-600"
+                                                onClick={() => onMove(summary, { deleted_at: new Date().toISOString() })}
+                                            >
+                                                {t('noteCard.delete')}
+                                            </Button>
+                                        </>
+                                    )}
+                                </>
+                            )}
+                        </>
+                    )}
+                </div>
+                {summary.deleted_at && (
+                    <p className="mt-2 text-xs text-gray-500">
+                        {t('noteCard.purgeDate', { date: formatDate(purgeDate(summary.deleted_at)) })}
+                    </p>
+                )}
+            </CardContent>
+
+            <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>{t('noteCard.confirmDelete.title')}</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            {t('noteCard.confirmDelete.body')}
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>{t('noteCard.confirmDelete.keep')}</AlertDialogCancel>
+                        <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={() => onDeleteForever(summary)}>
+                            {t('noteCard.deleteForever')}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </Card>
+    )
+}
@@ -0,0 +1,289 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/utils/supabase/client'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Textarea } from '@/components/ui/textarea'
+import ExportMenu from '@/app/components/ExportMenu'
+import LanguageBadges from '@/app/components/LanguageBadges'
+import NoteAudioPlayer from '@/app/components/NoteAudioPlayer'
+import { useDates, useTranslation } from '@/app/components/LocaleProvider'
+import SearchableTextPane from '@/app/components/SearchableTextPane'
+import ShareDialog from '@/app/components/ShareDialog'
+import VersionHistory from '@/app/components/VersionHistory'
+import { downloadTextFile } from '@/lib/download'
+import { toExportableNote } from '@/lib/exporters'
+import { seekToFraction } from '@/lib/note-audio'
+import type { MessageKey } from '@/lib/i18n'
+import { noteFileName } from '@/lib/pdf'
+import { orderSummarySections } from '@/lib/sections'
+import type { Client, NoteTemplate, Summary, SummaryVersion, TranscriptVersion } from '@/lib/types'
+import { listSummaryVersions, listTranscriptVersions, saveSummaryVersion, saveTranscriptVersion } from '@/lib/versions'
+
+type NoteDetailProps = {
+    note: Summary
+    template?: NoteTemplate
+    client?: Client
+    initialVersions: SummaryVersion[]
+    initialTranscriptVersions: TranscriptVersion[]
+    // False for workspace members who may only read the note
+    canEdit?: boolean
+}
+
+// Side-by-side view of a note: the original-language transcript and the English summary
+export default function NoteDetail({
+    note,
+    template,
+    client,
+    initialVersions,
+    initialTranscriptVersions,
+    canEdit = true,
+}: NoteDetailProps) {
+    const [transcript, setTranscript] = useState(note.original_transcript ?? '')
+    const [isEditing, setIsEditing] = useState(false)
+    const [draft, setDraft] = useState(transcript)
+    const [transcriptVersions, setTranscriptVersions] = useState(initialTranscriptVersions)
+    const [isSaving, setIsSaving] = useState(false)
+
+    const [summaryText, setSummaryText] = useState(note.structured_summary)
+    const [isEditingSummary, setIsEditingSummary] = useState(false)
+    const [summaryDraft, setSummaryDraft] = useState(summaryText)
+    const [versions, setVersions] = useState(initialVersions)
+    const [isSavingSummary, setIsSavingSummary] = useState(false)
+
+    const audioRef = useRef<HTMLAudioElement | null>(null)
+
+    const supabase = createClient()
+    const { formatDateTime } = useDates()
+    const { t } = useTranslation()
+    const fileInfo = { clientName: note.client_name, noteDate: note.created_at }
+    const sectionOrder = template?.sections
+
+    const handleCopy = async (text: string, copied: MessageKey) => {
+        try {
+            await navigator.clipboard.writeText(text)
+            toast.success(t(copied))
+        } catch {
+            toast.error(t('toast.copyFailed'), { description: t('toast.copyBlocked') })
+        }
+    }
+
+    // Transcript edits are versioned too: the model's transcript is what the patient said, and stays as version 1
+    const saveTranscript = async (text: string, restoredFrom: number | null = null) => {
+        setIsSaving(true)
+        try {
+            const version = await saveTranscriptVersion(supabase, note.id, text, restoredFrom)
+            setTranscript(version.original_transcript)
+            setDraft(version.original_transcript)
+            setIsEditing(false)
+            setTranscriptVersions(await listTranscriptVersions(supabase, note.id))
+            toast.success(restoredFrom !== null
+                ? t('toast.transcriptRestored', { from: restoredFrom, version: version.version })
+                : t('toast.transcriptSaved', { version: version.version }))
+        } catch (error) {
+            toast.error(t('toast.saveTranscriptFailed'), {
+                description: error instanceof Error ? error.message : t('common.tryAgain'),
+            })
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const playFromTranscript = (offset: number) => {
+        const audio = audioRef.current
+        if (!audio || transcript.length === 0) return
+        if (!seekToFraction(audio, offset / transcript.length)) {
+            toast.info(t('toast.recordingLoading'), { description: t('toast.recordingLoadingBody') })
+        }
+    }
+
+    // Every save or restore adds a version; older text is never overwritten
+    const saveSummary = async (text: string, restoredFrom: number | null = null) => {
+        setIsSavingSummary(true)
+        try {
+            const version = await saveSummaryVersion(supabase, note.id, text, restoredFrom)
+            setSummaryText(version.structured_summary)
+            setIsEditingSummary(false)
+            setVersions(await listSummaryVersions(supabase, note.id))
+            toast.success(restoredFrom !== null
+                ? t('toast.restoredVersion', { from: restoredFrom, version: version.version })
+                : t('toast.savedVersion', { version: version.version }))
+        } catch (error) {
+            toast.error(t('toast.saveSummaryFailed'), {
+                description: error instanceof Error ? error.message : t('common.tryAgain'),
+            })
+        } finally {
+            setIsSavingSummary(false)
+        }
+    }
+
+    return (
+        <div className="w-full max-w-7xl mx-auto p-4 md:p-8">
+            <header className="flex flex-wrap justify-between items-center gap-4 mb-6">
+                <div>
+                    <Link href="/" className="text-sm text-blue-600 hover:underline">
+                        {t('noteDetail.back')}
+                    </Link>
+                    <h1 className="text-3xl font-bold mt-1">
+                        {note.client_id ? (
+                            <Link href={`/clients/${note.client_id}`} className="hover:underline">
+                                {note.client_name || t('common.untitledNote')}
+                            </Link>
+                        ) : (
+                            note.client_name || t('common.untitledNote')
+                        )}
+                    </h1>
+                    <p className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+                        {formatDateTime(note.created_at)}
+                        <LanguageBadges note={note} />
+                    </p>
+                </div>
+            </header>
+
+            {/* --- Source recording --- */}
+            <Card className="mb-6">
+                <CardContent>
+                    <NoteAudioPlayer note={note} audioRef={audioRef} />
+                </CardContent>
+            </Card>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+                {/* --- Original-language transcript --- */}
+                <SearchableTextPane
+                    title={t('noteDetail.transcript')}
+                    text={transcript}
+                    onTextClick={note.audio_path ? playFromTranscript : undefined}
+                    actions={
+                        isEditing ? (
+                            <>
+                                <Button size="sm" onClick={() => saveTranscript(draft)} disabled={isSaving || draft === transcript}>
+                                    {isSaving ? t('common.saving') : t('noteDetail.saveVersion')}
+                                </Button>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => {
+                                        setDraft(transcript)
+                                        setIsEditing(false)
+                                    }}
+                                    disabled={isSaving}
+                                >
+                                    {t('common.cancel')}
+                                </Button>
+                            </>
+                        ) : (
+                            <>
+                                {canEdit && (
+                                    <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+                                        {t('common.edit')}
+                                    </Button>
+                                )}
+                                <Button variant="outline" size="sm" onClick={() => handleCopy(transcript, 'toast.transcriptCopied')}>
+                                    {t('common.copy')}
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => downloadTextFile(transcript, noteFileName(fileInfo, 'Transcript', 'txt'))}
+                                >
+                                    {t('noteDetail.exportText')}
+                                </Button>
+                            </>
+                        )
+                    }
+                >
+                    {isEditing ? (
+                        <Textarea
+                            className="h-[60vh] font-mono text-sm [field-sizing:fixed]"
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                        />
+                    ) : undefined}
+                </SearchableTextPane>
+
+                {/* --- English structured summary --- */}
+                <SearchableTextPane
+                    title={template ? t('noteDetail.summaryWithTemplate', { template: template.name }) : t('noteDetail.summary')}
+                    text={orderSummarySections(summaryText, sectionOrder)}
+                    actions={
+                        isEditingSummary ? (
+                            <>
+                                <Button
+                                    size="sm"
+                                    onClick={() => saveSummary(summaryDraft)}
+                                    disabled={isSavingSummary || summaryDraft === summaryText}
+                                >
+                                    {isSavingSummary ? t('common.saving') : t('noteDetail.saveVersion')}
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => setIsEditingSummary(false)} disabled={isSavingSummary}>
+                                    {t('common.cancel')}
+                                </Button>
+                            </>
+                        ) : (
+                            <>
+                                {canEdit && (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => {
+                                            setSummaryDraft(summaryText)
+                                            setIsEditingSummary(true)
+                                        }}
+                                    >
+                                        {t('common.edit')}
+                                    </Button>
+                                )}
+                                <Button variant="outline" size="sm" onClick={() => handleCopy(summaryText, 'toast.summaryCopied')}>
+                                    {t('common.copy')}
+                                </Button>
+                                <ExportMenu
+                                    getNote={() =>
+                                        toExportableNote(
+                                            { ...note, original_transcript: transcript, structured_summary: summaryText },
+                                            template,
+                                            client
+                                        )
+                                    }
+                                />
+                                {canEdit && !note.deleted_at && <ShareDialog summaryId={note.id} />}
+                            </>
+                        )
+                    }
+                >
+                    {isEditingSummary ? (
+                        <Textarea
+                            className="h-[60vh] font-mono text-sm [field-sizing:fixed]"
+                            value={summaryDraft}
+                            onChange={(e) => setSummaryDraft(e.target.value)}
+                        />
+                    ) : undefined}
+                </SearchableTextPane>
+            </div>
+
+            {/* --- Versions of the summary --- */}
+            <div className="mt-6">
+                <VersionHistory
+                    versions={versions}
+                    onRestore={canEdit ? (version) => saveSummary(version.structured_summary, version.version) : undefined}
+                    isRestoring={isSavingSummary}
+                />
+            </div>
+
+            {/* --- Versions of the transcript --- */}
+            {transcriptVersions.length > 1 && (
+                <div className="mt-6">
+                    <VersionHistory
+                        title={t('noteDetail.transcriptHistory')}
+                        versions={transcriptVersions}
+                        onRestore={canEdit ? (version) => saveTranscript(version.original_transcript, version.version) : undefined}
+                        isRestoring={isSaving}
+                    />
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,144 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import type { MessageKey } from '@/lib/i18n'
+import {
+    DETECTED_LANGUAGES,
+    emptyFilters,
+    hasActiveFilters,
+    type NoteFilters,
+    type NoteSort,
+    type NoteView,
+} from '@/lib/notes'
+import type { DetectedLanguage } from '@/lib/types'
+
+type NotesFilterBarProps = {
+    filters: NoteFilters
+    onChange: (filters: NoteFilters) => void
+}
+
+const SEARCH_DEBOUNCE_MS = 300
+
+const VIEWS: { view: NoteView; label: MessageKey }[] = [
+    { view: 'notes', label: 'filters.view.notes' },
+    { view: 'archived', label: 'filters.view.archived' },
+    { view: 'trash', label: 'filters.view.trash' },
+]
+
+const SORTS: { sort: NoteSort; label: MessageKey }[] = [
+    { sort: 'newest', label: 'filters.sort.newest' },
+    { sort: 'oldest', label: 'filters.sort.oldest' },
+    { sort: 'client', label: 'filters.sort.client' },
+]
+
+// Notes/Archived/Trash tabs, search box, date range, spoken language and sort order for the "Past Notes" list
+export default function NotesFilterBar({ filters, onChange }: NotesFilterBarProps) {
+    const { t } = useTranslation()
+    const [query, setQuery] = useState(filters.q)
+
+    // Follow the URL when it changes from outside (back button, cleared filters)
+    const [syncedQuery, setSyncedQuery] = useState(filters.q)
+    if (filters.q !== syncedQuery) {
+        setSyncedQuery(filters.q)
+        setQuery(filters.q)
+    }
+
+    // Only push the search term once the user pauses typing
+    useEffect(() => {
+        if (query === filters.q) return
+        const timer = setTimeout(() => onChange({ ...filters, q: query }), SEARCH_DEBOUNCE_MS)
+        return () => clearTimeout(timer)
+    }, [query, filters, onChange])
+
+    return (
+        <div className="grid gap-3 mb-4">
+            <div className="flex gap-1" role="tablist" aria-label={t('filters.views')}>
+                {VIEWS.map(({ view, label }) => (
+                    <Button
+                        key={view}
+                        role="tab"
+                        aria-selected={filters.view === view}
+                        variant={filters.view === view ? 'default' : 'ghost'}
+                        size="sm"
+                        onClick={() => onChange({ ...filters, view })}
+                    >
+                        {t(label)}
+                    </Button>
+                ))}
+            </div>
+            <div className="grid gap-3 sm:grid-cols-[1fr_auto_auto_auto_auto] sm:items-end">
+                <div className="grid gap-1">
+                    <Label htmlFor="notes-search">{t('filters.search')}</Label>
+                    <Input
+                        id="notes-search"
+                        type="search"
+                        placeholder={t('filters.searchPlaceholder')}
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                    />
+                </div>
+                <div className="grid gap-1">
+                    <Label htmlFor="notes-from">{t('filters.from')}</Label>
+                    <Input
+                        id="notes-from"
+                        type="date"
+                        value={filters.from}
+                        max={filters.to || undefined}
+                        onChange={(e) => onChange({ ...filters, from: e.target.value })}
+                    />
+                </div>
+                <div className="grid gap-1">
+                    <Label htmlFor="notes-to">{t('filters.to')}</Label>
+                    <Input
+                        id="notes-to"
+                        type="date"
+                        value={filters.to}
+                        min={filters.from || undefined}
+                        onChange={(e) => onChange({ ...filters, to: e.target.value })}
+                    />
+                </div>
+                <div className="grid gap-1">
+                    <Label htmlFor="notes-language">{t('filters.language')}</Label>
+                    <select
+                        id="notes-language"
+                        className="h-9 rounded-md border bg-transparent px-2 text-sm"
+                        value={filters.language}
+                        onChange={(e) => onChange({ ...filters, language: e.target.value as DetectedLanguage | '' })}
+                    >
+                        <option value="">{t('filters.allLanguages')}</option>
+                        {DETECTED_LANGUAGES.map((code) => (
+                            <option key={code} value={code}>{t(`language.${code}`)}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="grid gap-1">
+                    <Label htmlFor="notes-sort">{t('filters.sort')}</Label>
+                    <select
+                        id="notes-sort"
+                        className="h-9 rounded-md border bg-transparent px-2 text-sm"
+                        value={filters.sort}
+                        onChange={(e) => onChange({ ...filters, sort: e.target.value as NoteSort })}
+                    >
+                        {SORTS.map(({ sort, label }) => (
+                            <option key={sort} value={sort}>{t(label)}</option>
+                        ))}
+                    </select>
+                </div>
+                {hasActiveFilters(filters) && (
+                    <Button
+                        variant="link"
+                        size="sm"
+                        className="justify-self-start p-0"
+                        onClick={() => onChange({ ...emptyFilters, sort: filters.sort, view: filters.view })}
+                    >
+                        {t('filters.clear')}
+                    </Button>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { motion, AnimatePresence } from 'framer-motion'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useDates, useTranslation } from '@/app/components/LocaleProvider'
+import type { MessageKey } from '@/lib/i18n'
+import type { QueuedRecording, QueueStatus } from '@/lib/offline-queue'
+
+const statusStyles: Record<QueueStatus, string> = {
+    pending: 'bg-amber-100 text-amber-800',
+    uploading: 'bg-blue-100 text-blue-800',
+    failed: 'bg-red-100 text-red-800',
+}
+
+const STATUS_LABELS: Record<QueueStatus, MessageKey> = {
+    pending: 'pendingUploads.status.pending',
+    uploading: 'pendingUploads.status.uploading',
+    failed: 'pendingUploads.status.failed',
+}
+
+type PendingUploadsProps = {
+    queue: QueuedRecording[]
+    // The queue couldn't be read or updated on this device
+    error?: Error | null
+    onRetry: (id: string) => void
+    onCancel: (id: string) => void
+    onDiscard: (id: string) => void
+}
+
+// Recordings saved on this device that the backend hasn't confirmed yet
+export default function PendingUploads({ queue, error, onRetry, onCancel, onDiscard }: PendingUploadsProps) {
+    const { formatDateTime, intlLocale } = useDates()
+    const { t } = useTranslation()
+    if (queue.length === 0 && !error) return null
+
+    return (
+        <Card className="mb-8">
+            <CardHeader>
+                <CardTitle>{t('pendingUploads.title')}</CardTitle>
+            </CardHeader>
+            <CardContent className="grid gap-3">
+                {error && (
+                    <p className="text-sm text-red-600">{t('pendingUploads.storageFailed', { error: error.message })}</p>
+                )}
+                <AnimatePresence initial={false}>
+                    {queue.map((entry) => (
+                        <motion.div
+                            key={entry.id}
+                            layout
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, transition: { duration: 0.2 } }}
+                            className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-md border p-3"
+                        >
+                            <div className="grid gap-1">
+                                <div className="flex items-center gap-2">
+                                    <span className="font-medium">{entry.client_name || t('common.untitledNote')}</span>
+                                    <span className={`rounded px-2 py-0.5 text-xs font-medium ${statusStyles[entry.status]}`}>
+                                        {t(STATUS_LABELS[entry.status])}
+                                    </span>
+                                </div>
+                                <span className="text-xs text-gray-500">
+                                    {!entry.file_name.startsWith('recording.') && `${entry.file_name} · `}
+                                    {t('pendingUploads.queued', { time: formatDateTime(entry.created_at) })}
+                                    {entry.attempts > 0 &&
+                                        ` · ${entry.attempts === 1
+                                            ? t('pendingUploads.failedAttempt')
+                                            : t('pendingUploads.failedAttempts', { count: entry.attempts })}`}
+                                </span>
+                                {entry.status === 'failed' && entry.last_error && (
+                                    <span className="text-xs text-red-600">
+                                        {entry.last_error}
+                                        {entry.next_attempt_at !== null
+                                            ? ` — ${t('pendingUploads.retryingAt', {
+                                                time: new Date(entry.next_attempt_at).toLocaleTimeString(intlLocale),
+                                            })}`
+                                            : ` — ${t('pendingUploads.noAutoRetry')}`}
+                                    </span>
+                                )}
+                            </div>
+                            {entry.status === 'uploading' && (
+                                <Button variant="outline" size="sm" onClick={() => onCancel(entry.id)}>
+                                    {t('common.cancel')}
+                                </Button>
+                            )}
+                            {entry.status === 'failed' && (
+                                <div className="flex gap-2">
+                                    <Button variant="outline" size="sm" onClick={() => onRetry(entry.id)}>
+                                        {t('pendingUploads.retry')}
+                                    </Button>
+                                    <Button variant="ghost" size="sm" onClick={() => onDiscard(entry.id)}>
+                                        {t('pendingUploads.discard')}
+                                    </Button>
+                                </div>
+                            )}
+                        </motion.div>
+                    ))}
+                </AnimatePresence>
+            </CardContent>
+        </Card>
+    )
+}
@@ -0,0 +1,53 @@
+'use client'
+
+import { createContext, useContext, useEffect, useState } from 'react'
+import { ThemeProvider, useTheme } from 'next-themes'
+import { DEFAULT_PREFERENCES } from '@/lib/preferences'
+import type { UserPreferences } from '@/lib/types'
+
+type PreferencesContextValue = {
+    preferences: UserPreferences
+    // Called by the settings page once a change is saved
+    setPreferences: (preferences: UserPreferences) => void
+}
+
+const PreferencesContext = createContext<PreferencesContextValue>({
+    preferences: DEFAULT_PREFERENCES,
+    setPreferences: () => {},
+})
+
+// The saved theme follows the user across devices; next-themes' own copy in localStorage
+// only avoids a flash of the wrong theme on load
+function ThemeSync({ theme }: { theme: UserPreferences['theme'] }) {
+    const { setTheme } = useTheme()
+    useEffect(() => {
+        setTheme(theme)
+    }, [theme, setTheme])
+    return null
+}
+
+// The signed-in user's settings (from the root layout) for every page, and the theme they chose
+export function PreferencesProvider({
+    initialPreferences,
+    children,
+}: {
+    initialPreferences: UserPreferences
+    children: React.ReactNode
+}) {
+    const [preferences, setPreferences] = useState(initialPreferences)
+    // The layout sends fresh preferences after a refresh or when another user signs in
+    const [source, setSource] = useState(initialPreferences)
+    if (initialPreferences !== source) {
+        setSource(initialPreferences)
+        setPreferences(initialPreferences)
+    }
+
+    return (
+        <ThemeProvider attribute="class" defaultTheme={initialPreferences.theme} enableSystem disableTransitionOnChange>
+            <ThemeSync theme={preferences.theme} />
+            <PreferencesContext.Provider value={{ preferences, setPreferences }}>{children}</PreferencesContext.Provider>
+        </ThemeProvider>
+    )
+}
+
+export const usePreferences = () => useContext(PreferencesContext)
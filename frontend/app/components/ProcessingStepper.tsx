@@ -0,0 +1,66 @@
+'use client'
+
+import { useTranslation } from '@/app/components/LocaleProvider'
+import type { JobStage } from '@/lib/api'
+
+export type ProcessingProgress = {
+    // 'uploading' until the backend has the whole recording, then the job's stage
+    stage: 'uploading' | JobStage
+    // Share of the recording the backend has, from 0 to 1
+    uploadFraction: number
+}
+
+const STEPS = [
+    { stage: 'uploading', label: 'processing.upload' },
+    { stage: 'transcribing', label: 'processing.transcribe' },
+    { stage: 'summarizing', label: 'processing.summarize' },
+    { stage: 'saving', label: 'processing.save' },
+] as const
+
+// A queued job is waiting for its turn to transcribe
+const stepIndex = (stage: ProcessingProgress['stage']) => {
+    if (stage === 'queued') return 1
+    if (stage === 'done') return STEPS.length
+    const index = STEPS.findIndex((step) => step.stage === stage)
+    return index === -1 ? 0 : index
+}
+
+// Upload → transcribe → summarize → save, with the upload as a percentage
+export default function ProcessingStepper({ progress }: { progress: ProcessingProgress }) {
+    const { t } = useTranslation()
+    const current = stepIndex(progress.stage)
+    const uploadPercent = Math.round(progress.uploadFraction * 100)
+
+    return (
+        <ol className="grid gap-3 rounded-md border p-4" aria-label={t('processing.progress')}>
+            {STEPS.map((step, i) => {
+                const state = i < current ? 'done' : i === current ? 'active' : 'waiting'
+                return (
+                    <li key={step.stage} className="flex items-center gap-3" aria-current={state === 'active' ? 'step' : undefined}>
+                        <span
+                            className={`flex h-6 w-6 shrink-0 items-center justify-center rounded-full text-xs font-medium ${
+                                state === 'done'
+                                    ? 'bg-green-600 text-white'
+                                    : state === 'active'
+                                        ? 'bg-gray-900 text-white animate-pulse'
+                                        : 'bg-gray-200 text-gray-500'
+                            }`}
+                        >
+                            {state === 'done' ? '✓' : i + 1}
+                        </span>
+                        <span className={`text-sm ${state === 'waiting' ? 'text-gray-400' : ''}`}>
+                            {t(step.label)}
+                            {step.stage === 'uploading' && state === 'active' && ` — ${uploadPercent}%`}
+                            {step.stage === 'transcribing' && progress.stage === 'queued' && ` — ${t('processing.waiting')}`}
+                        </span>
+                        {step.stage === 'uploading' && state === 'active' && (
+                            <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-gray-200">
+                                <div className="h-full bg-gray-900 transition-all" style={{ width: `${uploadPercent}%` }} />
+                            </div>
+                        )}
+                    </li>
+                )
+            })}
+        </ol>
+    )
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import { motion } from 'framer-motion'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import { MAX_LENGTH_OPTIONS_MINUTES, type Recorder } from '@/hooks/useRecorder'
+import { formatDuration } from '@/lib/audio-files'
+
+type RecorderControlsProps = {
+    recorder: Recorder
+    onStart: () => void
+    disabled?: boolean
+}
+
+const METER_SEGMENTS = 20
+
+// Mic and length settings, start/pause/stop buttons, elapsed time and a live input level meter
+export default function RecorderControls({ recorder, onStart, disabled = false }: RecorderControlsProps) {
+    const { t } = useTranslation()
+    const { status, elapsedMs, level, isSilent, devices, deviceId, maxLengthMinutes, maxLengthMs } = recorder
+    const isActive = status !== 'idle'
+    const litSegments = Math.round(level * METER_SEGMENTS)
+    const deviceLabel = (device: MediaDeviceInfo, i: number) => device.label || t('recorder.deviceNumber', { number: i + 1 })
+    const currentDeviceName = devices.find((d) => d.deviceId === deviceId)?.label || t('recorder.defaultDevice')
+
+    return (
+        <div className="grid gap-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+                <div className="grid gap-2 sm:col-span-2">
+                    <Label htmlFor="recorder-device">{t('recorder.microphone')}</Label>
+                    <select
+                        id="recorder-device"
+                        className="h-9 rounded-md border bg-transparent px-2 text-sm"
+                        value={deviceId}
+                        onChange={(e) => recorder.setDeviceId(e.target.value)}
+                        disabled={isActive}
+                    >
+                        <option value="">{t('recorder.systemDefault')}</option>
+                        {devices
+                            .filter((d) => d.deviceId && d.deviceId !== 'default')
+                            .map((device, i) => (
+                                <option key={device.deviceId} value={device.deviceId}>
+                                    {deviceLabel(device, i)}
+                                </option>
+                            ))}
+                    </select>
+                </div>
+                <div className="grid gap-2">
+                    <Label htmlFor="recorder-max-length">{t('recorder.maxLength')}</Label>
+                    <select
+                        id="recorder-max-length"
+                        className="h-9 rounded-md border bg-transparent px-2 text-sm"
+                        value={maxLengthMinutes}
+                        onChange={(e) => recorder.setMaxLengthMinutes(Number(e.target.value))}
+                        disabled={isActive}
+                    >
+                        {MAX_LENGTH_OPTIONS_MINUTES.map((minutes) => (
+                            <option key={minutes} value={minutes}>
+                                {t('recorder.minutes', { minutes })}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {/* --- Timer & level meter --- */}
+            <div className="flex items-center gap-3">
+                <span
+                    className={`h-2.5 w-2.5 rounded-full ${
+                        status === 'recording' ? 'bg-red-600 animate-pulse' : status === 'paused' ? 'bg-amber-500' : 'bg-gray-300'
+                    }`}
+                    aria-hidden
+                />
+                <span className="font-mono text-sm tabular-nums" aria-live="off">
+                    {formatDuration(Math.floor(elapsedMs / 1000))}
+                    <span className="text-gray-400"> / {formatDuration(maxLengthMs / 1000)}</span>
+                </span>
+                <div className="flex flex-1 items-end gap-0.5 h-5" role="meter" aria-label={t('recorder.inputLevel')} aria-valuemin={0} aria-valuemax={1} aria-valuenow={level}>
+                    {Array.from({ length: METER_SEGMENTS }, (_, i) => (
+                        <span
+                            key={i}
+                            className={`flex-1 rounded-sm ${
+                                i < litSegments
+                                    ? i >= METER_SEGMENTS * 0.85 ? 'bg-red-500' : i >= METER_SEGMENTS * 0.6 ? 'bg-amber-400' : 'bg-green-500'
+                                    : 'bg-gray-200'
+                            }`}
+                            style={{ height: `${30 + (i / METER_SEGMENTS) * 70}%` }}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            {isSilent && (
+                <p className="rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                    {t('recorder.silent', { device: currentDeviceName })}
+                </p>
+            )}
+
+            <div className="flex gap-2">
+                {isActive ? (
+                    <>
+                        <motion.div
+                            className="flex-1"
+                            animate={status === 'recording' ? { scale: [1, 1.03, 1], opacity: [1, 0.8, 1] } : {}}
+                            transition={status === 'recording' ? { duration: 1.5, repeat: Infinity, ease: 'easeInOut' } : {}}
+                        >
+                            <Button onClick={() => recorder.stop()} className="w-full bg-red-600 hover:bg-red-700">
+                                {t('recorder.stop')}
+                            </Button>
+                        </motion.div>
+                        <Button
+                            variant="outline"
+                            className="flex-1"
+                            onClick={status === 'recording' ? recorder.pause : recorder.resume}
+                        >
+                            {status === 'recording' ? t('recorder.pause') : t('recorder.resume')}
+                        </Button>
+                    </>
+                ) : (
+                    <Button onClick={onStart} className="flex-1" disabled={disabled}>
+                        {t('recorder.start')}
+                    </Button>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,122 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState, type ReactNode } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import { escapeRegExp } from '@/lib/utils'
+
+type SearchableTextPaneProps = {
+    title: string
+    text: string
+    // Extra buttons rendered next to the search box (copy, export, edit...)
+    actions?: ReactNode
+    // Replaces the text view, e.g. with an editor
+    children?: ReactNode
+    // Called with the character offset of a click in the text (not a drag-selection)
+    onTextClick?: (offset: number) => void
+}
+
+// A scrollable block of text with in-pane search and match highlighting
+export default function SearchableTextPane({ title, text, actions, children, onTextClick }: SearchableTextPaneProps) {
+    const [query, setQuery] = useState('')
+    const [activeMatch, setActiveMatch] = useState(0)
+    const { t } = useTranslation()
+    const matchRefs = useRef<(HTMLElement | null)[]>([])
+
+    const parts = useMemo(() => {
+        const term = query.trim()
+        if (!term) return [text]
+        return text.split(new RegExp(`(${escapeRegExp(term)})`, 'gi'))
+    }, [text, query])
+    const matchCount = (parts.length - 1) / 2
+    // Where each part starts in the text, so a click can be mapped back to an offset
+    const partOffsets = useMemo(() => {
+        const offsets: number[] = []
+        let offset = 0
+        for (const part of parts) {
+            offsets.push(offset)
+            offset += part.length
+        }
+        return offsets
+    }, [parts])
+
+    const handleTextClick = () => {
+        const selection = window.getSelection()
+        if (!onTextClick || !selection?.isCollapsed || !selection.anchorNode) return
+        const part = selection.anchorNode.parentElement?.closest<HTMLElement>('[data-offset]')
+        if (part) onTextClick(Number(part.dataset.offset) + selection.anchorOffset)
+    }
+
+    // Bring the current match into view
+    useEffect(() => {
+        matchRefs.current[activeMatch]?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+    }, [activeMatch, query])
+
+    const step = (delta: number) => {
+        if (matchCount === 0) return
+        setActiveMatch((current) => (current + delta + matchCount) % matchCount)
+    }
+
+    return (
+        <Card className="flex flex-col min-h-0">
+            <CardHeader>
+                <CardTitle className="flex flex-wrap justify-between items-center gap-2">
+                    <span>{title}</span>
+                    <div className="flex flex-wrap gap-2">{actions}</div>
+                </CardTitle>
+                <div className="flex items-center gap-2">
+                    <Input
+                        placeholder={t('textPane.search')}
+                        value={query}
+                        onChange={(e) => {
+                            setQuery(e.target.value)
+                            setActiveMatch(0)
+                        }}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') step(e.shiftKey ? -1 : 1)
+                        }}
+                    />
+                    {query.trim() && (
+                        <>
+                            <span className="text-xs text-gray-500 whitespace-nowrap">
+                                {matchCount === 0 ? t('textPane.noMatches') : `${activeMatch + 1} / ${matchCount}`}
+                            </span>
+                            <Button variant="outline" size="sm" onClick={() => step(-1)} disabled={matchCount === 0}>
+                                {t('textPane.previous')}
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => step(1)} disabled={matchCount === 0}>
+                                {t('textPane.next')}
+                            </Button>
+                        </>
+                    )}
+                </div>
+            </CardHeader>
+            <CardContent className="flex-1 min-h-0">
+                {children ?? (
+                    <div
+                        className={`h-[60vh] overflow-y-auto rounded-md border p-3 font-mono text-sm whitespace-pre-wrap ${onTextClick ? 'cursor-pointer' : ''}`}
+                        onClick={handleTextClick}
+                    >
+                        {parts.map((part, i) => {
+                            if (i % 2 === 0) return <span key={i} data-offset={partOffsets[i]}>{part}</span>
+                            // split() with a capture group puts every match at an odd index
+                            const index = (i - 1) / 2
+                            return (
+                                <mark
+                                    key={i}
+                                    data-offset={partOffsets[i]}
+                                    ref={(el) => { matchRefs.current[index] = el }}
+                                    className={index === activeMatch ? 'bg-orange-300' : 'bg-yellow-200'}
+                                >
+                                    {part}
+                                </mark>
+                            )
+                        })}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
@@ -0,0 +1,183 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import type { Factor } from '@supabase/supabase-js'
+import { toast } from 'sonner'
+import { createClient } from '@/utils/supabase/client'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useDates, useTranslation } from '@/app/components/LocaleProvider'
+import { enrolTotp, listTotpFactors, removeFactor, verifyTotp } from '@/lib/auth'
+
+type SecuritySettingsProps = {
+    initialFactors: Factor[]
+    // Where to continue once two-factor authentication is set up
+    next: string
+    // Set when one of the user's workspaces requires two-factor authentication
+    required: boolean
+}
+
+// An enrolment waiting for its first code
+type PendingEnrolment = { factorId: string; qrCode: string; secret: string }
+
+// Two-factor authentication (TOTP authenticator apps) and the password
+export default function SecuritySettings({ initialFactors, next, required }: SecuritySettingsProps) {
+    const { t } = useTranslation()
+    const [factors, setFactors] = useState(initialFactors)
+    const [name, setName] = useState(t('mfa.app'))
+    const [pending, setPending] = useState<PendingEnrolment | null>(null)
+    const [code, setCode] = useState('')
+    const [isBusy, setIsBusy] = useState(false)
+    const router = useRouter()
+    const supabase = createClient()
+    const { formatDate } = useDates()
+    const errorDescription = (error: unknown) => (error instanceof Error ? error.message : t('common.tryAgain'))
+
+    const handleEnrol = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setIsBusy(true)
+        try {
+            const enrolment = await enrolTotp(supabase, name.trim() || t('mfa.app'))
+            setPending({ factorId: enrolment.id, qrCode: enrolment.totp.qr_code, secret: enrolment.totp.secret })
+            setCode('')
+        } catch (error) {
+            toast.error(t('toast.mfaSetupFailed'), { description: errorDescription(error) })
+        } finally {
+            setIsBusy(false)
+        }
+    }
+
+    const handleConfirm = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!pending) return
+        setIsBusy(true)
+        try {
+            await verifyTotp(supabase, pending.factorId, code)
+            const wasRequired = factors.length === 0
+            setFactors(await listTotpFactors(supabase))
+            setPending(null)
+            toast.success(t('toast.mfaOn'))
+            // Users sent here by middleware continue to the page they asked for
+            if (wasRequired) {
+                router.push(next)
+                router.refresh()
+            }
+        } catch {
+            toast.error(t('toast.wrongCode'), { description: t('toast.wrongCodeBody') })
+            setCode('')
+        } finally {
+            setIsBusy(false)
+        }
+    }
+
+    const handleRemove = async (factor: Factor) => {
+        try {
+            await removeFactor(supabase, factor.id)
+            setFactors((prev) => prev.filter((f) => f.id !== factor.id))
+            toast.success(t('toast.appRemoved'))
+            if (factors.length === 1) router.refresh()
+        } catch (error) {
+            toast.error(t('toast.removeAppFailed'), { description: errorDescription(error) })
+        }
+    }
+
+    return (
+        <div className="w-full max-w-2xl mx-auto p-4 md:p-8">
+            <header className="mb-6">
+                <Link href="/" className="text-sm text-blue-600 hover:underline">
+                    {t('noteDetail.back')}
+                </Link>
+                <h1 className="text-3xl font-bold mt-1">{t('security.title')}</h1>
+            </header>
+
+            {required && factors.length === 0 && (
+                <div className="mb-6 rounded-md border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900">
+                    {t('security.required')}
+                </div>
+            )}
+
+            <div className="grid gap-6">
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{t('mfa.title')}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="grid gap-4">
+                        {factors.length > 0 && (
+                            <ul className="grid gap-2">
+                                {factors.map((factor) => (
+                                    <li key={factor.id} className="flex items-center justify-between gap-2 text-sm">
+                                        <span>
+                                            {factor.friendly_name || t('mfa.app')}
+                                            <span className="text-gray-500">
+                                                {' '}· {t('security.added', { date: formatDate(factor.created_at) })}
+                                            </span>
+                                        </span>
+                                        <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleRemove(factor)}>
+                                            {t('common.remove')}
+                                        </Button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        {pending ? (
+                            <form onSubmit={handleConfirm} className="grid gap-3">
+                                <p className="text-sm text-gray-600">{t('security.scan')}</p>
+                                {/* eslint-disable-next-line @next/next/no-img-element -- an inline SVG data URL */}
+                                <img src={pending.qrCode} alt={t('security.qrCode')} className="h-48 w-48" />
+                                <p className="text-xs text-gray-500 break-all">
+                                    {t('security.enterKey')} <code>{pending.secret}</code>
+                                </p>
+                                <div className="grid gap-2">
+                                    <Label htmlFor="mfa-confirm-code">{t('mfa.code')}</Label>
+                                    <Input
+                                        id="mfa-confirm-code"
+                                        inputMode="numeric"
+                                        autoComplete="one-time-code"
+                                        required
+                                        value={code}
+                                        onChange={(e) => setCode(e.target.value)}
+                                    />
+                                </div>
+                                <div className="flex gap-2">
+                                    <Button type="submit" disabled={isBusy}>
+                                        {isBusy ? t('mfa.verifying') : t('security.turnOn')}
+                                    </Button>
+                                    <Button type="button" variant="outline" onClick={() => setPending(null)}>
+                                        {t('common.cancel')}
+                                    </Button>
+                                </div>
+                            </form>
+                        ) : (
+                            <form onSubmit={handleEnrol} className="flex gap-2 items-end">
+                                <div className="grid gap-1 flex-1">
+                                    <Label htmlFor="mfa-name">{t('security.appName')}</Label>
+                                    <Input id="mfa-name" value={name} onChange={(e) => setName(e.target.value)} />
+                                </div>
+                                <Button type="submit" disabled={isBusy}>
+                                    {factors.length > 0 ? t('security.addAnother') : t('security.setUp')}
+                                </Button>
+                            </form>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{t('security.password')}</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <Button variant="outline" onClick={() => router.push('/update-password')}>
+                            {t('security.changePassword')}
+                        </Button>
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+    )
+}
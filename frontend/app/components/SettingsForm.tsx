@@ -0,0 +1,311 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { createClient } from '@/utils/supabase/client'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import { usePreferences } from '@/app/components/PreferencesProvider'
+import {
+    AUDIO_RETENTION_OPTIONS_DAYS,
+    DATE_FORMATS,
+    RECORDING_LANGUAGES,
+    savePreferences,
+    THEMES,
+} from '@/lib/preferences'
+import type { PdfLetterhead, PdfSignature } from '@/lib/pdf'
+import type { DateFormat, NoteTemplate, RecordingLanguage, ThemePreference, UserPreferences } from '@/lib/types'
+
+type SettingsFormProps = {
+    userId: string
+    templates: NoteTemplate[]
+}
+
+// Logos and signatures are stored in the preferences row as data URLs
+const MAX_IMAGE_BYTES = 150 * 1024
+
+const readImage = (file: File) =>
+    new Promise<string>((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(reader.result as string)
+        reader.onerror = () => reject(reader.error)
+        reader.readAsDataURL(file)
+    })
+
+const emptyLetterhead: PdfLetterhead = { practiceName: '', lines: [] }
+const emptySignature: PdfSignature = { name: '' }
+
+const selectClassName = 'h-9 rounded-md border bg-transparent px-2 text-sm'
+
+// /settings: appearance, recording defaults, date format, PDF letterhead and signature, audio retention
+export default function SettingsForm({ userId, templates }: SettingsFormProps) {
+    const { preferences, setPreferences } = usePreferences()
+    const [draft, setDraft] = useState<UserPreferences>(preferences)
+    const [isSaving, setIsSaving] = useState(false)
+
+    const supabase = createClient()
+    const { t } = useTranslation()
+
+    const letterhead = draft.letterhead ?? emptyLetterhead
+    const signature = draft.signature ?? emptySignature
+
+    const update = (changes: Partial<UserPreferences>) => setDraft((prev) => ({ ...prev, ...changes }))
+    const updateLetterhead = (changes: Partial<PdfLetterhead>) => update({ letterhead: { ...letterhead, ...changes } })
+    const updateSignature = (changes: Partial<PdfSignature>) => update({ signature: { ...signature, ...changes } })
+
+    const retentionLabel = (days: number) => {
+        if (days === 0) return t('settings.retention.forever')
+        if (days === 365) return t('settings.retention.year')
+        return t('settings.retention.days', { days })
+    }
+
+    const handleImage = async (file: File | undefined, apply: (dataUrl: string) => void) => {
+        if (!file) return
+        if (file.size > MAX_IMAGE_BYTES) {
+            toast.error(t('toast.imageFailed'), { description: t('settings.imageTooLarge', { size: MAX_IMAGE_BYTES / 1024 }) })
+            return
+        }
+        try {
+            apply(await readImage(file))
+        } catch {
+            toast.error(t('toast.imageFailed'), { description: t('settings.imageUnreadable') })
+        }
+    }
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setIsSaving(true)
+        try {
+            // A letterhead or signature without a name prints nothing, so don't keep it
+            const saved = await savePreferences(supabase, userId, {
+                ...draft,
+                letterhead: letterhead.practiceName.trim() ? letterhead : null,
+                signature: signature.name.trim() ? signature : null,
+            })
+            setPreferences(saved)
+            setDraft(saved)
+            toast.success(t('toast.settingsSaved'))
+        } catch (error) {
+            toast.error(t('toast.saveSettingsFailed'), {
+                description: error instanceof Error ? error.message : t('common.tryAgain'),
+            })
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <form onSubmit={handleSave} className="w-full max-w-2xl mx-auto p-4 md:p-8">
+            <header className="mb-6">
+                <Link href="/" className="text-sm text-blue-600 hover:underline">
+                    {t('noteDetail.back')}
+                </Link>
+                <h1 className="text-3xl font-bold mt-1">{t('settings.title')}</h1>
+            </header>
+
+            <div className="grid gap-6">
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{t('settings.general')}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="grid gap-4 sm:grid-cols-2">
+                        <div className="grid gap-2">
+                            <Label htmlFor="settings-theme">{t('settings.theme')}</Label>
+                            <select
+                                id="settings-theme"
+                                className={selectClassName}
+                                value={draft.theme}
+                                onChange={(e) => update({ theme: e.target.value as ThemePreference })}
+                            >
+                                {THEMES.map((theme) => (
+                                    <option key={theme} value={theme}>{t(`settings.theme.${theme}`)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="settings-date-format">{t('settings.dateFormat')}</Label>
+                            <select
+                                id="settings-date-format"
+                                className={selectClassName}
+                                value={draft.date_format}
+                                onChange={(e) => update({ date_format: e.target.value as DateFormat })}
+                            >
+                                {DATE_FORMATS.map((format) => (
+                                    <option key={format} value={format}>{t(`settings.dateFormat.${format}`)}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{t('settings.recording')}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="grid gap-4 sm:grid-cols-2">
+                        <div className="grid gap-2">
+                            <Label htmlFor="settings-template">{t('settings.defaultTemplate')}</Label>
+                            <select
+                                id="settings-template"
+                                className={selectClassName}
+                                value={draft.default_template_id ?? ''}
+                                onChange={(e) => update({ default_template_id: e.target.value || null })}
+                            >
+                                <option value="">{t('settings.generalTemplate')}</option>
+                                {templates.filter((template) => template.key !== 'general').map((template) => (
+                                    <option key={template.id} value={template.id}>
+                                        {template.user_id ? t('dashboard.customTemplate', { name: template.name }) : template.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="settings-language">{t('settings.spokenLanguage')}</Label>
+                            <select
+                                id="settings-language"
+                                className={selectClassName}
+                                value={draft.recording_language}
+                                onChange={(e) => update({ recording_language: e.target.value as RecordingLanguage })}
+                            >
+                                {RECORDING_LANGUAGES.map((code) => (
+                                    <option key={code} value={code}>{t(`language.${code}`)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="grid gap-2 sm:col-span-2">
+                            <Label htmlFor="settings-retention">{t('settings.retention')}</Label>
+                            <select
+                                id="settings-retention"
+                                className={selectClassName}
+                                value={draft.audio_retention_days ?? ''}
+                                onChange={(e) =>
+                                    update({ audio_retention_days: e.target.value === '' ? null : Number(e.target.value) })
+                                }
+                            >
+                                <option value="">{t('settings.retention.default')}</option>
+                                {AUDIO_RETENTION_OPTIONS_DAYS.map((days) => (
+                                    <option key={days} value={days}>{retentionLabel(days)}</option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-gray-500">
+                                {t('settings.retention.hint')}
+                            </p>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{t('settings.letterhead')}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="grid gap-4">
+                        <div className="grid gap-2">
+                            <Label htmlFor="settings-practice">{t('settings.practiceName')}</Label>
+                            <Input
+                                id="settings-practice"
+                                placeholder={t('settings.practiceNamePlaceholder')}
+                                value={letterhead.practiceName}
+                                onChange={(e) => updateLetterhead({ practiceName: e.target.value })}
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="settings-address">{t('settings.address')}</Label>
+                            <Textarea
+                                id="settings-address"
+                                rows={3}
+                                value={(letterhead.lines ?? []).join('\n')}
+                                onChange={(e) => updateLetterhead({ lines: e.target.value.split('\n').slice(0, 3) })}
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="settings-logo">{t('settings.logo')}</Label>
+                            <div className="flex items-center gap-3">
+                                {letterhead.logoDataUrl && (
+                                    // eslint-disable-next-line @next/next/no-img-element -- a data URL preview
+                                    <img src={letterhead.logoDataUrl} alt={t('settings.logoAlt')} className="h-12 w-12 object-contain" />
+                                )}
+                                <Input
+                                    id="settings-logo"
+                                    type="file"
+                                    accept="image/png,image/jpeg"
+                                    onChange={(e) => handleImage(e.target.files?.[0], (logoDataUrl) => updateLetterhead({ logoDataUrl }))}
+                                />
+                                {letterhead.logoDataUrl && (
+                                    <Button type="button" variant="ghost" size="sm" onClick={() => updateLetterhead({ logoDataUrl: undefined })}>
+                                        {t('common.remove')}
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{t('settings.signature')}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="grid gap-4 sm:grid-cols-2">
+                        <div className="grid gap-2">
+                            <Label htmlFor="settings-signature-name">{t('settings.signatureName')}</Label>
+                            <Input
+                                id="settings-signature-name"
+                                placeholder={t('settings.signatureNamePlaceholder')}
+                                value={signature.name}
+                                onChange={(e) => updateSignature({ name: e.target.value })}
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="settings-signature-title">{t('settings.signatureTitle')}</Label>
+                            <Input
+                                id="settings-signature-title"
+                                placeholder={t('settings.signatureTitlePlaceholder')}
+                                value={signature.title ?? ''}
+                                onChange={(e) => updateSignature({ title: e.target.value || undefined })}
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="settings-signature-registration">{t('settings.registration')}</Label>
+                            <Input
+                                id="settings-signature-registration"
+                                value={signature.registration ?? ''}
+                                onChange={(e) => updateSignature({ registration: e.target.value || undefined })}
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="settings-signature-image">{t('settings.signatureImage')}</Label>
+                            <div className="flex items-center gap-3">
+                                {signature.imageDataUrl && (
+                                    // eslint-disable-next-line @next/next/no-img-element -- a data URL preview
+                                    <img src={signature.imageDataUrl} alt={t('settings.signatureImage')} className="h-10 w-24 object-contain" />
+                                )}
+                                <Input
+                                    id="settings-signature-image"
+                                    type="file"
+                                    accept="image/png,image/jpeg"
+                                    onChange={(e) => handleImage(e.target.files?.[0], (imageDataUrl) => updateSignature({ imageDataUrl }))}
+                                />
+                                {signature.imageDataUrl && (
+                                    <Button type="button" variant="ghost" size="sm" onClick={() => updateSignature({ imageDataUrl: undefined })}>
+                                        {t('common.remove')}
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <div className="flex justify-end">
+                    <Button type="submit" disabled={isSaving}>
+                        {isSaving ? t('common.saving') : t('settings.save')}
+                    </Button>
+                </div>
+            </div>
+        </form>
+    )
+}
@@ -0,0 +1,184 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { createClient } from '@/utils/supabase/client'
+import { useDates, useTranslation } from '@/app/components/LocaleProvider'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+    AlertDialog,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+    createNoteShare,
+    isShareActive,
+    listNoteShares,
+    revokeNoteShare,
+    shareUrl,
+    SHARE_EXPIRY_OPTIONS_DAYS,
+} from '@/lib/shares'
+import type { NoteShare } from '@/lib/types'
+
+type ShareDialogProps = {
+    summaryId: string
+    size?: 'sm' | 'default'
+}
+
+// "Share" button: creates read-only links to the note and lists earlier ones with their view counts
+export default function ShareDialog({ summaryId, size = 'sm' }: ShareDialogProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const [shares, setShares] = useState<NoteShare[] | null>(null)
+    const [expiresInDays, setExpiresInDays] = useState(SHARE_EXPIRY_OPTIONS_DAYS[1])
+    const [passcode, setPasscode] = useState('')
+    const [isCreating, setIsCreating] = useState(false)
+
+    const supabase = createClient()
+    const { formatDate } = useDates()
+    const { t } = useTranslation()
+
+    const shareState = (share: NoteShare) => {
+        if (share.revoked_at) return t('share.revoked')
+        if (share.locked_at) return t('share.locked')
+        if (!isShareActive(share)) return t('share.expired', { date: formatDate(share.expires_at) })
+        return t('share.expires', { date: formatDate(share.expires_at) })
+    }
+
+    const copyLink = async (share: NoteShare) => {
+        try {
+            await navigator.clipboard.writeText(shareUrl(share.token))
+            toast.success(t('toast.linkCopied'))
+        } catch {
+            toast.error(t('toast.copyFailed'), { description: t('toast.copyBlocked') })
+        }
+    }
+
+    const open = async () => {
+        setIsOpen(true)
+        try {
+            setShares(await listNoteShares(supabase, summaryId))
+        } catch (error) {
+            setShares([])
+            toast.error(t('toast.loadLinksFailed'), {
+                description: error instanceof Error ? error.message : t('common.tryAgain'),
+            })
+        }
+    }
+
+    const handleCreate = async () => {
+        setIsCreating(true)
+        try {
+            const share = await createNoteShare(supabase, summaryId, expiresInDays, passcode.trim() || null)
+            setShares((prev) => [share, ...(prev ?? [])])
+            setPasscode('')
+            await copyLink(share)
+        } catch (error) {
+            toast.error(t('toast.createLinkFailed'), {
+                description: error instanceof Error ? error.message : t('common.tryAgain'),
+            })
+        } finally {
+            setIsCreating(false)
+        }
+    }
+
+    const handleRevoke = async (share: NoteShare) => {
+        try {
+            const revoked = await revokeNoteShare(supabase, share.id)
+            setShares((prev) => prev?.map((s) => (s.id === revoked.id ? revoked : s)) ?? null)
+            toast.success(t('toast.linkRevoked'), { description: t('toast.linkRevokedBody') })
+        } catch (error) {
+            toast.error(t('toast.revokeLinkFailed'), {
+                description: error instanceof Error ? error.message : t('common.tryAgain'),
+            })
+        }
+    }
+
+    return (
+        <>
+            <Button variant="outline" size={size} onClick={open}>
+                {t('share.button')}
+            </Button>
+
+            <AlertDialog open={isOpen} onOpenChange={setIsOpen}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>{t('share.title')}</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            {t('share.description')}
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+
+                    <div className="grid gap-3 sm:grid-cols-2">
+                        <div className="grid gap-1">
+                            <Label htmlFor="share-expiry">{t('share.expiresAfter')}</Label>
+                            <select
+                                id="share-expiry"
+                                className="h-9 rounded-md border bg-transparent px-2 text-sm"
+                                value={expiresInDays}
+                                onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                            >
+                                {SHARE_EXPIRY_OPTIONS_DAYS.map((days) => (
+                                    <option key={days} value={days}>
+                                        {days === 1 ? t('share.oneDay') : t('share.days', { days })}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="grid gap-1">
+                            <Label htmlFor="share-passcode">{t('share.passcode')}</Label>
+                            <Input
+                                id="share-passcode"
+                                type="text"
+                                autoComplete="off"
+                                value={passcode}
+                                onChange={(e) => setPasscode(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                    <Button onClick={handleCreate} disabled={isCreating}>
+                        {isCreating ? t('share.creating') : t('share.create')}
+                    </Button>
+
+                    <div className="grid gap-2 max-h-60 overflow-y-auto">
+                        {shares === null && <p className="text-sm text-gray-500">{t('share.loading')}</p>}
+                        {shares?.length === 0 && <p className="text-sm text-gray-500">{t('share.none')}</p>}
+                        {shares?.map((share) => (
+                            <div key={share.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                                <div className={isShareActive(share) ? '' : 'text-gray-400'}>
+                                    <p>
+                                        {shareState(share)}
+                                        {share.passcode_hash && ` · ${t('share.hasPasscode')}`}
+                                    </p>
+                                    <p className="text-xs text-gray-500">
+                                        {share.view_count === 1 ? t('share.oneView') : t('share.views', { count: share.view_count })}
+                                    </p>
+                                </div>
+                                {isShareActive(share) && (
+                                    <div className="flex gap-1">
+                                        <Button variant="ghost" size="sm" onClick={() => copyLink(share)}>
+                                            {t('common.copy')}
+                                        </Button>
+                                        <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleRevoke(share)}>
+                                            {t('share.revoke')}
+                                        </Button>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>{t('common.done')}</AlertDialogCancel>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </>
+    )
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import { useState } from 'react'
+import { createClient } from '@/utils/supabase/client'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useDates, useTranslation } from '@/app/components/LocaleProvider'
+import SummarySections from '@/app/components/SummarySections'
+import type { MessageKey } from '@/lib/i18n'
+import { fetchSharedNote, type SharedNoteResult } from '@/lib/shares'
+
+type SharedNoteViewProps = {
+    token: string
+    // Whether the link can be opened, from fetchSharedNoteStatus
+    initialResult: SharedNoteResult
+}
+
+const UNAVAILABLE_MESSAGES: Record<'not_found' | 'expired' | 'locked', MessageKey> = {
+    not_found: 'sharedNote.notFound',
+    expired: 'sharedNote.expired',
+    locked: 'sharedNote.locked',
+}
+
+// A shared note for visitors without an account. The note loads, and counts as a view, only when
+// the visitor opens it, with the passcode if the link has one.
+export default function SharedNoteView({ token, initialResult }: SharedNoteViewProps) {
+    const [result, setResult] = useState(initialResult)
+    const [passcode, setPasscode] = useState('')
+    const [isChecking, setIsChecking] = useState(false)
+    const [error, setError] = useState('')
+
+    const supabase = createClient()
+    const { formatDate } = useDates()
+    const { t } = useTranslation()
+
+    const handleUnlock = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setIsChecking(true)
+        setError('')
+        try {
+            const next = await fetchSharedNote(supabase, token, result.status === 'ready' ? null : passcode)
+            if (next.status === 'wrong_passcode') {
+                setError(next.attempts_left === 1
+                    ? t('sharedNote.wrongPasscodeOne')
+                    : t('sharedNote.wrongPasscode', { count: next.attempts_left }))
+            } else {
+                setResult(next)
+            }
+        } catch {
+            setError(t('sharedNote.openFailed'))
+        } finally {
+            setIsChecking(false)
+        }
+    }
+
+    if (result.status === 'ok') {
+        const { note } = result
+        return (
+            <div className="container mx-auto p-4 md:p-8 max-w-3xl grid gap-4">
+                <p className="text-sm text-gray-500">
+                    {t('sharedNote.banner', { date: formatDate(result.expires_at) })}
+                </p>
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex justify-between items-center">
+                            <span className="font-medium">{note.client_name || t('common.untitledNote')}</span>
+                            <span className="text-sm font-normal text-gray-500">
+                                {formatDate(note.created_at)}
+                            </span>
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <SummarySections summary={note.structured_summary} sectionOrder={note.sections} />
+                    </CardContent>
+                </Card>
+            </div>
+        )
+    }
+
+    return (
+        <div className="flex items-center justify-center min-h-screen">
+            <Card className="w-full max-w-sm">
+                <CardHeader>
+                    <CardTitle className="text-xl text-center">{t('sharedNote.title')}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {result.status === 'not_found' || result.status === 'expired' || result.status === 'locked' ? (
+                        <p className="text-center text-gray-600">{t(UNAVAILABLE_MESSAGES[result.status])}</p>
+                    ) : (
+                        <form onSubmit={handleUnlock} className="grid gap-4">
+                            {result.status === 'ready' ? (
+                                <p className="text-center text-gray-600">{t('sharedNote.prompt')}</p>
+                            ) : (
+                                <div className="grid gap-2">
+                                    <Label htmlFor="share-passcode">{t('sharedNote.passcode')}</Label>
+                                    <Input
+                                        id="share-passcode"
+                                        type="password"
+                                        value={passcode}
+                                        onChange={(e) => setPasscode(e.target.value)}
+                                        required
+                                        autoFocus
+                                    />
+                                </div>
+                            )}
+                            <Button type="submit" className="w-full" disabled={isChecking}>
+                                {isChecking ? t('sharedNote.checking') : t('sharedNote.open')}
+                            </Button>
+                            {error && <p className="text-sm text-center text-red-500">{error}</p>}
+                        </form>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
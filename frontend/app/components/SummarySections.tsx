@@ -0,0 +1,134 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import Highlight from '@/app/components/Highlight'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import { parseOrderedSummary } from '@/lib/sections'
+
+type SummarySectionsProps = {
+    summary: string
+    // Section order from the note's template
+    sectionOrder?: string[]
+    highlightTerms?: string[]
+}
+
+// A structured summary as collapsible section cards, with a jump bar for the headings
+export default function SummarySections({ summary, sectionOrder, highlightTerms = [] }: SummarySectionsProps) {
+    const { sections, structured } = useMemo(
+        () => parseOrderedSummary(summary, sectionOrder),
+        [summary, sectionOrder]
+    )
+    const [collapsed, setCollapsed] = useState<Set<number>>(new Set())
+    const sectionRefs = useRef<(HTMLElement | null)[]>([])
+    const { t } = useTranslation()
+
+    const copyText = async (text: string, label: string) => {
+        try {
+            await navigator.clipboard.writeText(text)
+            toast.success(t('toast.copied', { label }))
+        } catch {
+            toast.error(t('toast.copyFailed'), { description: t('toast.copyBlocked') })
+        }
+    }
+
+    const toggle = (index: number) => {
+        setCollapsed((prev) => {
+            const next = new Set(prev)
+            if (next.has(index)) next.delete(index)
+            else next.add(index)
+            return next
+        })
+    }
+
+    const jumpTo = (index: number) => {
+        setCollapsed((prev) => {
+            const next = new Set(prev)
+            next.delete(index)
+            return next
+        })
+        sectionRefs.current[index]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+    }
+
+    // The model ignored the heading rules: show the text as it came
+    if (!structured) {
+        return (
+            <div className="rounded-md border px-3 py-2 font-mono text-sm whitespace-pre-wrap">
+                <Highlight text={summary} terms={highlightTerms} />
+            </div>
+        )
+    }
+
+    const allCollapsed = collapsed.size === sections.length
+
+    return (
+        <div className="grid gap-2">
+            <div className="flex flex-wrap items-center gap-1">
+                {sections.map((section, i) =>
+                    section.heading ? (
+                        <button
+                            key={i}
+                            type="button"
+                            onClick={() => jumpTo(i)}
+                            className="rounded-full border px-2 py-0.5 text-xs text-gray-600 hover:bg-gray-100"
+                        >
+                            {section.heading}
+                        </button>
+                    ) : null
+                )}
+                <Button
+                    variant="link"
+                    size="sm"
+                    className="ml-auto h-auto p-0 text-xs"
+                    onClick={() => setCollapsed(allCollapsed ? new Set() : new Set(sections.map((_, i) => i)))}
+                >
+                    {allCollapsed ? t('sections.expandAll') : t('sections.collapseAll')}
+                </Button>
+            </div>
+
+            <div className="grid gap-2 max-h-[400px] overflow-y-auto pr-1">
+                {sections.map((section, i) => {
+                    const isOpen = !collapsed.has(i)
+                    const label = section.heading ?? t('sections.overview')
+                    return (
+                        <section
+                            key={i}
+                            ref={(el) => { sectionRefs.current[i] = el }}
+                            className="rounded-md border"
+                        >
+                            <div className="flex items-center justify-between gap-2 px-3 py-1.5 bg-gray-50 dark:bg-muted rounded-t-md">
+                                <button
+                                    type="button"
+                                    onClick={() => toggle(i)}
+                                    aria-expanded={isOpen}
+                                    className="flex flex-1 items-center gap-2 text-left text-xs font-semibold tracking-wide text-blue-700"
+                                >
+                                    <span className={`transition-transform ${isOpen ? 'rotate-90' : ''}`}>▸</span>
+                                    <Highlight text={label} terms={highlightTerms} />
+                                </button>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-6 px-2 text-xs"
+                                    onClick={() => copyText(section.body, label)}
+                                >
+                                    {t('common.copy')}
+                                </Button>
+                            </div>
+                            {isOpen && (
+                                <div className="px-3 py-2 text-sm whitespace-pre-wrap">
+                                    {section.body ? (
+                                        <Highlight text={section.body} terms={highlightTerms} />
+                                    ) : (
+                                        <span className="text-gray-400">—</span>
+                                    )}
+                                </div>
+                            )}
+                        </section>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,254 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/utils/supabase/client'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import { deleteTemplate, isBuiltInTemplate, saveTemplate, type TemplateDraft } from '@/lib/templates'
+import type { NoteTemplate } from '@/lib/types'
+
+const emptyDraft: TemplateDraft = {
+    name: '',
+    description: null,
+    scribe_role: 'an expert professional scribe',
+    sections: [],
+    instructions: null,
+}
+
+const toDraft = (template: NoteTemplate): TemplateDraft => ({
+    name: template.name,
+    description: template.description,
+    scribe_role: template.scribe_role,
+    sections: [...template.sections],
+    instructions: template.instructions,
+})
+
+// Lists built-in templates and lets the user create, edit and delete their own
+export default function TemplateManager({ initialTemplates }: { initialTemplates: NoteTemplate[] }) {
+    const [templates, setTemplates] = useState(initialTemplates)
+    // id of the template being edited, 'new' for a new one, null when the editor is closed
+    const [editingId, setEditingId] = useState<string | null>(null)
+    const [draft, setDraft] = useState<TemplateDraft>(emptyDraft)
+    const [newSection, setNewSection] = useState('')
+    const [isSaving, setIsSaving] = useState(false)
+
+    const supabase = createClient()
+    const { t } = useTranslation()
+
+    const openEditor = (id: string | 'new', initial: TemplateDraft) => {
+        setEditingId(id)
+        setDraft(initial)
+        setNewSection('')
+    }
+
+    const moveSection = (index: number, delta: number) => {
+        const sections = [...draft.sections]
+        const [moved] = sections.splice(index, 1)
+        sections.splice(index + delta, 0, moved)
+        setDraft({ ...draft, sections })
+    }
+
+    const addSection = () => {
+        const heading = newSection.trim().toUpperCase()
+        if (!heading || draft.sections.includes(heading)) return
+        setDraft({ ...draft, sections: [...draft.sections, heading] })
+        setNewSection('')
+    }
+
+    const handleSave = async () => {
+        if (!draft.name.trim()) return
+        setIsSaving(true)
+        try {
+            const saved = await saveTemplate(supabase, draft, editingId === 'new' ? undefined : editingId ?? undefined)
+            setTemplates((prev) =>
+                prev.some((existing) => existing.id === saved.id)
+                    ? prev.map((existing) => (existing.id === saved.id ? saved : existing))
+                    : [...prev, saved]
+            )
+            setEditingId(null)
+            toast.success(t('toast.templateSaved'), { description: saved.name })
+        } catch (error) {
+            toast.error(t('toast.saveTemplateFailed'), {
+                description: error instanceof Error ? error.message : t('common.tryAgain'),
+            })
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const handleDelete = async (template: NoteTemplate) => {
+        try {
+            await deleteTemplate(supabase, template.id)
+            setTemplates((prev) => prev.filter((existing) => existing.id !== template.id))
+            if (editingId === template.id) setEditingId(null)
+            toast.success(t('toast.templateDeleted'), { description: template.name })
+        } catch (error) {
+            toast.error(t('toast.deleteTemplateFailed'), {
+                description: error instanceof Error ? error.message : t('common.tryAgain'),
+            })
+        }
+    }
+
+    return (
+        <div className="w-full max-w-4xl mx-auto p-4 md:p-8">
+            <header className="flex justify-between items-end mb-6">
+                <div>
+                    <Link href="/" className="text-sm text-blue-600 hover:underline">
+                        {t('noteDetail.back')}
+                    </Link>
+                    <h1 className="text-3xl font-bold mt-1">{t('templates.title')}</h1>
+                </div>
+                <Button onClick={() => openEditor('new', emptyDraft)}>{t('templates.new')}</Button>
+            </header>
+
+            {/* --- Editor --- */}
+            {editingId && (
+                <Card className="mb-8">
+                    <CardHeader>
+                        <CardTitle>{editingId === 'new' ? t('templates.new') : t('templates.edit')}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="grid gap-4">
+                        <div className="grid gap-2">
+                            <Label htmlFor="template-name">{t('templates.name')}</Label>
+                            <Input
+                                id="template-name"
+                                value={draft.name}
+                                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="template-description">{t('templates.description')}</Label>
+                            <Input
+                                id="template-description"
+                                value={draft.description ?? ''}
+                                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="template-role">{t('templates.scribeRole')}</Label>
+                            <Input
+                                id="template-role"
+                                placeholder={t('templates.scribeRolePlaceholder')}
+                                value={draft.scribe_role}
+                                onChange={(e) => setDraft({ ...draft, scribe_role: e.target.value })}
+                            />
+                        </div>
+
+                        <div className="grid gap-2">
+                            <Label htmlFor="template-new-section">{t('templates.sections')}</Label>
+                            {draft.sections.length === 0 && (
+                                <p className="text-sm text-gray-500">{t('templates.noSections')}</p>
+                            )}
+                            <ol className="grid gap-1">
+                                {draft.sections.map((section, i) => (
+                                    <li key={section} className="flex items-center gap-2 rounded-md border px-3 py-1">
+                                        <span className="text-xs text-gray-500 w-5">{i + 1}.</span>
+                                        <span className="flex-1 text-sm font-medium">{section}</span>
+                                        <Button variant="ghost" size="sm" onClick={() => moveSection(i, -1)} disabled={i === 0} aria-label={t('templates.moveUp')}>
+                                            ↑
+                                        </Button>
+                                        <Button variant="ghost" size="sm" onClick={() => moveSection(i, 1)} disabled={i === draft.sections.length - 1} aria-label={t('templates.moveDown')}>
+                                            ↓
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => setDraft({ ...draft, sections: draft.sections.filter((_, j) => j !== i) })}
+                                            aria-label={t('templates.removeSection')}
+                                        >
+                                            ✕
+                                        </Button>
+                                    </li>
+                                ))}
+                            </ol>
+                            <div className="flex gap-2">
+                                <Input
+                                    id="template-new-section"
+                                    placeholder={t('templates.sectionPlaceholder')}
+                                    value={newSection}
+                                    onChange={(e) => setNewSection(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') {
+                                            e.preventDefault()
+                                            addSection()
+                                        }
+                                    }}
+                                />
+                                <Button variant="outline" onClick={addSection}>{t('templates.addSection')}</Button>
+                            </div>
+                        </div>
+
+                        <div className="grid gap-2">
+                            <Label htmlFor="template-instructions">{t('templates.instructions')}</Label>
+                            <Textarea
+                                id="template-instructions"
+                                value={draft.instructions ?? ''}
+                                onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+                            />
+                        </div>
+
+                        <div className="flex gap-2">
+                            <Button onClick={handleSave} disabled={isSaving || !draft.name.trim()}>
+                                {isSaving ? t('common.saving') : t('templates.save')}
+                            </Button>
+                            <Button variant="ghost" onClick={() => setEditingId(null)} disabled={isSaving}>
+                                {t('common.cancel')}
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            {/* --- Template list --- */}
+            <div className="grid gap-4">
+                {templates.map((template) => (
+                    <Card key={template.id}>
+                        <CardHeader>
+                            <CardTitle className="flex justify-between items-center">
+                                <span>
+                                    {template.name}
+                                    <span className="ml-2 text-xs font-normal text-gray-500">
+                                        {isBuiltInTemplate(template) ? t('templates.builtIn') : t('templates.custom')}
+                                    </span>
+                                </span>
+                                <div className="flex gap-2">
+                                    {isBuiltInTemplate(template) ? (
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => openEditor('new', { ...toDraft(template), name: t('templates.copyName', { name: template.name }) })}
+                                        >
+                                            {t('templates.duplicate')}
+                                        </Button>
+                                    ) : (
+                                        <>
+                                            <Button variant="outline" size="sm" onClick={() => openEditor(template.id, toDraft(template))}>
+                                                {t('common.edit')}
+                                            </Button>
+                                            <Button variant="ghost" size="sm" onClick={() => handleDelete(template)}>
+                                                {t('common.delete')}
+                                            </Button>
+                                        </>
+                                    )}
+                                </div>
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="grid gap-1 text-sm">
+                            {template.description && <p className="text-gray-600">{template.description}</p>}
+                            <p className="text-xs text-gray-500">
+                                {template.sections.length > 0 ? template.sections.join(' · ') : t('templates.modelHeadings')}
+                            </p>
+                        </CardContent>
+                    </Card>
+                ))}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,124 @@
+'use client'
+
+import { useId, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import DiffView from '@/app/components/DiffView'
+import { useDates, useTranslation } from '@/app/components/LocaleProvider'
+import type { SummaryVersion, TranscriptVersion } from '@/lib/types'
+
+type NoteVersion = SummaryVersion | TranscriptVersion
+
+type VersionHistoryProps<V extends NoteVersion> = {
+    title?: string
+    versions: V[] // newest first
+    // Left out for readers who can't edit the note
+    onRestore?: (version: V) => void
+    isRestoring?: boolean
+}
+
+const versionText = (v: NoteVersion) => ('structured_summary' in v ? v.structured_summary : v.original_transcript)
+
+// Timeline of a note's summary or transcript versions with a side-by-side diff between any two of them
+export default function VersionHistory<V extends NoteVersion>({
+    title,
+    versions,
+    onRestore,
+    isRestoring,
+}: VersionHistoryProps<V>) {
+    // null means "follow the defaults": previous version against the current one
+    const [leftId, setLeftId] = useState<string | null>(null)
+    const [rightId, setRightId] = useState<string | null>(null)
+    const { formatDateTime } = useDates()
+    const { t } = useTranslation()
+    // Two histories can share a page
+    const idPrefix = useId()
+
+    const latest = versions[0]
+    if (!latest) return null
+
+    const versionLabel = (v: NoteVersion) =>
+        t('versions.optionLabel', { version: v.version, date: formatDateTime(v.created_at) })
+
+    const authorLabel = (v: NoteVersion) => {
+        if (v.version === 1) return t('versions.aiGenerated')
+        return v.edited_by_email ? t('versions.editedBy', { email: v.edited_by_email }) : t('versions.edited')
+    }
+
+    const left = versions.find((v) => v.id === leftId) ?? versions[1] ?? latest
+    const right = versions.find((v) => v.id === rightId) ?? latest
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>{title ?? t('versions.title')}</CardTitle>
+            </CardHeader>
+            <CardContent className="grid gap-6 lg:grid-cols-[280px_1fr]">
+                {/* --- Timeline --- */}
+                <ol className="grid gap-3 border-l pl-4 self-start">
+                    {versions.map((v) => (
+                        <li key={v.id} className="relative">
+                            <span className={`absolute -left-[21px] top-1.5 size-2.5 rounded-full ${v.id === latest.id ? 'bg-blue-600' : 'bg-gray-300'}`} />
+                            <div className="text-sm font-medium">
+                                {t('versions.version', { version: v.version })}
+                                {v.id === latest.id && (
+                                    <span className="ml-2 text-xs font-normal text-blue-600">{t('versions.current')}</span>
+                                )}
+                            </div>
+                            <div className="text-xs text-gray-500">{formatDateTime(v.created_at)}</div>
+                            <div className="text-xs text-gray-500">
+                                {authorLabel(v)}
+                                {v.restored_from !== null && ` · ${t('versions.restoredFrom', { version: v.restored_from })}`}
+                            </div>
+                            <div className="flex gap-2 mt-1">
+                                <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => { setLeftId(v.id); setRightId(null) }}>
+                                    {t('versions.compareWithCurrent')}
+                                </Button>
+                                {onRestore && v.id !== latest.id && (
+                                    <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => onRestore(v)} disabled={isRestoring}>
+                                        {t('versions.restore')}
+                                    </Button>
+                                )}
+                            </div>
+                        </li>
+                    ))}
+                </ol>
+
+                {/* --- Diff between two chosen versions --- */}
+                <div className="grid gap-3 min-w-0">
+                    <div className="flex flex-wrap gap-4">
+                        <div className="grid gap-1">
+                            <Label htmlFor={`${idPrefix}-left`}>{t('versions.compare')}</Label>
+                            <select
+                                id={`${idPrefix}-left`}
+                                className="h-9 rounded-md border px-2 text-sm"
+                                value={left.id}
+                                onChange={(e) => setLeftId(e.target.value)}
+                            >
+                                {versions.map((v) => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+                            </select>
+                        </div>
+                        <div className="grid gap-1">
+                            <Label htmlFor={`${idPrefix}-right`}>{t('versions.with')}</Label>
+                            <select
+                                id={`${idPrefix}-right`}
+                                className="h-9 rounded-md border px-2 text-sm"
+                                value={right.id}
+                                onChange={(e) => setRightId(e.target.value)}
+                            >
+                                {versions.map((v) => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    <DiffView
+                        before={versionText(left)}
+                        after={versionText(right)}
+                        beforeLabel={t('versions.version', { version: left.version })}
+                        afterLabel={t('versions.version', { version: right.version })}
+                    />
+                </div>
+            </CardContent>
+        </Card>
+    )
+}
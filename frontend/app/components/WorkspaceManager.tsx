@@ -0,0 +1,345 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/utils/supabase/client'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import type { WorkspaceInvitation, WorkspaceMember, WorkspaceRole } from '@/lib/types'
+import {
+    acceptInvitation,
+    createWorkspace,
+    deleteInvitation,
+    inviteMember,
+    listInvitations,
+    listMembers,
+    listMemberships,
+    removeMember,
+    setWorkspaceRequiresMfa,
+    updateMemberRole,
+    WORKSPACE_ROLES,
+    type Membership,
+    type ReceivedInvitation,
+} from '@/lib/workspaces'
+
+type WorkspaceManagerProps = {
+    userId: string
+    initialMemberships: Membership[]
+    // Invitations addressed to the user
+    initialInvitations: ReceivedInvitation[]
+}
+
+// The error's message, or the fallback in the interface language
+const errorDescription = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback)
+
+type RoleSelectProps = { label: string; value: WorkspaceRole; onChange: (role: WorkspaceRole) => void }
+
+const RoleSelect = ({ label, value, onChange }: RoleSelectProps) => {
+    const { t } = useTranslation()
+    return (
+        <select
+            aria-label={label}
+            className="h-9 rounded-md border bg-transparent px-2 text-sm"
+            value={value}
+            onChange={(e) => onChange(e.target.value as WorkspaceRole)}
+        >
+            {WORKSPACE_ROLES.map((role) => (
+                <option key={role} value={role}>
+                    {t(`role.${role}`)}
+                </option>
+            ))}
+        </select>
+    )
+}
+
+// Members and invitations of one workspace, for its owners
+function WorkspaceMembers({ workspace, userId }: { workspace: Membership; userId: string }) {
+    const [members, setMembers] = useState<WorkspaceMember[]>([])
+    const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([])
+    const [email, setEmail] = useState('')
+    const [role, setRole] = useState<WorkspaceRole>('clinician')
+    const [requireMfa, setRequireMfa] = useState(workspace.require_mfa)
+
+    const supabase = createClient()
+    const { t } = useTranslation()
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const [loadedMembers, loadedInvitations] = await Promise.all([
+                    listMembers(supabase, workspace.id),
+                    listInvitations(supabase, workspace.id),
+                ])
+                setMembers(loadedMembers)
+                setInvitations(loadedInvitations)
+            } catch (error) {
+                toast.error(t('toast.loadMembersFailed'), { description: errorDescription(error, t('common.tryAgain')) })
+            }
+        }
+        void load()
+    }, [supabase, workspace.id, t])
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault()
+        try {
+            const invitation = await inviteMember(supabase, workspace.id, email, role)
+            setInvitations((prev) => [invitation, ...prev])
+            setEmail('')
+            toast.success(t('toast.invitationCreated'), {
+                description: t('toast.invitationCreatedBody', { email: invitation.email }),
+            })
+        } catch (error) {
+            toast.error(t('toast.inviteFailed'), { description: errorDescription(error, t('common.tryAgain')) })
+        }
+    }
+
+    const handleRoleChange = async (member: WorkspaceMember, next: WorkspaceRole) => {
+        try {
+            await updateMemberRole(supabase, workspace.id, member.user_id, next)
+            setMembers((prev) => prev.map((m) => (m.user_id === member.user_id ? { ...m, role: next } : m)))
+        } catch (error) {
+            toast.error(t('toast.changeRoleFailed'), { description: errorDescription(error, t('common.tryAgain')) })
+        }
+    }
+
+    const handleRemove = async (member: WorkspaceMember) => {
+        try {
+            await removeMember(supabase, workspace.id, member.user_id)
+            setMembers((prev) => prev.filter((m) => m.user_id !== member.user_id))
+        } catch (error) {
+            toast.error(t('toast.removeMemberFailed'), { description: errorDescription(error, t('common.tryAgain')) })
+        }
+    }
+
+    const handleWithdraw = async (invitation: WorkspaceInvitation) => {
+        try {
+            await deleteInvitation(supabase, invitation.id)
+            setInvitations((prev) => prev.filter((i) => i.id !== invitation.id))
+        } catch (error) {
+            toast.error(t('toast.withdrawInvitationFailed'), { description: errorDescription(error, t('common.tryAgain')) })
+        }
+    }
+
+    const handleRequireMfa = async (next: boolean) => {
+        try {
+            await setWorkspaceRequiresMfa(supabase, workspace.id, next)
+            setRequireMfa(next)
+        } catch (error) {
+            toast.error(t('toast.requireMfaFailed'), { description: errorDescription(error, t('common.tryAgain')) })
+        }
+    }
+
+    return (
+        <div className="grid gap-4">
+            <div className="flex items-start gap-2">
+                <input
+                    id={`require-mfa-${workspace.id}`}
+                    type="checkbox"
+                    className="mt-1"
+                    checked={requireMfa}
+                    onChange={(e) => handleRequireMfa(e.target.checked)}
+                />
+                <Label htmlFor={`require-mfa-${workspace.id}`} className="grid gap-1 font-normal">
+                    <span className="font-medium">{t('workspaces.requireMfa')}</span>
+                    <span className="text-sm text-gray-500">{t('workspaces.requireMfaHelp')}</span>
+                </Label>
+            </div>
+
+            <ul className="grid gap-2">
+                {members.map((member) => (
+                    <li key={member.user_id} className="flex items-center justify-between gap-2 text-sm">
+                        <span>
+                            {member.email ?? t('workspaces.unknownMember')}
+                            {member.user_id === userId && <span className="text-gray-500"> {t('workspaces.you')}</span>}
+                        </span>
+                        {/* Owners don't change their own role, so a workspace always keeps one */}
+                        {member.user_id === userId ? (
+                            <span className="text-gray-500">{t(`role.${member.role}`)}</span>
+                        ) : (
+                            <div className="flex gap-2">
+                                <RoleSelect
+                                    label={t('workspaces.roleOf', { member: member.email ?? t('workspaces.member') })}
+                                    value={member.role}
+                                    onChange={(next) => handleRoleChange(member, next)}
+                                />
+                                <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleRemove(member)}>
+                                    {t('common.remove')}
+                                </Button>
+                            </div>
+                        )}
+                    </li>
+                ))}
+                {invitations.map((invitation) => (
+                    <li key={invitation.id} className="flex items-center justify-between gap-2 text-sm text-gray-500">
+                        <span>
+                            {t('workspaces.invitedAs', { email: invitation.email, role: t(`role.${invitation.role}`) })}
+                        </span>
+                        <Button variant="ghost" size="sm" onClick={() => handleWithdraw(invitation)}>
+                            {t('workspaces.withdraw')}
+                        </Button>
+                    </li>
+                ))}
+            </ul>
+
+            <form onSubmit={handleInvite} className="grid gap-2 sm:grid-cols-[1fr_auto_auto] sm:items-end">
+                <div className="grid gap-1">
+                    <Label htmlFor={`invite-email-${workspace.id}`}>{t('workspaces.inviteByEmail')}</Label>
+                    <Input
+                        id={`invite-email-${workspace.id}`}
+                        type="email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        required
+                    />
+                </div>
+                <RoleSelect label={t('workspaces.role')} value={role} onChange={setRole} />
+                <Button type="submit">{t('workspaces.invite')}</Button>
+            </form>
+        </div>
+    )
+}
+
+// The user's workspaces: create one, accept invitations, and (as owner) manage members
+export default function WorkspaceManager({ userId, initialMemberships, initialInvitations }: WorkspaceManagerProps) {
+    const [memberships, setMemberships] = useState(initialMemberships)
+    const [invitations, setInvitations] = useState(initialInvitations)
+    const [newName, setNewName] = useState('')
+    const [isCreating, setIsCreating] = useState(false)
+
+    const supabase = createClient()
+    const { t } = useTranslation()
+
+    const reloadMemberships = async () => setMemberships(await listMemberships(supabase, userId))
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!newName.trim()) return
+        setIsCreating(true)
+        try {
+            const workspace = await createWorkspace(supabase, newName)
+            await reloadMemberships()
+            setNewName('')
+            toast.success(t('toast.workspaceCreated'), { description: t('toast.workspaceCreatedBody', { name: workspace.name }) })
+        } catch (error) {
+            toast.error(t('toast.createWorkspaceFailed'), { description: errorDescription(error, t('common.tryAgain')) })
+        } finally {
+            setIsCreating(false)
+        }
+    }
+
+    const handleAccept = async (invitation: ReceivedInvitation) => {
+        try {
+            await acceptInvitation(supabase, invitation.id)
+            setInvitations((prev) => prev.filter((i) => i.id !== invitation.id))
+            await reloadMemberships()
+            toast.success(t('toast.joinedWorkspace', { name: invitation.workspaces?.name ?? t('common.workspace') }))
+        } catch (error) {
+            toast.error(t('toast.acceptInvitationFailed'), { description: errorDescription(error, t('common.tryAgain')) })
+        }
+    }
+
+    const handleDecline = async (invitation: ReceivedInvitation) => {
+        try {
+            await deleteInvitation(supabase, invitation.id)
+            setInvitations((prev) => prev.filter((i) => i.id !== invitation.id))
+        } catch (error) {
+            toast.error(t('toast.declineInvitationFailed'), { description: errorDescription(error, t('common.tryAgain')) })
+        }
+    }
+
+    const handleLeave = async (workspace: Membership) => {
+        try {
+            await removeMember(supabase, workspace.id, userId)
+            setMemberships((prev) => prev.filter((m) => m.id !== workspace.id))
+            toast.success(t('toast.leftWorkspace', { name: workspace.name }))
+        } catch (error) {
+            toast.error(t('toast.leaveWorkspaceFailed'), { description: errorDescription(error, t('common.tryAgain')) })
+        }
+    }
+
+    return (
+        <div className="w-full max-w-4xl mx-auto p-4 md:p-8">
+            <header className="mb-6">
+                <Link href="/" className="text-sm text-blue-600 hover:underline">
+                    {t('noteDetail.back')}
+                </Link>
+                <h1 className="text-3xl font-bold mt-1">{t('workspaces.title')}</h1>
+                <p className="text-sm text-gray-500 mt-1">{t('workspaces.intro')}</p>
+            </header>
+
+            {invitations.length > 0 && (
+                <Card className="mb-6">
+                    <CardHeader>
+                        <CardTitle>{t('workspaces.invitationsTitle')}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="grid gap-2">
+                        {invitations.map((invitation) => (
+                            <div key={invitation.id} className="flex items-center justify-between gap-2 text-sm">
+                                <span>
+                                    {t('workspaces.invitationAs', {
+                                        workspace: invitation.workspaces?.name ?? t('workspaces.aWorkspace'),
+                                        role: t(`role.${invitation.role}`),
+                                    })}
+                                </span>
+                                <div className="flex gap-2">
+                                    <Button size="sm" onClick={() => handleAccept(invitation)}>
+                                        {t('workspaces.accept')}
+                                    </Button>
+                                    <Button variant="ghost" size="sm" onClick={() => handleDecline(invitation)}>
+                                        {t('workspaces.decline')}
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </CardContent>
+                </Card>
+            )}
+
+            <div className="grid gap-6">
+                {memberships.map((workspace) => (
+                    <Card key={workspace.id}>
+                        <CardHeader>
+                            <CardTitle className="flex justify-between items-center">
+                                <span>{workspace.name}</span>
+                                <span className="text-sm font-normal text-gray-500">{t(`role.${workspace.role}`)}</span>
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            {workspace.role === 'owner' ? (
+                                <WorkspaceMembers workspace={workspace} userId={userId} />
+                            ) : (
+                                <Button variant="outline" size="sm" onClick={() => handleLeave(workspace)}>
+                                    {t('workspaces.leave')}
+                                </Button>
+                            )}
+                        </CardContent>
+                    </Card>
+                ))}
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{t('workspaces.new')}</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <form onSubmit={handleCreate} className="flex gap-2">
+                            <Input
+                                aria-label={t('workspaces.name')}
+                                placeholder={t('workspaces.namePlaceholder')}
+                                value={newName}
+                                onChange={(e) => setNewName(e.target.value)}
+                            />
+                            <Button type="submit" disabled={isCreating || !newName.trim()}>
+                                {isCreating ? t('workspaces.creating') : t('workspaces.create')}
+                            </Button>
+                        </form>
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/utils/supabase/client'
+import { useTranslation } from '@/app/components/LocaleProvider'
+import { listMyInvitations, setCurrentWorkspace, type Membership } from '@/lib/workspaces'
+
+type WorkspaceSwitcherProps = {
+    memberships: Membership[]
+    // null for the user's personal notes
+    workspace: Membership | null
+}
+
+// Picks whose notes the dashboard shows: the user's own, or one of their workspaces'
+export default function WorkspaceSwitcher({ memberships, workspace }: WorkspaceSwitcherProps) {
+    const [invitationCount, setInvitationCount] = useState(0)
+    const router = useRouter()
+    const supabase = createClient()
+    const { t } = useTranslation()
+
+    useEffect(() => {
+        const load = async () => {
+            const { data: { user } } = await supabase.auth.getUser()
+            if (!user?.email) return
+            try {
+                setInvitationCount((await listMyInvitations(supabase, user.email)).length)
+            } catch {
+                // The badge is a nicety; the workspaces page lists invitations too
+            }
+        }
+        void load()
+    }, [supabase])
+
+    const handleChange = (workspaceId: string) => {
+        setCurrentWorkspace(workspaceId || null)
+        // The server renders the first page of the chosen workspace's notes
+        router.refresh()
+    }
+
+    return (
+        <div className="flex items-center gap-2">
+            <label htmlFor="workspace-switcher" className="sr-only">{t('workspaces.switcher')}</label>
+            <select
+                id="workspace-switcher"
+                className="h-9 max-w-[14rem] rounded-md border bg-transparent px-2 text-sm"
+                value={workspace?.id ?? ''}
+                onChange={(e) => handleChange(e.target.value)}
+            >
+                <option value="">{t('workspaces.personal')}</option>
+                {memberships.map((m) => (
+                    <option key={m.id} value={m.id}>
+                        {m.name} ({t(`role.${m.role}`)})
+                    </option>
+                ))}
+            </select>
+            <Link href="/workspaces" className="text-xs text-blue-600 hover:underline whitespace-nowrap">
+                {invitationCount === 0
+                    ? t('workspaces.manage')
+                    : invitationCount === 1
+                        ? t('workspaces.oneInvitation')
+                        : t('workspaces.invitations', { count: invitationCount })}
+            </Link>
+        </div>
+    )
+}
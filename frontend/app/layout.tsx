@@ -1,18 +1,43 @@
 import type { Metadata } from 'next'
+import { cookies } from 'next/headers'
 import { Inter } from 'next/font/google'
 import './globals.css'
 import { ToasterProvider } from '@/app/components/ToasterProvider' // Import
+import { LocaleProvider } from '@/app/components/LocaleProvider'
+import { PreferencesProvider } from '@/app/components/PreferencesProvider'
+import { createClient } from '@/utils/supabase/server'
+import { DEFAULT_LOCALE, isLocale, LOCALE_COOKIE } from '@/lib/i18n'
+import { DEFAULT_PREFERENCES, fetchPreferences } from '@/lib/preferences'
 
 const inter = Inter({ subsets: ['latin'] })
 export const metadata: Metadata = { title: 'JanScribe', description: 'AI Scribe' }
 
-export default function RootLayout({ children }: { children: React.ReactNode }) {
+export default async function RootLayout({ children }: { children: React.ReactNode }) {
+  // Signed-out pages (login, share links) use the defaults
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  let preferences = DEFAULT_PREFERENCES
+  try {
+    if (user) preferences = await fetchPreferences(supabase, user.id)
+  } catch (error) {
+    console.error('Failed to load preferences', error)
+  }
+
+  // The language picked in the switcher, on every page including login
+  const savedLocale = (await cookies()).get(LOCALE_COOKIE)?.value
+  const locale = isLocale(savedLocale) ? savedLocale : DEFAULT_LOCALE
+
   return (
-    <html lang="en">
+    // next-themes sets the theme class on <html> before React hydrates
+    <html lang={locale} suppressHydrationWarning>
       <body className={inter.className}>
-        {children}
-        <ToasterProvider /> {/* Add Provider */}
+        <PreferencesProvider initialPreferences={preferences}>
+          <LocaleProvider locale={locale}>
+            {children}
+            <ToasterProvider /> {/* Add Provider */}
+          </LocaleProvider>
+        </PreferencesProvider>
       </body>
     </html>
   )
-}
\ No newline at end of file
+}
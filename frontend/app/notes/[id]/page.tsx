@@ -0,0 +1,60 @@
+import { notFound } from 'next/navigation'
+import { createClient } from '@/utils/supabase/server'
+import NoteDetail from '@/app/components/NoteDetail'
+import type { Client, NoteTemplate, Summary, SummaryVersion, TranscriptVersion } from '@/lib/types'
+import { canEditNotes } from '@/lib/workspaces'
+
+export default async function NotePage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  // RLS limits this to the signed-in user's own notes
+  const { data: note } = await supabase
+    .from('summaries')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle<Summary & { user_id: string }>()
+
+  if (!note) notFound()
+
+  // Other members of the note's workspace may only edit it as owners or clinicians
+  const { data: { user } } = await supabase.auth.getUser()
+  let canEdit = note.user_id === user?.id
+  if (!canEdit && note.workspace_id) {
+    const { data: role } = await supabase.rpc('workspace_role', { p_workspace_id: note.workspace_id })
+    canEdit = role !== null && canEditNotes(role)
+  }
+
+  const [{ data: versions }, { data: transcriptVersions }, { data: template }, { data: client }] = await Promise.all([
+    supabase
+      .from('summary_versions')
+      .select('*')
+      .eq('summary_id', id)
+      .order('version', { ascending: false }),
+    supabase
+      .from('transcript_versions')
+      .select('*')
+      .eq('summary_id', id)
+      .order('version', { ascending: false }),
+    note.template_id
+      ? supabase.from('note_templates').select('*').eq('id', note.template_id).maybeSingle<NoteTemplate>()
+      : Promise.resolve({ data: null }),
+    // Patient details for structured exports
+    note.client_id
+      ? supabase.from('clients').select('*').eq('id', note.client_id).maybeSingle<Client>()
+      : Promise.resolve({ data: null }),
+  ])
+
+  return (
+    <main className="min-h-screen bg-gray-50 dark:bg-background">
+      <NoteDetail
+        note={note}
+        template={template ?? undefined}
+        client={client ?? undefined}
+        initialVersions={(versions ?? []) as SummaryVersion[]}
+        initialTranscriptVersions={(transcriptVersions ?? []) as TranscriptVersion[]}
+        canEdit={canEdit}
+      />
+    </main>
+  )
+}
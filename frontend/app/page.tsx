@@ -1,10 +1,60 @@
+import { Suspense } from 'react'
+import { cookies } from 'next/headers'
 import Dashboard from '@/app/components/Dashboard' // Import the component
+import { createClient } from '@/utils/supabase/server'
+import { fetchNotesPage, filtersFromParams, type NotesPage } from '@/lib/notes'
+import { listTemplates } from '@/lib/templates'
+import type { NoteTemplate } from '@/lib/types'
+import { listMemberships, WORKSPACE_COOKIE, type Membership } from '@/lib/workspaces'
 
-export default async function Home() {
+type HomeProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default async function Home({ searchParams }: HomeProps) {
   // Middleware handles auth check
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(await searchParams)) {
+    if (typeof value === 'string') params.set(key, value)
+  }
+
+  // Render the first page of notes on the server; the dashboard loads the rest on scroll
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  let memberships: Membership[] = []
+  try {
+    memberships = user ? await listMemberships(supabase, user.id) : []
+  } catch (error) {
+    console.error('Failed to load workspaces', error)
+  }
+
+  // The workspace picked in the switcher, if the user still belongs to it
+  const savedWorkspaceId = (await cookies()).get(WORKSPACE_COOKIE)?.value
+  const workspace = memberships.find((m) => m.id === savedWorkspaceId) ?? null
+
+  let initialPage: NotesPage = { notes: [], nextCursor: null }
+  let templates: NoteTemplate[] = []
+  try {
+    [initialPage, templates] = await Promise.all([
+      fetchNotesPage(supabase, filtersFromParams(params), workspace?.id ?? null),
+      listTemplates(supabase),
+    ])
+  } catch (error) {
+    console.error('Failed to load notes', error)
+  }
+
   return (
-    <main className="min-h-screen bg-gray-50">
-      <Dashboard /> {/* Render the dashboard */}
+    <main className="min-h-screen bg-gray-50 dark:bg-background">
+      {/* Dashboard reads its search filters from the URL */}
+      <Suspense>
+        <Dashboard
+          userId={user?.id ?? null}
+          initialPage={initialPage}
+          templates={templates}
+          memberships={memberships}
+          workspace={workspace}
+        /> {/* Render the dashboard */}
+      </Suspense>
     </main>
   )
 }
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { redirect } from 'next/navigation'
+import { createClient } from '@/utils/supabase/server'
+import SecuritySettings from '@/app/components/SecuritySettings'
+import { safeNextPath } from '@/lib/auth'
+
+type SecurityPageProps = {
+  searchParams: Promise<{ next?: string }>
+}
+
+export default async function SecurityPage({ searchParams }: SecurityPageProps) {
+  // Set when middleware sent the user here because a workspace requires two-factor authentication
+  const { next } = await searchParams
+  const supabase = await createClient()
+  const { data, error } = await supabase.auth.mfa.listFactors()
+  // An empty list would offer a first app to a user who may already have one
+  if (error) {
+    console.error('Failed to list authenticator apps', error)
+    redirect(`/auth/error?reason=mfa_check_failed&next=${encodeURIComponent('/security')}`)
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50 dark:bg-background">
+      <SecuritySettings initialFactors={data.totp} next={safeNextPath(next)} required={next !== undefined} />
+    </main>
+  )
+}
@@ -0,0 +1,16 @@
+import { createClient } from '@/utils/supabase/server'
+import SettingsForm from '@/app/components/SettingsForm'
+import { listTemplates } from '@/lib/templates'
+
+export default async function SettingsPage() {
+  // The current preferences come from the root layout
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  const templates = await listTemplates(supabase)
+
+  return (
+    <main className="min-h-screen bg-gray-50 dark:bg-background">
+      <SettingsForm userId={user?.id ?? ''} templates={templates} />
+    </main>
+  )
+}
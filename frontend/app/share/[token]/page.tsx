@@ -0,0 +1,30 @@
+import type { Metadata } from 'next'
+import { createClient } from '@/utils/supabase/server'
+import SharedNoteView from '@/app/components/SharedNoteView'
+import { fetchSharedNoteStatus, type SharedNoteResult } from '@/lib/shares'
+
+// Shared notes are for the people they were sent to, not for search engines
+export const metadata: Metadata = {
+  title: 'Shared note — JanScribe',
+  robots: { index: false, follow: false },
+}
+
+// Public, read-only view of a shared note. No login needed; the link itself is the key.
+// The note itself loads when the visitor opens it, so link previews don't count as views.
+export default async function SharePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  const supabase = await createClient()
+
+  let result: SharedNoteResult = { status: 'not_found' }
+  try {
+    result = await fetchSharedNoteStatus(supabase, token)
+  } catch (error) {
+    console.error('Failed to open share link', error)
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50 dark:bg-background">
+      <SharedNoteView token={token} initialResult={result} />
+    </main>
+  )
+}
@@ -0,0 +1,14 @@
+import { createClient } from '@/utils/supabase/server'
+import TemplateManager from '@/app/components/TemplateManager'
+import { listTemplates } from '@/lib/templates'
+
+export default async function TemplatesPage() {
+  const supabase = await createClient()
+  const templates = await listTemplates(supabase)
+
+  return (
+    <main className="min-h-screen bg-gray-50 dark:bg-background">
+      <TemplateManager initialTemplates={templates} />
+    </main>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { createClient } from '@/utils/supabase/server'
+import WorkspaceManager from '@/app/components/WorkspaceManager'
+import { listMemberships, listMyInvitations } from '@/lib/workspaces'
+
+export default async function WorkspacesPage() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  const [memberships, invitations] = user
+    ? await Promise.all([listMemberships(supabase, user.id), user.email ? listMyInvitations(supabase, user.email) : []])
+    : [[], []]
+
+  return (
+    <main className="min-h-screen bg-gray-50 dark:bg-background">
+      <WorkspaceManager
+        userId={user?.id ?? ''}
+        initialMemberships={memberships}
+        initialInvitations={invitations}
+      />
+    </main>
+  )
+}
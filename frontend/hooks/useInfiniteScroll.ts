@@ -0,0 +1,29 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+
+// Calls onLoadMore whenever the returned sentinel element scrolls into view
+export function useInfiniteScroll(onLoadMore: () => void, enabled: boolean) {
+    const sentinelRef = useRef<HTMLDivElement | null>(null)
+    const onLoadMoreRef = useRef(onLoadMore)
+    useEffect(() => {
+        onLoadMoreRef.current = onLoadMore
+    })
+
+    useEffect(() => {
+        const sentinel = sentinelRef.current
+        if (!enabled || !sentinel) return
+
+        // Start loading a little before the user reaches the bottom
+        const observer = new IntersectionObserver(
+            (entries) => {
+                if (entries.some((entry) => entry.isIntersecting)) onLoadMoreRef.current()
+            },
+            { rootMargin: '400px 0px' }
+        )
+        observer.observe(sentinel)
+        return () => observer.disconnect()
+    }, [enabled])
+
+    return sentinelRef
+}
@@ -0,0 +1,78 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { noteFromRow } from '@/lib/notes'
+import type { Summary } from '@/lib/types'
+
+export type RealtimeStatus = 'connecting' | 'live' | 'offline'
+
+// The channel rejoins by itself after a drop and reports SUBSCRIBED again
+const STATUS_BY_STATE: Record<string, RealtimeStatus> = {
+    SUBSCRIBED: 'live',
+    CLOSED: 'offline',
+    CHANNEL_ERROR: 'offline',
+    TIMED_OUT: 'offline',
+}
+
+type NotesRealtimeOptions = {
+    onInsert: (note: Summary) => void
+    onUpdate: (note: Summary) => void
+    onDelete: (id: string) => void
+}
+
+// Follows inserts, updates and deletes on the signed-in user's notes, or on a workspace's notes,
+// over Supabase Realtime, so notes made on another tab or device show up without a reload.
+export function useNotesRealtime(
+    supabase: SupabaseClient,
+    workspaceId: string | null,
+    { onInsert, onUpdate, onDelete }: NotesRealtimeOptions
+) {
+    const [status, setStatus] = useState<RealtimeStatus>('connecting')
+
+    const callbacksRef = useRef({ onInsert, onUpdate, onDelete })
+    useEffect(() => {
+        callbacksRef.current = { onInsert, onUpdate, onDelete }
+    })
+
+    useEffect(() => {
+        let cancelled = false
+        let channel: ReturnType<SupabaseClient['channel']> | null = null
+
+        const subscribe = async () => {
+            const { data: { user } } = await supabase.auth.getUser()
+            if (cancelled) return
+            if (!user) {
+                setStatus('offline')
+                return
+            }
+
+            // Personal notes are filtered by author; the dashboard drops the author's workspace notes
+            const scope = workspaceId ? `workspace_id=eq.${workspaceId}` : `user_id=eq.${user.id}`
+            channel = supabase
+                .channel(`summaries:${workspaceId ?? user.id}`)
+                .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'summaries', filter: scope }, (payload) =>
+                    callbacksRef.current.onInsert(noteFromRow(payload.new))
+                )
+                .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'summaries', filter: scope }, (payload) =>
+                    callbacksRef.current.onUpdate(noteFromRow(payload.new))
+                )
+                // Realtime can't filter deletes; only the ID comes through, and unknown IDs are ignored
+                .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'summaries' }, (payload) => {
+                    const id = payload.old.id
+                    if (typeof id === 'string') callbacksRef.current.onDelete(id)
+                })
+                .subscribe((state) => {
+                    if (!cancelled) setStatus(STATUS_BY_STATE[state] ?? 'connecting')
+                })
+        }
+        void subscribe()
+
+        return () => {
+            cancelled = true
+            if (channel) void supabase.removeChannel(channel)
+        }
+    }, [supabase, workspaceId])
+
+    return status
+}
@@ -0,0 +1,226 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+export type RecorderStatus = 'idle' | 'recording' | 'paused'
+export type StopReason = 'manual' | 'max-length'
+
+type RecorderOptions = {
+    // Each slice of audio as it is recorded, in order; joined they make the final recording
+    onChunk?: (chunk: Blob) => void
+    onRecorded: (audio: Blob, reason: StopReason) => void
+}
+
+// The microphone and maximum length are remembered on this device
+const DEVICE_STORAGE_KEY = 'janscribe:recorder-device'
+const MAX_LENGTH_STORAGE_KEY = 'janscribe:recorder-max-minutes'
+
+export const MAX_LENGTH_OPTIONS_MINUTES = [15, 30, 60, 90]
+const DEFAULT_MAX_LENGTH_MINUTES = 60
+
+// Speech needs little more than this in opus, and it keeps a 90 minute consultation near 22 MB
+const AUDIO_BITS_PER_SECOND = 32_000
+// MediaRecorder hands over audio this often, so it can be uploaded while recording
+const CHUNK_INTERVAL_MS = 30_000
+const TIMER_INTERVAL_MS = 250
+const LEVEL_INTERVAL_MS = 50
+// Below about -50 dBFS is room noise; anything louder counts as sound reaching the mic
+const SOUND_RMS_THRESHOLD = 0.003
+// How long a recording may go without any sound before the user is warned
+const SILENCE_WARNING_MS = 5_000
+
+// Maps RMS to 0..1 on a -60..0 dB scale, which tracks perceived loudness better than raw RMS
+const rmsToLevel = (rms: number) => Math.min(Math.max((20 * Math.log10(rms || 1e-8) + 60) / 60, 0), 1)
+
+// MediaRecorder wrapper with pause/resume, an elapsed timer, an input level meter,
+// microphone selection and auto-stop at a maximum length. Releases the mic as soon as it stops.
+export function useRecorder({ onChunk, onRecorded }: RecorderOptions) {
+    const [status, setStatus] = useState<RecorderStatus>('idle')
+    const [elapsedMs, setElapsedMs] = useState(0)
+    const [level, setLevel] = useState(0)
+    const [heardSound, setHeardSound] = useState(false)
+    const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+    // '' is the browser's default microphone
+    const [deviceId, setDeviceIdState] = useState('')
+    const [maxLengthMinutes, setMaxLengthState] = useState(DEFAULT_MAX_LENGTH_MINUTES)
+
+    const recorderRef = useRef<MediaRecorder | null>(null)
+    const streamRef = useRef<MediaStream | null>(null)
+    const audioContextRef = useRef<AudioContext | null>(null)
+    const frameRef = useRef<number | null>(null)
+    const chunksRef = useRef<Blob[]>([])
+    // Time recorded before the current (unpaused) stretch, and when that stretch began
+    const timingRef = useRef({ accumulated: 0, segmentStart: 0 })
+
+    const callbacksRef = useRef({ onChunk, onRecorded })
+    useEffect(() => {
+        callbacksRef.current = { onChunk, onRecorded }
+    })
+
+    const loadDevices = useCallback(async () => {
+        if (!navigator.mediaDevices?.enumerateDevices) return
+        const inputs = (await navigator.mediaDevices.enumerateDevices()).filter((d) => d.kind === 'audioinput')
+        setDevices(inputs)
+        // A saved mic that has since been unplugged falls back to the default
+        const saved = localStorage.getItem(DEVICE_STORAGE_KEY)
+        setDeviceIdState(saved && inputs.some((d) => d.deviceId === saved) ? saved : '')
+    }, [])
+
+    useEffect(() => {
+        const savedMinutes = Number(localStorage.getItem(MAX_LENGTH_STORAGE_KEY))
+        const restore = async () => {
+            await loadDevices()
+            if (MAX_LENGTH_OPTIONS_MINUTES.includes(savedMinutes)) setMaxLengthState(savedMinutes)
+        }
+        void restore()
+
+        const media = navigator.mediaDevices
+        media?.addEventListener('devicechange', loadDevices)
+        return () => media?.removeEventListener('devicechange', loadDevices)
+    }, [loadDevices])
+
+    const setDeviceId = (id: string) => {
+        setDeviceIdState(id)
+        if (id) localStorage.setItem(DEVICE_STORAGE_KEY, id)
+        else localStorage.removeItem(DEVICE_STORAGE_KEY)
+    }
+
+    const setMaxLengthMinutes = (minutes: number) => {
+        setMaxLengthState(minutes)
+        localStorage.setItem(MAX_LENGTH_STORAGE_KEY, String(minutes))
+    }
+
+    // Stops the mic tracks (turning off the browser's recording indicator) and the level meter
+    const release = useCallback(() => {
+        if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+        frameRef.current = null
+        streamRef.current?.getTracks().forEach((track) => track.stop())
+        streamRef.current = null
+        void audioContextRef.current?.close()
+        audioContextRef.current = null
+        recorderRef.current = null
+    }, [])
+
+    const stop = useCallback((reason: StopReason = 'manual') => {
+        const recorder = recorderRef.current
+        if (!recorder || recorder.state === 'inactive') return
+        recorder.onstop = () => {
+            const audio = new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' })
+            chunksRef.current = []
+            release()
+            callbacksRef.current.onRecorded(audio, reason)
+        }
+        recorder.stop()
+        setStatus('idle')
+        setLevel(0)
+    }, [release])
+
+    const start = useCallback(async () => {
+        // Throws if the user blocks the mic or the chosen device is unavailable.
+        // Resolves with the mime type being recorded.
+        const stream = await navigator.mediaDevices.getUserMedia({
+            audio: deviceId ? { deviceId: { exact: deviceId } } : true,
+        })
+        streamRef.current = stream
+        chunksRef.current = []
+
+        const recorder = new MediaRecorder(stream, { audioBitsPerSecond: AUDIO_BITS_PER_SECOND })
+        recorderRef.current = recorder
+        recorder.ondataavailable = (event) => {
+            if (event.data.size === 0) return
+            chunksRef.current.push(event.data)
+            callbacksRef.current.onChunk?.(event.data)
+        }
+
+        // --- Input level meter ---
+        const context = new AudioContext()
+        audioContextRef.current = context
+        const analyser = context.createAnalyser()
+        analyser.fftSize = 1024
+        context.createMediaStreamSource(stream).connect(analyser)
+        const samples = new Float32Array(analyser.fftSize)
+        let lastUpdate = 0
+        const measure = (now: number) => {
+            frameRef.current = requestAnimationFrame(measure)
+            if (now - lastUpdate < LEVEL_INTERVAL_MS) return
+            lastUpdate = now
+            analyser.getFloatTimeDomainData(samples)
+            let sum = 0
+            for (const sample of samples) sum += sample * sample
+            const rms = Math.sqrt(sum / samples.length)
+            setLevel(rmsToLevel(rms))
+            if (rms > SOUND_RMS_THRESHOLD) setHeardSound(true)
+        }
+        frameRef.current = requestAnimationFrame(measure)
+
+        timingRef.current = { accumulated: 0, segmentStart: Date.now() }
+        setElapsedMs(0)
+        setHeardSound(false)
+        recorder.start(CHUNK_INTERVAL_MS)
+        setStatus('recording')
+        // Device names are only readable once mic permission has been granted
+        void loadDevices()
+        return recorder.mimeType || 'audio/webm'
+    }, [deviceId, loadDevices])
+
+    const pause = useCallback(() => {
+        const recorder = recorderRef.current
+        if (recorder?.state !== 'recording') return
+        recorder.pause()
+        const timing = timingRef.current
+        timing.accumulated += Date.now() - timing.segmentStart
+        setElapsedMs(timing.accumulated)
+        setStatus('paused')
+    }, [])
+
+    const resume = useCallback(() => {
+        const recorder = recorderRef.current
+        if (recorder?.state !== 'paused') return
+        recorder.resume()
+        timingRef.current.segmentStart = Date.now()
+        setStatus('recording')
+    }, [])
+
+    // Elapsed time, and auto-stop at the maximum length
+    const maxLengthMs = maxLengthMinutes * 60_000
+    useEffect(() => {
+        if (status !== 'recording') return
+        const timer = setInterval(() => {
+            const { accumulated, segmentStart } = timingRef.current
+            const elapsed = accumulated + Date.now() - segmentStart
+            setElapsedMs(elapsed)
+            if (elapsed >= maxLengthMs) stop('max-length')
+        }, TIMER_INTERVAL_MS)
+        return () => clearInterval(timer)
+    }, [status, maxLengthMs, stop])
+
+    // Leaving the page mid-recording drops the recording but still frees the mic
+    useEffect(() => () => {
+        const recorder = recorderRef.current
+        if (recorder && recorder.state !== 'inactive') {
+            recorder.onstop = null
+            recorder.stop()
+        }
+        release()
+    }, [release])
+
+    return {
+        status,
+        elapsedMs,
+        level,
+        // Recording for a while without picking up any sound usually means the wrong mic
+        isSilent: status !== 'idle' && !heardSound && elapsedMs >= SILENCE_WARNING_MS,
+        devices,
+        deviceId,
+        setDeviceId,
+        maxLengthMinutes,
+        maxLengthMs,
+        setMaxLengthMinutes,
+        start,
+        pause,
+        resume,
+        stop,
+    }
+}
+
+export type Recorder = ReturnType<typeof useRecorder>
@@ -0,0 +1,186 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+    enqueueRecording,
+    listQueuedRecordings,
+    removeQueuedRecording,
+    retryDelay,
+    updateQueuedRecording,
+    UploadError,
+    type EnqueueOptions,
+    type QueuedClient,
+    type QueuedRecording,
+} from '@/lib/offline-queue'
+
+export { UploadError }
+
+// Runs `drain` while holding this user's queue lock, so only one tab uploads at a time; the others
+// wait and then find the queue drained. Browsers without the Web Locks API run it unguarded.
+const withQueueLock = (userId: string | null, drain: () => Promise<void>) =>
+    typeof navigator !== 'undefined' && navigator.locks
+        ? navigator.locks.request(`janscribe-upload-queue:${userId ?? ''}`, drain)
+        : drain()
+
+type UploadQueueOptions<T> = {
+    // The signed-in user. Only their recordings are listed and uploaded; null while signed out.
+    userId: string | null
+    // Should stop and throw when the signal aborts (the user cancelled)
+    upload: (entry: QueuedRecording, signal: AbortSignal) => Promise<T>
+    onUploaded?: (entry: QueuedRecording, result: T) => void
+    onFailed?: (entry: QueuedRecording, error: Error) => void
+    // The text kept with a failed entry; the error's message if left out
+    describeError?: (error: Error) => string
+}
+
+export function useUploadQueue<T>({ userId, upload, onUploaded, onFailed, describeError }: UploadQueueOptions<T>) {
+    const [queue, setQueue] = useState<QueuedRecording[]>([])
+    // Set when the queue itself (IndexedDB) fails; upload errors stay with their entries
+    const [error, setError] = useState<Error | null>(null)
+    const runningRef = useRef(false)
+    const rerunRef = useRef(false)
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+    // The entry being uploaded right now, so it can be cancelled
+    const activeRef = useRef<{ id: string; controller: AbortController } | null>(null)
+
+    // Keep the latest callbacks without restarting the queue on every render
+    const callbacksRef = useRef({ upload, onUploaded, onFailed, describeError })
+    useEffect(() => {
+        callbacksRef.current = { upload, onUploaded, onFailed, describeError }
+    })
+
+    const refresh = useCallback(async () => {
+        const entries = userId ? await listQueuedRecordings(userId) : []
+        setQueue(entries)
+        return entries
+    }, [userId])
+
+    const processQueue = useCallback(async () => {
+        if (runningRef.current) {
+            rerunRef.current = true
+            return
+        }
+        runningRef.current = true
+        rerunRef.current = false
+        if (timerRef.current) clearTimeout(timerRef.current)
+
+        const drain = async () => {
+            let entries = await refresh()
+            // With the lock held no other tab is uploading, so an 'uploading' entry is left over
+            // from a tab that was closed mid-upload
+            const stale = entries.filter((e) => e.status === 'uploading')
+            if (stale.length > 0) {
+                await Promise.all(
+                    stale.map((e) => updateQueuedRecording(e.id, { status: 'pending', next_attempt_at: Date.now() }))
+                )
+                entries = await refresh()
+            }
+
+            // Pick up the next due entry each time round so recordings queued mid-run are included
+            while (typeof navigator === 'undefined' || navigator.onLine) {
+                const entry = entries.find((e) =>
+                    e.status !== 'uploading' && e.next_attempt_at !== null && e.next_attempt_at <= Date.now()
+                )
+                if (!entry) break
+
+                await updateQueuedRecording(entry.id, { status: 'uploading' })
+                await refresh()
+
+                const controller = new AbortController()
+                activeRef.current = { id: entry.id, controller }
+                try {
+                    const result = await callbacksRef.current.upload(entry, controller.signal)
+                    await removeQueuedRecording(entry.id)
+                    callbacksRef.current.onUploaded?.(entry, result)
+                } catch (err) {
+                    const error = err instanceof Error ? err : new Error(String(err))
+                    const retryable = !(error instanceof UploadError) || error.retryable
+                    const attempts = entry.attempts + 1
+                    await updateQueuedRecording(entry.id, {
+                        status: 'failed',
+                        attempts,
+                        last_error: callbacksRef.current.describeError?.(error) ?? error.message,
+                        next_attempt_at: retryable ? Date.now() + retryDelay(attempts) : null,
+                    })
+                    callbacksRef.current.onFailed?.(entry, error)
+                } finally {
+                    activeRef.current = null
+                }
+                entries = await refresh()
+            }
+
+            // Wake up again when the earliest automatic retry is due
+            const nextDue = entries
+                .map((e) => e.next_attempt_at)
+                .filter((t): t is number => t !== null)
+                .sort((a, b) => a - b)[0]
+            if (nextDue !== undefined && navigator.onLine) {
+                timerRef.current = setTimeout(() => { void processQueue() }, Math.max(nextDue - Date.now(), 0))
+            }
+        }
+
+        try {
+            await withQueueLock(userId, drain)
+            setError(null)
+        } catch (err) {
+            setError(err instanceof Error ? err : new Error(String(err)))
+        } finally {
+            runningRef.current = false
+        }
+        if (rerunRef.current) void processQueue()
+    }, [userId, refresh])
+
+    // Resume whatever was left over from a previous visit
+    useEffect(() => {
+        if (userId) void processQueue()
+
+        // Retry straight away once the connection comes back
+        const handleOnline = async () => {
+            if (!userId) return
+            try {
+                const entries = await listQueuedRecordings(userId)
+                await Promise.all(
+                    entries
+                        .filter((e) => e.status === 'failed' && e.next_attempt_at !== null)
+                        .map((e) => updateQueuedRecording(e.id, { next_attempt_at: Date.now() }))
+                )
+            } catch (err) {
+                setError(err instanceof Error ? err : new Error(String(err)))
+                return
+            }
+            await processQueue()
+        }
+        window.addEventListener('online', handleOnline)
+
+        return () => {
+            window.removeEventListener('online', handleOnline)
+            if (timerRef.current) clearTimeout(timerRef.current)
+        }
+    }, [userId, processQueue])
+
+    const enqueue = useCallback(async (audio: Blob, client: QueuedClient, options?: EnqueueOptions) => {
+        if (!userId) throw new Error('Not signed in')
+        const entry = await enqueueRecording(userId, audio, client, options)
+        await refresh()
+        void processQueue()
+        return entry
+    }, [userId, refresh, processQueue])
+
+    const retry = useCallback(async (id: string) => {
+        await updateQueuedRecording(id, { status: 'pending', next_attempt_at: Date.now() })
+        await processQueue()
+    }, [processQueue])
+
+    // Stops the upload in progress. The entry stays in the queue, failed, until retried or discarded.
+    // The backend may still finish a request it has already received in full.
+    const cancel = useCallback((id: string) => {
+        if (activeRef.current?.id === id) activeRef.current.controller.abort()
+    }, [])
+
+    const discard = useCallback(async (id: string) => {
+        await removeQueuedRecording(id)
+        await refresh()
+    }, [refresh])
+
+    return { queue, error, enqueue, retry, cancel, discard }
+}
@@ -0,0 +1,306 @@
+// Typed client for the JanScribe backend. Every failure comes out as an ApiError with a `kind`
+// the UI can act on, instead of whatever string (or non-JSON body) the server happened to send.
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { DEFAULT_LOCALE, translate, type MessageKey } from '@/lib/i18n'
+import { UploadError } from '@/lib/offline-queue'
+import type { RecordingLanguage, Summary, SummaryLanguage } from '@/lib/types'
+
+export type ApiErrorKind =
+    // The session could not be refreshed; the user has to log in again
+    | 'auth-expired'
+    // The backend wants a two-factor session (its 403 with code 'mfa_required'); retry after the challenge
+    | 'mfa-required'
+    // The backend found no speech in the recording (its 400)
+    | 'silent-audio'
+    // Gemini failed or returned something unusable
+    | 'upstream'
+    | 'network'
+    | 'timeout'
+    | 'cancelled'
+    // Any other 4xx: the request itself was refused, so retrying won't help
+    | 'rejected'
+    | 'server'
+    | 'misconfigured'
+
+const RETRYABLE_KINDS: ApiErrorKind[] = ['upstream', 'network', 'timeout', 'server']
+
+// What to show for an error the server gave no message for
+export const API_ERROR_MESSAGES: Record<ApiErrorKind, MessageKey> = {
+    'auth-expired': 'apiError.authExpired',
+    'mfa-required': 'apiError.mfaRequired',
+    'silent-audio': 'apiError.silentAudio',
+    upstream: 'apiError.upstream',
+    network: 'apiError.network',
+    timeout: 'apiError.timeout',
+    cancelled: 'apiError.cancelled',
+    rejected: 'apiError.rejected',
+    server: 'apiError.server',
+    misconfigured: 'apiError.misconfigured',
+}
+
+// Extends UploadError so the upload queue can tell whether retrying later can help
+export class ApiError extends UploadError {
+    kind: ApiErrorKind
+    status: number | null
+    // The parsed error body's `detail`, when there was one
+    detail: unknown
+    // The message the error was created with; null when `message` is the English default for its kind
+    ownMessage: string | null
+
+    constructor(kind: ApiErrorKind, message?: string | null, status: number | null = null, detail: unknown = null) {
+        super(message || translate(DEFAULT_LOCALE, API_ERROR_MESSAGES[kind]), RETRYABLE_KINDS.includes(kind))
+        this.name = 'ApiError'
+        this.kind = kind
+        this.status = status
+        this.detail = detail
+        this.ownMessage = message || null
+    }
+}
+
+// An error's message for the user: its own, or the default for its kind in the interface language
+export const describeError = (error: Error, t: (key: MessageKey) => string) =>
+    error instanceof ApiError && !error.ownMessage ? t(API_ERROR_MESSAGES[error.kind]) : error.message
+
+export type UploadStatus = { upload_id: string; received_bytes: number }
+
+export type ProcessAudioRequest = {
+    uploadId: string
+    clientName: string
+    clientId: string | null
+    templateId: string | null
+    workspaceId: string | null
+    // Transcription hint; 'auto' or missing lets the model detect the language
+    language?: RecordingLanguage
+    // Language to write the summary in; missing means English
+    outputLanguage?: SummaryLanguage
+}
+
+export type JobStage = 'queued' | 'transcribing' | 'summarizing' | 'saving' | 'done' | 'failed' | 'cancelled'
+
+// /process-audio/ returns a job straight away; the job runs on the server even if the tab is closed
+export type JobStatus = {
+    job_id: string
+    stage: JobStage
+    // Set when stage is 'failed': what the endpoint would have responded with
+    error: { status: number; code: string | null; message: string | null } | null
+    // The saved row once stage is 'done'; null if the backend could not read it back
+    note: Summary | null
+}
+
+type RequestOptions = {
+    method?: string
+    body?: BodyInit
+    headers?: Record<string, string>
+    signal?: AbortSignal
+    timeoutMs?: number
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000
+const PART_TIMEOUT_MS = 2 * 60_000
+// How often a running job is checked on
+const JOB_POLL_INTERVAL_MS = 1_500
+
+// The backend sends `detail` as a string, or as { code, message } for errors the client handles specially
+const readDetail = (body: unknown) => (body && typeof body === 'object' && 'detail' in body ? body.detail : null)
+
+const detailMessage = (detail: unknown) => {
+    if (typeof detail === 'string') return detail
+    if (detail && typeof detail === 'object' && 'message' in detail && typeof detail.message === 'string') return detail.message
+    return null
+}
+
+const detailCode = (detail: unknown) =>
+    detail && typeof detail === 'object' && 'code' in detail && typeof detail.code === 'string' ? detail.code : null
+
+const errorFromResponse = (status: number, body: unknown) => {
+    const detail = readDetail(body)
+    const message = detailMessage(detail)
+    const code = detailCode(detail)
+    if (code === 'silent_audio') return new ApiError('silent-audio', message, status, detail)
+    if (code === 'mfa_required') return new ApiError('mfa-required', message, status, detail)
+    if (code === 'upstream_model' || status === 502 || status === 503 || status === 504 || status === 429) {
+        return new ApiError('upstream', message, status, detail)
+    }
+    if (status === 401) return new ApiError('auth-expired', null, status, detail)
+    if (status >= 500) return new ApiError('server', message, status, detail)
+    return new ApiError('rejected', message, status, detail)
+}
+
+const parseBody = async (response: Response): Promise<unknown> => {
+    const text = await response.text().catch(() => '')
+    if (!text) return null
+    try {
+        return JSON.parse(text)
+    } catch {
+        // A proxy error page or similar; keep a short excerpt as the message
+        return { detail: text.slice(0, 200) }
+    }
+}
+
+export function createApiClient(supabase: SupabaseClient, baseUrl = process.env.NEXT_PUBLIC_BACKEND_URL) {
+    const accessToken = async (refresh: boolean) => {
+        const { data, error } = refresh ? await supabase.auth.refreshSession() : await supabase.auth.getSession()
+        if (error || !data.session) throw new ApiError('auth-expired')
+        return data.session.access_token
+    }
+
+    // One attempt, with its own timeout on top of the caller's signal
+    const attempt = async (path: string, options: RequestOptions, token: string) => {
+        const controller = new AbortController()
+        const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+        let timedOut = false
+        const timer = setTimeout(() => {
+            timedOut = true
+            controller.abort()
+        }, timeoutMs)
+        const abortFromCaller = () => controller.abort()
+        if (options.signal?.aborted) controller.abort()
+        options.signal?.addEventListener('abort', abortFromCaller)
+
+        try {
+            return await fetch(`${baseUrl}${path}`, {
+                method: options.method ?? 'GET',
+                headers: { ...options.headers, Authorization: `Bearer ${token}` },
+                body: options.body,
+                signal: controller.signal,
+            })
+        } catch {
+            if (timedOut) throw new ApiError('timeout')
+            if (options.signal?.aborted) throw new ApiError('cancelled')
+            throw new ApiError('network')
+        } finally {
+            clearTimeout(timer)
+            options.signal?.removeEventListener('abort', abortFromCaller)
+        }
+    }
+
+    const request = async <T>(path: string, options: RequestOptions = {}): Promise<T> => {
+        if (!baseUrl) throw new ApiError('misconfigured')
+
+        let response = await attempt(path, options, await accessToken(false))
+        // The stored token may have expired mid-session: refresh once and try again
+        if (response.status === 401) {
+            response = await attempt(path, options, await accessToken(true))
+        }
+
+        const body = await parseBody(response)
+        if (!response.ok) throw errorFromResponse(response.status, body)
+        return body as T
+    }
+
+    const createUpload = (fileName: string, signal?: AbortSignal) => {
+        const formData = new FormData()
+        formData.append('file_name', fileName)
+        return request<UploadStatus>('/uploads/', { method: 'POST', body: formData, signal })
+    }
+
+    // null when the backend no longer has the upload (finished, or purged after a week)
+    const getUploadStatus = async (uploadId: string, signal?: AbortSignal) => {
+        try {
+            return await request<UploadStatus>(`/uploads/${uploadId}`, { signal })
+        } catch (error) {
+            if (error instanceof ApiError && error.status === 404) return null
+            throw error
+        }
+    }
+
+    // Sends the bytes starting at `offset` and resolves with the number of bytes the backend now has.
+    // When the backend has a different count (a part was lost, or sent twice), resolves with its count.
+    const sendPart = async (uploadId: string, offset: number, part: Blob, signal?: AbortSignal) => {
+        try {
+            const status = await request<UploadStatus>(`/uploads/${uploadId}/parts?offset=${offset}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/octet-stream' },
+                body: part,
+                signal,
+                timeoutMs: PART_TIMEOUT_MS,
+            })
+            return status.received_bytes
+        } catch (error) {
+            // 409: another part got there first; 400: this one is ahead of the upload. Either way the
+            // backend says where to carry on from.
+            const detail = error instanceof ApiError && (error.status === 409 || error.status === 400) ? error.detail : null
+            if (detail && typeof detail === 'object' && 'received_bytes' in detail && typeof detail.received_bytes === 'number') {
+                return detail.received_bytes
+            }
+            throw error
+        }
+    }
+
+    const processAudio = (
+        { uploadId, clientName, clientId, templateId, workspaceId, language, outputLanguage }: ProcessAudioRequest,
+        signal?: AbortSignal
+    ) => {
+        const formData = new FormData()
+        formData.append('upload_id', uploadId)
+        formData.append('client_name', clientName)
+        // Entries queued before client records existed have no client_id
+        if (clientId) formData.append('client_id', clientId)
+        if (templateId) formData.append('template_id', templateId)
+        if (workspaceId) formData.append('workspace_id', workspaceId)
+        if (language && language !== 'auto') formData.append('language', language)
+        if (outputLanguage && outputLanguage !== 'en') formData.append('output_language', outputLanguage)
+        return request<JobStatus>('/process-audio/', { method: 'POST', body: formData, signal })
+    }
+
+    // null when the backend no longer has the job (finished jobs are purged after a week)
+    const getJob = async (jobId: string, signal?: AbortSignal) => {
+        try {
+            return await request<JobStatus>(`/jobs/${jobId}`, { signal })
+        } catch (error) {
+            if (error instanceof ApiError && error.status === 404) return null
+            throw error
+        }
+    }
+
+    // Stops the job before its next stage. Too late once the note is being saved.
+    const cancelJob = (jobId: string) => request<JobStatus>(`/jobs/${jobId}/cancel`, { method: 'POST' })
+
+    // Deletes a note from the trash for good, recording included. The backend refuses notes not in the trash.
+    const deleteNote = (noteId: string) => request<null>(`/notes/${noteId}`, { method: 'DELETE' })
+
+    return { createUpload, getUploadStatus, sendPart, processAudio, getJob, cancelJob, deleteNote }
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(new ApiError('cancelled'))
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort)
+            resolve()
+        }, ms)
+        signal?.addEventListener('abort', onAbort, { once: true })
+    })
+
+// Polls the job until it finishes, reporting each stage as it changes. Resolves with the finished
+// job; a failed job throws the ApiError its response would have, so retries work as before.
+export const waitForJob = async (
+    api: ApiClient,
+    job: JobStatus,
+    onStage: (stage: JobStage) => void,
+    signal?: AbortSignal
+) => {
+    let current: JobStatus | null = job
+    let reported: JobStage | null = null
+    while (current) {
+        if (current.stage !== reported) {
+            reported = current.stage
+            onStage(current.stage)
+        }
+        if (current.stage === 'done') return current
+        if (current.stage === 'cancelled') throw new ApiError('cancelled')
+        if (current.stage === 'failed') {
+            const { status, code, message } = current.error ?? { status: 500, code: null, message: null }
+            throw errorFromResponse(status, { detail: code ? { code, message } : message })
+        }
+        if (signal?.aborted) throw new ApiError('cancelled')
+        await sleep(JOB_POLL_INTERVAL_MS, signal)
+        current = await api.getJob(current.job_id, signal)
+    }
+    throw new ApiError('server', 'The processing job was lost. Please try again.')
+}
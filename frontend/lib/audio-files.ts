@@ -0,0 +1,97 @@
+// Checks for audio files uploaded from disk (dictaphone recordings, WhatsApp voice notes, ...)
+// before they are queued. The backend enforces the same type and size limits.
+
+// Same cap as the backend's MAX_AUDIO_BYTES; past 20 MB it hands the audio to Gemini's File API
+export const MAX_AUDIO_FILE_BYTES = 100 * 1024 * 1024
+export const MAX_AUDIO_DURATION_SECONDS = 60 * 60
+
+// Browsers report the same formats under several names (audio/x-m4a, audio/opus, or nothing at all),
+// so the extension decides the type that is sent on
+const AUDIO_TYPES: Record<string, string> = {
+    webm: 'audio/webm',
+    m4a: 'audio/mp4',
+    mp4: 'audio/mp4',
+    aac: 'audio/aac',
+    mp3: 'audio/mpeg',
+    ogg: 'audio/ogg',
+    oga: 'audio/ogg',
+    opus: 'audio/ogg',
+    wav: 'audio/wav',
+    flac: 'audio/flac',
+}
+
+// For the file input's `accept` attribute
+export const AUDIO_FILE_ACCEPT = Object.keys(AUDIO_TYPES).map((ext) => `.${ext}`).join(',')
+
+const DURATION_TIMEOUT_MS = 10_000
+
+const extensionOf = (fileName: string) => fileName.split('.').pop()?.toLowerCase() ?? ''
+
+export const audioMimeType = (file: File) => AUDIO_TYPES[extensionOf(file.name)] ?? null
+
+// Name for a live recording; Safari records mp4 rather than webm
+export const recordingFileName = (mimeType: string) => (mimeType.includes('mp4') ? 'recording.m4a' : 'recording.webm')
+
+export const formatFileSize = (bytes: number) =>
+    bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+
+// e.g. "4:05" or "1:02:09"
+export const formatDuration = (seconds: number) => {
+    const total = Math.round(seconds)
+    const h = Math.floor(total / 3600)
+    const m = Math.floor((total % 3600) / 60)
+    const s = String(total % 60).padStart(2, '0')
+    return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`
+}
+
+// Reads the duration from the file's metadata. Resolves null when this browser can't decode
+// the format (e.g. ogg on older Safari) or the container doesn't record a duration.
+export const readAudioDuration = (file: Blob): Promise<number | null> =>
+    new Promise((resolve) => {
+        const audio = document.createElement('audio')
+        const url = URL.createObjectURL(file)
+        const finish = (duration: number | null) => {
+            clearTimeout(timer)
+            audio.removeAttribute('src')
+            URL.revokeObjectURL(url)
+            resolve(duration)
+        }
+        const timer = setTimeout(() => finish(null), DURATION_TIMEOUT_MS)
+        audio.preload = 'metadata'
+        audio.onloadedmetadata = () => finish(Number.isFinite(audio.duration) ? audio.duration : null)
+        audio.onerror = () => finish(null)
+        audio.src = url
+    })
+
+// Why a file can't be queued; the upload list shows each in the interface language
+export type AudioFileProblem = 'unsupported' | 'empty' | 'tooLarge' | 'tooLong' | 'tooShort'
+
+export type CheckedAudioFile = {
+    // The file relabelled with the mime type the backend expects
+    audio: Blob
+    duration: number | null
+    error: AudioFileProblem | null
+}
+
+export const checkAudioFile = async (file: File): Promise<CheckedAudioFile> => {
+    const mimeType = audioMimeType(file)
+    if (!mimeType) {
+        return { audio: file, duration: null, error: 'unsupported' }
+    }
+    if (file.size === 0) {
+        return { audio: file, duration: null, error: 'empty' }
+    }
+    if (file.size > MAX_AUDIO_FILE_BYTES) {
+        return { audio: file, duration: null, error: 'tooLarge' }
+    }
+
+    const audio = file.slice(0, file.size, mimeType)
+    const duration = await readAudioDuration(audio)
+    if (duration !== null && duration > MAX_AUDIO_DURATION_SECONDS) {
+        return { audio, duration, error: 'tooLong' }
+    }
+    if (duration !== null && duration < 1) {
+        return { audio, duration, error: 'tooShort' }
+    }
+    return { audio, duration, error: null }
+}
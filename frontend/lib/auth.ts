@@ -0,0 +1,85 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Two-factor authentication is optional, unless a workspace's owners require it.
+// Signed-in users with an authenticator app confirm a code here after each sign-in...
+export const MFA_CHALLENGE_PATH = '/mfa'
+// ...and members of a workspace that requires one set it up here first
+export const MFA_SETUP_PATH = '/security'
+
+// Stands in for the site's origin; only whether `next` stays on it matters
+const SAME_SITE_BASE = 'http://janscribe.invalid'
+
+// Only paths on this site, so a crafted link can't send someone elsewhere after signing in.
+// Browsers read `/\evil.com` as `//evil.com` and drop tabs and newlines, so rather than matching
+// prefixes, `next` is resolved the way a browser would and must land on the same origin.
+export const safeNextPath = (next: string | null | undefined) => {
+    if (!next || !next.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(next)) return '/'
+    try {
+        const url = new URL(next, SAME_SITE_BASE)
+        // `/..//evil.com` resolves to the path `//evil.com`, which is another site again
+        if (url.origin !== SAME_SITE_BASE || url.pathname.startsWith('//')) return '/'
+        return url.pathname + url.search + url.hash
+    } catch {
+        return '/'
+    }
+}
+
+// Email links (magic link, password reset, signup confirmation) and OAuth come back through
+// /auth/callback, which starts the session and continues to `next`
+export const authCallbackUrl = (next = '/') => `${location.origin}/auth/callback?next=${encodeURIComponent(next)}`
+
+// 'verified': the session passed two-factor authentication (aal2)
+// 'challenge': the user has an authenticator app but hasn't entered a code this session
+// 'enrol': the user has no authenticator app yet
+export type MfaStep = 'verified' | 'challenge' | 'enrol'
+
+export const mfaStep = async (supabase: SupabaseClient): Promise<MfaStep> => {
+    const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel()
+    if (error) throw error
+    if (data.currentLevel === 'aal2') return 'verified'
+    return data.nextLevel === 'aal2' ? 'challenge' : 'enrol'
+}
+
+// Whether one of the user's workspaces requires two-factor authentication
+export const mfaRequired = async (supabase: SupabaseClient, userId: string) => {
+    const { data, error } = await supabase
+        .from('workspace_members')
+        .select('workspace_id, workspaces!inner(require_mfa)')
+        .eq('user_id', userId)
+        .eq('workspaces.require_mfa', true)
+        .limit(1)
+    if (error) throw error
+    return data.length > 0
+}
+
+// Verified authenticator apps; enrolments that were never confirmed are left out
+export const listTotpFactors = async (supabase: SupabaseClient) => {
+    const { data, error } = await supabase.auth.mfa.listFactors()
+    if (error) throw error
+    return data.totp
+}
+
+// Starts adding an authenticator app: returns the QR code and secret to scan or type in
+export const enrolTotp = async (supabase: SupabaseClient, friendlyName: string) => {
+    // Abandoned enrolments would otherwise pile up, and their names must be unique
+    const { data: factors, error: listError } = await supabase.auth.mfa.listFactors()
+    if (listError) throw listError
+    for (const factor of factors.all.filter((f) => f.status === 'unverified')) {
+        await supabase.auth.mfa.unenroll({ factorId: factor.id })
+    }
+
+    const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName })
+    if (error) throw error
+    return data
+}
+
+// Checks a code from the app. Confirms a new enrolment and raises the session to aal2.
+export const verifyTotp = async (supabase: SupabaseClient, factorId: string, code: string) => {
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code: code.replace(/\s/g, '') })
+    if (error) throw error
+}
+
+export const removeFactor = async (supabase: SupabaseClient, factorId: string) => {
+    const { error } = await supabase.auth.mfa.unenroll({ factorId })
+    if (error) throw error
+}
@@ -0,0 +1,86 @@
+// Client side of the backend's resumable uploads (/uploads/). Audio is sent in parts tagged
+// with their byte offset; after an interruption the backend says how many bytes it has and
+// sending carries on from there. /process-audio/ then takes the upload ID instead of a file.
+import { ApiError, type ApiClient } from '@/lib/api'
+
+// Part size when resuming from a stored recording. While recording, each MediaRecorder chunk is one part.
+const RESUME_PART_BYTES = 2 * 1024 * 1024
+// Give up if the backend stops confirming new bytes
+const MAX_STALLED_PARTS = 3
+// How long to wait for live parts still in flight once the recording is handed to the queue
+const LIVE_FINISH_GRACE_MS = 5_000
+
+// Makes sure the backend has all of `audio`, sending only what it is missing.
+// Starts a new upload if there is none yet or the old one is gone. Resolves with the upload ID.
+// `onProgress` gets the share of the audio the backend has, from 0 to 1.
+export const resumeUpload = async (
+    api: ApiClient,
+    audio: Blob,
+    fileName: string,
+    uploadId: string | null,
+    signal?: AbortSignal,
+    onProgress?: (fraction: number) => void
+) => {
+    const status = (uploadId && (await api.getUploadStatus(uploadId, signal))) || (await api.createUpload(fileName, signal))
+    let received = status.received_bytes
+    let stalled = 0
+    onProgress?.(Math.min(received / (audio.size || 1), 1))
+    while (received < audio.size) {
+        const next = await api.sendPart(status.upload_id, received, audio.slice(received, received + RESUME_PART_BYTES), signal)
+        stalled = next > received ? 0 : stalled + 1
+        if (stalled >= MAX_STALLED_PARTS) throw new ApiError('server', 'The upload is not making progress.')
+        received = next
+        onProgress?.(Math.min(received / audio.size, 1))
+    }
+    return status.upload_id
+}
+
+export type LiveUpload = {
+    push: (chunk: Blob) => void
+    // Waits briefly for parts in flight, then stops sending. Resolves with the upload ID, if one was created.
+    finish: () => Promise<string | null>
+    cancel: () => void
+}
+
+// Uploads a recording while it is being made, one MediaRecorder chunk at a time. Best effort:
+// on the first failure it stops, and the queue later resumes from whatever the backend confirmed.
+export const startLiveUpload = (api: ApiClient, fileName: string): LiveUpload => {
+    const controller = new AbortController()
+    let uploadId: string | null = null
+    let offset = 0
+    let stopped = false
+
+    let chain: Promise<void> = api.createUpload(fileName, controller.signal)
+        .then((status) => { uploadId = status.upload_id })
+        .catch(() => { stopped = true })
+
+    const push = (chunk: Blob) => {
+        const start = offset
+        offset += chunk.size
+        chain = chain.then(async () => {
+            if (stopped || !uploadId) return
+            try {
+                const received = await api.sendPart(uploadId, start, chunk, controller.signal)
+                if (received !== start + chunk.size) stopped = true
+            } catch {
+                stopped = true
+            }
+        })
+    }
+
+    const finish = async () => {
+        let timer: ReturnType<typeof setTimeout> | undefined
+        await Promise.race([chain, new Promise((resolve) => { timer = setTimeout(resolve, LIVE_FINISH_GRACE_MS) })])
+        clearTimeout(timer)
+        stopped = true
+        controller.abort()
+        return uploadId
+    }
+
+    const cancel = () => {
+        stopped = true
+        controller.abort()
+    }
+
+    return { push, finish, cancel }
+}
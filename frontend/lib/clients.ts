@@ -0,0 +1,60 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { SUMMARY_COLUMNS } from '@/lib/notes'
+import type { Client, Summary } from '@/lib/types'
+
+export type NewClient = Omit<Client, 'id' | 'created_at' | 'workspace_id'>
+
+const CLIENT_SUGGESTION_LIMIT = 8
+
+// Matches on name or external ID, for the client picker. Searches the workspace's clients,
+// or the user's personal ones when workspaceId is null.
+export const searchClients = async (supabase: SupabaseClient, term: string, workspaceId: string | null) => {
+    const pattern = `%${term.trim().replace(/[%_,()]/g, ' ')}%`
+    let query = supabase
+        .from('clients')
+        .select('*')
+        .or(`full_name.ilike.${pattern},external_id.ilike.${pattern}`)
+    query = workspaceId ? query.eq('workspace_id', workspaceId) : query.is('workspace_id', null)
+    const { data, error } = await query
+        .order('full_name')
+        .limit(CLIENT_SUGGESTION_LIMIT)
+    if (error) throw error
+    return data as Client[]
+}
+
+export const addClient = async (supabase: SupabaseClient, client: NewClient, workspaceId: string | null) => {
+    const { data, error } = await supabase
+        .from('clients')
+        .insert({ ...client, full_name: client.full_name.trim(), workspace_id: workspaceId })
+        .select('*')
+        .single()
+    if (error) throw error
+    return data as Client
+}
+
+export const fetchClientWithNotes = async (supabase: SupabaseClient, id: string) => {
+    const { data: client, error } = await supabase.from('clients').select('*').eq('id', id).maybeSingle()
+    if (error) throw error
+    if (!client) return null
+
+    const { data: notes, error: notesError } = await supabase
+        .from('summaries')
+        .select(SUMMARY_COLUMNS)
+        .eq('client_id', id)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false })
+    if (notesError) throw notesError
+
+    return { client: client as Client, notes: notes as Summary[] }
+}
+
+// e.g. "42 y" from a date of birth
+export const clientAge = (dateOfBirth: string | null, at = new Date()) => {
+    if (!dateOfBirth) return null
+    const dob = new Date(dateOfBirth)
+    let age = at.getFullYear() - dob.getFullYear()
+    const beforeBirthday = at.getMonth() < dob.getMonth() ||
+        (at.getMonth() === dob.getMonth() && at.getDate() < dob.getDate())
+    if (beforeBirthday) age -= 1
+    return age >= 0 ? age : null
+}
@@ -0,0 +1,27 @@
+import type { DateFormat } from '@/lib/types'
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+// A calendar date in the user's chosen format (see /settings). `locale` is an Intl locale for the
+// 'locale' format, e.g. INTL_LOCALES[locale] from the interface language; without one the browser decides.
+export const formatDate = (value: Date | string, format: DateFormat = 'locale', locale?: string) => {
+    const date = new Date(value)
+    const [day, month, year] = [pad(date.getDate()), pad(date.getMonth() + 1), date.getFullYear()]
+    switch (format) {
+        case 'dmy':
+            return `${day}/${month}/${year}`
+        case 'mdy':
+            return `${month}/${day}/${year}`
+        case 'iso':
+            return `${year}-${month}-${day}`
+        default:
+            return date.toLocaleDateString(locale)
+    }
+}
+
+// Date and time, e.g. when a version was saved
+export const formatDateTime = (value: Date | string, format: DateFormat = 'locale', locale?: string) => {
+    const date = new Date(value)
+    if (format === 'locale') return date.toLocaleString(locale)
+    return `${formatDate(date, format)} ${date.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' })}`
+}
@@ -0,0 +1,70 @@
+// Line-based diff for comparing two versions of a note side by side
+
+export type DiffRow =
+    | { type: 'same'; left: string; right: string }
+    | { type: 'removed'; left: string; right: null }
+    | { type: 'added'; left: null; right: string }
+    | { type: 'changed'; left: string; right: string }
+
+type Op = { type: 'same' | 'removed' | 'added'; line: string }
+
+// Longest-common-subsequence over lines. Notes are a few hundred lines at most,
+// so the O(n*m) table is fine.
+const diffOps = (a: string[], b: string[]): Op[] => {
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+        }
+    }
+
+    const ops: Op[] = []
+    let i = 0
+    let j = 0
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            ops.push({ type: 'same', line: a[i] })
+            i++
+            j++
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            ops.push({ type: 'removed', line: a[i++] })
+        } else {
+            ops.push({ type: 'added', line: b[j++] })
+        }
+    }
+    while (i < a.length) ops.push({ type: 'removed', line: a[i++] })
+    while (j < b.length) ops.push({ type: 'added', line: b[j++] })
+    return ops
+}
+
+// Pairs up runs of removed and added lines so edited lines sit next to each other
+export const diffLines = (before: string, after: string): DiffRow[] => {
+    const ops = diffOps(before.split('\n'), after.split('\n'))
+    const rows: DiffRow[] = []
+
+    let k = 0
+    while (k < ops.length) {
+        if (ops[k].type === 'same') {
+            rows.push({ type: 'same', left: ops[k].line, right: ops[k].line })
+            k++
+            continue
+        }
+        const removed: string[] = []
+        const added: string[] = []
+        while (k < ops.length && ops[k].type !== 'same') {
+            if (ops[k].type === 'removed') removed.push(ops[k].line)
+            else added.push(ops[k].line)
+            k++
+        }
+        for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+            if (n < removed.length && n < added.length) {
+                rows.push({ type: 'changed', left: removed[n], right: added[n] })
+            } else if (n < removed.length) {
+                rows.push({ type: 'removed', left: removed[n], right: null })
+            } else {
+                rows.push({ type: 'added', left: null, right: added[n] })
+            }
+        }
+    }
+    return rows
+}
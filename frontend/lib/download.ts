@@ -0,0 +1,15 @@
+// Saves in-memory content as a file through a temporary object URL
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = fileName
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+    URL.revokeObjectURL(url)
+}
+
+export const downloadTextFile = (content: string, fileName: string, mimeType = 'text/plain') => {
+    downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), fileName)
+}
@@ -0,0 +1,40 @@
+import { formatNoteDate } from '@/lib/pdf'
+import type { Exporter } from '@/lib/exporters/types'
+
+// Editable Word document. The docx library is loaded on demand to keep it out of the main bundle.
+export const docxExporter: Exporter = {
+    id: 'docx',
+    label: 'Word (.docx)',
+    extension: 'docx',
+    render: async (note, options) => {
+        const { Document, HeadingLevel, Packer, Paragraph, TextRun } = await import('docx')
+
+        const children = [
+            new Paragraph({ text: 'Consultation Summary', heading: HeadingLevel.TITLE }),
+            new Paragraph({
+                children: [
+                    new TextRun({ text: 'Client: ', bold: true }),
+                    new TextRun(note.clientName || 'N/A'),
+                    new TextRun({ text: '\tDate: ', bold: true }),
+                    new TextRun(formatNoteDate(note.noteDate, options.dateFormat)),
+                ],
+            }),
+        ]
+
+        for (const section of note.sections) {
+            if (section.heading) {
+                children.push(new Paragraph({ text: section.heading, heading: HeadingLevel.HEADING_2, spacing: { before: 240 } }))
+            }
+            for (const line of section.body.split('\n')) {
+                children.push(new Paragraph({ text: line }))
+            }
+        }
+
+        const doc = new Document({
+            creator: 'JanScribe',
+            title: `Summary - ${note.clientName || 'JanScribe'}`,
+            sections: [{ children }],
+        })
+        return Packer.toBlob(doc)
+    },
+}
@@ -0,0 +1,105 @@
+import type { Exporter, ExportableNote } from '@/lib/exporters/types'
+
+// FHIR R4 document Bundle: a Composition with one section per summary heading, the Patient,
+// and a DocumentReference carrying the whole note as plain text for EHRs that only index documents.
+
+// LOINC 11488-4 "Consult note"
+const NOTE_TYPE = {
+    coding: [{ system: 'http://loinc.org', code: '11488-4', display: 'Consult note' }],
+    text: 'Consult note',
+}
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// Narrative must be XHTML inside a div in the XHTML namespace
+const narrative = (text: string) => ({
+    status: 'generated',
+    div: `<div xmlns="http://www.w3.org/1999/xhtml">${text
+        .split('\n')
+        .map((line) => `<p>${escapeXml(line)}</p>`)
+        .join('')}</div>`,
+})
+
+const base64Utf8 = (text: string) => {
+    const bytes = new TextEncoder().encode(text)
+    let binary = ''
+    bytes.forEach((byte) => { binary += String.fromCharCode(byte) })
+    return btoa(binary)
+}
+
+const plainText = (note: ExportableNote) =>
+    note.sections.map((s) => (s.heading ? `${s.heading}\n${s.body}` : s.body)).join('\n\n')
+
+export const buildFhirBundle = (note: ExportableNote) => {
+    const date = new Date(note.noteDate).toISOString()
+    const patientUrl = `urn:uuid:${crypto.randomUUID()}`
+    const compositionUrl = `urn:uuid:${note.id}`
+    const documentReferenceUrl = `urn:uuid:${crypto.randomUUID()}`
+    const title = note.templateName ? `${note.templateName} — ${note.clientName || 'Unnamed client'}` : 'Consultation Summary'
+
+    const patient = {
+        resourceType: 'Patient',
+        ...(note.patient?.externalId && { identifier: [{ value: note.patient.externalId }] }),
+        name: [{ text: note.clientName || 'Unknown' }],
+        ...(note.patient?.sex && { gender: note.patient.sex }),
+        ...(note.patient?.birthDate && { birthDate: note.patient.birthDate }),
+    }
+
+    const composition = {
+        resourceType: 'Composition',
+        id: note.id,
+        status: 'final',
+        type: NOTE_TYPE,
+        subject: { reference: patientUrl, display: note.clientName || undefined },
+        date,
+        author: [{ display: 'JanScribe' }],
+        title,
+        section: note.sections.map((section) => ({
+            title: section.heading ?? 'Overview',
+            text: narrative(section.body),
+        })),
+    }
+
+    const documentReference = {
+        resourceType: 'DocumentReference',
+        status: 'current',
+        docStatus: 'final',
+        type: NOTE_TYPE,
+        subject: { reference: patientUrl },
+        date,
+        description: title,
+        content: [{
+            attachment: {
+                contentType: 'text/plain; charset=utf-8',
+                language: note.language ?? 'en',
+                data: base64Utf8(plainText(note)),
+                title,
+                creation: date,
+            },
+        }],
+        context: { related: [{ reference: compositionUrl }] },
+    }
+
+    return {
+        resourceType: 'Bundle',
+        type: 'document',
+        identifier: { system: 'urn:ietf:rfc:3986', value: `urn:uuid:${crypto.randomUUID()}` },
+        timestamp: new Date().toISOString(),
+        // A document Bundle must start with its Composition
+        entry: [
+            { fullUrl: compositionUrl, resource: composition },
+            { fullUrl: patientUrl, resource: patient },
+            { fullUrl: documentReferenceUrl, resource: documentReference },
+        ],
+    }
+}
+
+export const fhirExporter: Exporter = {
+    id: 'fhir',
+    label: 'FHIR R4 bundle (.json)',
+    extension: 'json',
+    filePrefix: 'FHIR',
+    render: (note) =>
+        new Blob([JSON.stringify(buildFhirBundle(note), null, 2)], { type: 'application/fhir+json' }),
+}
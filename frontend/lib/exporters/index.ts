@@ -0,0 +1,58 @@
+import { downloadBlob } from '@/lib/download'
+import { needsPrintedPdf, noteFileName } from '@/lib/pdf'
+import { printNote } from '@/lib/print'
+import { parseOrderedSummary } from '@/lib/sections'
+import type { Client, NoteTemplate, Summary } from '@/lib/types'
+import { docxExporter } from '@/lib/exporters/docx'
+import { fhirExporter } from '@/lib/exporters/fhir'
+import { markdownExporter } from '@/lib/exporters/markdown'
+import { pdfExporter } from '@/lib/exporters/pdf'
+import { textExporter } from '@/lib/exporters/text'
+import type { ExportableNote, Exporter, ExportOptions } from '@/lib/exporters/types'
+
+export type { ExportableNote, Exporter, ExportOptions } from '@/lib/exporters/types'
+
+// Formats offered in the "Export as…" menu, in menu order
+const registry: Exporter[] = [pdfExporter, docxExporter, markdownExporter, textExporter, fhirExporter]
+
+export const listExporters = (): readonly Exporter[] => registry
+
+export const registerExporter = (exporter: Exporter) => {
+    if (registry.some((e) => e.id === exporter.id)) {
+        throw new Error(`An exporter with id "${exporter.id}" is already registered`)
+    }
+    registry.push(exporter)
+}
+
+export const toExportableNote = (
+    summary: Pick<Summary, 'id' | 'client_name' | 'created_at' | 'structured_summary' | 'summary_language'> & {
+        original_transcript?: string | null
+    },
+    template?: NoteTemplate | null,
+    client?: Client | null
+): ExportableNote => ({
+    id: summary.id,
+    clientName: summary.client_name,
+    noteDate: summary.created_at,
+    summary: summary.structured_summary,
+    language: summary.summary_language,
+    sections: parseOrderedSummary(summary.structured_summary, template?.sections).sections,
+    transcript: summary.original_transcript,
+    templateName: template?.name ?? null,
+    sectionOrder: template?.sections,
+    patient: client
+        ? { birthDate: client.date_of_birth, sex: client.sex, externalId: client.external_id }
+        : undefined,
+})
+
+export const exportNote = async (note: ExportableNote, exporterId: string, options: ExportOptions = {}) => {
+    const exporter = registry.find((e) => e.id === exporterId)
+    if (!exporter) throw new Error(`Unknown export format "${exporterId}"`)
+    // jsPDF can't draw Kannada or Devanagari, so those PDFs come from the browser's print dialog
+    if (exporter.id === pdfExporter.id && needsPrintedPdf(note)) {
+        printNote(note, { ...options, sectionOrder: note.sectionOrder }, noteFileName(note))
+        return
+    }
+    const blob = await exporter.render(note, options)
+    downloadBlob(blob, noteFileName(note, exporter.filePrefix, exporter.extension))
+}
@@ -0,0 +1,29 @@
+import { formatNoteDate } from '@/lib/pdf'
+import type { Exporter } from '@/lib/exporters/types'
+
+// Headings are stored in capitals; "CHIEF COMPLAINT" reads better as "Chief Complaint" in Markdown
+const titleCase = (heading: string) =>
+    heading.toLowerCase().replace(/(^|[\s/(-])([a-z])/g, (_, sep: string, letter: string) => sep + letter.toUpperCase())
+
+// Characters that would otherwise turn summary text into Markdown formatting
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_#[\]<>|])/g, '\\$1')
+
+export const markdownExporter: Exporter = {
+    id: 'md',
+    label: 'Markdown (.md)',
+    extension: 'md',
+    render: (note, options) => {
+        const lines = [
+            `# ${escapeMarkdown(note.clientName || 'Untitled Note')}`,
+            '',
+            `**Date:** ${formatNoteDate(note.noteDate, options.dateFormat)}  `,
+            note.templateName ? `**Template:** ${escapeMarkdown(note.templateName)}  ` : null,
+            '',
+        ]
+        for (const section of note.sections) {
+            if (section.heading) lines.push(`## ${titleCase(section.heading)}`, '')
+            lines.push(escapeMarkdown(section.body), '')
+        }
+        return new Blob([lines.filter((line) => line !== null).join('\n')], { type: 'text/markdown;charset=utf-8' })
+    },
+}
@@ -0,0 +1,13 @@
+import { renderNotePdf } from '@/lib/pdf'
+import type { Exporter } from '@/lib/exporters/types'
+
+export const pdfExporter: Exporter = {
+    id: 'pdf',
+    label: 'PDF (.pdf)',
+    extension: 'pdf',
+    render: (note, options) =>
+        renderNotePdf(
+            { clientName: note.clientName, noteDate: note.noteDate, summary: note.summary },
+            { ...options, sectionOrder: note.sectionOrder }
+        ).output('blob'),
+}
@@ -0,0 +1,20 @@
+import { formatNoteDate } from '@/lib/pdf'
+import type { Exporter } from '@/lib/exporters/types'
+
+// Plain text in the same ALL-CAPS heading format the model writes
+export const textExporter: Exporter = {
+    id: 'txt',
+    label: 'Plain text (.txt)',
+    extension: 'txt',
+    render: (note, options) => {
+        const header = [
+            `Client: ${note.clientName || 'N/A'}`,
+            `Date: ${formatNoteDate(note.noteDate, options.dateFormat)}`,
+            note.templateName ? `Template: ${note.templateName}` : null,
+        ].filter(Boolean).join('\n')
+        const body = note.sections
+            .map((section) => (section.heading ? `${section.heading}\n${section.body}` : section.body))
+            .join('\n\n')
+        return new Blob([`${header}\n\n${body}\n`], { type: 'text/plain;charset=utf-8' })
+    },
+}
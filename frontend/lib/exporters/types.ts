@@ -0,0 +1,40 @@
+import type { PdfLetterhead, PdfSignature } from '@/lib/pdf'
+import type { SummarySection } from '@/lib/sections'
+import type { DateFormat, SummaryLanguage } from '@/lib/types'
+
+// Everything an exporter may need about a note. Sections are already parsed and in template order.
+export type ExportableNote = {
+    id: string
+    clientName: string | null
+    noteDate: string | Date
+    summary: string
+    // The language the summary is written in
+    language?: SummaryLanguage
+    sections: SummarySection[]
+    transcript?: string | null
+    templateName?: string | null
+    sectionOrder?: string[]
+    patient?: {
+        birthDate?: string | null
+        sex?: 'female' | 'male' | 'other' | null
+        externalId?: string | null
+    }
+}
+
+// The user's settings that shape an export; every field is optional
+export type ExportOptions = {
+    letterhead?: PdfLetterhead
+    signature?: PdfSignature
+    dateFormat?: DateFormat
+    // Intl locale of the interface language
+    locale?: string
+}
+
+export type Exporter = {
+    id: string
+    label: string
+    extension: string
+    // Prefix for the downloaded file name, e.g. "Summary" in Summary_John_Doe_2025-01-31.pdf
+    filePrefix?: string
+    render: (note: ExportableNote, options: ExportOptions) => Blob | Promise<Blob>
+}
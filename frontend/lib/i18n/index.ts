@@ -0,0 +1,47 @@
+import { en, type MessageKey, type Messages } from '@/lib/i18n/messages/en'
+import { hi } from '@/lib/i18n/messages/hi'
+import { kn } from '@/lib/i18n/messages/kn'
+import { tcy } from '@/lib/i18n/messages/tcy'
+
+export type { MessageKey } from '@/lib/i18n/messages/en'
+
+// Languages the interface is available in; also the languages a summary can be written in
+export const LOCALES = ['en', 'kn', 'hi', 'tcy'] as const
+export type Locale = (typeof LOCALES)[number]
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+// Each language in its own script, for the language switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+    en: 'English',
+    kn: 'ಕನ್ನಡ',
+    hi: 'हिन्दी',
+    tcy: 'ತುಳು',
+}
+
+// The interface language. A cookie rather than a preference so it also applies on the login page,
+// and so the server renders the right <html lang>.
+export const LOCALE_COOKIE = 'janscribe-locale'
+
+export const isLocale = (value: string | null | undefined): value is Locale =>
+    LOCALES.includes(value as Locale)
+
+export const setLocaleCookie = (locale: Locale) => {
+    document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=${60 * 60 * 24 * 365}; samesite=lax`
+}
+
+// Locale for Intl date and number formatting. Browsers have no Tulu data, so it borrows Kannada's.
+export const INTL_LOCALES: Record<Locale, string> = {
+    en: 'en-IN',
+    kn: 'kn-IN',
+    hi: 'hi-IN',
+    tcy: 'kn-IN',
+}
+
+const MESSAGES: Record<Locale, Partial<Messages>> = { en, kn, hi, tcy }
+
+// The string for `key` in `locale`, falling back to English, with `{name}` placeholders filled in
+export const translate = (locale: Locale, key: MessageKey, vars: Record<string, string | number> = {}) =>
+    (MESSAGES[locale][key] ?? en[key]).replace(/\{(\w+)\}/g, (match, name: string) =>
+        name in vars ? String(vars[name]) : match
+    )
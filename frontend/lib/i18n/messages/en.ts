@@ -0,0 +1,519 @@
+// English UI strings, the source for every other locale. `{name}` placeholders are filled in by t().
+export const en = {
+    'common.tryAgain': 'Please try again.',
+    'common.saving': 'Saving...',
+    'common.language': 'Language',
+    'common.cancel': 'Cancel',
+    'common.save': 'Save',
+    'common.untitledNote': 'Untitled Note',
+    'common.workspace': 'workspace',
+    'common.done': 'Done',
+    'common.edit': 'Edit',
+    'common.copy': 'Copy',
+    'common.remove': 'Remove',
+    'common.delete': 'Delete',
+
+    'language.auto': 'Detect automatically',
+    'language.en': 'English',
+    'language.kn': 'Kannada',
+    'language.hi': 'Hindi',
+    'language.tcy': 'Tulu',
+    'language.mixed': 'Mixed (switches between languages)',
+    'language.other': 'Other',
+    'language.marked': 'Marked {language}',
+    'language.markedHint': 'Spoken language given when recording',
+    'language.markedNotHeard': 'The recording was marked as this language, but it was not heard',
+
+    'auth.email': 'Email',
+    'auth.password': 'Password',
+    'auth.emailPlaceholder': 'name@example.com',
+
+    'login.title': 'Login to JanScribe',
+    'login.forgotPassword': 'Forgot password?',
+    'login.submit': 'Login',
+    'login.magicLink': 'Email Me a Sign-in Link',
+    'login.google': 'Continue with Google',
+    'login.toSignup': "Don't have an account? Sign Up",
+    'login.failed': 'Login failed: {error}',
+    'login.enterEmailFirst': 'Enter your email first.',
+    'login.linkFailed': 'Could not send link: {error}',
+    'login.linkSent': 'Check your email for a sign-in link.',
+    'login.googleFailed': 'Google sign-in failed: {error}',
+
+    'signup.title': 'Sign Up for JanScribe',
+    'signup.submit': 'Sign Up',
+    'signup.toLogin': 'Already have an account? Log In',
+    'signup.failed': 'Signup failed: {error}',
+    'signup.succeeded': 'Signup successful! Please check your email to confirm.',
+
+    'forgotPassword.title': 'Reset Password',
+    'forgotPassword.submit': 'Send Reset Link',
+    'forgotPassword.back': 'Back to Login',
+    'forgotPassword.failed': 'Could not send reset link: {error}',
+    'forgotPassword.sent': 'If an account uses this email, a reset link is on its way.',
+
+    'updatePassword.title': 'Choose a New Password',
+    'updatePassword.newPassword': 'New password',
+    'updatePassword.confirmation': 'Confirm new password',
+    'updatePassword.submit': 'Update Password',
+    'updatePassword.mismatch': 'The passwords do not match.',
+    'updatePassword.failed': 'Could not update password: {error}',
+    'updatePassword.updated': 'Password updated',
+
+    'dashboard.settings': 'Settings',
+    'dashboard.security': 'Security',
+    'dashboard.logout': 'Logout',
+    'dashboard.createNote': 'Create New Note',
+    'dashboard.client': 'Client (Optional)',
+    'dashboard.template': 'Note Template',
+    'dashboard.manageTemplates': 'Manage templates',
+    'dashboard.customTemplate': '{name} (custom)',
+    'dashboard.templateSections': 'Sections: {sections}',
+    'dashboard.spokenLanguage': 'Spoken Language',
+    'dashboard.summaryLanguage': 'Summary Language',
+    'dashboard.summaryLanguageHint': 'Headings stay in English so notes keep their sections.',
+    'dashboard.processAudio': 'Process Audio',
+    'dashboard.processing': 'Processing...',
+    'dashboard.uploadFiles': 'Or upload audio files',
+    'dashboard.latestSummary': 'Latest Summary',
+    'dashboard.cancelProcessing': 'Cancel Processing',
+    'dashboard.readOnlyRole':
+        'Your role in {workspace} is {role}: you can open, export and print its notes. Owners and clinicians record new ones.',
+    'dashboard.pastNotes': 'Past Notes',
+    'dashboard.noMatches': 'No notes match your search.',
+    'dashboard.empty.notes': 'Your saved summaries will appear here.',
+    'dashboard.empty.archived': 'No archived notes.',
+    'dashboard.empty.trash': 'Trash is empty.',
+    'dashboard.loadingMore': 'Loading more notes...',
+    'dashboard.loadMore': 'Load more',
+    'dashboard.micDenied.title': 'Microphone Access Denied',
+    'dashboard.micDenied.body':
+        'JanScribe needs access to your microphone to record audio. Please click "Allow" in your browser\'s permission pop-up. You may need to refresh the page or check your browser settings.',
+    'dashboard.micDenied.dismiss': 'Got it',
+    'dashboard.otherAccount': 'This recording belongs to another account. Log in as its owner to upload it.',
+
+    'filters.views': 'Which notes to show',
+    'filters.view.notes': 'Notes',
+    'filters.view.archived': 'Archived',
+    'filters.view.trash': 'Trash',
+    'filters.search': 'Search',
+    'filters.searchPlaceholder': 'Client, summary or transcript — e.g. fever "blood pressure"',
+    'filters.from': 'From',
+    'filters.to': 'To',
+    'filters.language': 'Language',
+    'filters.allLanguages': 'All languages',
+    'filters.sort': 'Sort',
+    'filters.sort.newest': 'Newest first',
+    'filters.sort.oldest': 'Oldest first',
+    'filters.sort.client': 'Client name (A–Z)',
+    'filters.clear': 'Clear filters',
+
+    'noteCard.transcript': 'Transcript:',
+    'noteCard.edit': 'Edit',
+    'noteCard.history': 'Transcript & History',
+    'noteCard.restore': 'Restore',
+    'noteCard.archive': 'Archive',
+    'noteCard.unarchive': 'Unarchive',
+    'noteCard.delete': 'Delete',
+    'noteCard.deleteForever': 'Delete Forever',
+    'noteCard.purgeDate': 'Deleted for good on {date} unless restored.',
+    'noteCard.confirmDelete.title': 'Delete this note forever?',
+    'noteCard.confirmDelete.body':
+        'The note, its edit history and its recording are deleted right away. This cannot be undone.',
+    'noteCard.confirmDelete.keep': 'Keep in Trash',
+
+    'recorder.microphone': 'Microphone',
+    'recorder.systemDefault': 'System default',
+    'recorder.deviceNumber': 'Microphone {number}',
+    'recorder.defaultDevice': 'the default microphone',
+    'recorder.maxLength': 'Stop automatically after',
+    'recorder.minutes': '{minutes} minutes',
+    'recorder.inputLevel': 'Input level',
+    'recorder.silent': 'No sound is coming from {device}. Check that the right microphone is selected and unmuted.',
+    'recorder.start': 'Start Recording',
+    'recorder.stop': 'Stop Recording',
+    'recorder.pause': 'Pause',
+    'recorder.resume': 'Resume',
+
+    'processing.progress': 'Processing progress',
+    'processing.upload': 'Upload',
+    'processing.transcribe': 'Transcribe',
+    'processing.summarize': 'Summarize',
+    'processing.save': 'Save',
+    'processing.waiting': 'waiting to start',
+
+    'pendingUploads.title': 'Pending Uploads',
+    'pendingUploads.status.pending': 'pending',
+    'pendingUploads.status.uploading': 'uploading',
+    'pendingUploads.status.failed': 'failed',
+    'pendingUploads.queued': 'Queued {time}',
+    'pendingUploads.failedAttempt': '1 failed attempt',
+    'pendingUploads.failedAttempts': '{count} failed attempts',
+    'pendingUploads.retryingAt': 'retrying at {time}',
+    'pendingUploads.noAutoRetry': 'will not retry automatically',
+    'pendingUploads.retry': 'Retry now',
+    'pendingUploads.discard': 'Discard',
+    'pendingUploads.storageFailed': 'Could not read the recordings saved on this device: {error}',
+
+    'fileUpload.drop': 'Drop audio files here, or',
+    'fileUpload.choose': 'Choose Files',
+    'fileUpload.limits': 'webm, m4a, mp3, ogg, wav or flac · up to {size} and {minutes} minutes each',
+    'fileUpload.remove': 'Remove {file}',
+    'fileUpload.queueing': 'Queueing...',
+    'fileUpload.processOne': 'Process 1 File',
+    'fileUpload.processMany': 'Process {count} Files',
+    'fileUpload.clearFinished': 'Clear Finished',
+    'fileUpload.status.checking': 'checking',
+    'fileUpload.status.invalid': 'invalid',
+    'fileUpload.status.ready': 'ready',
+    'fileUpload.status.pending': 'pending',
+    'fileUpload.status.uploading': 'uploading',
+    'fileUpload.status.failed': 'failed',
+    'fileUpload.status.done': 'done',
+    'fileUpload.status.discarded': 'discarded',
+    'fileUpload.problem.unsupported': 'Unsupported format. Use webm, m4a, mp3, ogg, wav or flac.',
+    'fileUpload.problem.empty': 'The file is empty.',
+    'fileUpload.problem.tooLarge': 'Larger than {size}.',
+    'fileUpload.problem.tooLong': 'Longer than {duration}.',
+    'fileUpload.problem.tooShort': 'Too short to transcribe.',
+
+    'export.button': 'Export as… ▾',
+    'export.exporting': 'Exporting...',
+
+    'live.live': 'Live',
+    'live.connecting': 'Connecting...',
+    'live.offline': 'Not syncing',
+    'live.offlineHint': 'New notes from other devices appear after a reload',
+
+    'share.button': 'Share',
+    'share.title': 'Share a read-only link',
+    'share.description': 'Anyone with the link can read this note without an account until it expires or is revoked.',
+    'share.expiresAfter': 'Expires after',
+    'share.oneDay': '1 day',
+    'share.days': '{days} days',
+    'share.passcode': 'Passcode (optional)',
+    'share.creating': 'Creating...',
+    'share.create': 'Create & Copy Link',
+    'share.loading': 'Loading links...',
+    'share.none': 'No links yet.',
+    'share.revoked': 'Revoked',
+    'share.locked': 'Locked after too many wrong passcodes',
+    'share.expired': 'Expired {date}',
+    'share.expires': 'Expires {date}',
+    'share.hasPasscode': 'passcode',
+    'share.oneView': '1 view',
+    'share.views': '{count} views',
+    'share.revoke': 'Revoke',
+
+    'sections.expandAll': 'Expand all',
+    'sections.collapseAll': 'Collapse all',
+    'sections.overview': 'Overview',
+
+    'noteDetail.back': '← Back to notes',
+    'noteDetail.transcript': 'Original Transcript',
+    'noteDetail.summary': 'Structured Summary',
+    'noteDetail.summaryWithTemplate': 'Structured Summary · {template}',
+    'noteDetail.saveVersion': 'Save Version',
+    'noteDetail.exportText': 'Export .txt',
+    'noteDetail.transcriptHistory': 'Transcript History',
+
+    'textPane.search': 'Search...',
+    'textPane.noMatches': 'No matches',
+    'textPane.previous': 'Prev',
+    'textPane.next': 'Next',
+
+    'audio.none': 'No recording is stored for this note.',
+    'audio.deleted': 'The recording was deleted on {date} under the audio retention policy.',
+    'audio.loadFailed': 'Could not load the recording.',
+    'audio.loadFailedWith': 'Could not load the recording: {error}',
+    'audio.clickToPlay': 'Click anywhere in the transcript to play from about that point.',
+    'audio.willBeDeleted': 'The recording will be deleted on {date}.',
+
+    'versions.title': 'Version History',
+    'versions.version': 'Version {version}',
+    'versions.optionLabel': 'v{version} · {date}',
+    'versions.current': 'current',
+    'versions.aiGenerated': 'AI generated',
+    'versions.editedBy': 'Edited by {email}',
+    'versions.edited': 'Edited',
+    'versions.restoredFrom': 'restored from v{version}',
+    'versions.compareWithCurrent': 'Compare with current',
+    'versions.restore': 'Restore this version',
+    'versions.compare': 'Compare',
+    'versions.with': 'With',
+    'versions.identical': 'These versions are identical.',
+
+    'clients.searchPlaceholder': 'Search by name or ID, e.g. John Doe',
+    'clients.create': '+ Create new client “{name}”',
+    'clients.change': 'Change',
+    'clients.fullName': 'Full name',
+    'clients.dateOfBirth': 'Date of birth',
+    'clients.sex': 'Sex',
+    'clients.sex.female': 'Female',
+    'clients.sex.male': 'Male',
+    'clients.sex.other': 'Other',
+    'clients.externalId': 'External ID',
+    'clients.externalIdPlaceholder': 'MRN / case no.',
+    'clients.phone': 'Phone',
+    'clients.add': 'Add Client',
+    'clients.age': '{age} y',
+    'clients.externalIdValue': 'ID {id}',
+    'clients.born': 'Born {date}',
+    'clients.bornAge': 'Born {date} ({age} y)',
+    'clients.visits': 'Visits',
+    'clients.noVisits': 'No notes have been recorded for this client yet.',
+    'clients.openNote': 'Open note',
+
+    'sharedNote.title': 'Shared note',
+    'sharedNote.banner': 'Shared from JanScribe · read-only · link expires {date}',
+    'sharedNote.notFound': 'This link does not exist or has been revoked.',
+    'sharedNote.expired': 'This link has expired. Ask the sender for a new one.',
+    'sharedNote.locked': 'This link is locked after too many wrong passcodes. Ask the sender for a new one.',
+    'sharedNote.prompt': 'Someone shared a note with you. It opens read-only.',
+    'sharedNote.passcode': 'Passcode',
+    'sharedNote.checking': 'Checking...',
+    'sharedNote.open': 'Open Note',
+    'sharedNote.wrongPasscodeOne': 'That passcode is not right. 1 try left.',
+    'sharedNote.wrongPasscode': 'That passcode is not right. {count} tries left.',
+    'sharedNote.openFailed': 'Could not open the note. Please try again.',
+
+    'mfa.title': 'Two-Factor Authentication',
+    'mfa.enterCode': 'Enter the 6-digit code from your authenticator app.',
+    'mfa.app': 'Authenticator app',
+    'mfa.code': 'Code',
+    'mfa.verifying': 'Verifying...',
+    'mfa.verify': 'Verify',
+    'mfa.differentAccount': 'Use a Different Account',
+    'mfa.loadFailed': 'Could not load your authenticator apps. Please reload the page.',
+    'mfa.wrongCode': 'That code is not right or has expired. Try the current one.',
+
+    'authError.title': 'Sign-in problem',
+    'authError.generic': 'We could not sign you in with this link. Please try again.',
+    'authError.otpExpired': 'This link has expired or was already used. Ask for a new one.',
+    'authError.flowStateExpired': 'This link has expired. Ask for a new one.',
+    'authError.flowStateNotFound': 'This link was already used. Ask for a new one if you still need it.',
+    'authError.otherBrowser': 'Open the link in the same browser you requested it from.',
+    'authError.accessDenied': 'Sign-in was cancelled.',
+    'authError.missingCode': 'This link is incomplete. Copy the whole link from the email, or ask for a new one.',
+    'authError.mfaCheckFailed': 'Could not check your two-factor authentication. Please try again.',
+    'authError.reason': 'Reason: {reason}',
+    'authError.backToLogin': 'Back to login',
+    'authError.resetPassword': 'Reset password',
+
+    'settings.title': 'Settings',
+    'settings.general': 'General',
+    'settings.theme': 'Theme',
+    'settings.theme.system': 'Same as device',
+    'settings.theme.light': 'Light',
+    'settings.theme.dark': 'Dark',
+    'settings.dateFormat': 'Date format',
+    'settings.dateFormat.locale': 'Interface language default',
+    'settings.dateFormat.dmy': 'DD/MM/YYYY',
+    'settings.dateFormat.mdy': 'MM/DD/YYYY',
+    'settings.dateFormat.iso': 'YYYY-MM-DD',
+    'settings.recording': 'Recording',
+    'settings.defaultTemplate': 'Default template',
+    'settings.generalTemplate': 'General (built-in)',
+    'settings.spokenLanguage': 'Spoken language',
+    'settings.retention': 'Keep recordings of new notes for',
+    'settings.retention.default': 'Practice default',
+    'settings.retention.forever': 'Keep indefinitely',
+    'settings.retention.year': '1 year',
+    'settings.retention.days': '{days} days',
+    'settings.retention.hint': 'Existing notes keep the deletion date they were saved with.',
+    'settings.letterhead': 'PDF Letterhead',
+    'settings.practiceName': 'Practice name',
+    'settings.practiceNamePlaceholder': 'e.g. Mangaluru Family Clinic',
+    'settings.address': 'Address and contact (up to 3 lines)',
+    'settings.logo': 'Logo (PNG or JPEG)',
+    'settings.logoAlt': 'Letterhead logo',
+    'settings.signature': 'PDF Signature',
+    'settings.signatureName': 'Name',
+    'settings.signatureNamePlaceholder': 'e.g. Dr. A. Shetty',
+    'settings.signatureTitle': 'Title',
+    'settings.signatureTitlePlaceholder': 'e.g. MBBS, MD (General Medicine)',
+    'settings.registration': 'Registration number',
+    'settings.signatureImage': 'Signature image',
+    'settings.imageTooLarge': 'Images can be up to {size} KB.',
+    'settings.imageUnreadable': 'Could not read the image.',
+    'settings.save': 'Save Settings',
+
+    'role.owner': 'Owner',
+    'role.clinician': 'Clinician',
+    'role.assistant': 'Assistant',
+    'role.read_only': 'Read-only',
+
+    'apiError.authExpired': 'Your session has expired. Please log in again.',
+    'apiError.mfaRequired': 'Two-factor authentication required.',
+    'apiError.silentAudio': 'No speech was detected in the recording.',
+    'apiError.upstream': 'The transcription service is having trouble. We will try again shortly.',
+    'apiError.network': 'Network error — will retry when the connection is back.',
+    'apiError.timeout': 'The server took too long to respond. We will try again shortly.',
+    'apiError.cancelled': 'Cancelled.',
+    'apiError.rejected': 'The request was rejected.',
+    'apiError.server': 'Something went wrong on the server.',
+    'apiError.misconfigured': 'Backend URL not set.',
+
+    'templates.title': 'Note Templates',
+    'templates.new': 'New Template',
+    'templates.edit': 'Edit Template',
+    'templates.name': 'Name',
+    'templates.description': 'Description',
+    'templates.scribeRole': 'The scribe is...',
+    'templates.scribeRolePlaceholder': 'e.g., a clinical scribe for a paediatrician',
+    'templates.sections': 'Sections (in order)',
+    'templates.noSections': 'No sections: the model picks its own headings.',
+    'templates.moveUp': 'Move up',
+    'templates.moveDown': 'Move down',
+    'templates.removeSection': 'Remove section',
+    'templates.sectionPlaceholder': 'e.g., MEDICATIONS',
+    'templates.addSection': 'Add',
+    'templates.instructions': 'Extra instructions (optional)',
+    'templates.save': 'Save Template',
+    'templates.builtIn': 'Built-in',
+    'templates.custom': 'Custom',
+    'templates.duplicate': 'Duplicate',
+    'templates.copyName': '{name} (copy)',
+    'templates.modelHeadings': 'Headings chosen by the model',
+
+    'security.title': 'Security',
+    'security.required':
+        'A workspace you belong to requires two-factor authentication for its notes. Set up an authenticator app below to continue.',
+    'security.added': 'added {date}',
+    'security.scan':
+        'Scan this code with Google Authenticator, 1Password or a similar app, then enter the 6-digit code it shows.',
+    'security.qrCode': 'QR code for your authenticator app',
+    'security.enterKey': "Can't scan it? Enter this key instead:",
+    'security.turnOn': 'Turn On',
+    'security.appName': 'App name',
+    'security.addAnother': 'Add Another App',
+    'security.setUp': 'Set Up',
+    'security.password': 'Password',
+    'security.changePassword': 'Change Password',
+
+    'workspaces.switcher': 'Workspace',
+    'workspaces.personal': 'Personal',
+    'workspaces.manage': 'Manage',
+    'workspaces.oneInvitation': '1 invitation',
+    'workspaces.invitations': '{count} invitations',
+    'workspaces.title': 'Workspaces',
+    'workspaces.intro':
+        'Share notes with your clinic or office. Owners and clinicians record and edit; assistants and read-only members can open and print.',
+    'workspaces.invitationsTitle': 'Invitations',
+    'workspaces.invitationAs': '{workspace} · as {role}',
+    'workspaces.aWorkspace': 'A workspace',
+    'workspaces.accept': 'Accept',
+    'workspaces.decline': 'Decline',
+    'workspaces.leave': 'Leave Workspace',
+    'workspaces.new': 'New Workspace',
+    'workspaces.name': 'Workspace name',
+    'workspaces.namePlaceholder': 'e.g. Mangaluru Family Clinic',
+    'workspaces.creating': 'Creating...',
+    'workspaces.create': 'Create',
+    'workspaces.requireMfa': 'Require two-factor authentication',
+    'workspaces.requireMfaHelp': "Members must enter a code from an authenticator app to see this workspace's notes.",
+    'workspaces.unknownMember': 'Unknown member',
+    'workspaces.you': '(you)',
+    'workspaces.member': 'member',
+    'workspaces.roleOf': 'Role of {member}',
+    'workspaces.invitedAs': '{email} · invited as {role}',
+    'workspaces.withdraw': 'Withdraw',
+    'workspaces.inviteByEmail': 'Invite by email',
+    'workspaces.role': 'Role',
+    'workspaces.invite': 'Invite',
+
+    'toast.loadMoreFailed': 'Could not load more notes',
+    'toast.maxLength': '⏱️ Maximum length reached',
+    'toast.maxLengthBody': "Recording stopped automatically. Click 'Process' to get your summary.",
+    'toast.recordingStopped': '👍 Recording stopped.',
+    'toast.recordingStoppedBody': "Click 'Process' to get your summary.",
+    'toast.recordingStarted': '🎙️ Recording started...',
+    'toast.recordingStartedBody': 'Speak into your microphone.',
+    'toast.micUnavailable': 'Microphone unavailable',
+    'toast.micUnavailableBody': 'The selected microphone could not be opened. Pick another one and try again.',
+    'toast.summaryReady': '🎉 Summary Generated!',
+    'toast.summaryReadyBody': 'Your new note is ready.',
+    'toast.processingCancelled': 'Processing cancelled',
+    'toast.processingCancelledBody': 'The recording is kept under Pending Uploads until you retry or discard it.',
+    'toast.sessionExpired': 'Session expired',
+    'toast.logIn': 'Log in',
+    'toast.mfaRequired': 'Two-factor authentication required',
+    'toast.mfaRequiredBody':
+        'Confirm a code from your authenticator app, then retry the recording under Pending Uploads.',
+    'toast.verify': 'Verify',
+    'toast.noSpeech': 'No speech detected',
+    'toast.noSpeechBody': 'Check that the right microphone is selected, then record again.',
+    'toast.processFailed': 'Could not process audio',
+    'toast.noAudio': 'No audio recorded',
+    'toast.noAudioBody': 'Please record audio first.',
+    'toast.saveRecordingFailed': 'Could not save recording',
+    'toast.storageUnavailable': 'Local storage is unavailable. Please try again.',
+    'toast.saveFileFailed': 'Could not save file',
+    'toast.saveFileFailedBody': '{file}: local storage is unavailable. Please try again.',
+    'toast.savedOffline': '📴 Saved offline',
+    'toast.savedOfflineRecording': 'The recording will upload automatically when you are back online.',
+    'toast.savedOfflineFiles': 'The files will upload automatically when you are back online.',
+    'toast.updateNoteFailed': 'Could not update note',
+    'toast.undo': 'Undo',
+    'toast.undoFailed': 'Could not undo',
+    'toast.moved.notes': 'Note restored',
+    'toast.moved.archived': 'Note archived',
+    'toast.moved.trash': 'Note moved to Trash. It will be deleted for good after {days} days.',
+    'toast.noteDeleted': 'Note deleted',
+    'toast.deleteFailed': 'Could not delete note',
+    'toast.copied': '{label} copied to clipboard',
+    'toast.copyFailed': 'Could not copy',
+    'toast.copyBlocked': 'Your browser blocked clipboard access.',
+    'toast.savedVersion': 'Saved as version {version}',
+    'toast.restoredVersion': 'Version {from} restored as version {version}',
+    'toast.saveNoteFailed': 'Could not save note',
+    'toast.saveSummaryFailed': 'Could not save summary',
+    'toast.transcriptSaved': 'Transcript saved as version {version}',
+    'toast.transcriptRestored': 'Transcript version {from} restored as version {version}',
+    'toast.saveTranscriptFailed': 'Could not save transcript',
+    'toast.recordingLoading': 'The recording is still loading',
+    'toast.recordingLoadingBody': 'Try again in a moment.',
+    'toast.exportFailed': 'Could not export as {format}',
+    'toast.clientAdded': 'Client added',
+    'toast.addClientFailed': 'Could not add client',
+    'toast.linkCopied': 'Link copied to clipboard',
+    'toast.loadLinksFailed': 'Could not load share links',
+    'toast.createLinkFailed': 'Could not create link',
+    'toast.linkRevoked': 'Link revoked',
+    'toast.linkRevokedBody': 'Anyone opening it now sees that it is unavailable.',
+    'toast.revokeLinkFailed': 'Could not revoke link',
+    'toast.imageFailed': 'Could not use image',
+    'toast.settingsSaved': 'Settings saved',
+    'toast.saveSettingsFailed': 'Could not save settings',
+    'toast.templateSaved': 'Template saved',
+    'toast.saveTemplateFailed': 'Could not save template',
+    'toast.templateDeleted': 'Template deleted',
+    'toast.deleteTemplateFailed': 'Could not delete template',
+    'toast.mfaSetupFailed': 'Could not start setup',
+    'toast.mfaOn': 'Two-factor authentication is on',
+    'toast.wrongCode': 'That code is not right',
+    'toast.wrongCodeBody': 'Enter the current code from the app.',
+    'toast.appRemoved': 'Authenticator app removed',
+    'toast.removeAppFailed': 'Could not remove app',
+    'toast.loadMembersFailed': 'Could not load members',
+    'toast.invitationCreated': 'Invitation created',
+    'toast.invitationCreatedBody': '{email} will see it under Workspaces after logging in.',
+    'toast.inviteFailed': 'Could not invite',
+    'toast.changeRoleFailed': 'Could not change role',
+    'toast.removeMemberFailed': 'Could not remove member',
+    'toast.withdrawInvitationFailed': 'Could not withdraw invitation',
+    'toast.requireMfaFailed': 'Could not change two-factor setting',
+    'toast.workspaceCreated': 'Workspace created',
+    'toast.workspaceCreatedBody': 'Invite your team to {name}.',
+    'toast.createWorkspaceFailed': 'Could not create workspace',
+    'toast.joinedWorkspace': 'Joined {name}',
+    'toast.acceptInvitationFailed': 'Could not accept invitation',
+    'toast.declineInvitationFailed': 'Could not decline invitation',
+    'toast.leftWorkspace': 'Left {name}',
+    'toast.leaveWorkspaceFailed': 'Could not leave workspace',
+    'toast.transcriptCopied': 'Transcript copied to clipboard',
+    'toast.summaryCopied': 'Summary copied to clipboard',
+}
+
+export type MessageKey = keyof typeof en
+export type Messages = Record<MessageKey, string>
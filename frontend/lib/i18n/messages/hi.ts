@@ -0,0 +1,520 @@
+import type { Messages } from '@/lib/i18n/messages/en'
+
+// Hindi (हिन्दी)
+export const hi: Messages = {
+    'common.tryAgain': 'कृपया फिर से कोशिश करें।',
+    'common.saving': 'सहेजा जा रहा है...',
+    'common.language': 'भाषा',
+    'common.cancel': 'रद्द करें',
+    'common.save': 'सहेजें',
+    'common.untitledNote': 'बिना नाम का नोट',
+    'common.workspace': 'वर्कस्पेस',
+    'common.done': 'हो गया',
+    'common.edit': 'संपादित करें',
+    'common.copy': 'कॉपी करें',
+    'common.remove': 'हटाएँ',
+    'common.delete': 'हटाएँ',
+
+    'language.auto': 'अपने आप पहचानें',
+    'language.en': 'अंग्रेज़ी',
+    'language.kn': 'कन्नड़',
+    'language.hi': 'हिन्दी',
+    'language.tcy': 'तुलु',
+    'language.mixed': 'मिश्रित (भाषाएँ बदलती रहती हैं)',
+    'language.other': 'अन्य',
+    'language.marked': '{language} चिह्नित',
+    'language.markedHint': 'रिकॉर्ड करते समय बताई गई बोली जाने वाली भाषा',
+    'language.markedNotHeard': 'रिकॉर्डिंग को इस भाषा के रूप में चिह्नित किया गया था, पर यह सुनाई नहीं दी',
+
+    'auth.email': 'ईमेल',
+    'auth.password': 'पासवर्ड',
+    'auth.emailPlaceholder': 'name@example.com',
+
+    'login.title': 'JanScribe में लॉग इन करें',
+    'login.forgotPassword': 'पासवर्ड भूल गए?',
+    'login.submit': 'लॉग इन',
+    'login.magicLink': 'मुझे साइन-इन लिंक ईमेल करें',
+    'login.google': 'Google से जारी रखें',
+    'login.toSignup': 'खाता नहीं है? साइन अप करें',
+    'login.failed': 'लॉग इन विफल: {error}',
+    'login.enterEmailFirst': 'पहले अपना ईमेल दर्ज करें।',
+    'login.linkFailed': 'लिंक नहीं भेजा जा सका: {error}',
+    'login.linkSent': 'साइन-इन लिंक के लिए अपना ईमेल देखें।',
+    'login.googleFailed': 'Google साइन-इन विफल: {error}',
+
+    'signup.title': 'JanScribe के लिए साइन अप करें',
+    'signup.submit': 'साइन अप',
+    'signup.toLogin': 'पहले से खाता है? लॉग इन करें',
+    'signup.failed': 'साइन अप विफल: {error}',
+    'signup.succeeded': 'साइन अप सफल! पुष्टि करने के लिए कृपया अपना ईमेल देखें।',
+
+    'forgotPassword.title': 'पासवर्ड रीसेट करें',
+    'forgotPassword.submit': 'रीसेट लिंक भेजें',
+    'forgotPassword.back': 'लॉग इन पर वापस जाएँ',
+    'forgotPassword.failed': 'रीसेट लिंक नहीं भेजा जा सका: {error}',
+    'forgotPassword.sent': 'अगर इस ईमेल से कोई खाता है, तो रीसेट लिंक भेजा जा रहा है।',
+
+    'updatePassword.title': 'नया पासवर्ड चुनें',
+    'updatePassword.newPassword': 'नया पासवर्ड',
+    'updatePassword.confirmation': 'नए पासवर्ड की पुष्टि करें',
+    'updatePassword.submit': 'पासवर्ड अपडेट करें',
+    'updatePassword.mismatch': 'पासवर्ड मेल नहीं खाते।',
+    'updatePassword.failed': 'पासवर्ड अपडेट नहीं हो सका: {error}',
+    'updatePassword.updated': 'पासवर्ड अपडेट हो गया',
+
+    'dashboard.settings': 'सेटिंग्स',
+    'dashboard.security': 'सुरक्षा',
+    'dashboard.logout': 'लॉग आउट',
+    'dashboard.createNote': 'नया नोट बनाएँ',
+    'dashboard.client': 'क्लाइंट (वैकल्पिक)',
+    'dashboard.template': 'नोट टेम्पलेट',
+    'dashboard.manageTemplates': 'टेम्पलेट प्रबंधित करें',
+    'dashboard.customTemplate': '{name} (कस्टम)',
+    'dashboard.templateSections': 'खंड: {sections}',
+    'dashboard.spokenLanguage': 'बोली जाने वाली भाषा',
+    'dashboard.summaryLanguage': 'सारांश की भाषा',
+    'dashboard.summaryLanguageHint': 'शीर्षक अंग्रेज़ी में ही रहते हैं ताकि नोट के खंड बने रहें।',
+    'dashboard.processAudio': 'ऑडियो प्रोसेस करें',
+    'dashboard.processing': 'प्रोसेस हो रहा है...',
+    'dashboard.uploadFiles': 'या ऑडियो फ़ाइलें अपलोड करें',
+    'dashboard.latestSummary': 'नवीनतम सारांश',
+    'dashboard.cancelProcessing': 'प्रोसेसिंग रद्द करें',
+    'dashboard.readOnlyRole':
+        '{workspace} में आपकी भूमिका {role} है: आप इसके नोट खोल, निर्यात और प्रिंट कर सकते हैं। नए नोट मालिक और चिकित्सक रिकॉर्ड करते हैं।',
+    'dashboard.pastNotes': 'पिछले नोट',
+    'dashboard.noMatches': 'आपकी खोज से कोई नोट मेल नहीं खाता।',
+    'dashboard.empty.notes': 'आपके सहेजे गए सारांश यहाँ दिखेंगे।',
+    'dashboard.empty.archived': 'कोई संग्रहीत नोट नहीं।',
+    'dashboard.empty.trash': 'ट्रैश खाली है।',
+    'dashboard.loadingMore': 'और नोट लोड हो रहे हैं...',
+    'dashboard.loadMore': 'और लोड करें',
+    'dashboard.micDenied.title': 'माइक्रोफ़ोन की अनुमति नहीं मिली',
+    'dashboard.micDenied.body':
+        'ऑडियो रिकॉर्ड करने के लिए JanScribe को आपके माइक्रोफ़ोन की ज़रूरत है। कृपया अपने ब्राउज़र की अनुमति वाली पॉप-अप में "Allow" पर क्लिक करें। आपको पेज रीफ़्रेश करना या ब्राउज़र की सेटिंग्स देखनी पड़ सकती हैं।',
+    'dashboard.micDenied.dismiss': 'ठीक है',
+    'dashboard.otherAccount':
+        'यह रिकॉर्डिंग किसी दूसरे खाते की है। इसे अपलोड करने के लिए उसके मालिक के रूप में लॉग इन करें।',
+
+    'filters.views': 'कौन से नोट दिखाएँ',
+    'filters.view.notes': 'नोट',
+    'filters.view.archived': 'संग्रहित',
+    'filters.view.trash': 'ट्रैश',
+    'filters.search': 'खोजें',
+    'filters.searchPlaceholder': 'क्लाइंट, सारांश या ट्रांसक्रिप्ट — जैसे बुखार "रक्तचाप"',
+    'filters.from': 'से',
+    'filters.to': 'तक',
+    'filters.language': 'भाषा',
+    'filters.allLanguages': 'सभी भाषाएँ',
+    'filters.sort': 'क्रम',
+    'filters.sort.newest': 'नए पहले',
+    'filters.sort.oldest': 'पुराने पहले',
+    'filters.sort.client': 'क्लाइंट का नाम (A–Z)',
+    'filters.clear': 'फ़िल्टर हटाएँ',
+
+    'noteCard.transcript': 'ट्रांसक्रिप्ट:',
+    'noteCard.edit': 'संपादित करें',
+    'noteCard.history': 'ट्रांसक्रिप्ट और इतिहास',
+    'noteCard.restore': 'वापस लाएँ',
+    'noteCard.archive': 'संग्रहित करें',
+    'noteCard.unarchive': 'संग्रह से निकालें',
+    'noteCard.delete': 'हटाएँ',
+    'noteCard.deleteForever': 'हमेशा के लिए हटाएँ',
+    'noteCard.purgeDate': 'वापस न लाने पर {date} को हमेशा के लिए हटा दिया जाएगा।',
+    'noteCard.confirmDelete.title': 'यह नोट हमेशा के लिए हटाएँ?',
+    'noteCard.confirmDelete.body':
+        'नोट, उसके संपादन का इतिहास और उसकी रिकॉर्डिंग तुरंत हटा दी जाएगी। इसे पूर्ववत नहीं किया जा सकता।',
+    'noteCard.confirmDelete.keep': 'ट्रैश में रखें',
+
+    'recorder.microphone': 'माइक्रोफ़ोन',
+    'recorder.systemDefault': 'सिस्टम डिफ़ॉल्ट',
+    'recorder.deviceNumber': 'माइक्रोफ़ोन {number}',
+    'recorder.defaultDevice': 'डिफ़ॉल्ट माइक्रोफ़ोन',
+    'recorder.maxLength': 'इतने समय बाद अपने आप रोकें',
+    'recorder.minutes': '{minutes} मिनट',
+    'recorder.inputLevel': 'आवाज़ का स्तर',
+    'recorder.silent': '{device} से कोई आवाज़ नहीं आ रही है। जाँचें कि सही माइक्रोफ़ोन चुना गया है और म्यूट नहीं है।',
+    'recorder.start': 'रिकॉर्डिंग शुरू करें',
+    'recorder.stop': 'रिकॉर्डिंग रोकें',
+    'recorder.pause': 'रोकें',
+    'recorder.resume': 'जारी रखें',
+
+    'processing.progress': 'प्रोसेसिंग की प्रगति',
+    'processing.upload': 'अपलोड',
+    'processing.transcribe': 'ट्रांसक्राइब',
+    'processing.summarize': 'सारांश',
+    'processing.save': 'सहेजना',
+    'processing.waiting': 'शुरू होने का इंतज़ार',
+
+    'pendingUploads.title': 'लंबित अपलोड',
+    'pendingUploads.status.pending': 'लंबित',
+    'pendingUploads.status.uploading': 'अपलोड हो रहा है',
+    'pendingUploads.status.failed': 'विफल',
+    'pendingUploads.queued': '{time} को कतार में जोड़ा गया',
+    'pendingUploads.failedAttempt': '1 विफल प्रयास',
+    'pendingUploads.failedAttempts': '{count} विफल प्रयास',
+    'pendingUploads.retryingAt': '{time} पर फिर से कोशिश होगी',
+    'pendingUploads.noAutoRetry': 'अपने आप दोबारा कोशिश नहीं होगी',
+    'pendingUploads.retry': 'अभी फिर कोशिश करें',
+    'pendingUploads.discard': 'हटाएँ',
+    'pendingUploads.storageFailed': 'इस डिवाइस पर सहेजी गई रिकॉर्डिंग पढ़ी नहीं जा सकीं: {error}',
+
+    'fileUpload.drop': 'ऑडियो फ़ाइलें यहाँ छोड़ें, या',
+    'fileUpload.choose': 'फ़ाइलें चुनें',
+    'fileUpload.limits': 'webm, m4a, mp3, ogg, wav या flac · हर फ़ाइल {size} और {minutes} मिनट तक',
+    'fileUpload.remove': '{file} हटाएँ',
+    'fileUpload.queueing': 'कतार में जोड़ा जा रहा है...',
+    'fileUpload.processOne': '1 फ़ाइल प्रोसेस करें',
+    'fileUpload.processMany': '{count} फ़ाइलें प्रोसेस करें',
+    'fileUpload.clearFinished': 'पूरी हुई फ़ाइलें हटाएँ',
+    'fileUpload.status.checking': 'जाँच हो रही है',
+    'fileUpload.status.invalid': 'अमान्य',
+    'fileUpload.status.ready': 'तैयार',
+    'fileUpload.status.pending': 'लंबित',
+    'fileUpload.status.uploading': 'अपलोड हो रहा है',
+    'fileUpload.status.failed': 'विफल',
+    'fileUpload.status.done': 'पूरा',
+    'fileUpload.status.discarded': 'हटाया गया',
+    'fileUpload.problem.unsupported': 'यह फ़ॉर्मेट समर्थित नहीं है। webm, m4a, mp3, ogg, wav या flac इस्तेमाल करें।',
+    'fileUpload.problem.empty': 'फ़ाइल खाली है।',
+    'fileUpload.problem.tooLarge': '{size} से बड़ी है।',
+    'fileUpload.problem.tooLong': '{duration} से लंबी है।',
+    'fileUpload.problem.tooShort': 'ट्रांसक्राइब करने के लिए बहुत छोटी है।',
+
+    'export.button': 'इस रूप में निर्यात करें… ▾',
+    'export.exporting': 'निर्यात हो रहा है...',
+
+    'live.live': 'लाइव',
+    'live.connecting': 'कनेक्ट हो रहा है...',
+    'live.offline': 'सिंक नहीं हो रहा',
+    'live.offlineHint': 'दूसरे डिवाइस के नए नोट पेज दोबारा लोड करने पर दिखेंगे',
+
+    'share.button': 'साझा करें',
+    'share.title': 'केवल-पढ़ने वाला लिंक साझा करें',
+    'share.description':
+        'लिंक वाला कोई भी व्यक्ति, लिंक की अवधि समाप्त होने या रद्द होने तक, बिना खाते के यह नोट पढ़ सकता है।',
+    'share.expiresAfter': 'समाप्ति अवधि',
+    'share.oneDay': '1 दिन',
+    'share.days': '{days} दिन',
+    'share.passcode': 'पासकोड (वैकल्पिक)',
+    'share.creating': 'बनाया जा रहा है...',
+    'share.create': 'लिंक बनाएँ और कॉपी करें',
+    'share.loading': 'लिंक लोड हो रहे हैं...',
+    'share.none': 'अभी कोई लिंक नहीं है।',
+    'share.revoked': 'रद्द किया गया',
+    'share.locked': 'कई गलत पासकोड के बाद लॉक',
+    'share.expired': '{date} को समाप्त हुआ',
+    'share.expires': '{date} को समाप्त होगा',
+    'share.hasPasscode': 'पासकोड',
+    'share.oneView': '1 बार देखा गया',
+    'share.views': '{count} बार देखा गया',
+    'share.revoke': 'रद्द करें',
+
+    'sections.expandAll': 'सभी खोलें',
+    'sections.collapseAll': 'सभी समेटें',
+    'sections.overview': 'सारांश',
+
+    'noteDetail.back': '← नोट्स पर वापस जाएँ',
+    'noteDetail.transcript': 'मूल ट्रांसक्रिप्ट',
+    'noteDetail.summary': 'संरचित सारांश',
+    'noteDetail.summaryWithTemplate': 'संरचित सारांश · {template}',
+    'noteDetail.saveVersion': 'संस्करण सहेजें',
+    'noteDetail.exportText': '.txt निर्यात करें',
+    'noteDetail.transcriptHistory': 'ट्रांसक्रिप्ट इतिहास',
+
+    'textPane.search': 'खोजें...',
+    'textPane.noMatches': 'कोई मिलान नहीं',
+    'textPane.previous': 'पिछला',
+    'textPane.next': 'अगला',
+
+    'audio.none': 'इस नोट की कोई रिकॉर्डिंग संग्रहीत नहीं है।',
+    'audio.deleted': 'ऑडियो संग्रहण नीति के तहत रिकॉर्डिंग {date} को हटा दी गई।',
+    'audio.loadFailed': 'रिकॉर्डिंग लोड नहीं हो सकी।',
+    'audio.loadFailedWith': 'रिकॉर्डिंग लोड नहीं हो सकी: {error}',
+    'audio.clickToPlay': 'ट्रांसक्रिप्ट में कहीं भी क्लिक करें, रिकॉर्डिंग लगभग उसी जगह से चलेगी।',
+    'audio.willBeDeleted': 'रिकॉर्डिंग {date} को हटा दी जाएगी।',
+
+    'versions.title': 'संस्करण इतिहास',
+    'versions.version': 'संस्करण {version}',
+    'versions.optionLabel': 'v{version} · {date}',
+    'versions.current': 'वर्तमान',
+    'versions.aiGenerated': 'AI द्वारा बनाया गया',
+    'versions.editedBy': '{email} द्वारा संपादित',
+    'versions.edited': 'संपादित',
+    'versions.restoredFrom': 'v{version} से पुनर्स्थापित',
+    'versions.compareWithCurrent': 'वर्तमान से तुलना करें',
+    'versions.restore': 'यह संस्करण पुनर्स्थापित करें',
+    'versions.compare': 'तुलना करें',
+    'versions.with': 'इससे',
+    'versions.identical': 'ये संस्करण एक जैसे हैं।',
+
+    'clients.searchPlaceholder': 'नाम या ID से खोजें, जैसे राम शर्मा',
+    'clients.create': '+ नया क्लाइंट “{name}” बनाएँ',
+    'clients.change': 'बदलें',
+    'clients.fullName': 'पूरा नाम',
+    'clients.dateOfBirth': 'जन्म तिथि',
+    'clients.sex': 'लिंग',
+    'clients.sex.female': 'महिला',
+    'clients.sex.male': 'पुरुष',
+    'clients.sex.other': 'अन्य',
+    'clients.externalId': 'बाहरी ID',
+    'clients.externalIdPlaceholder': 'MRN / केस नं.',
+    'clients.phone': 'फ़ोन',
+    'clients.add': 'क्लाइंट जोड़ें',
+    'clients.age': '{age} वर्ष',
+    'clients.externalIdValue': 'ID {id}',
+    'clients.born': 'जन्म {date}',
+    'clients.bornAge': 'जन्म {date} ({age} वर्ष)',
+    'clients.visits': 'मुलाक़ातें',
+    'clients.noVisits': 'इस क्लाइंट के लिए अभी कोई नोट दर्ज नहीं हुआ है।',
+    'clients.openNote': 'नोट खोलें',
+
+    'sharedNote.title': 'साझा किया गया नोट',
+    'sharedNote.banner': 'JanScribe से साझा · केवल पढ़ने के लिए · लिंक {date} को समाप्त होगा',
+    'sharedNote.notFound': 'यह लिंक मौजूद नहीं है या रद्द कर दिया गया है।',
+    'sharedNote.expired': 'इस लिंक की अवधि समाप्त हो गई है। भेजने वाले से नया लिंक माँगें।',
+    'sharedNote.locked': 'कई गलत पासकोड के बाद यह लिंक लॉक हो गया है। भेजने वाले से नया लिंक माँगें।',
+    'sharedNote.prompt': 'किसी ने आपके साथ एक नोट साझा किया है। यह केवल पढ़ने के लिए खुलेगा।',
+    'sharedNote.passcode': 'पासकोड',
+    'sharedNote.checking': 'जाँच हो रही है...',
+    'sharedNote.open': 'नोट खोलें',
+    'sharedNote.wrongPasscodeOne': 'यह पासकोड सही नहीं है। 1 प्रयास बाकी है।',
+    'sharedNote.wrongPasscode': 'यह पासकोड सही नहीं है। {count} प्रयास बाकी हैं।',
+    'sharedNote.openFailed': 'नोट नहीं खुल सका। कृपया फिर से प्रयास करें।',
+
+    'mfa.title': 'दो-चरणीय प्रमाणीकरण',
+    'mfa.enterCode': 'अपने ऑथेंटिकेटर ऐप से 6 अंकों का कोड दर्ज करें।',
+    'mfa.app': 'ऑथेंटिकेटर ऐप',
+    'mfa.code': 'कोड',
+    'mfa.verifying': 'सत्यापित हो रहा है...',
+    'mfa.verify': 'सत्यापित करें',
+    'mfa.differentAccount': 'दूसरा खाता इस्तेमाल करें',
+    'mfa.loadFailed': 'आपके ऑथेंटिकेटर ऐप लोड नहीं हो सके। कृपया पेज फिर से लोड करें।',
+    'mfa.wrongCode': 'यह कोड सही नहीं है या इसकी अवधि समाप्त हो गई है। मौजूदा कोड आज़माएँ।',
+
+    'authError.title': 'साइन-इन में समस्या',
+    'authError.generic': 'इस लिंक से आपको साइन इन नहीं किया जा सका। कृपया फिर से प्रयास करें।',
+    'authError.otpExpired': 'इस लिंक की अवधि समाप्त हो गई है या इसका पहले ही उपयोग हो चुका है। नया लिंक माँगें।',
+    'authError.flowStateExpired': 'इस लिंक की अवधि समाप्त हो गई है। नया लिंक माँगें।',
+    'authError.flowStateNotFound': 'इस लिंक का पहले ही उपयोग हो चुका है। अगर अभी भी ज़रूरत है तो नया लिंक माँगें।',
+    'authError.otherBrowser': 'लिंक उसी ब्राउज़र में खोलें जिससे आपने इसका अनुरोध किया था।',
+    'authError.accessDenied': 'साइन-इन रद्द कर दिया गया।',
+    'authError.missingCode': 'यह लिंक अधूरा है। ईमेल से पूरा लिंक कॉपी करें, या नया लिंक माँगें।',
+    'authError.mfaCheckFailed': 'आपका दो-चरणीय प्रमाणीकरण जाँचा नहीं जा सका। कृपया फिर से प्रयास करें।',
+    'authError.reason': 'कारण: {reason}',
+    'authError.backToLogin': 'लॉगिन पर वापस जाएँ',
+    'authError.resetPassword': 'पासवर्ड रीसेट करें',
+
+    'settings.title': 'सेटिंग्स',
+    'settings.general': 'सामान्य',
+    'settings.theme': 'थीम',
+    'settings.theme.system': 'डिवाइस के अनुसार',
+    'settings.theme.light': 'लाइट',
+    'settings.theme.dark': 'डार्क',
+    'settings.dateFormat': 'तारीख़ का प्रारूप',
+    'settings.dateFormat.locale': 'इंटरफ़ेस भाषा का डिफ़ॉल्ट',
+    'settings.dateFormat.dmy': 'DD/MM/YYYY',
+    'settings.dateFormat.mdy': 'MM/DD/YYYY',
+    'settings.dateFormat.iso': 'YYYY-MM-DD',
+    'settings.recording': 'रिकॉर्डिंग',
+    'settings.defaultTemplate': 'डिफ़ॉल्ट टेम्पलेट',
+    'settings.generalTemplate': 'सामान्य (बिल्ट-इन)',
+    'settings.spokenLanguage': 'बोली जाने वाली भाषा',
+    'settings.retention': 'नए नोट्स की रिकॉर्डिंग कितने समय रखें',
+    'settings.retention.default': 'प्रैक्टिस का डिफ़ॉल्ट',
+    'settings.retention.forever': 'हमेशा रखें',
+    'settings.retention.year': '1 वर्ष',
+    'settings.retention.days': '{days} दिन',
+    'settings.retention.hint': 'मौजूदा नोट्स वही हटाने की तारीख़ रखते हैं जिसके साथ वे सहेजे गए थे।',
+    'settings.letterhead': 'PDF लेटरहेड',
+    'settings.practiceName': 'प्रैक्टिस का नाम',
+    'settings.practiceNamePlaceholder': 'जैसे मंगलुरु फ़ैमिली क्लिनिक',
+    'settings.address': 'पता और संपर्क (अधिकतम 3 पंक्तियाँ)',
+    'settings.logo': 'लोगो (PNG या JPEG)',
+    'settings.logoAlt': 'लेटरहेड लोगो',
+    'settings.signature': 'PDF हस्ताक्षर',
+    'settings.signatureName': 'नाम',
+    'settings.signatureNamePlaceholder': 'जैसे डॉ. ए. शेट्टी',
+    'settings.signatureTitle': 'उपाधि',
+    'settings.signatureTitlePlaceholder': 'जैसे MBBS, MD (जनरल मेडिसिन)',
+    'settings.registration': 'पंजीकरण संख्या',
+    'settings.signatureImage': 'हस्ताक्षर की छवि',
+    'settings.imageTooLarge': 'छवियाँ अधिकतम {size} KB की हो सकती हैं।',
+    'settings.imageUnreadable': 'छवि पढ़ी नहीं जा सकी।',
+    'settings.save': 'सेटिंग्स सहेजें',
+
+    'role.owner': 'मालिक',
+    'role.clinician': 'चिकित्सक',
+    'role.assistant': 'सहायक',
+    'role.read_only': 'केवल पढ़ने के लिए',
+
+    'apiError.authExpired': 'आपका सत्र समाप्त हो गया है। कृपया फिर से लॉग इन करें।',
+    'apiError.mfaRequired': 'दो-चरणीय प्रमाणीकरण आवश्यक है।',
+    'apiError.silentAudio': 'रिकॉर्डिंग में कोई आवाज़ नहीं मिली।',
+    'apiError.upstream': 'ट्रांसक्रिप्शन सेवा में समस्या है। हम थोड़ी देर में फिर से प्रयास करेंगे।',
+    'apiError.network': 'नेटवर्क त्रुटि — कनेक्शन लौटने पर फिर से प्रयास किया जाएगा।',
+    'apiError.timeout': 'सर्वर ने जवाब देने में बहुत समय लिया। हम थोड़ी देर में फिर से प्रयास करेंगे।',
+    'apiError.cancelled': 'रद्द किया गया।',
+    'apiError.rejected': 'अनुरोध अस्वीकार कर दिया गया।',
+    'apiError.server': 'सर्वर पर कुछ गड़बड़ हो गई।',
+    'apiError.misconfigured': 'बैकएंड URL सेट नहीं है।',
+
+    'templates.title': 'नोट टेम्पलेट',
+    'templates.new': 'नया टेम्पलेट',
+    'templates.edit': 'टेम्पलेट संपादित करें',
+    'templates.name': 'नाम',
+    'templates.description': 'विवरण',
+    'templates.scribeRole': 'स्क्राइब है...',
+    'templates.scribeRolePlaceholder': 'जैसे बाल रोग विशेषज्ञ के लिए क्लिनिकल स्क्राइब',
+    'templates.sections': 'अनुभाग (क्रम में)',
+    'templates.noSections': 'कोई अनुभाग नहीं: मॉडल अपने शीर्षक ख़ुद चुनता है।',
+    'templates.moveUp': 'ऊपर ले जाएँ',
+    'templates.moveDown': 'नीचे ले जाएँ',
+    'templates.removeSection': 'अनुभाग हटाएँ',
+    'templates.sectionPlaceholder': 'जैसे MEDICATIONS',
+    'templates.addSection': 'जोड़ें',
+    'templates.instructions': 'अतिरिक्त निर्देश (वैकल्पिक)',
+    'templates.save': 'टेम्पलेट सहेजें',
+    'templates.builtIn': 'बिल्ट-इन',
+    'templates.custom': 'कस्टम',
+    'templates.duplicate': 'प्रतिलिपि बनाएँ',
+    'templates.copyName': '{name} (प्रति)',
+    'templates.modelHeadings': 'मॉडल द्वारा चुने गए शीर्षक',
+
+    'security.title': 'सुरक्षा',
+    'security.required':
+        'आप जिस वर्कस्पेस के सदस्य हैं, उसके नोट्स के लिए दो-चरणीय प्रमाणीकरण आवश्यक है। जारी रखने के लिए नीचे ऑथेंटिकेटर ऐप सेट करें।',
+    'security.added': '{date} को जोड़ा गया',
+    'security.scan':
+        'Google Authenticator, 1Password या इसी तरह के ऐप से यह कोड स्कैन करें, फिर उसमें दिखाया गया 6 अंकों का कोड दर्ज करें।',
+    'security.qrCode': 'आपके ऑथेंटिकेटर ऐप के लिए QR कोड',
+    'security.enterKey': 'स्कैन नहीं हो रहा? इसके बजाय यह कुंजी दर्ज करें:',
+    'security.turnOn': 'चालू करें',
+    'security.appName': 'ऐप का नाम',
+    'security.addAnother': 'एक और ऐप जोड़ें',
+    'security.setUp': 'सेट करें',
+    'security.password': 'पासवर्ड',
+    'security.changePassword': 'पासवर्ड बदलें',
+
+    'workspaces.switcher': 'वर्कस्पेस',
+    'workspaces.personal': 'व्यक्तिगत',
+    'workspaces.manage': 'प्रबंधित करें',
+    'workspaces.oneInvitation': '1 आमंत्रण',
+    'workspaces.invitations': '{count} आमंत्रण',
+    'workspaces.title': 'वर्कस्पेस',
+    'workspaces.intro':
+        'अपने क्लिनिक या कार्यालय के साथ नोट्स साझा करें। मालिक और चिकित्सक रिकॉर्ड और संपादित करते हैं; सहायक और केवल-पढ़ने वाले सदस्य खोल और प्रिंट कर सकते हैं।',
+    'workspaces.invitationsTitle': 'आमंत्रण',
+    'workspaces.invitationAs': '{workspace} · {role} के रूप में',
+    'workspaces.aWorkspace': 'एक वर्कस्पेस',
+    'workspaces.accept': 'स्वीकार करें',
+    'workspaces.decline': 'अस्वीकार करें',
+    'workspaces.leave': 'वर्कस्पेस छोड़ें',
+    'workspaces.new': 'नया वर्कस्पेस',
+    'workspaces.name': 'वर्कस्पेस का नाम',
+    'workspaces.namePlaceholder': 'जैसे मंगलुरु फ़ैमिली क्लिनिक',
+    'workspaces.creating': 'बनाया जा रहा है...',
+    'workspaces.create': 'बनाएँ',
+    'workspaces.requireMfa': 'दो-चरणीय प्रमाणीकरण अनिवार्य करें',
+    'workspaces.requireMfaHelp': 'इस वर्कस्पेस के नोट्स देखने के लिए सदस्यों को ऑथेंटिकेटर ऐप का कोड दर्ज करना होगा।',
+    'workspaces.unknownMember': 'अज्ञात सदस्य',
+    'workspaces.you': '(आप)',
+    'workspaces.member': 'सदस्य',
+    'workspaces.roleOf': '{member} की भूमिका',
+    'workspaces.invitedAs': '{email} · {role} के रूप में आमंत्रित',
+    'workspaces.withdraw': 'वापस लें',
+    'workspaces.inviteByEmail': 'ईमेल से आमंत्रित करें',
+    'workspaces.role': 'भूमिका',
+    'workspaces.invite': 'आमंत्रित करें',
+
+    'toast.loadMoreFailed': 'और नोट लोड नहीं हो सके',
+    'toast.maxLength': '⏱️ अधिकतम अवधि पूरी हुई',
+    'toast.maxLengthBody': 'रिकॉर्डिंग अपने आप रुक गई। सारांश पाने के लिए ‘प्रोसेस’ पर क्लिक करें।',
+    'toast.recordingStopped': '👍 रिकॉर्डिंग रुक गई।',
+    'toast.recordingStoppedBody': 'सारांश पाने के लिए ‘प्रोसेस’ पर क्लिक करें।',
+    'toast.recordingStarted': '🎙️ रिकॉर्डिंग शुरू हुई...',
+    'toast.recordingStartedBody': 'अपने माइक्रोफ़ोन में बोलें।',
+    'toast.micUnavailable': 'माइक्रोफ़ोन उपलब्ध नहीं है',
+    'toast.micUnavailableBody': 'चुना गया माइक्रोफ़ोन खोला नहीं जा सका। कोई दूसरा चुनें और फिर से कोशिश करें।',
+    'toast.summaryReady': '🎉 सारांश तैयार है!',
+    'toast.summaryReadyBody': 'आपका नया नोट तैयार है।',
+    'toast.processingCancelled': 'प्रोसेसिंग रद्द की गई',
+    'toast.processingCancelledBody':
+        'जब तक आप फिर से कोशिश न करें या इसे हटा न दें, रिकॉर्डिंग लंबित अपलोड में रखी रहेगी।',
+    'toast.sessionExpired': 'सत्र समाप्त हो गया',
+    'toast.logIn': 'लॉग इन',
+    'toast.mfaRequired': 'दो-चरणीय प्रमाणीकरण ज़रूरी है',
+    'toast.mfaRequiredBody': 'अपने ऑथेंटिकेटर ऐप का कोड दर्ज करें, फिर लंबित अपलोड में रिकॉर्डिंग को दोबारा भेजें।',
+    'toast.verify': 'सत्यापित करें',
+    'toast.noSpeech': 'कोई आवाज़ नहीं मिली',
+    'toast.noSpeechBody': 'जाँचें कि सही माइक्रोफ़ोन चुना गया है, फिर दोबारा रिकॉर्ड करें।',
+    'toast.processFailed': 'ऑडियो प्रोसेस नहीं हो सका',
+    'toast.noAudio': 'कोई ऑडियो रिकॉर्ड नहीं हुआ',
+    'toast.noAudioBody': 'कृपया पहले ऑडियो रिकॉर्ड करें।',
+    'toast.saveRecordingFailed': 'रिकॉर्डिंग सहेजी नहीं जा सकी',
+    'toast.storageUnavailable': 'लोकल स्टोरेज उपलब्ध नहीं है। कृपया फिर से कोशिश करें।',
+    'toast.saveFileFailed': 'फ़ाइल सहेजी नहीं जा सकी',
+    'toast.saveFileFailedBody': '{file}: लोकल स्टोरेज उपलब्ध नहीं है। कृपया फिर से कोशिश करें।',
+    'toast.savedOffline': '📴 ऑफ़लाइन सहेजा गया',
+    'toast.savedOfflineRecording': 'ऑनलाइन होते ही रिकॉर्डिंग अपने आप अपलोड हो जाएगी।',
+    'toast.savedOfflineFiles': 'ऑनलाइन होते ही फ़ाइलें अपने आप अपलोड हो जाएँगी।',
+    'toast.updateNoteFailed': 'नोट अपडेट नहीं हो सका',
+    'toast.undo': 'पूर्ववत करें',
+    'toast.undoFailed': 'पूर्ववत नहीं हो सका',
+    'toast.moved.notes': 'नोट वापस लाया गया',
+    'toast.moved.archived': 'नोट संग्रहीत किया गया',
+    'toast.moved.trash': 'नोट ट्रैश में भेजा गया। {days} दिनों के बाद यह हमेशा के लिए हट जाएगा।',
+    'toast.noteDeleted': 'नोट हटाया गया',
+    'toast.deleteFailed': 'नोट हटाया नहीं जा सका',
+    'toast.copied': '{label} क्लिपबोर्ड पर कॉपी किया गया',
+    'toast.copyFailed': 'कॉपी नहीं हो सका',
+    'toast.copyBlocked': 'आपके ब्राउज़र ने क्लिपबोर्ड तक पहुँच रोक दी।',
+    'toast.savedVersion': 'संस्करण {version} के रूप में सहेजा गया',
+    'toast.restoredVersion': 'संस्करण {from} को संस्करण {version} के रूप में वापस लाया गया',
+    'toast.saveNoteFailed': 'नोट सहेजा नहीं जा सका',
+    'toast.saveSummaryFailed': 'सारांश सहेजा नहीं जा सका',
+    'toast.transcriptSaved': 'ट्रांसक्रिप्ट संस्करण {version} के रूप में सहेजा गया',
+    'toast.transcriptRestored': 'ट्रांसक्रिप्ट संस्करण {from} को संस्करण {version} के रूप में वापस लाया गया',
+    'toast.saveTranscriptFailed': 'ट्रांसक्रिप्ट सहेजा नहीं जा सका',
+    'toast.recordingLoading': 'रिकॉर्डिंग अभी लोड हो रही है',
+    'toast.recordingLoadingBody': 'थोड़ी देर में फिर कोशिश करें।',
+    'toast.exportFailed': '{format} के रूप में निर्यात नहीं हो सका',
+    'toast.clientAdded': 'क्लाइंट जोड़ा गया',
+    'toast.addClientFailed': 'क्लाइंट नहीं जोड़ा जा सका',
+    'toast.linkCopied': 'लिंक क्लिपबोर्ड पर कॉपी किया गया',
+    'toast.loadLinksFailed': 'शेयर लिंक लोड नहीं हो सके',
+    'toast.createLinkFailed': 'लिंक नहीं बन सका',
+    'toast.linkRevoked': 'लिंक रद्द किया गया',
+    'toast.linkRevokedBody': 'अब इसे खोलने वाले को दिखेगा कि यह उपलब्ध नहीं है।',
+    'toast.revokeLinkFailed': 'लिंक रद्द नहीं हो सका',
+    'toast.imageFailed': 'तस्वीर इस्तेमाल नहीं हो सकी',
+    'toast.settingsSaved': 'सेटिंग्स सहेजी गईं',
+    'toast.saveSettingsFailed': 'सेटिंग्स सहेजी नहीं जा सकीं',
+    'toast.templateSaved': 'टेम्पलेट सहेजा गया',
+    'toast.saveTemplateFailed': 'टेम्पलेट सहेजा नहीं जा सका',
+    'toast.templateDeleted': 'टेम्पलेट हटाया गया',
+    'toast.deleteTemplateFailed': 'टेम्पलेट हटाया नहीं जा सका',
+    'toast.mfaSetupFailed': 'सेटअप शुरू नहीं हो सका',
+    'toast.mfaOn': 'दो-चरणीय प्रमाणीकरण चालू है',
+    'toast.wrongCode': 'यह कोड सही नहीं है',
+    'toast.wrongCodeBody': 'ऐप में दिख रहा मौजूदा कोड दर्ज करें।',
+    'toast.appRemoved': 'ऑथेंटिकेटर ऐप हटाया गया',
+    'toast.removeAppFailed': 'ऐप हटाया नहीं जा सका',
+    'toast.loadMembersFailed': 'सदस्य लोड नहीं हो सके',
+    'toast.invitationCreated': 'निमंत्रण बनाया गया',
+    'toast.invitationCreatedBody': 'लॉग इन करने के बाद {email} इसे वर्कस्पेस में देखेंगे।',
+    'toast.inviteFailed': 'निमंत्रण नहीं भेजा जा सका',
+    'toast.changeRoleFailed': 'भूमिका नहीं बदली जा सकी',
+    'toast.removeMemberFailed': 'सदस्य को हटाया नहीं जा सका',
+    'toast.withdrawInvitationFailed': 'निमंत्रण वापस नहीं लिया जा सका',
+    'toast.requireMfaFailed': 'दो-चरणीय प्रमाणीकरण की सेटिंग नहीं बदली जा सकी',
+    'toast.workspaceCreated': 'वर्कस्पेस बनाया गया',
+    'toast.workspaceCreatedBody': 'अपनी टीम को {name} में आमंत्रित करें।',
+    'toast.createWorkspaceFailed': 'वर्कस्पेस नहीं बन सका',
+    'toast.joinedWorkspace': '{name} में शामिल हुए',
+    'toast.acceptInvitationFailed': 'निमंत्रण स्वीकार नहीं हो सका',
+    'toast.declineInvitationFailed': 'निमंत्रण अस्वीकार नहीं हो सका',
+    'toast.leftWorkspace': '{name} छोड़ दिया',
+    'toast.leaveWorkspaceFailed': 'वर्कस्पेस छोड़ा नहीं जा सका',
+    'toast.transcriptCopied': 'ट्रांसक्रिप्ट क्लिपबोर्ड पर कॉपी किया गया',
+    'toast.summaryCopied': 'सारांश क्लिपबोर्ड पर कॉपी किया गया',
+}
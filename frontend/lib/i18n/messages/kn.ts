@@ -0,0 +1,521 @@
+import type { Messages } from '@/lib/i18n/messages/en'
+
+// Kannada (ಕನ್ನಡ)
+export const kn: Messages = {
+    'common.tryAgain': 'ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    'common.saving': 'ಉಳಿಸಲಾಗುತ್ತಿದೆ...',
+    'common.language': 'ಭಾಷೆ',
+    'common.cancel': 'ರದ್ದುಮಾಡಿ',
+    'common.save': 'ಉಳಿಸಿ',
+    'common.untitledNote': 'ಹೆಸರಿಲ್ಲದ ಟಿಪ್ಪಣಿ',
+    'common.workspace': 'ವರ್ಕ್‌ಸ್ಪೇಸ್',
+    'common.done': 'ಮುಗಿದಿದೆ',
+    'common.edit': 'ತಿದ್ದಿ',
+    'common.copy': 'ನಕಲಿಸಿ',
+    'common.remove': 'ತೆಗೆದುಹಾಕಿ',
+    'common.delete': 'ಅಳಿಸಿ',
+
+    'language.auto': 'ಸ್ವಯಂಚಾಲಿತವಾಗಿ ಪತ್ತೆಹಚ್ಚಿ',
+    'language.en': 'ಇಂಗ್ಲಿಷ್',
+    'language.kn': 'ಕನ್ನಡ',
+    'language.hi': 'ಹಿಂದಿ',
+    'language.tcy': 'ತುಳು',
+    'language.mixed': 'ಮಿಶ್ರ (ಭಾಷೆಗಳ ನಡುವೆ ಬದಲಾಗುತ್ತದೆ)',
+    'language.other': 'ಇತರೆ',
+    'language.marked': '{language} ಎಂದು ಗುರುತಿಸಲಾಗಿದೆ',
+    'language.markedHint': 'ರೆಕಾರ್ಡ್ ಮಾಡುವಾಗ ನೀಡಿದ ಮಾತನಾಡುವ ಭಾಷೆ',
+    'language.markedNotHeard': 'ರೆಕಾರ್ಡಿಂಗ್ ಅನ್ನು ಈ ಭಾಷೆ ಎಂದು ಗುರುತಿಸಲಾಗಿತ್ತು, ಆದರೆ ಅದು ಕೇಳಿಸಲಿಲ್ಲ',
+
+    'auth.email': 'ಇಮೇಲ್',
+    'auth.password': 'ಪಾಸ್‌ವರ್ಡ್',
+    'auth.emailPlaceholder': 'name@example.com',
+
+    'login.title': 'JanScribe ಗೆ ಲಾಗಿನ್ ಮಾಡಿ',
+    'login.forgotPassword': 'ಪಾಸ್‌ವರ್ಡ್ ಮರೆತಿರಾ?',
+    'login.submit': 'ಲಾಗಿನ್',
+    'login.magicLink': 'ಸೈನ್-ಇನ್ ಲಿಂಕ್ ಅನ್ನು ಇಮೇಲ್ ಮಾಡಿ',
+    'login.google': 'Google ಮೂಲಕ ಮುಂದುವರಿಯಿರಿ',
+    'login.toSignup': 'ಖಾತೆ ಇಲ್ಲವೇ? ಸೈನ್ ಅಪ್ ಮಾಡಿ',
+    'login.failed': 'ಲಾಗಿನ್ ವಿಫಲವಾಗಿದೆ: {error}',
+    'login.enterEmailFirst': 'ಮೊದಲು ನಿಮ್ಮ ಇಮೇಲ್ ನಮೂದಿಸಿ.',
+    'login.linkFailed': 'ಲಿಂಕ್ ಕಳುಹಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ: {error}',
+    'login.linkSent': 'ಸೈನ್-ಇನ್ ಲಿಂಕ್‌ಗಾಗಿ ನಿಮ್ಮ ಇಮೇಲ್ ಪರಿಶೀಲಿಸಿ.',
+    'login.googleFailed': 'Google ಸೈನ್-ಇನ್ ವಿಫಲವಾಗಿದೆ: {error}',
+
+    'signup.title': 'JanScribe ಗೆ ಸೈನ್ ಅಪ್ ಮಾಡಿ',
+    'signup.submit': 'ಸೈನ್ ಅಪ್',
+    'signup.toLogin': 'ಈಗಾಗಲೇ ಖಾತೆ ಇದೆಯೇ? ಲಾಗಿನ್ ಮಾಡಿ',
+    'signup.failed': 'ಸೈನ್ ಅಪ್ ವಿಫಲವಾಗಿದೆ: {error}',
+    'signup.succeeded': 'ಸೈನ್ ಅಪ್ ಯಶಸ್ವಿಯಾಗಿದೆ! ದೃಢೀಕರಿಸಲು ನಿಮ್ಮ ಇಮೇಲ್ ಪರಿಶೀಲಿಸಿ.',
+
+    'forgotPassword.title': 'ಪಾಸ್‌ವರ್ಡ್ ಮರುಹೊಂದಿಸಿ',
+    'forgotPassword.submit': 'ಮರುಹೊಂದಿಸುವ ಲಿಂಕ್ ಕಳುಹಿಸಿ',
+    'forgotPassword.back': 'ಲಾಗಿನ್‌ಗೆ ಹಿಂತಿರುಗಿ',
+    'forgotPassword.failed': 'ಮರುಹೊಂದಿಸುವ ಲಿಂಕ್ ಕಳುಹಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ: {error}',
+    'forgotPassword.sent': 'ಈ ಇಮೇಲ್‌ಗೆ ಖಾತೆ ಇದ್ದರೆ, ಮರುಹೊಂದಿಸುವ ಲಿಂಕ್ ಕಳುಹಿಸಲಾಗುತ್ತಿದೆ.',
+
+    'updatePassword.title': 'ಹೊಸ ಪಾಸ್‌ವರ್ಡ್ ಆಯ್ಕೆಮಾಡಿ',
+    'updatePassword.newPassword': 'ಹೊಸ ಪಾಸ್‌ವರ್ಡ್',
+    'updatePassword.confirmation': 'ಹೊಸ ಪಾಸ್‌ವರ್ಡ್ ದೃಢೀಕರಿಸಿ',
+    'updatePassword.submit': 'ಪಾಸ್‌ವರ್ಡ್ ನವೀಕರಿಸಿ',
+    'updatePassword.mismatch': 'ಪಾಸ್‌ವರ್ಡ್‌ಗಳು ಹೊಂದಿಕೆಯಾಗುತ್ತಿಲ್ಲ.',
+    'updatePassword.failed': 'ಪಾಸ್‌ವರ್ಡ್ ನವೀಕರಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ: {error}',
+    'updatePassword.updated': 'ಪಾಸ್‌ವರ್ಡ್ ನವೀಕರಿಸಲಾಗಿದೆ',
+
+    'dashboard.settings': 'ಸೆಟ್ಟಿಂಗ್‌ಗಳು',
+    'dashboard.security': 'ಭದ್ರತೆ',
+    'dashboard.logout': 'ಲಾಗ್ ಔಟ್',
+    'dashboard.createNote': 'ಹೊಸ ಟಿಪ್ಪಣಿ ರಚಿಸಿ',
+    'dashboard.client': 'ಕ್ಲೈಂಟ್ (ಐಚ್ಛಿಕ)',
+    'dashboard.template': 'ಟಿಪ್ಪಣಿ ಟೆಂಪ್ಲೇಟ್',
+    'dashboard.manageTemplates': 'ಟೆಂಪ್ಲೇಟ್‌ಗಳನ್ನು ನಿರ್ವಹಿಸಿ',
+    'dashboard.customTemplate': '{name} (ಕಸ್ಟಮ್)',
+    'dashboard.templateSections': 'ವಿಭಾಗಗಳು: {sections}',
+    'dashboard.spokenLanguage': 'ಮಾತನಾಡುವ ಭಾಷೆ',
+    'dashboard.summaryLanguage': 'ಸಾರಾಂಶದ ಭಾಷೆ',
+    'dashboard.summaryLanguageHint': 'ಟಿಪ್ಪಣಿಗಳ ವಿಭಾಗಗಳು ಉಳಿಯುವಂತೆ ಶೀರ್ಷಿಕೆಗಳು ಇಂಗ್ಲಿಷ್‌ನಲ್ಲೇ ಇರುತ್ತವೆ.',
+    'dashboard.processAudio': 'ಆಡಿಯೋ ಪ್ರಕ್ರಿಯೆಗೊಳಿಸಿ',
+    'dashboard.processing': 'ಪ್ರಕ್ರಿಯೆಗೊಳಿಸಲಾಗುತ್ತಿದೆ...',
+    'dashboard.uploadFiles': 'ಅಥವಾ ಆಡಿಯೋ ಫೈಲ್‌ಗಳನ್ನು ಅಪ್‌ಲೋಡ್ ಮಾಡಿ',
+    'dashboard.latestSummary': 'ಇತ್ತೀಚಿನ ಸಾರಾಂಶ',
+    'dashboard.cancelProcessing': 'ಪ್ರಕ್ರಿಯೆ ರದ್ದುಗೊಳಿಸಿ',
+    'dashboard.readOnlyRole':
+        '{workspace} ನಲ್ಲಿ ನಿಮ್ಮ ಪಾತ್ರ {role}: ನೀವು ಅದರ ಟಿಪ್ಪಣಿಗಳನ್ನು ತೆರೆಯಬಹುದು, ರಫ್ತು ಮಾಡಬಹುದು ಮತ್ತು ಮುದ್ರಿಸಬಹುದು. ಹೊಸದನ್ನು ಮಾಲೀಕರು ಮತ್ತು ವೈದ್ಯರು ದಾಖಲಿಸುತ್ತಾರೆ.',
+    'dashboard.pastNotes': 'ಹಿಂದಿನ ಟಿಪ್ಪಣಿಗಳು',
+    'dashboard.noMatches': 'ನಿಮ್ಮ ಹುಡುಕಾಟಕ್ಕೆ ಯಾವುದೇ ಟಿಪ್ಪಣಿಗಳು ಹೊಂದಿಕೆಯಾಗುತ್ತಿಲ್ಲ.',
+    'dashboard.empty.notes': 'ನಿಮ್ಮ ಉಳಿಸಿದ ಸಾರಾಂಶಗಳು ಇಲ್ಲಿ ಕಾಣಿಸುತ್ತವೆ.',
+    'dashboard.empty.archived': 'ಆರ್ಕೈವ್ ಮಾಡಿದ ಟಿಪ್ಪಣಿಗಳಿಲ್ಲ.',
+    'dashboard.empty.trash': 'ಕಸದ ಬುಟ್ಟಿ ಖಾಲಿಯಾಗಿದೆ.',
+    'dashboard.loadingMore': 'ಇನ್ನಷ್ಟು ಟಿಪ್ಪಣಿಗಳನ್ನು ಲೋಡ್ ಮಾಡಲಾಗುತ್ತಿದೆ...',
+    'dashboard.loadMore': 'ಇನ್ನಷ್ಟು ಲೋಡ್ ಮಾಡಿ',
+    'dashboard.micDenied.title': 'ಮೈಕ್ರೊಫೋನ್ ಪ್ರವೇಶ ನಿರಾಕರಿಸಲಾಗಿದೆ',
+    'dashboard.micDenied.body':
+        'ಆಡಿಯೋ ದಾಖಲಿಸಲು JanScribe ಗೆ ನಿಮ್ಮ ಮೈಕ್ರೊಫೋನ್ ಪ್ರವೇಶ ಬೇಕು. ನಿಮ್ಮ ಬ್ರೌಸರ್‌ನ ಅನುಮತಿ ಪಾಪ್-ಅಪ್‌ನಲ್ಲಿ "Allow" ಕ್ಲಿಕ್ ಮಾಡಿ. ಪುಟವನ್ನು ರಿಫ್ರೆಶ್ ಮಾಡಬೇಕಾಗಬಹುದು ಅಥವಾ ಬ್ರೌಸರ್ ಸೆಟ್ಟಿಂಗ್‌ಗಳನ್ನು ಪರಿಶೀಲಿಸಬೇಕಾಗಬಹುದು.',
+    'dashboard.micDenied.dismiss': 'ಸರಿ',
+    'dashboard.otherAccount': 'ಈ ರೆಕಾರ್ಡಿಂಗ್ ಬೇರೆ ಖಾತೆಗೆ ಸೇರಿದೆ. ಅಪ್‌ಲೋಡ್ ಮಾಡಲು ಅದರ ಮಾಲೀಕರಾಗಿ ಲಾಗಿನ್ ಮಾಡಿ.',
+
+    'filters.views': 'ಯಾವ ಟಿಪ್ಪಣಿಗಳನ್ನು ತೋರಿಸಬೇಕು',
+    'filters.view.notes': 'ಟಿಪ್ಪಣಿಗಳು',
+    'filters.view.archived': 'ಆರ್ಕೈವ್',
+    'filters.view.trash': 'ಕಸದ ಬುಟ್ಟಿ',
+    'filters.search': 'ಹುಡುಕಿ',
+    'filters.searchPlaceholder': 'ಕ್ಲೈಂಟ್, ಸಾರಾಂಶ ಅಥವಾ ಪ್ರತಿಲಿಪಿ — ಉದಾ. ಜ್ವರ "ರಕ್ತದೊತ್ತಡ"',
+    'filters.from': 'ಇಂದ',
+    'filters.to': 'ವರೆಗೆ',
+    'filters.language': 'ಭಾಷೆ',
+    'filters.allLanguages': 'ಎಲ್ಲಾ ಭಾಷೆಗಳು',
+    'filters.sort': 'ವಿಂಗಡಣೆ',
+    'filters.sort.newest': 'ಹೊಸದು ಮೊದಲು',
+    'filters.sort.oldest': 'ಹಳೆಯದು ಮೊದಲು',
+    'filters.sort.client': 'ಕ್ಲೈಂಟ್ ಹೆಸರು (A–Z)',
+    'filters.clear': 'ಫಿಲ್ಟರ್‌ಗಳನ್ನು ತೆರವುಗೊಳಿಸಿ',
+
+    'noteCard.transcript': 'ಪ್ರತಿಲಿಪಿ:',
+    'noteCard.edit': 'ತಿದ್ದಿ',
+    'noteCard.history': 'ಪ್ರತಿಲಿಪಿ ಮತ್ತು ಇತಿಹಾಸ',
+    'noteCard.restore': 'ಮರುಸ್ಥಾಪಿಸಿ',
+    'noteCard.archive': 'ಆರ್ಕೈವ್ ಮಾಡಿ',
+    'noteCard.unarchive': 'ಆರ್ಕೈವ್‌ನಿಂದ ತೆಗೆಯಿರಿ',
+    'noteCard.delete': 'ಅಳಿಸಿ',
+    'noteCard.deleteForever': 'ಶಾಶ್ವತವಾಗಿ ಅಳಿಸಿ',
+    'noteCard.purgeDate': 'ಮರುಸ್ಥಾಪಿಸದಿದ್ದರೆ {date} ರಂದು ಶಾಶ್ವತವಾಗಿ ಅಳಿಸಲಾಗುತ್ತದೆ.',
+    'noteCard.confirmDelete.title': 'ಈ ಟಿಪ್ಪಣಿಯನ್ನು ಶಾಶ್ವತವಾಗಿ ಅಳಿಸಬೇಕೆ?',
+    'noteCard.confirmDelete.body':
+        'ಟಿಪ್ಪಣಿ, ಅದರ ತಿದ್ದುಪಡಿ ಇತಿಹಾಸ ಮತ್ತು ದಾಖಲೆ ತಕ್ಷಣ ಅಳಿಸಲಾಗುತ್ತದೆ. ಇದನ್ನು ಹಿಂಪಡೆಯಲಾಗುವುದಿಲ್ಲ.',
+    'noteCard.confirmDelete.keep': 'ಕಸದ ಬುಟ್ಟಿಯಲ್ಲೇ ಇರಿಸಿ',
+
+    'recorder.microphone': 'ಮೈಕ್ರೊಫೋನ್',
+    'recorder.systemDefault': 'ಸಿಸ್ಟಮ್ ಡೀಫಾಲ್ಟ್',
+    'recorder.deviceNumber': 'ಮೈಕ್ರೊಫೋನ್ {number}',
+    'recorder.defaultDevice': 'ಡೀಫಾಲ್ಟ್ ಮೈಕ್ರೊಫೋನ್',
+    'recorder.maxLength': 'ಇಷ್ಟು ಸಮಯದ ನಂತರ ತಾನಾಗಿಯೇ ನಿಲ್ಲಿಸಿ',
+    'recorder.minutes': '{minutes} ನಿಮಿಷ',
+    'recorder.inputLevel': 'ಧ್ವನಿ ಮಟ್ಟ',
+    'recorder.silent':
+        '{device} ನಿಂದ ಯಾವುದೇ ಧ್ವನಿ ಬರುತ್ತಿಲ್ಲ. ಸರಿಯಾದ ಮೈಕ್ರೊಫೋನ್ ಆಯ್ಕೆಯಾಗಿದೆ ಮತ್ತು ಮ್ಯೂಟ್ ಆಗಿಲ್ಲ ಎಂದು ಪರಿಶೀಲಿಸಿ.',
+    'recorder.start': 'ದಾಖಲಿಸಲು ಪ್ರಾರಂಭಿಸಿ',
+    'recorder.stop': 'ದಾಖಲೆ ನಿಲ್ಲಿಸಿ',
+    'recorder.pause': 'ವಿರಾಮ',
+    'recorder.resume': 'ಮುಂದುವರಿಸಿ',
+
+    'processing.progress': 'ಪ್ರಕ್ರಿಯೆಯ ಪ್ರಗತಿ',
+    'processing.upload': 'ಅಪ್‌ಲೋಡ್',
+    'processing.transcribe': 'ಪ್ರತಿಲಿಪಿ',
+    'processing.summarize': 'ಸಾರಾಂಶ',
+    'processing.save': 'ಉಳಿಸುವಿಕೆ',
+    'processing.waiting': 'ಪ್ರಾರಂಭಕ್ಕಾಗಿ ಕಾಯುತ್ತಿದೆ',
+
+    'pendingUploads.title': 'ಬಾಕಿ ಇರುವ ಅಪ್‌ಲೋಡ್‌ಗಳು',
+    'pendingUploads.status.pending': 'ಬಾಕಿ',
+    'pendingUploads.status.uploading': 'ಅಪ್‌ಲೋಡ್ ಆಗುತ್ತಿದೆ',
+    'pendingUploads.status.failed': 'ವಿಫಲ',
+    'pendingUploads.queued': '{time} ರಂದು ಸರತಿಗೆ ಸೇರಿಸಲಾಗಿದೆ',
+    'pendingUploads.failedAttempt': '1 ವಿಫಲ ಪ್ರಯತ್ನ',
+    'pendingUploads.failedAttempts': '{count} ವಿಫಲ ಪ್ರಯತ್ನಗಳು',
+    'pendingUploads.retryingAt': '{time} ಕ್ಕೆ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಲಾಗುತ್ತದೆ',
+    'pendingUploads.noAutoRetry': 'ತಾನಾಗಿಯೇ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸುವುದಿಲ್ಲ',
+    'pendingUploads.retry': 'ಈಗ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ',
+    'pendingUploads.discard': 'ತಿರಸ್ಕರಿಸಿ',
+    'pendingUploads.storageFailed': 'ಈ ಸಾಧನದಲ್ಲಿ ಉಳಿಸಿದ ರೆಕಾರ್ಡಿಂಗ್‌ಗಳನ್ನು ಓದಲಾಗಲಿಲ್ಲ: {error}',
+
+    'fileUpload.drop': 'ಆಡಿಯೋ ಫೈಲ್‌ಗಳನ್ನು ಇಲ್ಲಿ ಬಿಡಿ, ಅಥವಾ',
+    'fileUpload.choose': 'ಫೈಲ್‌ಗಳನ್ನು ಆಯ್ಕೆಮಾಡಿ',
+    'fileUpload.limits': 'webm, m4a, mp3, ogg, wav ಅಥವಾ flac · ಪ್ರತಿಯೊಂದೂ {size} ಮತ್ತು {minutes} ನಿಮಿಷಗಳವರೆಗೆ',
+    'fileUpload.remove': '{file} ತೆಗೆದುಹಾಕಿ',
+    'fileUpload.queueing': 'ಸರತಿಗೆ ಸೇರಿಸಲಾಗುತ್ತಿದೆ...',
+    'fileUpload.processOne': '1 ಫೈಲ್ ಪ್ರಕ್ರಿಯೆಗೊಳಿಸಿ',
+    'fileUpload.processMany': '{count} ಫೈಲ್‌ಗಳನ್ನು ಪ್ರಕ್ರಿಯೆಗೊಳಿಸಿ',
+    'fileUpload.clearFinished': 'ಮುಗಿದವನ್ನು ತೆರವುಗೊಳಿಸಿ',
+    'fileUpload.status.checking': 'ಪರಿಶೀಲಿಸಲಾಗುತ್ತಿದೆ',
+    'fileUpload.status.invalid': 'ಅಮಾನ್ಯ',
+    'fileUpload.status.ready': 'ಸಿದ್ಧ',
+    'fileUpload.status.pending': 'ಬಾಕಿ',
+    'fileUpload.status.uploading': 'ಅಪ್‌ಲೋಡ್ ಆಗುತ್ತಿದೆ',
+    'fileUpload.status.failed': 'ವಿಫಲ',
+    'fileUpload.status.done': 'ಮುಗಿದಿದೆ',
+    'fileUpload.status.discarded': 'ತಿರಸ್ಕರಿಸಲಾಗಿದೆ',
+    'fileUpload.problem.unsupported': 'ಬೆಂಬಲವಿಲ್ಲದ ಸ್ವರೂಪ. webm, m4a, mp3, ogg, wav ಅಥವಾ flac ಬಳಸಿ.',
+    'fileUpload.problem.empty': 'ಫೈಲ್ ಖಾಲಿಯಾಗಿದೆ.',
+    'fileUpload.problem.tooLarge': '{size} ಗಿಂತ ದೊಡ್ಡದು.',
+    'fileUpload.problem.tooLong': '{duration} ಗಿಂತ ಉದ್ದವಾಗಿದೆ.',
+    'fileUpload.problem.tooShort': 'ಪ್ರತಿಲಿಪಿ ಮಾಡಲು ತುಂಬಾ ಚಿಕ್ಕದು.',
+
+    'export.button': 'ಹೀಗೆ ರಫ್ತು ಮಾಡಿ… ▾',
+    'export.exporting': 'ರಫ್ತು ಮಾಡಲಾಗುತ್ತಿದೆ...',
+
+    'live.live': 'ಲೈವ್',
+    'live.connecting': 'ಸಂಪರ್ಕಿಸಲಾಗುತ್ತಿದೆ...',
+    'live.offline': 'ಸಿಂಕ್ ಆಗುತ್ತಿಲ್ಲ',
+    'live.offlineHint': 'ಇತರ ಸಾಧನಗಳ ಹೊಸ ಟಿಪ್ಪಣಿಗಳು ಪುಟವನ್ನು ಮರುಲೋಡ್ ಮಾಡಿದ ನಂತರ ಕಾಣಿಸುತ್ತವೆ',
+
+    'share.button': 'ಹಂಚಿಕೊಳ್ಳಿ',
+    'share.title': 'ಓದಲು ಮಾತ್ರ ಇರುವ ಲಿಂಕ್ ಹಂಚಿಕೊಳ್ಳಿ',
+    'share.description':
+        'ಲಿಂಕ್ ಇರುವ ಯಾರಾದರೂ ಅದು ಅವಧಿ ಮುಗಿಯುವವರೆಗೆ ಅಥವಾ ಹಿಂಪಡೆಯುವವರೆಗೆ ಖಾತೆಯಿಲ್ಲದೆ ಈ ಟಿಪ್ಪಣಿಯನ್ನು ಓದಬಹುದು.',
+    'share.expiresAfter': 'ಅವಧಿ ಮುಗಿಯುವುದು',
+    'share.oneDay': '1 ದಿನ',
+    'share.days': '{days} ದಿನಗಳು',
+    'share.passcode': 'ಪಾಸ್‌ಕೋಡ್ (ಐಚ್ಛಿಕ)',
+    'share.creating': 'ರಚಿಸಲಾಗುತ್ತಿದೆ...',
+    'share.create': 'ಲಿಂಕ್ ರಚಿಸಿ ಮತ್ತು ನಕಲಿಸಿ',
+    'share.loading': 'ಲಿಂಕ್‌ಗಳನ್ನು ಲೋಡ್ ಮಾಡಲಾಗುತ್ತಿದೆ...',
+    'share.none': 'ಇನ್ನೂ ಯಾವುದೇ ಲಿಂಕ್‌ಗಳಿಲ್ಲ.',
+    'share.revoked': 'ಹಿಂಪಡೆಯಲಾಗಿದೆ',
+    'share.locked': 'ಹಲವು ತಪ್ಪು ಪಾಸ್‌ಕೋಡ್‌ಗಳ ನಂತರ ಲಾಕ್ ಆಗಿದೆ',
+    'share.expired': '{date} ರಂದು ಅವಧಿ ಮುಗಿದಿದೆ',
+    'share.expires': '{date} ರಂದು ಅವಧಿ ಮುಗಿಯುತ್ತದೆ',
+    'share.hasPasscode': 'ಪಾಸ್‌ಕೋಡ್',
+    'share.oneView': '1 ವೀಕ್ಷಣೆ',
+    'share.views': '{count} ವೀಕ್ಷಣೆಗಳು',
+    'share.revoke': 'ಹಿಂಪಡೆಯಿರಿ',
+
+    'sections.expandAll': 'ಎಲ್ಲವನ್ನೂ ತೆರೆಯಿರಿ',
+    'sections.collapseAll': 'ಎಲ್ಲವನ್ನೂ ಮಡಚಿ',
+    'sections.overview': 'ಅವಲೋಕನ',
+
+    'noteDetail.back': '← ಟಿಪ್ಪಣಿಗಳಿಗೆ ಹಿಂತಿರುಗಿ',
+    'noteDetail.transcript': 'ಮೂಲ ಪ್ರತಿಲಿಪಿ',
+    'noteDetail.summary': 'ರಚನಾತ್ಮಕ ಸಾರಾಂಶ',
+    'noteDetail.summaryWithTemplate': 'ರಚನಾತ್ಮಕ ಸಾರಾಂಶ · {template}',
+    'noteDetail.saveVersion': 'ಆವೃತ್ತಿ ಉಳಿಸಿ',
+    'noteDetail.exportText': '.txt ರಫ್ತು ಮಾಡಿ',
+    'noteDetail.transcriptHistory': 'ಪ್ರತಿಲಿಪಿ ಇತಿಹಾಸ',
+
+    'textPane.search': 'ಹುಡುಕಿ...',
+    'textPane.noMatches': 'ಯಾವುದೇ ಹೊಂದಾಣಿಕೆ ಇಲ್ಲ',
+    'textPane.previous': 'ಹಿಂದಿನ',
+    'textPane.next': 'ಮುಂದಿನ',
+
+    'audio.none': 'ಈ ಟಿಪ್ಪಣಿಗೆ ಯಾವುದೇ ರೆಕಾರ್ಡಿಂಗ್ ಸಂಗ್ರಹಿಸಲಾಗಿಲ್ಲ.',
+    'audio.deleted': 'ಆಡಿಯೊ ಸಂಗ್ರಹ ನೀತಿಯ ಪ್ರಕಾರ ರೆಕಾರ್ಡಿಂಗ್ ಅನ್ನು {date} ರಂದು ಅಳಿಸಲಾಗಿದೆ.',
+    'audio.loadFailed': 'ರೆಕಾರ್ಡಿಂಗ್ ಲೋಡ್ ಮಾಡಲಾಗಲಿಲ್ಲ.',
+    'audio.loadFailedWith': 'ರೆಕಾರ್ಡಿಂಗ್ ಲೋಡ್ ಮಾಡಲಾಗಲಿಲ್ಲ: {error}',
+    'audio.clickToPlay': 'ಪ್ರತಿಲಿಪಿಯಲ್ಲಿ ಎಲ್ಲಾದರೂ ಕ್ಲಿಕ್ ಮಾಡಿ, ಆ ಸ್ಥಳದಿಂದ ಸರಿಸುಮಾರು ಪ್ಲೇ ಆಗುತ್ತದೆ.',
+    'audio.willBeDeleted': 'ರೆಕಾರ್ಡಿಂಗ್ ಅನ್ನು {date} ರಂದು ಅಳಿಸಲಾಗುತ್ತದೆ.',
+
+    'versions.title': 'ಆವೃತ್ತಿ ಇತಿಹಾಸ',
+    'versions.version': 'ಆವೃತ್ತಿ {version}',
+    'versions.optionLabel': 'v{version} · {date}',
+    'versions.current': 'ಪ್ರಸ್ತುತ',
+    'versions.aiGenerated': 'AI ರಚಿಸಿದ್ದು',
+    'versions.editedBy': '{email} ತಿದ್ದಿದ್ದಾರೆ',
+    'versions.edited': 'ತಿದ್ದಲಾಗಿದೆ',
+    'versions.restoredFrom': 'v{version} ನಿಂದ ಮರುಸ್ಥಾಪಿಸಲಾಗಿದೆ',
+    'versions.compareWithCurrent': 'ಪ್ರಸ್ತುತದೊಂದಿಗೆ ಹೋಲಿಸಿ',
+    'versions.restore': 'ಈ ಆವೃತ್ತಿಯನ್ನು ಮರುಸ್ಥಾಪಿಸಿ',
+    'versions.compare': 'ಹೋಲಿಸಿ',
+    'versions.with': 'ಇದರೊಂದಿಗೆ',
+    'versions.identical': 'ಈ ಆವೃತ್ತಿಗಳು ಒಂದೇ ಆಗಿವೆ.',
+
+    'clients.searchPlaceholder': 'ಹೆಸರು ಅಥವಾ ID ಮೂಲಕ ಹುಡುಕಿ, ಉದಾ. ರಮೇಶ್ ರಾವ್',
+    'clients.create': '+ ಹೊಸ ಕ್ಲೈಂಟ್ “{name}” ರಚಿಸಿ',
+    'clients.change': 'ಬದಲಿಸಿ',
+    'clients.fullName': 'ಪೂರ್ಣ ಹೆಸರು',
+    'clients.dateOfBirth': 'ಜನ್ಮ ದಿನಾಂಕ',
+    'clients.sex': 'ಲಿಂಗ',
+    'clients.sex.female': 'ಸ್ತ್ರೀ',
+    'clients.sex.male': 'ಪುರುಷ',
+    'clients.sex.other': 'ಇತರೆ',
+    'clients.externalId': 'ಬಾಹ್ಯ ID',
+    'clients.externalIdPlaceholder': 'MRN / ಕೇಸ್ ಸಂಖ್ಯೆ',
+    'clients.phone': 'ಫೋನ್',
+    'clients.add': 'ಕ್ಲೈಂಟ್ ಸೇರಿಸಿ',
+    'clients.age': '{age} ವ',
+    'clients.externalIdValue': 'ID {id}',
+    'clients.born': 'ಜನನ {date}',
+    'clients.bornAge': 'ಜನನ {date} ({age} ವ)',
+    'clients.visits': 'ಭೇಟಿಗಳು',
+    'clients.noVisits': 'ಈ ಕ್ಲೈಂಟ್‌ಗೆ ಇನ್ನೂ ಯಾವುದೇ ಟಿಪ್ಪಣಿ ದಾಖಲಾಗಿಲ್ಲ.',
+    'clients.openNote': 'ಟಿಪ್ಪಣಿ ತೆರೆಯಿರಿ',
+
+    'sharedNote.title': 'ಹಂಚಿಕೊಂಡ ಟಿಪ್ಪಣಿ',
+    'sharedNote.banner': 'JanScribe ನಿಂದ ಹಂಚಿಕೊಳ್ಳಲಾಗಿದೆ · ಓದಲು ಮಾತ್ರ · ಲಿಂಕ್ {date} ರಂದು ಅವಧಿ ಮುಗಿಯುತ್ತದೆ',
+    'sharedNote.notFound': 'ಈ ಲಿಂಕ್ ಅಸ್ತಿತ್ವದಲ್ಲಿಲ್ಲ ಅಥವಾ ಹಿಂಪಡೆಯಲಾಗಿದೆ.',
+    'sharedNote.expired': 'ಈ ಲಿಂಕ್‌ನ ಅವಧಿ ಮುಗಿದಿದೆ. ಕಳುಹಿಸಿದವರಿಂದ ಹೊಸದನ್ನು ಕೇಳಿ.',
+    'sharedNote.locked': 'ಹಲವು ತಪ್ಪು ಪಾಸ್‌ಕೋಡ್‌ಗಳ ನಂತರ ಈ ಲಿಂಕ್ ಲಾಕ್ ಆಗಿದೆ. ಕಳುಹಿಸಿದವರಿಂದ ಹೊಸದನ್ನು ಕೇಳಿ.',
+    'sharedNote.prompt': 'ಯಾರೋ ನಿಮ್ಮೊಂದಿಗೆ ಟಿಪ್ಪಣಿಯನ್ನು ಹಂಚಿಕೊಂಡಿದ್ದಾರೆ. ಅದು ಓದಲು ಮಾತ್ರ ತೆರೆಯುತ್ತದೆ.',
+    'sharedNote.passcode': 'ಪಾಸ್‌ಕೋಡ್',
+    'sharedNote.checking': 'ಪರಿಶೀಲಿಸಲಾಗುತ್ತಿದೆ...',
+    'sharedNote.open': 'ಟಿಪ್ಪಣಿ ತೆರೆಯಿರಿ',
+    'sharedNote.wrongPasscodeOne': 'ಆ ಪಾಸ್‌ಕೋಡ್ ಸರಿಯಿಲ್ಲ. ಇನ್ನು 1 ಪ್ರಯತ್ನ ಉಳಿದಿದೆ.',
+    'sharedNote.wrongPasscode': 'ಆ ಪಾಸ್‌ಕೋಡ್ ಸರಿಯಿಲ್ಲ. ಇನ್ನು {count} ಪ್ರಯತ್ನಗಳು ಉಳಿದಿವೆ.',
+    'sharedNote.openFailed': 'ಟಿಪ್ಪಣಿ ತೆರೆಯಲಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+
+    'mfa.title': 'ಎರಡು ಹಂತದ ದೃಢೀಕರಣ',
+    'mfa.enterCode': 'ನಿಮ್ಮ ದೃಢೀಕರಣ ಆ್ಯಪ್‌ನಲ್ಲಿರುವ 6 ಅಂಕಿಯ ಕೋಡ್ ನಮೂದಿಸಿ.',
+    'mfa.app': 'ದೃಢೀಕರಣ ಆ್ಯಪ್',
+    'mfa.code': 'ಕೋಡ್',
+    'mfa.verifying': 'ಪರಿಶೀಲಿಸಲಾಗುತ್ತಿದೆ...',
+    'mfa.verify': 'ಪರಿಶೀಲಿಸಿ',
+    'mfa.differentAccount': 'ಬೇರೆ ಖಾತೆ ಬಳಸಿ',
+    'mfa.loadFailed': 'ನಿಮ್ಮ ದೃಢೀಕರಣ ಆ್ಯಪ್‌ಗಳನ್ನು ಲೋಡ್ ಮಾಡಲಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಪುಟವನ್ನು ಮರುಲೋಡ್ ಮಾಡಿ.',
+    'mfa.wrongCode': 'ಆ ಕೋಡ್ ಸರಿಯಿಲ್ಲ ಅಥವಾ ಅವಧಿ ಮುಗಿದಿದೆ. ಈಗಿನ ಕೋಡ್ ಪ್ರಯತ್ನಿಸಿ.',
+
+    'authError.title': 'ಸೈನ್-ಇನ್ ಸಮಸ್ಯೆ',
+    'authError.generic': 'ಈ ಲಿಂಕ್‌ನಿಂದ ನಿಮ್ಮನ್ನು ಸೈನ್ ಇನ್ ಮಾಡಲಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    'authError.otpExpired': 'ಈ ಲಿಂಕ್‌ನ ಅವಧಿ ಮುಗಿದಿದೆ ಅಥವಾ ಈಗಾಗಲೇ ಬಳಸಲಾಗಿದೆ. ಹೊಸದನ್ನು ಕೇಳಿ.',
+    'authError.flowStateExpired': 'ಈ ಲಿಂಕ್‌ನ ಅವಧಿ ಮುಗಿದಿದೆ. ಹೊಸದನ್ನು ಕೇಳಿ.',
+    'authError.flowStateNotFound': 'ಈ ಲಿಂಕ್ ಅನ್ನು ಈಗಾಗಲೇ ಬಳಸಲಾಗಿದೆ. ಇನ್ನೂ ಬೇಕಿದ್ದರೆ ಹೊಸದನ್ನು ಕೇಳಿ.',
+    'authError.otherBrowser': 'ನೀವು ವಿನಂತಿಸಿದ ಅದೇ ಬ್ರೌಸರ್‌ನಲ್ಲಿ ಲಿಂಕ್ ತೆರೆಯಿರಿ.',
+    'authError.accessDenied': 'ಸೈನ್-ಇನ್ ರದ್ದುಗೊಳಿಸಲಾಗಿದೆ.',
+    'authError.missingCode': 'ಈ ಲಿಂಕ್ ಅಪೂರ್ಣವಾಗಿದೆ. ಇಮೇಲ್‌ನಿಂದ ಸಂಪೂರ್ಣ ಲಿಂಕ್ ನಕಲಿಸಿ ಅಥವಾ ಹೊಸದನ್ನು ಕೇಳಿ.',
+    'authError.mfaCheckFailed': 'ನಿಮ್ಮ ಎರಡು ಹಂತದ ದೃಢೀಕರಣವನ್ನು ಪರಿಶೀಲಿಸಲಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    'authError.reason': 'ಕಾರಣ: {reason}',
+    'authError.backToLogin': 'ಲಾಗಿನ್‌ಗೆ ಹಿಂತಿರುಗಿ',
+    'authError.resetPassword': 'ಪಾಸ್‌ವರ್ಡ್ ಮರುಹೊಂದಿಸಿ',
+
+    'settings.title': 'ಸೆಟ್ಟಿಂಗ್‌ಗಳು',
+    'settings.general': 'ಸಾಮಾನ್ಯ',
+    'settings.theme': 'ಥೀಮ್',
+    'settings.theme.system': 'ಸಾಧನದಂತೆಯೇ',
+    'settings.theme.light': 'ಬೆಳಕು',
+    'settings.theme.dark': 'ಕತ್ತಲು',
+    'settings.dateFormat': 'ದಿನಾಂಕ ಸ್ವರೂಪ',
+    'settings.dateFormat.locale': 'ಇಂಟರ್ಫೇಸ್ ಭಾಷೆಯ ಡೀಫಾಲ್ಟ್',
+    'settings.dateFormat.dmy': 'DD/MM/YYYY',
+    'settings.dateFormat.mdy': 'MM/DD/YYYY',
+    'settings.dateFormat.iso': 'YYYY-MM-DD',
+    'settings.recording': 'ರೆಕಾರ್ಡಿಂಗ್',
+    'settings.defaultTemplate': 'ಡೀಫಾಲ್ಟ್ ಟೆಂಪ್ಲೇಟ್',
+    'settings.generalTemplate': 'ಸಾಮಾನ್ಯ (ಅಂತರ್ನಿರ್ಮಿತ)',
+    'settings.spokenLanguage': 'ಮಾತನಾಡುವ ಭಾಷೆ',
+    'settings.retention': 'ಹೊಸ ಟಿಪ್ಪಣಿಗಳ ರೆಕಾರ್ಡಿಂಗ್‌ಗಳನ್ನು ಇರಿಸಿಕೊಳ್ಳುವ ಅವಧಿ',
+    'settings.retention.default': 'ಅಭ್ಯಾಸದ ಡೀಫಾಲ್ಟ್',
+    'settings.retention.forever': 'ಅನಿರ್ದಿಷ್ಟವಾಗಿ ಇರಿಸಿ',
+    'settings.retention.year': '1 ವರ್ಷ',
+    'settings.retention.days': '{days} ದಿನಗಳು',
+    'settings.retention.hint': 'ಈಗಿರುವ ಟಿಪ್ಪಣಿಗಳು ಉಳಿಸಿದಾಗಿನ ಅಳಿಸುವ ದಿನಾಂಕವನ್ನೇ ಉಳಿಸಿಕೊಳ್ಳುತ್ತವೆ.',
+    'settings.letterhead': 'PDF ಲೆಟರ್‌ಹೆಡ್',
+    'settings.practiceName': 'ಕ್ಲಿನಿಕ್ ಹೆಸರು',
+    'settings.practiceNamePlaceholder': 'ಉದಾ. ಮಂಗಳೂರು ಫ್ಯಾಮಿಲಿ ಕ್ಲಿನಿಕ್',
+    'settings.address': 'ವಿಳಾಸ ಮತ್ತು ಸಂಪರ್ಕ (3 ಸಾಲುಗಳವರೆಗೆ)',
+    'settings.logo': 'ಲೋಗೋ (PNG ಅಥವಾ JPEG)',
+    'settings.logoAlt': 'ಲೆಟರ್‌ಹೆಡ್ ಲೋಗೋ',
+    'settings.signature': 'PDF ಸಹಿ',
+    'settings.signatureName': 'ಹೆಸರು',
+    'settings.signatureNamePlaceholder': 'ಉದಾ. ಡಾ. ಎ. ಶೆಟ್ಟಿ',
+    'settings.signatureTitle': 'ಪದವಿ',
+    'settings.signatureTitlePlaceholder': 'ಉದಾ. MBBS, MD (ಜನರಲ್ ಮೆಡಿಸಿನ್)',
+    'settings.registration': 'ನೋಂದಣಿ ಸಂಖ್ಯೆ',
+    'settings.signatureImage': 'ಸಹಿಯ ಚಿತ್ರ',
+    'settings.imageTooLarge': 'ಚಿತ್ರಗಳು {size} KB ವರೆಗೆ ಇರಬಹುದು.',
+    'settings.imageUnreadable': 'ಚಿತ್ರವನ್ನು ಓದಲಾಗಲಿಲ್ಲ.',
+    'settings.save': 'ಸೆಟ್ಟಿಂಗ್‌ಗಳನ್ನು ಉಳಿಸಿ',
+
+    'role.owner': 'ಮಾಲೀಕರು',
+    'role.clinician': 'ವೈದ್ಯರು',
+    'role.assistant': 'ಸಹಾಯಕರು',
+    'role.read_only': 'ಓದಲು ಮಾತ್ರ',
+
+    'apiError.authExpired': 'ನಿಮ್ಮ ಸೆಷನ್ ಅವಧಿ ಮುಗಿದಿದೆ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಲಾಗಿನ್ ಮಾಡಿ.',
+    'apiError.mfaRequired': 'ಎರಡು ಹಂತದ ದೃಢೀಕರಣ ಅಗತ್ಯವಿದೆ.',
+    'apiError.silentAudio': 'ರೆಕಾರ್ಡಿಂಗ್‌ನಲ್ಲಿ ಯಾವುದೇ ಮಾತು ಪತ್ತೆಯಾಗಿಲ್ಲ.',
+    'apiError.upstream': 'ಪ್ರತಿಲಿಪಿ ಸೇವೆಗೆ ತೊಂದರೆಯಾಗಿದೆ. ಸ್ವಲ್ಪ ಸಮಯದಲ್ಲಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸುತ್ತೇವೆ.',
+    'apiError.network': 'ನೆಟ್‌ವರ್ಕ್ ದೋಷ — ಸಂಪರ್ಕ ಮರಳಿದಾಗ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಲಾಗುವುದು.',
+    'apiError.timeout': 'ಸರ್ವರ್ ಪ್ರತಿಕ್ರಿಯಿಸಲು ತುಂಬಾ ಸಮಯ ತೆಗೆದುಕೊಂಡಿತು. ಸ್ವಲ್ಪ ಸಮಯದಲ್ಲಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸುತ್ತೇವೆ.',
+    'apiError.cancelled': 'ರದ್ದುಗೊಳಿಸಲಾಗಿದೆ.',
+    'apiError.rejected': 'ವಿನಂತಿಯನ್ನು ತಿರಸ್ಕರಿಸಲಾಗಿದೆ.',
+    'apiError.server': 'ಸರ್ವರ್‌ನಲ್ಲಿ ಏನೋ ತಪ್ಪಾಗಿದೆ.',
+    'apiError.misconfigured': 'ಬ್ಯಾಕೆಂಡ್ URL ಹೊಂದಿಸಿಲ್ಲ.',
+
+    'templates.title': 'ಟಿಪ್ಪಣಿ ಟೆಂಪ್ಲೇಟ್‌ಗಳು',
+    'templates.new': 'ಹೊಸ ಟೆಂಪ್ಲೇಟ್',
+    'templates.edit': 'ಟೆಂಪ್ಲೇಟ್ ತಿದ್ದಿ',
+    'templates.name': 'ಹೆಸರು',
+    'templates.description': 'ವಿವರಣೆ',
+    'templates.scribeRole': 'ಲಿಪಿಕಾರರು...',
+    'templates.scribeRolePlaceholder': 'ಉದಾ. ಮಕ್ಕಳ ವೈದ್ಯರ ಕ್ಲಿನಿಕಲ್ ಲಿಪಿಕಾರ',
+    'templates.sections': 'ವಿಭಾಗಗಳು (ಕ್ರಮದಲ್ಲಿ)',
+    'templates.noSections': 'ವಿಭಾಗಗಳಿಲ್ಲ: ಮಾದರಿಯೇ ತನ್ನ ಶೀರ್ಷಿಕೆಗಳನ್ನು ಆಯ್ಕೆ ಮಾಡುತ್ತದೆ.',
+    'templates.moveUp': 'ಮೇಲಕ್ಕೆ ಸರಿಸಿ',
+    'templates.moveDown': 'ಕೆಳಕ್ಕೆ ಸರಿಸಿ',
+    'templates.removeSection': 'ವಿಭಾಗ ತೆಗೆದುಹಾಕಿ',
+    'templates.sectionPlaceholder': 'ಉದಾ. MEDICATIONS',
+    'templates.addSection': 'ಸೇರಿಸಿ',
+    'templates.instructions': 'ಹೆಚ್ಚುವರಿ ಸೂಚನೆಗಳು (ಐಚ್ಛಿಕ)',
+    'templates.save': 'ಟೆಂಪ್ಲೇಟ್ ಉಳಿಸಿ',
+    'templates.builtIn': 'ಅಂತರ್ನಿರ್ಮಿತ',
+    'templates.custom': 'ಕಸ್ಟಮ್',
+    'templates.duplicate': 'ನಕಲು ಮಾಡಿ',
+    'templates.copyName': '{name} (ನಕಲು)',
+    'templates.modelHeadings': 'ಮಾದರಿ ಆಯ್ಕೆ ಮಾಡಿದ ಶೀರ್ಷಿಕೆಗಳು',
+
+    'security.title': 'ಭದ್ರತೆ',
+    'security.required':
+        'ನೀವು ಸದಸ್ಯರಾಗಿರುವ ವರ್ಕ್‌ಸ್ಪೇಸ್ ತನ್ನ ಟಿಪ್ಪಣಿಗಳಿಗೆ ಎರಡು ಹಂತದ ದೃಢೀಕರಣವನ್ನು ಕಡ್ಡಾಯಗೊಳಿಸಿದೆ. ಮುಂದುವರಿಯಲು ಕೆಳಗೆ ದೃಢೀಕರಣ ಆ್ಯಪ್ ಹೊಂದಿಸಿ.',
+    'security.added': '{date} ರಂದು ಸೇರಿಸಲಾಗಿದೆ',
+    'security.scan':
+        'Google Authenticator, 1Password ಅಥವಾ ಅಂತಹ ಆ್ಯಪ್‌ನಿಂದ ಈ ಕೋಡ್ ಸ್ಕ್ಯಾನ್ ಮಾಡಿ, ನಂತರ ಅದು ತೋರಿಸುವ 6 ಅಂಕಿಯ ಕೋಡ್ ನಮೂದಿಸಿ.',
+    'security.qrCode': 'ನಿಮ್ಮ ದೃಢೀಕರಣ ಆ್ಯಪ್‌ಗಾಗಿ QR ಕೋಡ್',
+    'security.enterKey': 'ಸ್ಕ್ಯಾನ್ ಮಾಡಲಾಗುತ್ತಿಲ್ಲವೇ? ಬದಲಿಗೆ ಈ ಕೀ ನಮೂದಿಸಿ:',
+    'security.turnOn': 'ಆನ್ ಮಾಡಿ',
+    'security.appName': 'ಆ್ಯಪ್ ಹೆಸರು',
+    'security.addAnother': 'ಇನ್ನೊಂದು ಆ್ಯಪ್ ಸೇರಿಸಿ',
+    'security.setUp': 'ಹೊಂದಿಸಿ',
+    'security.password': 'ಪಾಸ್‌ವರ್ಡ್',
+    'security.changePassword': 'ಪಾಸ್‌ವರ್ಡ್ ಬದಲಿಸಿ',
+
+    'workspaces.switcher': 'ವರ್ಕ್‌ಸ್ಪೇಸ್',
+    'workspaces.personal': 'ವೈಯಕ್ತಿಕ',
+    'workspaces.manage': 'ನಿರ್ವಹಿಸಿ',
+    'workspaces.oneInvitation': '1 ಆಹ್ವಾನ',
+    'workspaces.invitations': '{count} ಆಹ್ವಾನಗಳು',
+    'workspaces.title': 'ವರ್ಕ್‌ಸ್ಪೇಸ್‌ಗಳು',
+    'workspaces.intro':
+        'ನಿಮ್ಮ ಕ್ಲಿನಿಕ್ ಅಥವಾ ಕಚೇರಿಯೊಂದಿಗೆ ಟಿಪ್ಪಣಿಗಳನ್ನು ಹಂಚಿಕೊಳ್ಳಿ. ಮಾಲೀಕರು ಮತ್ತು ವೈದ್ಯರು ರೆಕಾರ್ಡ್ ಮಾಡಿ ತಿದ್ದುತ್ತಾರೆ; ಸಹಾಯಕರು ಮತ್ತು ಓದಲು ಮಾತ್ರ ಇರುವ ಸದಸ್ಯರು ತೆರೆದು ಮುದ್ರಿಸಬಹುದು.',
+    'workspaces.invitationsTitle': 'ಆಹ್ವಾನಗಳು',
+    'workspaces.invitationAs': '{workspace} · {role} ಆಗಿ',
+    'workspaces.aWorkspace': 'ಒಂದು ವರ್ಕ್‌ಸ್ಪೇಸ್',
+    'workspaces.accept': 'ಸ್ವೀಕರಿಸಿ',
+    'workspaces.decline': 'ನಿರಾಕರಿಸಿ',
+    'workspaces.leave': 'ವರ್ಕ್‌ಸ್ಪೇಸ್ ತೊರೆಯಿರಿ',
+    'workspaces.new': 'ಹೊಸ ವರ್ಕ್‌ಸ್ಪೇಸ್',
+    'workspaces.name': 'ವರ್ಕ್‌ಸ್ಪೇಸ್ ಹೆಸರು',
+    'workspaces.namePlaceholder': 'ಉದಾ. ಮಂಗಳೂರು ಫ್ಯಾಮಿಲಿ ಕ್ಲಿನಿಕ್',
+    'workspaces.creating': 'ರಚಿಸಲಾಗುತ್ತಿದೆ...',
+    'workspaces.create': 'ರಚಿಸಿ',
+    'workspaces.requireMfa': 'ಎರಡು ಹಂತದ ದೃಢೀಕರಣ ಕಡ್ಡಾಯಗೊಳಿಸಿ',
+    'workspaces.requireMfaHelp': 'ಈ ವರ್ಕ್‌ಸ್ಪೇಸ್‌ನ ಟಿಪ್ಪಣಿಗಳನ್ನು ನೋಡಲು ಸದಸ್ಯರು ದೃಢೀಕರಣ ಆ್ಯಪ್‌ನ ಕೋಡ್ ನಮೂದಿಸಬೇಕು.',
+    'workspaces.unknownMember': 'ಅಪರಿಚಿತ ಸದಸ್ಯ',
+    'workspaces.you': '(ನೀವು)',
+    'workspaces.member': 'ಸದಸ್ಯ',
+    'workspaces.roleOf': '{member} ಅವರ ಪಾತ್ರ',
+    'workspaces.invitedAs': '{email} · {role} ಆಗಿ ಆಹ್ವಾನಿಸಲಾಗಿದೆ',
+    'workspaces.withdraw': 'ಹಿಂಪಡೆಯಿರಿ',
+    'workspaces.inviteByEmail': 'ಇಮೇಲ್ ಮೂಲಕ ಆಹ್ವಾನಿಸಿ',
+    'workspaces.role': 'ಪಾತ್ರ',
+    'workspaces.invite': 'ಆಹ್ವಾನಿಸಿ',
+
+    'toast.loadMoreFailed': 'ಇನ್ನಷ್ಟು ಟಿಪ್ಪಣಿಗಳನ್ನು ಲೋಡ್ ಮಾಡಲಾಗಲಿಲ್ಲ',
+    'toast.maxLength': '⏱️ ಗರಿಷ್ಠ ಅವಧಿ ತಲುಪಿದೆ',
+    'toast.maxLengthBody': 'ದಾಖಲೆ ತಾನಾಗಿಯೇ ನಿಂತಿದೆ. ಸಾರಾಂಶ ಪಡೆಯಲು ‘ಪ್ರಕ್ರಿಯೆಗೊಳಿಸಿ’ ಕ್ಲಿಕ್ ಮಾಡಿ.',
+    'toast.recordingStopped': '👍 ದಾಖಲೆ ನಿಲ್ಲಿಸಲಾಗಿದೆ.',
+    'toast.recordingStoppedBody': 'ಸಾರಾಂಶ ಪಡೆಯಲು ‘ಪ್ರಕ್ರಿಯೆಗೊಳಿಸಿ’ ಕ್ಲಿಕ್ ಮಾಡಿ.',
+    'toast.recordingStarted': '🎙️ ದಾಖಲೆ ಪ್ರಾರಂಭವಾಗಿದೆ...',
+    'toast.recordingStartedBody': 'ನಿಮ್ಮ ಮೈಕ್ರೊಫೋನ್‌ನಲ್ಲಿ ಮಾತನಾಡಿ.',
+    'toast.micUnavailable': 'ಮೈಕ್ರೊಫೋನ್ ಲಭ್ಯವಿಲ್ಲ',
+    'toast.micUnavailableBody': 'ಆಯ್ಕೆಮಾಡಿದ ಮೈಕ್ರೊಫೋನ್ ತೆರೆಯಲಾಗಲಿಲ್ಲ. ಬೇರೊಂದನ್ನು ಆಯ್ಕೆಮಾಡಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    'toast.summaryReady': '🎉 ಸಾರಾಂಶ ಸಿದ್ಧವಾಗಿದೆ!',
+    'toast.summaryReadyBody': 'ನಿಮ್ಮ ಹೊಸ ಟಿಪ್ಪಣಿ ಸಿದ್ಧವಾಗಿದೆ.',
+    'toast.processingCancelled': 'ಪ್ರಕ್ರಿಯೆ ರದ್ದುಗೊಂಡಿದೆ',
+    'toast.processingCancelledBody':
+        'ನೀವು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸುವವರೆಗೆ ಅಥವಾ ತಿರಸ್ಕರಿಸುವವರೆಗೆ ದಾಖಲೆ ಬಾಕಿ ಇರುವ ಅಪ್‌ಲೋಡ್‌ಗಳಲ್ಲಿ ಉಳಿಯುತ್ತದೆ.',
+    'toast.sessionExpired': 'ಸೆಷನ್ ಅವಧಿ ಮುಗಿದಿದೆ',
+    'toast.logIn': 'ಲಾಗಿನ್',
+    'toast.mfaRequired': 'ಎರಡು ಹಂತದ ದೃಢೀಕರಣ ಅಗತ್ಯವಿದೆ',
+    'toast.mfaRequiredBody':
+        'ನಿಮ್ಮ ದೃಢೀಕರಣ ಆ್ಯಪ್‌ನ ಕೋಡ್ ಅನ್ನು ದೃಢೀಕರಿಸಿ, ನಂತರ ಬಾಕಿ ಇರುವ ಅಪ್‌ಲೋಡ್‌ಗಳಲ್ಲಿ ದಾಖಲೆಯನ್ನು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    'toast.verify': 'ದೃಢೀಕರಿಸಿ',
+    'toast.noSpeech': 'ಯಾವುದೇ ಮಾತು ಪತ್ತೆಯಾಗಿಲ್ಲ',
+    'toast.noSpeechBody': 'ಸರಿಯಾದ ಮೈಕ್ರೊಫೋನ್ ಆಯ್ಕೆಯಾಗಿದೆಯೇ ಎಂದು ಪರಿಶೀಲಿಸಿ, ನಂತರ ಮತ್ತೆ ದಾಖಲಿಸಿ.',
+    'toast.processFailed': 'ಆಡಿಯೋ ಪ್ರಕ್ರಿಯೆಗೊಳಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.noAudio': 'ಯಾವುದೇ ಆಡಿಯೋ ದಾಖಲಾಗಿಲ್ಲ',
+    'toast.noAudioBody': 'ದಯವಿಟ್ಟು ಮೊದಲು ಆಡಿಯೋ ದಾಖಲಿಸಿ.',
+    'toast.saveRecordingFailed': 'ದಾಖಲೆಯನ್ನು ಉಳಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.storageUnavailable': 'ಸ್ಥಳೀಯ ಸಂಗ್ರಹಣೆ ಲಭ್ಯವಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    'toast.saveFileFailed': 'ಫೈಲ್ ಉಳಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.saveFileFailedBody': '{file}: ಸ್ಥಳೀಯ ಸಂಗ್ರಹಣೆ ಲಭ್ಯವಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    'toast.savedOffline': '📴 ಆಫ್‌ಲೈನ್‌ನಲ್ಲಿ ಉಳಿಸಲಾಗಿದೆ',
+    'toast.savedOfflineRecording': 'ನೀವು ಮತ್ತೆ ಆನ್‌ಲೈನ್‌ಗೆ ಬಂದಾಗ ದಾಖಲೆ ತಾನಾಗಿಯೇ ಅಪ್‌ಲೋಡ್ ಆಗುತ್ತದೆ.',
+    'toast.savedOfflineFiles': 'ನೀವು ಮತ್ತೆ ಆನ್‌ಲೈನ್‌ಗೆ ಬಂದಾಗ ಫೈಲ್‌ಗಳು ತಾನಾಗಿಯೇ ಅಪ್‌ಲೋಡ್ ಆಗುತ್ತವೆ.',
+    'toast.updateNoteFailed': 'ಟಿಪ್ಪಣಿಯನ್ನು ನವೀಕರಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.undo': 'ರದ್ದುಮಾಡಿ',
+    'toast.undoFailed': 'ರದ್ದುಮಾಡಲಾಗಲಿಲ್ಲ',
+    'toast.moved.notes': 'ಟಿಪ್ಪಣಿಯನ್ನು ಮರುಸ್ಥಾಪಿಸಲಾಗಿದೆ',
+    'toast.moved.archived': 'ಟಿಪ್ಪಣಿಯನ್ನು ಆರ್ಕೈವ್ ಮಾಡಲಾಗಿದೆ',
+    'toast.moved.trash': 'ಟಿಪ್ಪಣಿಯನ್ನು ಕಸದ ಬುಟ್ಟಿಗೆ ಸರಿಸಲಾಗಿದೆ. {days} ದಿನಗಳ ನಂತರ ಅದು ಶಾಶ್ವತವಾಗಿ ಅಳಿಸಲ್ಪಡುತ್ತದೆ.',
+    'toast.noteDeleted': 'ಟಿಪ್ಪಣಿ ಅಳಿಸಲಾಗಿದೆ',
+    'toast.deleteFailed': 'ಟಿಪ್ಪಣಿಯನ್ನು ಅಳಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.copied': '{label} ಕ್ಲಿಪ್‌ಬೋರ್ಡ್‌ಗೆ ನಕಲಿಸಲಾಗಿದೆ',
+    'toast.copyFailed': 'ನಕಲಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.copyBlocked': 'ನಿಮ್ಮ ಬ್ರೌಸರ್ ಕ್ಲಿಪ್‌ಬೋರ್ಡ್ ಪ್ರವೇಶವನ್ನು ತಡೆದಿದೆ.',
+    'toast.savedVersion': 'ಆವೃತ್ತಿ {version} ಆಗಿ ಉಳಿಸಲಾಗಿದೆ',
+    'toast.restoredVersion': 'ಆವೃತ್ತಿ {from} ಅನ್ನು ಆವೃತ್ತಿ {version} ಆಗಿ ಮರುಸ್ಥಾಪಿಸಲಾಗಿದೆ',
+    'toast.saveNoteFailed': 'ಟಿಪ್ಪಣಿಯನ್ನು ಉಳಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.saveSummaryFailed': 'ಸಾರಾಂಶವನ್ನು ಉಳಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.transcriptSaved': 'ಪ್ರತಿಲಿಪಿಯನ್ನು ಆವೃತ್ತಿ {version} ಆಗಿ ಉಳಿಸಲಾಗಿದೆ',
+    'toast.transcriptRestored': 'ಪ್ರತಿಲಿಪಿ ಆವೃತ್ತಿ {from} ಅನ್ನು ಆವೃತ್ತಿ {version} ಆಗಿ ಮರುಸ್ಥಾಪಿಸಲಾಗಿದೆ',
+    'toast.saveTranscriptFailed': 'ಪ್ರತಿಲಿಪಿಯನ್ನು ಉಳಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.recordingLoading': 'ದಾಖಲೆ ಇನ್ನೂ ಲೋಡ್ ಆಗುತ್ತಿದೆ',
+    'toast.recordingLoadingBody': 'ಸ್ವಲ್ಪ ಸಮಯದ ನಂತರ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    'toast.exportFailed': '{format} ಆಗಿ ರಫ್ತು ಮಾಡಲಾಗಲಿಲ್ಲ',
+    'toast.clientAdded': 'ಕ್ಲೈಂಟ್ ಸೇರಿಸಲಾಗಿದೆ',
+    'toast.addClientFailed': 'ಕ್ಲೈಂಟ್ ಸೇರಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.linkCopied': 'ಲಿಂಕ್ ಕ್ಲಿಪ್‌ಬೋರ್ಡ್‌ಗೆ ನಕಲಿಸಲಾಗಿದೆ',
+    'toast.loadLinksFailed': 'ಹಂಚಿಕೆ ಲಿಂಕ್‌ಗಳನ್ನು ಲೋಡ್ ಮಾಡಲಾಗಲಿಲ್ಲ',
+    'toast.createLinkFailed': 'ಲಿಂಕ್ ರಚಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.linkRevoked': 'ಲಿಂಕ್ ಹಿಂಪಡೆಯಲಾಗಿದೆ',
+    'toast.linkRevokedBody': 'ಈಗ ಅದನ್ನು ತೆರೆಯುವವರಿಗೆ ಅದು ಲಭ್ಯವಿಲ್ಲ ಎಂದು ಕಾಣುತ್ತದೆ.',
+    'toast.revokeLinkFailed': 'ಲಿಂಕ್ ಹಿಂಪಡೆಯಲಾಗಲಿಲ್ಲ',
+    'toast.imageFailed': 'ಚಿತ್ರವನ್ನು ಬಳಸಲಾಗಲಿಲ್ಲ',
+    'toast.settingsSaved': 'ಸೆಟ್ಟಿಂಗ್‌ಗಳನ್ನು ಉಳಿಸಲಾಗಿದೆ',
+    'toast.saveSettingsFailed': 'ಸೆಟ್ಟಿಂಗ್‌ಗಳನ್ನು ಉಳಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.templateSaved': 'ಟೆಂಪ್ಲೇಟ್ ಉಳಿಸಲಾಗಿದೆ',
+    'toast.saveTemplateFailed': 'ಟೆಂಪ್ಲೇಟ್ ಉಳಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.templateDeleted': 'ಟೆಂಪ್ಲೇಟ್ ಅಳಿಸಲಾಗಿದೆ',
+    'toast.deleteTemplateFailed': 'ಟೆಂಪ್ಲೇಟ್ ಅಳಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.mfaSetupFailed': 'ಸೆಟಪ್ ಪ್ರಾರಂಭಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.mfaOn': 'ಎರಡು ಹಂತದ ದೃಢೀಕರಣ ಆನ್ ಆಗಿದೆ',
+    'toast.wrongCode': 'ಆ ಕೋಡ್ ಸರಿಯಿಲ್ಲ',
+    'toast.wrongCodeBody': 'ಆ್ಯಪ್‌ನಲ್ಲಿರುವ ಈಗಿನ ಕೋಡ್ ನಮೂದಿಸಿ.',
+    'toast.appRemoved': 'ದೃಢೀಕರಣ ಆ್ಯಪ್ ತೆಗೆದುಹಾಕಲಾಗಿದೆ',
+    'toast.removeAppFailed': 'ಆ್ಯಪ್ ತೆಗೆದುಹಾಕಲಾಗಲಿಲ್ಲ',
+    'toast.loadMembersFailed': 'ಸದಸ್ಯರನ್ನು ಲೋಡ್ ಮಾಡಲಾಗಲಿಲ್ಲ',
+    'toast.invitationCreated': 'ಆಹ್ವಾನ ರಚಿಸಲಾಗಿದೆ',
+    'toast.invitationCreatedBody': 'ಲಾಗಿನ್ ಆದ ನಂತರ {email} ಅದನ್ನು ವರ್ಕ್‌ಸ್ಪೇಸ್‌ಗಳ ಅಡಿಯಲ್ಲಿ ನೋಡುತ್ತಾರೆ.',
+    'toast.inviteFailed': 'ಆಹ್ವಾನಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.changeRoleFailed': 'ಪಾತ್ರವನ್ನು ಬದಲಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.removeMemberFailed': 'ಸದಸ್ಯರನ್ನು ತೆಗೆದುಹಾಕಲಾಗಲಿಲ್ಲ',
+    'toast.withdrawInvitationFailed': 'ಆಹ್ವಾನವನ್ನು ಹಿಂಪಡೆಯಲಾಗಲಿಲ್ಲ',
+    'toast.requireMfaFailed': 'ಎರಡು ಹಂತದ ದೃಢೀಕರಣ ಸೆಟ್ಟಿಂಗ್ ಬದಲಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.workspaceCreated': 'ವರ್ಕ್‌ಸ್ಪೇಸ್ ರಚಿಸಲಾಗಿದೆ',
+    'toast.workspaceCreatedBody': 'ನಿಮ್ಮ ತಂಡವನ್ನು {name} ಗೆ ಆಹ್ವಾನಿಸಿ.',
+    'toast.createWorkspaceFailed': 'ವರ್ಕ್‌ಸ್ಪೇಸ್ ರಚಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.joinedWorkspace': '{name} ಗೆ ಸೇರಿದ್ದೀರಿ',
+    'toast.acceptInvitationFailed': 'ಆಹ್ವಾನವನ್ನು ಸ್ವೀಕರಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.declineInvitationFailed': 'ಆಹ್ವಾನವನ್ನು ನಿರಾಕರಿಸಲಾಗಲಿಲ್ಲ',
+    'toast.leftWorkspace': '{name} ಇಂದ ಹೊರಬಂದಿದ್ದೀರಿ',
+    'toast.leaveWorkspaceFailed': 'ವರ್ಕ್‌ಸ್ಪೇಸ್‌ನಿಂದ ಹೊರಬರಲಾಗಲಿಲ್ಲ',
+    'toast.transcriptCopied': 'ಪ್ರತಿಲಿಪಿಯನ್ನು ಕ್ಲಿಪ್‌ಬೋರ್ಡ್‌ಗೆ ನಕಲಿಸಲಾಗಿದೆ',
+    'toast.summaryCopied': 'ಸಾರಾಂಶವನ್ನು ಕ್ಲಿಪ್‌ಬೋರ್ಡ್‌ಗೆ ನಕಲಿಸಲಾಗಿದೆ',
+}
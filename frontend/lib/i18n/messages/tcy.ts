@@ -0,0 +1,521 @@
+import type { Messages } from '@/lib/i18n/messages/en'
+
+// Tulu (ತುಳು), in Kannada script. Product and technical words stay as they are usually said.
+export const tcy: Messages = {
+    'common.tryAgain': 'ದಯದೀದ್ ಕುಡ ಪ್ರಯತ್ನ ಮಲ್ಪುಲೆ.',
+    'common.saving': 'ಸೇವ್ ಆವೊಂದುಂಡು...',
+    'common.language': 'ಬಾಸೆ',
+    'common.cancel': 'ರದ್ದ್ ಮಲ್ಪುಲೆ',
+    'common.save': 'ಸೇವ್ ಮಲ್ಪುಲೆ',
+    'common.untitledNote': 'ಪುದರ್ ಇಜ್ಜಂದಿನ ನೋಟ್',
+    'common.workspace': 'ವರ್ಕ್‌ಸ್ಪೇಸ್',
+    'common.done': 'ಆಂಡ್',
+    'common.edit': 'ಎಡಿಟ್ ಮಲ್ಪುಲೆ',
+    'common.copy': 'ಕಾಪಿ ಮಲ್ಪುಲೆ',
+    'common.remove': 'ದೆಪ್ಪುಲೆ',
+    'common.delete': 'ಮಾಜಾಲೆ',
+
+    'language.auto': 'ತಾನಾಯೇ ಪತ್ತೆ ಮಲ್ಪುಲೆ',
+    'language.en': 'ಇಂಗ್ಲಿಷ್',
+    'language.kn': 'ಕನ್ನಡ',
+    'language.hi': 'ಹಿಂದಿ',
+    'language.tcy': 'ತುಳು',
+    'language.mixed': 'ಮಿಶ್ರ (ಬಾಸೆಲೆನ್ ಬದಲ್ ಮಲ್ಪುವೆರ್)',
+    'language.other': 'ಬೇತೆ',
+    'language.marked': '{language} ಪಂಡ್ದ್ ಗುರುತು ಮಲ್ತ್ಂಡ್',
+    'language.markedHint': 'ರೆಕಾರ್ಡ್ ಮಲ್ಪುನಗ ಕೊರಿನ ಪಾತೆರುನ ಬಾಸೆ',
+    'language.markedNotHeard': 'ರೆಕಾರ್ಡಿಂಗ್‌ನ್ ಈ ಬಾಸೆ ಪಂಡ್ದ್ ಗುರುತು ಮಲ್ತ್ಂಡ್, ಆಂಡ ಅವು ಕೇನಂದ್ಂಡ್',
+
+    'auth.email': 'ಇಮೇಲ್',
+    'auth.password': 'ಪಾಸ್‌ವರ್ಡ್',
+    'auth.emailPlaceholder': 'name@example.com',
+
+    'login.title': 'JanScribe ಗ್ ಲಾಗಿನ್ ಆಲೆ',
+    'login.forgotPassword': 'ಪಾಸ್‌ವರ್ಡ್ ಮದತ್ತೊಂದಾ?',
+    'login.submit': 'ಲಾಗಿನ್',
+    'login.magicLink': 'ಎಂಕ್ ಸೈನ್-ಇನ್ ಲಿಂಕ್ ಇಮೇಲ್ ಮಲ್ಪುಲೆ',
+    'login.google': 'Google ಡ್ದ್ ಮುಂದುವರಿಲೆ',
+    'login.toSignup': 'ಖಾತೆ ಇಜ್ಜಿಯಾ? ಸೈನ್ ಅಪ್ ಆಲೆ',
+    'login.failed': 'ಲಾಗಿನ್ ಆಯಿಜಿ: {error}',
+    'login.enterEmailFirst': 'ಸುರುಕ್ ಇರೆನ ಇಮೇಲ್ ಕೊರ್ಲೆ.',
+    'login.linkFailed': 'ಲಿಂಕ್ ಕಡಪುಡ್ಯರೆ ಆಯಿಜಿ: {error}',
+    'login.linkSent': 'ಸೈನ್-ಇನ್ ಲಿಂಕ್‌ಗಾದ್ ಇರೆನ ಇಮೇಲ್ ತೂಲೆ.',
+    'login.googleFailed': 'Google ಸೈನ್-ಇನ್ ಆಯಿಜಿ: {error}',
+
+    'signup.title': 'JanScribe ಗ್ ಸೈನ್ ಅಪ್ ಆಲೆ',
+    'signup.submit': 'ಸೈನ್ ಅಪ್',
+    'signup.toLogin': 'ಖಾತೆ ಇತ್ತುಂಡಾ? ಲಾಗಿನ್ ಆಲೆ',
+    'signup.failed': 'ಸೈನ್ ಅಪ್ ಆಯಿಜಿ: {error}',
+    'signup.succeeded': 'ಸೈನ್ ಅಪ್ ಆಂಡ್! ಖಚಿತ ಮಲ್ಪೆರೆ ಇರೆನ ಇಮೇಲ್ ತೂಲೆ.',
+
+    'forgotPassword.title': 'ಪಾಸ್‌ವರ್ಡ್ ರೀಸೆಟ್ ಮಲ್ಪುಲೆ',
+    'forgotPassword.submit': 'ರೀಸೆಟ್ ಲಿಂಕ್ ಕಡಪುಡ್ಲೆ',
+    'forgotPassword.back': 'ಲಾಗಿನ್‌ಗ್ ಪಿರ ಪೋಲೆ',
+    'forgotPassword.failed': 'ರೀಸೆಟ್ ಲಿಂಕ್ ಕಡಪುಡ್ಯರೆ ಆಯಿಜಿ: {error}',
+    'forgotPassword.sent': 'ಈ ಇಮೇಲ್‌ಗ್ ಖಾತೆ ಇತ್ತ್ಂಡ, ರೀಸೆಟ್ ಲಿಂಕ್ ಬರೊಂದುಂಡು.',
+
+    'updatePassword.title': 'ಪೊಸ ಪಾಸ್‌ವರ್ಡ್ ಆಯ್ಕೆ ಮಲ್ಪುಲೆ',
+    'updatePassword.newPassword': 'ಪೊಸ ಪಾಸ್‌ವರ್ಡ್',
+    'updatePassword.confirmation': 'ಪೊಸ ಪಾಸ್‌ವರ್ಡ್ ಖಚಿತ ಮಲ್ಪುಲೆ',
+    'updatePassword.submit': 'ಪಾಸ್‌ವರ್ಡ್ ಬದಲ್ ಮಲ್ಪುಲೆ',
+    'updatePassword.mismatch': 'ರಡ್ಡ್ ಪಾಸ್‌ವರ್ಡ್ ಒಂಜೇ ಇಜ್ಜಿ.',
+    'updatePassword.failed': 'ಪಾಸ್‌ವರ್ಡ್ ಬದಲ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ: {error}',
+    'updatePassword.updated': 'ಪಾಸ್‌ವರ್ಡ್ ಬದಲ್ ಆಂಡ್',
+
+    'dashboard.settings': 'ಸೆಟ್ಟಿಂಗ್ಸ್',
+    'dashboard.security': 'ಭದ್ರತೆ',
+    'dashboard.logout': 'ಲಾಗ್ ಔಟ್',
+    'dashboard.createNote': 'ಪೊಸ ನೋಟ್ ಮಲ್ಪುಲೆ',
+    'dashboard.client': 'ಕ್ಲೈಂಟ್ (ಬೋಡಾಂಡ)',
+    'dashboard.template': 'ನೋಟ್ ಟೆಂಪ್ಲೇಟ್',
+    'dashboard.manageTemplates': 'ಟೆಂಪ್ಲೇಟ್‌ಲೆನ್ ನಿರ್ವಹಿಸಲೆ',
+    'dashboard.customTemplate': '{name} (ಕಸ್ಟಮ್)',
+    'dashboard.templateSections': 'ವಿಭಾಗೊಲು: {sections}',
+    'dashboard.spokenLanguage': 'ಪಾತೆರುನ ಬಾಸೆ',
+    'dashboard.summaryLanguage': 'ಸಾರಾಂಶದ ಬಾಸೆ',
+    'dashboard.summaryLanguageHint': 'ನೋಟ್‌ಡ್ ವಿಭಾಗೊಲು ಒರಿಯೊಡು ಪಂದ್ ಶೀರ್ಷಿಕೆಲು ಇಂಗ್ಲಿಷ್‌ಡೇ ಉಪ್ಪುವ.',
+    'dashboard.processAudio': 'ಆಡಿಯೋ ಪ್ರೋಸೆಸ್ ಮಲ್ಪುಲೆ',
+    'dashboard.processing': 'ಪ್ರೋಸೆಸ್ ಆವೊಂದುಂಡು...',
+    'dashboard.uploadFiles': 'ಅತ್ತಂಡ ಆಡಿಯೋ ಫೈಲ್‌ಲೆನ್ ಅಪ್‌ಲೋಡ್ ಮಲ್ಪುಲೆ',
+    'dashboard.latestSummary': 'ಕಡೆತ ಸಾರಾಂಶ',
+    'dashboard.cancelProcessing': 'ಪ್ರೋಸೆಸ್ ರದ್ದ್ ಮಲ್ಪುಲೆ',
+    'dashboard.readOnlyRole':
+        '{workspace} ಡ್ ಇರೆನ ಪಾತ್ರ {role}: ಅಯಿತ ನೋಟ್‌ಲೆನ್ ಇರ್ ತೆರೆಯೆರೆ, ಎಕ್ಸ್‌ಪೋರ್ಟ್ ಬೊಕ್ಕ ಪ್ರಿಂಟ್ ಮಲ್ಪೆರೆ ಆವು. ಪೊಸ ನೋಟ್‌ಲೆನ್ ಓನರ್ ಬೊಕ್ಕ ಕ್ಲಿನಿಶಿಯನ್‌ಲು ರೆಕಾರ್ಡ್ ಮಲ್ಪುವೆರ್.',
+    'dashboard.pastNotes': 'ದುಂಬುದ ನೋಟ್‌ಲು',
+    'dashboard.noMatches': 'ಇರೆನ ನಾಡಾಟೊಗು ಒವ್ವೇ ನೋಟ್ ಸಿಕ್ಕಿಜಿ.',
+    'dashboard.empty.notes': 'ಇರ್ ಸೇವ್ ಮಲ್ತಿನ ಸಾರಾಂಶೊಲು ಮುಲ್ಪ ತೋಜುವ.',
+    'dashboard.empty.archived': 'ಆರ್ಕೈವ್ ಮಲ್ತಿನ ನೋಟ್‌ಲು ಇಜ್ಜಿ.',
+    'dashboard.empty.trash': 'ಟ್ರ್ಯಾಶ್ ಖಾಲಿ ಉಂಡು.',
+    'dashboard.loadingMore': 'ನನ ನೋಟ್‌ಲು ಲೋಡ್ ಆವೊಂದುಂಡು...',
+    'dashboard.loadMore': 'ನನ ಲೋಡ್ ಮಲ್ಪುಲೆ',
+    'dashboard.micDenied.title': 'ಮೈಕ್ರೊಫೋನ್ ಅನುಮತಿ ತಿಕ್ಕಿಜಿ',
+    'dashboard.micDenied.body':
+        'ಆಡಿಯೋ ರೆಕಾರ್ಡ್ ಮಲ್ಪೆರೆ JanScribe ಗ್ ಇರೆನ ಮೈಕ್ರೊಫೋನ್ ಬೋಡು. ಬ್ರೌಸರ್‌ದ ಅನುಮತಿ ಪಾಪ್-ಅಪ್‌ಡ್ "Allow" ಒತ್ತ್‌ಲೆ. ಪುಟೊನು ರಿಫ್ರೆಶ್ ಮಲ್ಪೊಡಾವು, ಅತ್ತಂಡ ಬ್ರೌಸರ್ ಸೆಟ್ಟಿಂಗ್ಸ್ ತೂವೊಡಾವು.',
+    'dashboard.micDenied.dismiss': 'ಆವು',
+    'dashboard.otherAccount': 'ಈ ರೆಕಾರ್ಡಿಂಗ್ ಬೇತೆ ಖಾತೆದ್. ಅಪ್‌ಲೋಡ್ ಮಲ್ಪೆರೆ ಅಯಿತ ಮಾಲಕೆರಾದ್ ಲಾಗಿನ್ ಆಲೆ.',
+
+    'filters.views': 'ವಾ ನೋಟ್‌ಲೆನ್ ತೋಜಾವೊಡು',
+    'filters.view.notes': 'ನೋಟ್‌ಲು',
+    'filters.view.archived': 'ಆರ್ಕೈವ್',
+    'filters.view.trash': 'ಟ್ರ್ಯಾಶ್',
+    'filters.search': 'ನಾಡ್‌ಲೆ',
+    'filters.searchPlaceholder': 'ಕ್ಲೈಂಟ್, ಸಾರಾಂಶ ಅತ್ತಂಡ ಟ್ರಾನ್ಸ್‌ಕ್ರಿಪ್ಟ್ — ಉದಾ. ಜ್ವರ "ಬ್ಲಡ್ ಪ್ರೆಶರ್"',
+    'filters.from': 'ಡ್ದ್',
+    'filters.to': 'ಮುಟ್ಟ',
+    'filters.language': 'ಬಾಸೆ',
+    'filters.allLanguages': 'ಮಾತಾ ಬಾಸೆಲು',
+    'filters.sort': 'ಕ್ರಮ',
+    'filters.sort.newest': 'ಪೊಸತ್ ಸುರುಕು',
+    'filters.sort.oldest': 'ಪರತ್ ಸುರುಕು',
+    'filters.sort.client': 'ಕ್ಲೈಂಟ್‌ದ ಪುದರ್ (A–Z)',
+    'filters.clear': 'ಫಿಲ್ಟರ್‌ಲೆನ್ ದೆಪ್ಪುಲೆ',
+
+    'noteCard.transcript': 'ಟ್ರಾನ್ಸ್‌ಕ್ರಿಪ್ಟ್:',
+    'noteCard.edit': 'ಎಡಿಟ್ ಮಲ್ಪುಲೆ',
+    'noteCard.history': 'ಟ್ರಾನ್ಸ್‌ಕ್ರಿಪ್ಟ್ ಬೊಕ್ಕ ಇತಿಹಾಸ',
+    'noteCard.restore': 'ಪಿರ ಕನಲೆ',
+    'noteCard.archive': 'ಆರ್ಕೈವ್ ಮಲ್ಪುಲೆ',
+    'noteCard.unarchive': 'ಆರ್ಕೈವ್‌ಡ್ದ್ ದೆಪ್ಪುಲೆ',
+    'noteCard.delete': 'ಮಾಜಾಲೆ',
+    'noteCard.deleteForever': 'ಶಾಶ್ವತವಾದ್ ಮಾಜಾಲೆ',
+    'noteCard.purgeDate': 'ಪಿರ ಕನತ್ತಿಜಂಡ {date} ಕ್ ಶಾಶ್ವತವಾದ್ ಮಾಜುಂಡು.',
+    'noteCard.confirmDelete.title': 'ಈ ನೋಟ್‌ನ್ ಶಾಶ್ವತವಾದ್ ಮಾಜಾವೊಡಾ?',
+    'noteCard.confirmDelete.body':
+        'ನೋಟ್, ಅಯಿತ ಎಡಿಟ್ ಇತಿಹಾಸ ಬೊಕ್ಕ ರೆಕಾರ್ಡಿಂಗ್ ಇತ್ತೆನೇ ಮಾಜುಂಡು. ಉಂದೆನ್ ಪಿರ ಪಡೆಯೆರೆ ಆಪುಜಿ.',
+    'noteCard.confirmDelete.keep': 'ಟ್ರ್ಯಾಶ್‌ಡೇ ದೀಲೆ',
+
+    'recorder.microphone': 'ಮೈಕ್ರೊಫೋನ್',
+    'recorder.systemDefault': 'ಸಿಸ್ಟಮ್ ಡೀಫಾಲ್ಟ್',
+    'recorder.deviceNumber': 'ಮೈಕ್ರೊಫೋನ್ {number}',
+    'recorder.defaultDevice': 'ಡೀಫಾಲ್ಟ್ ಮೈಕ್ರೊಫೋನ್',
+    'recorder.maxLength': 'ಇಂಚಿನ ಸಮಯದ ಬೊಕ್ಕ ತಾನಾಯೇ ನಿಲ್ಲಾಲೆ',
+    'recorder.minutes': '{minutes} ನಿಮಿಷ',
+    'recorder.inputLevel': 'ಸ್ವರದ ಮಟ್ಟ',
+    'recorder.silent':
+        '{device} ಡ್ದ್ ಒವ್ವೇ ಸ್ವರ ಬರೊಂದಿಜ್ಜಿ. ಸರಿಯಾಯಿನ ಮೈಕ್ರೊಫೋನ್ ಆಯ್ಕೆ ಆತ್ಂಡಾ, ಮ್ಯೂಟ್ ಆತಿಜ್ಜಾ ಪಂದ್ ತೂಲೆ.',
+    'recorder.start': 'ರೆಕಾರ್ಡಿಂಗ್ ಸುರು ಮಲ್ಪುಲೆ',
+    'recorder.stop': 'ರೆಕಾರ್ಡಿಂಗ್ ನಿಲ್ಲಾಲೆ',
+    'recorder.pause': 'ಪಾಸ್ ಮಲ್ಪುಲೆ',
+    'recorder.resume': 'ಮುಂದುವರಿಲೆ',
+
+    'processing.progress': 'ಪ್ರೋಸೆಸ್‌ದ ಪ್ರಗತಿ',
+    'processing.upload': 'ಅಪ್‌ಲೋಡ್',
+    'processing.transcribe': 'ಟ್ರಾನ್ಸ್‌ಕ್ರೈಬ್',
+    'processing.summarize': 'ಸಾರಾಂಶ',
+    'processing.save': 'ಸೇವ್',
+    'processing.waiting': 'ಸುರು ಆಯರೆ ಕಾತೊಂದುಂಡು',
+
+    'pendingUploads.title': 'ಬಾಕಿ ಉಪ್ಪುನ ಅಪ್‌ಲೋಡ್‌ಲು',
+    'pendingUploads.status.pending': 'ಬಾಕಿ',
+    'pendingUploads.status.uploading': 'ಅಪ್‌ಲೋಡ್ ಆವೊಂದುಂಡು',
+    'pendingUploads.status.failed': 'ಆಯಿಜಿ',
+    'pendingUploads.queued': '{time} ಕ್ ಸಾಲ್‌ಗ್ ಸೇರ್ಂಡ್',
+    'pendingUploads.failedAttempt': '1 ಪ್ರಯತ್ನ ಆಯಿಜಿ',
+    'pendingUploads.failedAttempts': '{count} ಪ್ರಯತ್ನೊಲು ಆಯಿಜಿ',
+    'pendingUploads.retryingAt': '{time} ಕ್ ಕುಡ ಪ್ರಯತ್ನ ಮಲ್ಪುಂಡು',
+    'pendingUploads.noAutoRetry': 'ತಾನಾಯೇ ಕುಡ ಪ್ರಯತ್ನ ಮಲ್ಪುಜಿ',
+    'pendingUploads.retry': 'ಇತ್ತೆ ಕುಡ ಪ್ರಯತ್ನ ಮಲ್ಪುಲೆ',
+    'pendingUploads.discard': 'ದೆಪ್ಪುಲೆ',
+    'pendingUploads.storageFailed': 'ಈ ಸಾಧನೊಡು ಸೇವ್ ಆಯಿನ ರೆಕಾರ್ಡಿಂಗ್‌ಲೆನ್ ಓದೆರೆ ಆಯಿಜಿ: {error}',
+
+    'fileUpload.drop': 'ಆಡಿಯೋ ಫೈಲ್‌ಲೆನ್ ಮುಲ್ಪ ಬುಡ್ಲೆ, ಅತ್ತಂಡ',
+    'fileUpload.choose': 'ಫೈಲ್‌ಲೆನ್ ಆಯ್ಕೆ ಮಲ್ಪುಲೆ',
+    'fileUpload.limits': 'webm, m4a, mp3, ogg, wav ಅತ್ತಂಡ flac · ಒಂಜೊಂಜಿ {size} ಬೊಕ್ಕ {minutes} ನಿಮಿಷ ಮುಟ್ಟ',
+    'fileUpload.remove': '{file} ದೆಪ್ಪುಲೆ',
+    'fileUpload.queueing': 'ಸಾಲ್‌ಗ್ ಸೇರೊಂದುಂಡು...',
+    'fileUpload.processOne': '1 ಫೈಲ್ ಪ್ರೋಸೆಸ್ ಮಲ್ಪುಲೆ',
+    'fileUpload.processMany': '{count} ಫೈಲ್‌ಲೆನ್ ಪ್ರೋಸೆಸ್ ಮಲ್ಪುಲೆ',
+    'fileUpload.clearFinished': 'ಮುಗಿನವೆನ್ ದೆಪ್ಪುಲೆ',
+    'fileUpload.status.checking': 'ತೂವೊಂದುಂಡು',
+    'fileUpload.status.invalid': 'ಸರಿ ಇಜ್ಜಿ',
+    'fileUpload.status.ready': 'ತಯಾರ್',
+    'fileUpload.status.pending': 'ಬಾಕಿ',
+    'fileUpload.status.uploading': 'ಅಪ್‌ಲೋಡ್ ಆವೊಂದುಂಡು',
+    'fileUpload.status.failed': 'ಆಯಿಜಿ',
+    'fileUpload.status.done': 'ಮುಗಿಂಡ್',
+    'fileUpload.status.discarded': 'ದೆತ್ತ್ಂಡ್',
+    'fileUpload.problem.unsupported': 'ಈ ಫಾರ್ಮ್ಯಾಟ್ ನಡಪುಜಿ. webm, m4a, mp3, ogg, wav ಅತ್ತಂಡ flac ಉಪಯೋಗ ಮಲ್ಪುಲೆ.',
+    'fileUpload.problem.empty': 'ಫೈಲ್ ಖಾಲಿ ಉಂಡು.',
+    'fileUpload.problem.tooLarge': '{size} ಡ್ದ್ ಮಲ್ಲ ಉಂಡು.',
+    'fileUpload.problem.tooLong': '{duration} ಡ್ದ್ ಉದ್ದ ಉಂಡು.',
+    'fileUpload.problem.tooShort': 'ಟ್ರಾನ್ಸ್‌ಕ್ರೈಬ್ ಮಲ್ಪೆರೆ ಮಸ್ತ್ ಎಲ್ಯ ಉಂಡು.',
+
+    'export.button': 'ಎಕ್ಸ್‌ಪೋರ್ಟ್ ಮಲ್ಪುಲೆ… ▾',
+    'export.exporting': 'ಎಕ್ಸ್‌ಪೋರ್ಟ್ ಆವೊಂದುಂಡು...',
+
+    'live.live': 'ಲೈವ್',
+    'live.connecting': 'ಕನೆಕ್ಟ್ ಆವೊಂದುಂಡು...',
+    'live.offline': 'ಸಿಂಕ್ ಆವೊಂದಿಜ್ಜಿ',
+    'live.offlineHint': 'ಬೇತೆ ಡಿವೈಸ್‌ದ ಪೊಸ ನೋಟ್‌ಲು ಪುಟ ರಿಲೋಡ್ ಮಲ್ತಿ ಬೊಕ್ಕ ತೋಜುವ',
+
+    'share.button': 'ಹಂಚೊನುಲೆ',
+    'share.title': 'ಓದೆರೆ ಮಾತ್ರ ಆಪಿನ ಲಿಂಕ್ ಹಂಚೊನುಲೆ',
+    'share.description': 'ಲಿಂಕ್ ಉಪ್ಪುನ ಏರಾಂಡಲ ಅವು ಮುಗಿಯೆರೆ ಅತ್ತಂಡ ರದ್ದಾಪಿನೆಟ್ ಮುಟ್ಟ ಖಾತೆ ಇಜ್ಜಂದೆ ಈ ನೋಟ್ ಓದೊಲಿ.',
+    'share.expiresAfter': 'ಮುಗಿಪುನ ಅವಧಿ',
+    'share.oneDay': '1 ದಿನ',
+    'share.days': '{days} ದಿನೊಕುಲು',
+    'share.passcode': 'ಪಾಸ್‌ಕೋಡ್ (ಬೋಡಾಂಡ)',
+    'share.creating': 'ಮಲ್ಪೊಂದುಂಡು...',
+    'share.create': 'ಲಿಂಕ್ ಮಲ್ತ್ ಕಾಪಿ ಮಲ್ಪುಲೆ',
+    'share.loading': 'ಲಿಂಕ್‌ಲು ಲೋಡ್ ಆವೊಂದುಂಡು...',
+    'share.none': 'ಇಂಚಿತ್ತೆ ಒವ್ವೇ ಲಿಂಕ್ ಇಜ್ಜಿ.',
+    'share.revoked': 'ರದ್ದ್ ಮಲ್ತ್ಂಡ್',
+    'share.locked': 'ಮಸ್ತ್ ತಪ್ಪು ಪಾಸ್‌ಕೋಡ್ ಬೊಕ್ಕ ಲಾಕ್ ಆತ್ಂಡ್',
+    'share.expired': '{date} ಗ್ ಮುಗಿದ್ಂಡ್',
+    'share.expires': '{date} ಗ್ ಮುಗಿಯುಂಡು',
+    'share.hasPasscode': 'ಪಾಸ್‌ಕೋಡ್',
+    'share.oneView': '1 ಸರ್ತಿ ತೂಯೆರ್',
+    'share.views': '{count} ಸರ್ತಿ ತೂಯೆರ್',
+    'share.revoke': 'ರದ್ದ್ ಮಲ್ಪುಲೆ',
+
+    'sections.expandAll': 'ಮಾತಾ ಬುಡುಕುಲೆ',
+    'sections.collapseAll': 'ಮಾತಾ ಮಡಿಸಾಲೆ',
+    'sections.overview': 'ಅವಲೋಕನ',
+
+    'noteDetail.back': '← ನೋಟ್‌ಲೆಗ್ ಪಿರ ಪೋಲೆ',
+    'noteDetail.transcript': 'ಮೂಲ ಟ್ರಾನ್ಸ್‌ಕ್ರಿಪ್ಟ್',
+    'noteDetail.summary': 'ರಚನಾತ್ಮಕ ಸಾರಾಂಶ',
+    'noteDetail.summaryWithTemplate': 'ರಚನಾತ್ಮಕ ಸಾರಾಂಶ · {template}',
+    'noteDetail.saveVersion': 'ಆವೃತ್ತಿ ಸೇವ್ ಮಲ್ಪುಲೆ',
+    'noteDetail.exportText': '.txt ಎಕ್ಸ್‌ಪೋರ್ಟ್ ಮಲ್ಪುಲೆ',
+    'noteDetail.transcriptHistory': 'ಟ್ರಾನ್ಸ್‌ಕ್ರಿಪ್ಟ್ ಇತಿಹಾಸ',
+
+    'textPane.search': 'ನಾಡ್ಲೆ...',
+    'textPane.noMatches': 'ಒವ್ವೇ ಹೊಂದಾಣಿಕೆ ಇಜ್ಜಿ',
+    'textPane.previous': 'ದುಂಬುದ',
+    'textPane.next': 'ಬೊಕ್ಕದ',
+
+    'audio.none': 'ಈ ನೋಟ್‌ಗ್ ಒವ್ವೇ ರೆಕಾರ್ಡಿಂಗ್ ದೀಂದಿಜಿ.',
+    'audio.deleted': 'ಆಡಿಯೊ ಇರಿಸಾವುನ ನೀತಿದ ಪ್ರಕಾರ ರೆಕಾರ್ಡಿಂಗ್ {date} ಗ್ ಮಾಜಾತ್ಂಡ್.',
+    'audio.loadFailed': 'ರೆಕಾರ್ಡಿಂಗ್ ಲೋಡ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ.',
+    'audio.loadFailedWith': 'ರೆಕಾರ್ಡಿಂಗ್ ಲೋಡ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ: {error}',
+    'audio.clickToPlay': 'ಟ್ರಾನ್ಸ್‌ಕ್ರಿಪ್ಟ್‌ಡ್ ಓಲುಲಾ ಕ್ಲಿಕ್ ಮಲ್ಪುಲೆ, ರೆಕಾರ್ಡಿಂಗ್ ಸುಮಾರ್ ಅಲ್ಪಡ್ದ್ ಪ್ಲೇ ಆಪುಂಡು.',
+    'audio.willBeDeleted': 'ರೆಕಾರ್ಡಿಂಗ್ {date} ಗ್ ಮಾಜಾವುಂಡು.',
+
+    'versions.title': 'ಆವೃತ್ತಿ ಇತಿಹಾಸ',
+    'versions.version': 'ಆವೃತ್ತಿ {version}',
+    'versions.optionLabel': 'v{version} · {date}',
+    'versions.current': 'ಇತ್ತೆದ',
+    'versions.aiGenerated': 'AI ಮಲ್ತಿನ',
+    'versions.editedBy': '{email} ಎಡಿಟ್ ಮಲ್ತೆರ್',
+    'versions.edited': 'ಎಡಿಟ್ ಮಲ್ತ್ಂಡ್',
+    'versions.restoredFrom': 'v{version} ಡ್ದ್ ಪಿರ ತಂದ್ಂಡ್',
+    'versions.compareWithCurrent': 'ಇತ್ತೆದ ಒಟ್ಟುಗು ಹೋಲಿಸಲೆ',
+    'versions.restore': 'ಈ ಆವೃತ್ತಿನ್ ಪಿರ ತರ್ಲೆ',
+    'versions.compare': 'ಹೋಲಿಸಲೆ',
+    'versions.with': 'ಒಟ್ಟುಗು',
+    'versions.identical': 'ಈ ಆವೃತ್ತಿಲು ಒಂಜೇ ಆದ್ ಉಂಡು.',
+
+    'clients.searchPlaceholder': 'ಪುದರ್ ಅತ್ತಂಡ ID ಡ್ದ್ ನಾಡ್ಲೆ, ಉದಾ. ರಮೇಶ್ ರಾವ್',
+    'clients.create': '+ ಪೊಸ ಕ್ಲೈಂಟ್ “{name}” ಮಲ್ಪುಲೆ',
+    'clients.change': 'ಬದಲ್ ಮಲ್ಪುಲೆ',
+    'clients.fullName': 'ಪೂರ್ತಿ ಪುದರ್',
+    'clients.dateOfBirth': 'ಪುಟ್ಟಿನ ದಿನ',
+    'clients.sex': 'ಲಿಂಗ',
+    'clients.sex.female': 'ಪೊಣ್ಣು',
+    'clients.sex.male': 'ಆಣ್',
+    'clients.sex.other': 'ಬೇತೆ',
+    'clients.externalId': 'ಪಿದಯಿದ ID',
+    'clients.externalIdPlaceholder': 'MRN / ಕೇಸ್ ನಂ.',
+    'clients.phone': 'ಫೋನ್',
+    'clients.add': 'ಕ್ಲೈಂಟ್ ಸೇರಾಲೆ',
+    'clients.age': '{age} ವ',
+    'clients.externalIdValue': 'ID {id}',
+    'clients.born': 'ಪುಟ್ಟಿನ ದಿನ {date}',
+    'clients.bornAge': 'ಪುಟ್ಟಿನ ದಿನ {date} ({age} ವ)',
+    'clients.visits': 'ಭೇಟಿಲು',
+    'clients.noVisits': 'ಈ ಕ್ಲೈಂಟ್‌ಗ್ ಇಂಚಿತ್ತೆ ಒವ್ವೇ ನೋಟ್ ದಾಖಲ್ ಆತಿಜಿ.',
+    'clients.openNote': 'ನೋಟ್ ತೆರೆಲೆ',
+
+    'sharedNote.title': 'ಹಂಚಿನ ನೋಟ್',
+    'sharedNote.banner': 'JanScribe ಡ್ದ್ ಹಂಚಿನ · ಓದೆರೆ ಮಾತ್ರ · ಲಿಂಕ್ {date} ಗ್ ಮುಗಿಯುಂಡು',
+    'sharedNote.notFound': 'ಈ ಲಿಂಕ್ ಇಜ್ಜಿ ಅತ್ತಂಡ ರದ್ದ್ ಮಲ್ತ್ಂಡ್.',
+    'sharedNote.expired': 'ಈ ಲಿಂಕ್ ಮುಗಿದ್ಂಡ್. ಕಡಪುಡಿನಾಕ್ಲೆಡ್ ಪೊಸತ್ ಕೇನ್ಲೆ.',
+    'sharedNote.locked': 'ಮಸ್ತ್ ತಪ್ಪು ಪಾಸ್‌ಕೋಡ್ ಬೊಕ್ಕ ಈ ಲಿಂಕ್ ಲಾಕ್ ಆತ್ಂಡ್. ಕಡಪುಡಿನಾಕ್ಲೆಡ್ ಪೊಸತ್ ಕೇನ್ಲೆ.',
+    'sharedNote.prompt': 'ಒರಿ ಇರೆನ ಒಟ್ಟುಗು ಒಂಜಿ ನೋಟ್ ಹಂಚೊಂಡೆರ್. ಅವು ಓದೆರೆ ಮಾತ್ರ ತೆರೆವುಂಡು.',
+    'sharedNote.passcode': 'ಪಾಸ್‌ಕೋಡ್',
+    'sharedNote.checking': 'ಪರಿಶೀಲನೆ ಆವೊಂದುಂಡು...',
+    'sharedNote.open': 'ನೋಟ್ ತೆರೆಲೆ',
+    'sharedNote.wrongPasscodeOne': 'ಆ ಪಾಸ್‌ಕೋಡ್ ಸರಿ ಇಜ್ಜಿ. ಇಂಕ 1 ಪ್ರಯತ್ನ ಬಾಕಿ ಉಂಡು.',
+    'sharedNote.wrongPasscode': 'ಆ ಪಾಸ್‌ಕೋಡ್ ಸರಿ ಇಜ್ಜಿ. ಇಂಕ {count} ಪ್ರಯತ್ನ ಬಾಕಿ ಉಂಡು.',
+    'sharedNote.openFailed': 'ನೋಟ್ ತೆರೆಯೆರೆ ಆಯಿಜಿ. ದಯದೀದ್ ಕುಡ ಪ್ರಯತ್ನ ಮಲ್ಪುಲೆ.',
+
+    'mfa.title': 'ರಡ್ಡ್ ಅಂತದ ದೃಢೀಕರಣ',
+    'mfa.enterCode': 'ಇರೆನ ಅಥೆಂಟಿಕೇಟರ್ ಆ್ಯಪ್‌ದ 6 ಅಂಕಿದ ಕೋಡ್ ಕೊರ್ಲೆ.',
+    'mfa.app': 'ಅಥೆಂಟಿಕೇಟರ್ ಆ್ಯಪ್',
+    'mfa.code': 'ಕೋಡ್',
+    'mfa.verifying': 'ಪರಿಶೀಲನೆ ಆವೊಂದುಂಡು...',
+    'mfa.verify': 'ಪರಿಶೀಲನೆ ಮಲ್ಪುಲೆ',
+    'mfa.differentAccount': 'ಬೇತೆ ಖಾತೆ ಉಪಯೋಗ ಮಲ್ಪುಲೆ',
+    'mfa.loadFailed': 'ಇರೆನ ಅಥೆಂಟಿಕೇಟರ್ ಆ್ಯಪ್‌ಲೆನ್ ಲೋಡ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ. ದಯದೀದ್ ಪುಟೊನು ಕುಡ ಲೋಡ್ ಮಲ್ಪುಲೆ.',
+    'mfa.wrongCode': 'ಆ ಕೋಡ್ ಸರಿ ಇಜ್ಜಿ ಅತ್ತಂಡ ಮುಗಿದ್ಂಡ್. ಇತ್ತೆದ ಕೋಡ್ ಕೊರ್ಲೆ.',
+
+    'authError.title': 'ಸೈನ್-ಇನ್ ಸಮಸ್ಯೆ',
+    'authError.generic': 'ಈ ಲಿಂಕ್‌ಡ್ದ್ ಸೈನ್ ಇನ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ. ದಯದೀದ್ ಕುಡ ಪ್ರಯತ್ನ ಮಲ್ಪುಲೆ.',
+    'authError.otpExpired': 'ಈ ಲಿಂಕ್ ಮುಗಿದ್ಂಡ್ ಅತ್ತಂಡ ದುಂಬೇ ಉಪಯೋಗ ಆತ್ಂಡ್. ಪೊಸತ್ ಕೇನ್ಲೆ.',
+    'authError.flowStateExpired': 'ಈ ಲಿಂಕ್ ಮುಗಿದ್ಂಡ್. ಪೊಸತ್ ಕೇನ್ಲೆ.',
+    'authError.flowStateNotFound': 'ಈ ಲಿಂಕ್ ದುಂಬೇ ಉಪಯೋಗ ಆತ್ಂಡ್. ಇಂಕಲಾ ಬೋಡಾಂಡ ಪೊಸತ್ ಕೇನ್ಲೆ.',
+    'authError.otherBrowser': 'ಈರ್ ಕೇಂಡಿನ ಅವ್ವೇ ಬ್ರೌಸರ್‌ಡ್ ಲಿಂಕ್ ತೆರೆಲೆ.',
+    'authError.accessDenied': 'ಸೈನ್-ಇನ್ ರದ್ದ್ ಆಂಡ್.',
+    'authError.missingCode': 'ಈ ಲಿಂಕ್ ಅಪೂರ್ಣ. ಇಮೇಲ್‌ಡ್ದ್ ಪೂರ್ತಿ ಲಿಂಕ್ ಕಾಪಿ ಮಲ್ಪುಲೆ, ಅತ್ತಂಡ ಪೊಸತ್ ಕೇನ್ಲೆ.',
+    'authError.mfaCheckFailed': 'ಇರೆನ ರಡ್ಡ್ ಅಂತದ ದೃಢೀಕರಣ ಪರಿಶೀಲನೆ ಮಲ್ಪೆರೆ ಆಯಿಜಿ. ದಯದೀದ್ ಕುಡ ಪ್ರಯತ್ನ ಮಲ್ಪುಲೆ.',
+    'authError.reason': 'ಕಾರಣ: {reason}',
+    'authError.backToLogin': 'ಲಾಗಿನ್‌ಗ್ ಪಿರ ಪೋಲೆ',
+    'authError.resetPassword': 'ಪಾಸ್‌ವರ್ಡ್ ರೀಸೆಟ್ ಮಲ್ಪುಲೆ',
+
+    'settings.title': 'ಸೆಟ್ಟಿಂಗ್ಸ್',
+    'settings.general': 'ಸಾಮಾನ್ಯ',
+    'settings.theme': 'ಥೀಮ್',
+    'settings.theme.system': 'ಸಾಧನದ ಲೆಕ್ಕ',
+    'settings.theme.light': 'ಬೊಲ್ಪು',
+    'settings.theme.dark': 'ಕಪ್ಪು',
+    'settings.dateFormat': 'ತಾರೀಕ್‌ದ ರೂಪ',
+    'settings.dateFormat.locale': 'ಇಂಟರ್ಫೇಸ್ ಬಾಸೆದ ಡೀಫಾಲ್ಟ್',
+    'settings.dateFormat.dmy': 'DD/MM/YYYY',
+    'settings.dateFormat.mdy': 'MM/DD/YYYY',
+    'settings.dateFormat.iso': 'YYYY-MM-DD',
+    'settings.recording': 'ರೆಕಾರ್ಡಿಂಗ್',
+    'settings.defaultTemplate': 'ಡೀಫಾಲ್ಟ್ ಟೆಂಪ್ಲೇಟ್',
+    'settings.generalTemplate': 'ಸಾಮಾನ್ಯ (ಬಿಲ್ಟ್-ಇನ್)',
+    'settings.spokenLanguage': 'ಪಾತೆರುನ ಬಾಸೆ',
+    'settings.retention': 'ಪೊಸ ನೋಟ್‌ಲೆನ ರೆಕಾರ್ಡಿಂಗ್ ಎಚ್ಚ ಸಮಯ ದೀಪೊಡು',
+    'settings.retention.default': 'ಪ್ರಾಕ್ಟೀಸ್‌ದ ಡೀಫಾಲ್ಟ್',
+    'settings.retention.forever': 'ಯಾವಲ ದೀಲೆ',
+    'settings.retention.year': '1 ವರ್ಸ',
+    'settings.retention.days': '{days} ದಿನೊಕುಲು',
+    'settings.retention.hint': 'ಇತ್ತಿನ ನೋಟ್‌ಲು ಸೇವ್ ಆಯಿನಗ ಇತ್ತಿನ ಮಾಜಾಪುನ ತಾರೀಕ್‌ನೇ ದೀವೊನುಂಡು.',
+    'settings.letterhead': 'PDF ಲೆಟರ್‌ಹೆಡ್',
+    'settings.practiceName': 'ಕ್ಲಿನಿಕ್‌ದ ಪುದರ್',
+    'settings.practiceNamePlaceholder': 'ಉದಾ. ಮಂಗಳೂರು ಫ್ಯಾಮಿಲಿ ಕ್ಲಿನಿಕ್',
+    'settings.address': 'ವಿಳಾಸ ಬೊಕ್ಕ ಸಂಪರ್ಕ (3 ಸಾಲ್ ಮುಟ್ಟ)',
+    'settings.logo': 'ಲೋಗೋ (PNG ಅತ್ತಂಡ JPEG)',
+    'settings.logoAlt': 'ಲೆಟರ್‌ಹೆಡ್ ಲೋಗೋ',
+    'settings.signature': 'PDF ಸಹಿ',
+    'settings.signatureName': 'ಪುದರ್',
+    'settings.signatureNamePlaceholder': 'ಉದಾ. ಡಾ. ಎ. ಶೆಟ್ಟಿ',
+    'settings.signatureTitle': 'ಪದವಿ',
+    'settings.signatureTitlePlaceholder': 'ಉದಾ. MBBS, MD (ಜನರಲ್ ಮೆಡಿಸಿನ್)',
+    'settings.registration': 'ನೋಂದಣಿ ಸಂಖ್ಯೆ',
+    'settings.signatureImage': 'ಸಹಿದ ಚಿತ್ರ',
+    'settings.imageTooLarge': 'ಚಿತ್ರೊಲು {size} KB ಮುಟ್ಟ ಇಪ್ಪೊಲಿ.',
+    'settings.imageUnreadable': 'ಚಿತ್ರೊನು ಓದೆರೆ ಆಯಿಜಿ.',
+    'settings.save': 'ಸೆಟ್ಟಿಂಗ್ಸ್ ಸೇವ್ ಮಲ್ಪುಲೆ',
+
+    'role.owner': 'ಮಾಲಕೆರ್',
+    'role.clinician': 'ವೈದ್ಯೆರ್',
+    'role.assistant': 'ಸಹಾಯಕೆರ್',
+    'role.read_only': 'ಓದೆರೆ ಮಾತ್ರ',
+
+    'apiError.authExpired': 'ಇರೆನ ಸೆಷನ್ ಮುಗಿದ್ಂಡ್. ದಯದೀದ್ ಕುಡ ಲಾಗಿನ್ ಆಲೆ.',
+    'apiError.mfaRequired': 'ರಡ್ಡ್ ಅಂತದ ದೃಢೀಕರಣ ಬೋಡು.',
+    'apiError.silentAudio': 'ರೆಕಾರ್ಡಿಂಗ್‌ಡ್ ಒವ್ವೇ ಪಾತೆರ ಕೇಂಡಿಜಿ.',
+    'apiError.upstream': 'ಟ್ರಾನ್ಸ್‌ಕ್ರಿಪ್ಷನ್ ಸೇವೆಗ್ ತೊಂದರೆ ಉಂಡು. ಎಲ್ಯ ಸಮಯೊಡು ಕುಡ ಪ್ರಯತ್ನ ಮಲ್ಪುವ.',
+    'apiError.network': 'ನೆಟ್‌ವರ್ಕ್ ದೋಷ — ಸಂಪರ್ಕ ಪಿರ ಬತ್ತಿ ಬೊಕ್ಕ ಕುಡ ಪ್ರಯತ್ನ ಮಲ್ಪುವ.',
+    'apiError.timeout': 'ಸರ್ವರ್ ಉತ್ತರ ಕೊರ್ಯೆರೆ ಮಸ್ತ್ ಸಮಯ ದೆತ್ತೊಂಡ್. ಎಲ್ಯ ಸಮಯೊಡು ಕುಡ ಪ್ರಯತ್ನ ಮಲ್ಪುವ.',
+    'apiError.cancelled': 'ರದ್ದ್ ಆಂಡ್.',
+    'apiError.rejected': 'ಕೋರಿಕೆ ತಿರಸ್ಕಾರ ಆಂಡ್.',
+    'apiError.server': 'ಸರ್ವರ್‌ಡ್ ದಾದಾ ತಪ್ಪು ಆಂಡ್.',
+    'apiError.misconfigured': 'ಬ್ಯಾಕೆಂಡ್ URL ಸೆಟ್ ಆತಿಜಿ.',
+
+    'templates.title': 'ನೋಟ್ ಟೆಂಪ್ಲೇಟ್‌ಲು',
+    'templates.new': 'ಪೊಸ ಟೆಂಪ್ಲೇಟ್',
+    'templates.edit': 'ಟೆಂಪ್ಲೇಟ್ ಎಡಿಟ್ ಮಲ್ಪುಲೆ',
+    'templates.name': 'ಪುದರ್',
+    'templates.description': 'ವಿವರಣೆ',
+    'templates.scribeRole': 'ಸ್ಕ್ರೈಬ್ ಪನ್ಪಿನಾರ್...',
+    'templates.scribeRolePlaceholder': 'ಉದಾ. ಜೋಕುಲೆನ ವೈದ್ಯೆರೆಗ್ ಕ್ಲಿನಿಕಲ್ ಸ್ಕ್ರೈಬ್',
+    'templates.sections': 'ವಿಭಾಗೊಲು (ಕ್ರಮೊಡು)',
+    'templates.noSections': 'ವಿಭಾಗೊಲು ಇಜ್ಜಿ: ಮಾಡೆಲ್ ತನ್ನ ಶೀರ್ಷಿಕೆಲೆನ್ ತಾನೇ ಆಯ್ಕೆ ಮಲ್ಪುಂಡು.',
+    'templates.moveUp': 'ಮಿತ್ತ್ ಕೊಂಡೋಲೆ',
+    'templates.moveDown': 'ತಿರ್ತ್ ಕೊಂಡೋಲೆ',
+    'templates.removeSection': 'ವಿಭಾಗ ದೆಪ್ಪುಲೆ',
+    'templates.sectionPlaceholder': 'ಉದಾ. MEDICATIONS',
+    'templates.addSection': 'ಸೇರಾಲೆ',
+    'templates.instructions': 'ಎಕ್ಸ್‌ಟ್ರಾ ಸೂಚನೆಲು (ಬೋಡಾಂಡ)',
+    'templates.save': 'ಟೆಂಪ್ಲೇಟ್ ಸೇವ್ ಮಲ್ಪುಲೆ',
+    'templates.builtIn': 'ಬಿಲ್ಟ್-ಇನ್',
+    'templates.custom': 'ಕಸ್ಟಮ್',
+    'templates.duplicate': 'ನಕಲ್ ಮಲ್ಪುಲೆ',
+    'templates.copyName': '{name} (ನಕಲ್)',
+    'templates.modelHeadings': 'ಮಾಡೆಲ್ ಆಯ್ಕೆ ಮಲ್ತಿನ ಶೀರ್ಷಿಕೆಲು',
+
+    'security.title': 'ಭದ್ರತೆ',
+    'security.required':
+        'ಈರ್ ಸದಸ್ಯೆರಾದ್ ಇಪ್ಪುನ ವರ್ಕ್‌ಸ್ಪೇಸ್‌ದ ನೋಟ್‌ಲೆಗ್ ರಡ್ಡ್ ಅಂತದ ದೃಢೀಕರಣ ಬೋಡು. ಮುಂದುವರಿಯೆರೆ ತಿರ್ತ್ ಅಥೆಂಟಿಕೇಟರ್ ಆ್ಯಪ್ ಸೆಟ್ ಮಲ್ಪುಲೆ.',
+    'security.added': '{date} ಗ್ ಸೇರಾಯೆರ್',
+    'security.scan':
+        'Google Authenticator, 1Password ಅತ್ತಂಡ ಅಂಚಿನ ಆ್ಯಪ್‌ಡ್ ಈ ಕೋಡ್ ಸ್ಕ್ಯಾನ್ ಮಲ್ಪುಲೆ, ಬೊಕ್ಕ ಅವು ತೋಜಾವುನ 6 ಅಂಕಿದ ಕೋಡ್ ಕೊರ್ಲೆ.',
+    'security.qrCode': 'ಇರೆನ ಅಥೆಂಟಿಕೇಟರ್ ಆ್ಯಪ್‌ಗ್ QR ಕೋಡ್',
+    'security.enterKey': 'ಸ್ಕ್ಯಾನ್ ಆವಂದಾ? ಅಯಿತ ಬದಲ್ ಈ ಕೀ ಕೊರ್ಲೆ:',
+    'security.turnOn': 'ಆನ್ ಮಲ್ಪುಲೆ',
+    'security.appName': 'ಆ್ಯಪ್‌ದ ಪುದರ್',
+    'security.addAnother': 'ನನೊಂಜಿ ಆ್ಯಪ್ ಸೇರಾಲೆ',
+    'security.setUp': 'ಸೆಟ್ ಮಲ್ಪುಲೆ',
+    'security.password': 'ಪಾಸ್‌ವರ್ಡ್',
+    'security.changePassword': 'ಪಾಸ್‌ವರ್ಡ್ ಬದಲ್ ಮಲ್ಪುಲೆ',
+
+    'workspaces.switcher': 'ವರ್ಕ್‌ಸ್ಪೇಸ್',
+    'workspaces.personal': 'ಸ್ವಂತ',
+    'workspaces.manage': 'ನಿರ್ವಹಿಸಲೆ',
+    'workspaces.oneInvitation': '1 ಆಹ್ವಾನ',
+    'workspaces.invitations': '{count} ಆಹ್ವಾನೊಲು',
+    'workspaces.title': 'ವರ್ಕ್‌ಸ್ಪೇಸ್‌ಲು',
+    'workspaces.intro':
+        'ಇರೆನ ಕ್ಲಿನಿಕ್ ಅತ್ತಂಡ ಆಫೀಸ್‌ದ ಒಟ್ಟುಗು ನೋಟ್‌ಲೆನ್ ಹಂಚೊನುಲೆ. ಮಾಲಕೆರ್ ಬೊಕ್ಕ ವೈದ್ಯೆರ್ ರೆಕಾರ್ಡ್ ಬೊಕ್ಕ ಎಡಿಟ್ ಮಲ್ಪುವೆರ್; ಸಹಾಯಕೆರ್ ಬೊಕ್ಕ ಓದೆರೆ ಮಾತ್ರದ ಸದಸ್ಯೆರ್ ತೆರೆದ್ ಪ್ರಿಂಟ್ ಮಲ್ಪೊಲಿ.',
+    'workspaces.invitationsTitle': 'ಆಹ್ವಾನೊಲು',
+    'workspaces.invitationAs': '{workspace} · {role} ಆದ್',
+    'workspaces.aWorkspace': 'ಒಂಜಿ ವರ್ಕ್‌ಸ್ಪೇಸ್',
+    'workspaces.accept': 'ಒಪ್ಪುಲೆ',
+    'workspaces.decline': 'ನಿರಾಕರಿಸಲೆ',
+    'workspaces.leave': 'ವರ್ಕ್‌ಸ್ಪೇಸ್ ಬುಡ್ಲೆ',
+    'workspaces.new': 'ಪೊಸ ವರ್ಕ್‌ಸ್ಪೇಸ್',
+    'workspaces.name': 'ವರ್ಕ್‌ಸ್ಪೇಸ್‌ದ ಪುದರ್',
+    'workspaces.namePlaceholder': 'ಉದಾ. ಮಂಗಳೂರು ಫ್ಯಾಮಿಲಿ ಕ್ಲಿನಿಕ್',
+    'workspaces.creating': 'ಮಲ್ಪೊಂದುಂಡು...',
+    'workspaces.create': 'ಮಲ್ಪುಲೆ',
+    'workspaces.requireMfa': 'ರಡ್ಡ್ ಅಂತದ ದೃಢೀಕರಣ ಕಡ್ಡಾಯ ಮಲ್ಪುಲೆ',
+    'workspaces.requireMfaHelp': 'ಈ ವರ್ಕ್‌ಸ್ಪೇಸ್‌ದ ನೋಟ್‌ಲೆನ್ ತೂಯೆರೆ ಸದಸ್ಯೆರ್ ಅಥೆಂಟಿಕೇಟರ್ ಆ್ಯಪ್‌ದ ಕೋಡ್ ಕೊರೊಡು.',
+    'workspaces.unknownMember': 'ಗೊತ್ತಿಜ್ಜಂದಿನ ಸದಸ್ಯೆರ್',
+    'workspaces.you': '(ಈರ್)',
+    'workspaces.member': 'ಸದಸ್ಯೆರ್',
+    'workspaces.roleOf': '{member} ನ ಪಾತ್ರ',
+    'workspaces.invitedAs': '{email} · {role} ಆದ್ ಆಹ್ವಾನ ಮಲ್ತ್ಂಡ್',
+    'workspaces.withdraw': 'ಪಿರ ದೆಪ್ಪುಲೆ',
+    'workspaces.inviteByEmail': 'ಇಮೇಲ್‌ಡ್ದ್ ಆಹ್ವಾನ ಮಲ್ಪುಲೆ',
+    'workspaces.role': 'ಪಾತ್ರ',
+    'workspaces.invite': 'ಆಹ್ವಾನ ಮಲ್ಪುಲೆ',
+
+    'toast.loadMoreFailed': 'ನನ ನೋಟ್‌ಲೆನ್ ಲೋಡ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.maxLength': '⏱️ ಮಿತಿದ ಸಮಯ ಮುಗಿಂಡ್',
+    'toast.maxLengthBody': "ರೆಕಾರ್ಡಿಂಗ್ ತಾನಾಯೇ ನಿಂತ್ಂಡ್. ಸಾರಾಂಶಗ್ 'Process' ಒತ್ತ್‌ಲೆ.",
+    'toast.recordingStopped': '👍 ರೆಕಾರ್ಡಿಂಗ್ ನಿಂತ್ಂಡ್.',
+    'toast.recordingStoppedBody': "ಸಾರಾಂಶಗ್ 'Process' ಒತ್ತ್‌ಲೆ.",
+    'toast.recordingStarted': '🎙️ ರೆಕಾರ್ಡಿಂಗ್ ಸುರು ಆಂಡ್...',
+    'toast.recordingStartedBody': 'ಇರೆನ ಮೈಕ್ರೊಫೋನ್‌ಡ್ ಪಾತೆರ್ಲೆ.',
+    'toast.micUnavailable': 'ಮೈಕ್ರೊಫೋನ್ ತಿಕ್ಕುಜಿ',
+    'toast.micUnavailableBody':
+        'ಆಯ್ಕೆ ಮಲ್ತಿನ ಮೈಕ್ರೊಫೋನ್ ತೆರೆಯೆರೆ ಆಯಿಜಿ. ಬೇತೆ ಒಂಜಿನ್ ಆಯ್ಕೆ ಮಲ್ತ್‌ದ್ ಕುಡ ಪ್ರಯತ್ನ ಮಲ್ಪುಲೆ.',
+    'toast.summaryReady': '🎉 ಸಾರಾಂಶ ತಯಾರ್ ಆಂಡ್!',
+    'toast.summaryReadyBody': 'ಇರೆನ ಪೊಸ ನೋಟ್ ತಯಾರ್ ಉಂಡು.',
+    'toast.processingCancelled': 'ಪ್ರೋಸೆಸ್ ರದ್ದ್ ಆಂಡ್',
+    'toast.processingCancelledBody':
+        'ಇರ್ ಕುಡ ಪ್ರಯತ್ನ ಮಲ್ಪುನ ಮುಟ್ಟ ಅತ್ತಂಡ ದೆಪ್ಪುನ ಮುಟ್ಟ ರೆಕಾರ್ಡಿಂಗ್ ಬಾಕಿ ಉಪ್ಪುನ ಅಪ್‌ಲೋಡ್‌ಲೆಡ್ ಉಪ್ಪು.',
+    'toast.sessionExpired': 'ಸೆಷನ್ ಮುಗಿಂಡ್',
+    'toast.logIn': 'ಲಾಗಿನ್',
+    'toast.mfaRequired': 'ರಡ್ಡ್ ಅಂತದ ದೃಢೀಕರಣ ಬೋಡು',
+    'toast.mfaRequiredBody':
+        'ಇರೆನ ಅಥೆಂಟಿಕೇಟರ್ ಆ್ಯಪ್‌ದ ಕೋಡ್ ಕೊರ್ಲೆ, ಬೊಕ್ಕ ಬಾಕಿ ಉಪ್ಪುನ ಅಪ್‌ಲೋಡ್‌ಲೆಡ್ ರೆಕಾರ್ಡಿಂಗ್‌ನ್ ಕುಡ ಕಡಪುಡ್ಲೆ.',
+    'toast.verify': 'ದೃಢೀಕರಿಸಲೆ',
+    'toast.noSpeech': 'ಒವ್ವೇ ಪಾತೆರ ಕೇಂಡಿಜಿ',
+    'toast.noSpeechBody': 'ಸರಿಯಾಯಿನ ಮೈಕ್ರೊಫೋನ್ ಆಯ್ಕೆ ಆತ್ಂಡಾ ಪಂದ್ ತೂಲೆ, ಬೊಕ್ಕ ಕುಡ ರೆಕಾರ್ಡ್ ಮಲ್ಪುಲೆ.',
+    'toast.processFailed': 'ಆಡಿಯೋ ಪ್ರೋಸೆಸ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.noAudio': 'ಒವ್ವೇ ಆಡಿಯೋ ರೆಕಾರ್ಡ್ ಆತ್ಜಿ',
+    'toast.noAudioBody': 'ದಯದೀದ್ ಸುರುಕ್ ಆಡಿಯೋ ರೆಕಾರ್ಡ್ ಮಲ್ಪುಲೆ.',
+    'toast.saveRecordingFailed': 'ರೆಕಾರ್ಡಿಂಗ್ ಸೇವ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.storageUnavailable': 'ಲೋಕಲ್ ಸ್ಟೋರೇಜ್ ತಿಕ್ಕುಜಿ. ದಯದೀದ್ ಕುಡ ಪ್ರಯತ್ನ ಮಲ್ಪುಲೆ.',
+    'toast.saveFileFailed': 'ಫೈಲ್ ಸೇವ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.saveFileFailedBody': '{file}: ಲೋಕಲ್ ಸ್ಟೋರೇಜ್ ತಿಕ್ಕುಜಿ. ದಯದೀದ್ ಕುಡ ಪ್ರಯತ್ನ ಮಲ್ಪುಲೆ.',
+    'toast.savedOffline': '📴 ಆಫ್‌ಲೈನ್‌ಡ್ ಸೇವ್ ಆಂಡ್',
+    'toast.savedOfflineRecording': 'ಇರ್ ಪಿರ ಆನ್‌ಲೈನ್ ಬತ್ತಿನಗ ರೆಕಾರ್ಡಿಂಗ್ ತಾನಾಯೇ ಅಪ್‌ಲೋಡ್ ಆವು.',
+    'toast.savedOfflineFiles': 'ಇರ್ ಪಿರ ಆನ್‌ಲೈನ್ ಬತ್ತಿನಗ ಫೈಲ್‌ಲು ತಾನಾಯೇ ಅಪ್‌ಲೋಡ್ ಆವು.',
+    'toast.updateNoteFailed': 'ನೋಟ್ ಬದಲ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.undo': 'ರದ್ದ್ ಮಲ್ಪುಲೆ',
+    'toast.undoFailed': 'ರದ್ದ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.moved.notes': 'ನೋಟ್ ಪಿರ ಬತ್ತ್ಂಡ್',
+    'toast.moved.archived': 'ನೋಟ್ ಆರ್ಕೈವ್ ಆಂಡ್',
+    'toast.moved.trash': 'ನೋಟ್ ಟ್ರ್ಯಾಶ್‌ಗ್ ಪೋಂಡ್. {days} ದಿನೊದ ಬೊಕ್ಕ ಅವು ಶಾಶ್ವತವಾದ್ ಮಾಜುಂಡು.',
+    'toast.noteDeleted': 'ನೋಟ್ ಮಾಜಾಂಡ್',
+    'toast.deleteFailed': 'ನೋಟ್ ಮಾಜಾವರೆ ಆಯಿಜಿ',
+    'toast.copied': '{label} ಕ್ಲಿಪ್‌ಬೋರ್ಡ್‌ಗ್ ಕಾಪಿ ಆಂಡ್',
+    'toast.copyFailed': 'ಕಾಪಿ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.copyBlocked': 'ಇರೆನ ಬ್ರೌಸರ್ ಕ್ಲಿಪ್‌ಬೋರ್ಡ್‌ನ್ ತಡೆತ್ಂಡ್.',
+    'toast.savedVersion': 'ಆವೃತ್ತಿ {version} ಆದ್ ಸೇವ್ ಆಂಡ್',
+    'toast.restoredVersion': 'ಆವೃತ್ತಿ {from} ನ್ ಆವೃತ್ತಿ {version} ಆದ್ ಪಿರ ಕನತ್ಂಡ್',
+    'toast.saveNoteFailed': 'ನೋಟ್ ಸೇವ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.saveSummaryFailed': 'ಸಾರಾಂಶ ಸೇವ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.transcriptSaved': 'ಟ್ರಾನ್ಸ್‌ಕ್ರಿಪ್ಟ್ ಆವೃತ್ತಿ {version} ಆದ್ ಸೇವ್ ಆಂಡ್',
+    'toast.transcriptRestored': 'ಟ್ರಾನ್ಸ್‌ಕ್ರಿಪ್ಟ್ ಆವೃತ್ತಿ {from} ನ್ ಆವೃತ್ತಿ {version} ಆದ್ ಪಿರ ಕನತ್ಂಡ್',
+    'toast.saveTranscriptFailed': 'ಟ್ರಾನ್ಸ್‌ಕ್ರಿಪ್ಟ್ ಸೇವ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.recordingLoading': 'ರೆಕಾರ್ಡಿಂಗ್ ನನಲಾ ಲೋಡ್ ಆವೊಂದುಂಡು',
+    'toast.recordingLoadingBody': 'ಎಲ್ಯ ಪೊರ್ತುದ ಬೊಕ್ಕ ಕುಡ ಪ್ರಯತ್ನ ಮಲ್ಪುಲೆ.',
+    'toast.exportFailed': '{format} ಆದ್ ಎಕ್ಸ್‌ಪೋರ್ಟ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.clientAdded': 'ಕ್ಲೈಂಟ್ ಸೇರ್ಂಡ್',
+    'toast.addClientFailed': 'ಕ್ಲೈಂಟ್ ಸೇರಾವರೆ ಆಯಿಜಿ',
+    'toast.linkCopied': 'ಲಿಂಕ್ ಕ್ಲಿಪ್‌ಬೋರ್ಡ್‌ಗ್ ಕಾಪಿ ಆಂಡ್',
+    'toast.loadLinksFailed': 'ಶೇರ್ ಲಿಂಕ್‌ಲೆನ್ ಲೋಡ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.createLinkFailed': 'ಲಿಂಕ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.linkRevoked': 'ಲಿಂಕ್ ರದ್ದ್ ಆಂಡ್',
+    'toast.linkRevokedBody': 'ಇತ್ತೆ ಅವೆನ್ ತೆರೆಯುನಕ್ಲೆಗ್ ಅವು ತಿಕ್ಕುಜಿ ಪಂದ್ ತೋಜುಂಡು.',
+    'toast.revokeLinkFailed': 'ಲಿಂಕ್ ರದ್ದ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.imageFailed': 'ಪಟೊನು ಉಪಯೋಗ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.settingsSaved': 'ಸೆಟ್ಟಿಂಗ್ಸ್ ಸೇವ್ ಆಂಡ್',
+    'toast.saveSettingsFailed': 'ಸೆಟ್ಟಿಂಗ್ಸ್ ಸೇವ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.templateSaved': 'ಟೆಂಪ್ಲೇಟ್ ಸೇವ್ ಆಂಡ್',
+    'toast.saveTemplateFailed': 'ಟೆಂಪ್ಲೇಟ್ ಸೇವ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.templateDeleted': 'ಟೆಂಪ್ಲೇಟ್ ಮಾಜಾಂಡ್',
+    'toast.deleteTemplateFailed': 'ಟೆಂಪ್ಲೇಟ್ ಮಾಜಾವರೆ ಆಯಿಜಿ',
+    'toast.mfaSetupFailed': 'ಸೆಟಪ್ ಸುರು ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.mfaOn': 'ರಡ್ಡ್ ಅಂತದ ದೃಢೀಕರಣ ಆನ್ ಉಂಡು',
+    'toast.wrongCode': 'ಆ ಕೋಡ್ ಸರಿ ಇಜ್ಜಿ',
+    'toast.wrongCodeBody': 'ಆ್ಯಪ್‌ಡ್ ಇತ್ತೆ ಉಪ್ಪುನ ಕೋಡ್ ಕೊರ್ಲೆ.',
+    'toast.appRemoved': 'ಅಥೆಂಟಿಕೇಟರ್ ಆ್ಯಪ್ ದೆತ್ತ್ಂಡ್',
+    'toast.removeAppFailed': 'ಆ್ಯಪ್ ದೆಪ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.loadMembersFailed': 'ಸದಸ್ಯೆರೆನ್ ಲೋಡ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.invitationCreated': 'ಆಹ್ವಾನ ಮಲ್ತ್ಂಡ್',
+    'toast.invitationCreatedBody': 'ಲಾಗಿನ್ ಆಯಿ ಬೊಕ್ಕ {email} ವರ್ಕ್‌ಸ್ಪೇಸ್‌ಲೆಡ್ ಅವೆನ್ ತೂಪೆರ್.',
+    'toast.inviteFailed': 'ಆಹ್ವಾನ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.changeRoleFailed': 'ಪಾತ್ರ ಬದಲ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.removeMemberFailed': 'ಸದಸ್ಯೆರೆನ್ ದೆಪ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.withdrawInvitationFailed': 'ಆಹ್ವಾನ ಪಿರ ಪಡೆಯೆರೆ ಆಯಿಜಿ',
+    'toast.requireMfaFailed': 'ರಡ್ಡ್ ಅಂತದ ದೃಢೀಕರಣದ ಸೆಟ್ಟಿಂಗ್ ಬದಲ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.workspaceCreated': 'ವರ್ಕ್‌ಸ್ಪೇಸ್ ಮಲ್ತ್ಂಡ್',
+    'toast.workspaceCreatedBody': 'ಇರೆನ ತಂಡೊನು {name} ಗ್ ಆಹ್ವಾನ ಮಲ್ಪುಲೆ.',
+    'toast.createWorkspaceFailed': 'ವರ್ಕ್‌ಸ್ಪೇಸ್ ಮಲ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.joinedWorkspace': '{name} ಗ್ ಸೇರ್ಯರ್',
+    'toast.acceptInvitationFailed': 'ಆಹ್ವಾನ ಒಪ್ಪೆರೆ ಆಯಿಜಿ',
+    'toast.declineInvitationFailed': 'ಆಹ್ವಾನ ಬೊಡ್ಚಿ ಪನರೆ ಆಯಿಜಿ',
+    'toast.leftWorkspace': '{name} ಡ್ದ್ ಪಿದಾಯಿ ಬತ್ತರ್',
+    'toast.leaveWorkspaceFailed': 'ವರ್ಕ್‌ಸ್ಪೇಸ್‌ಡ್ದ್ ಪಿದಾಯಿ ಬರೆರೆ ಆಯಿಜಿ',
+    'toast.transcriptCopied': 'ಟ್ರಾನ್ಸ್‌ಕ್ರಿಪ್ಟ್ ಕ್ಲಿಪ್‌ಬೋರ್ಡ್‌ಗ್ ಕಾಪಿ ಆಂಡ್',
+    'toast.summaryCopied': 'ಸಾರಾಂಶ ಕ್ಲಿಪ್‌ಬೋರ್ಡ್‌ಗ್ ಕಾಪಿ ಆಂಡ್',
+}
@@ -0,0 +1,30 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Source recordings live in a private bucket under <user_id>/ and are played through signed URLs
+export const AUDIO_BUCKET = 'note-audio'
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+// Start a little before the estimated point so the passage isn't cut off
+const SEEK_LEAD_IN_SECONDS = 2
+
+export const createAudioUrl = async (supabase: SupabaseClient, path: string) => {
+    const { data, error } = await supabase.storage.from(AUDIO_BUCKET).createSignedUrl(path, SIGNED_URL_TTL_SECONDS)
+    if (error) throw error
+    return data.signedUrl
+}
+
+// Chrome reports Infinity as the duration of MediaRecorder webm files until it has read
+// to the end. Seeking far past the end makes it work out the real duration.
+export const resolveDuration = (audio: HTMLAudioElement) => {
+    if (audio.duration !== Infinity) return
+    audio.addEventListener('timeupdate', () => { audio.currentTime = 0 }, { once: true })
+    audio.currentTime = Number.MAX_SAFE_INTEGER
+}
+
+// Transcripts have no timestamps, so a position in the text maps to the same fraction of the audio.
+// Good enough to land within a few seconds of a passage in a steady conversation.
+export const seekToFraction = (audio: HTMLAudioElement, fraction: number) => {
+    if (!Number.isFinite(audio.duration)) return false
+    audio.currentTime = Math.max(Math.min(Math.max(fraction, 0), 1) * audio.duration - SEEK_LEAD_IN_SECONDS, 0)
+    void audio.play()
+    return true
+}
@@ -0,0 +1,213 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { DetectedLanguage, Summary } from '@/lib/types'
+
+// Columns the UI needs. Avoids pulling the search_vector column over the wire.
+export const SUMMARY_COLUMNS = 'id, created_at, client_name, client_id, template_id, workspace_id, original_transcript, structured_summary, summary_language, spoken_language_hint, detected_languages, audio_path, audio_expires_at, archived_at, deleted_at'
+
+// A row as sent by Supabase Realtime (every column), trimmed to the columns above
+export const noteFromRow = (row: Record<string, unknown>) =>
+    Object.fromEntries(SUMMARY_COLUMNS.split(', ').map((column) => [column, row[column] ?? null])) as Summary
+
+export type NoteSort = 'newest' | 'oldest' | 'client'
+// The main list, archived notes, or the trash
+export type NoteView = 'notes' | 'archived' | 'trash'
+
+// Filters for the "Past Notes" list. Mirrored in the URL query string so searches can be bookmarked.
+export type NoteFilters = {
+    q: string
+    from: string // yyyy-mm-dd, inclusive
+    to: string // yyyy-mm-dd, inclusive
+    // Notes in which this language was heard; '' for any
+    language: DetectedLanguage | ''
+    sort: NoteSort
+    view: NoteView
+}
+
+export const emptyFilters: NoteFilters = { q: '', from: '', to: '', language: '', sort: 'newest', view: 'notes' }
+
+// Choices in the language filter; each is labelled with its language.<code> message
+export const DETECTED_LANGUAGES: DetectedLanguage[] = ['en', 'kn', 'hi', 'tcy', 'other']
+
+const SORTS: NoteSort[] = ['newest', 'oldest', 'client']
+const VIEWS: NoteView[] = ['notes', 'archived', 'trash']
+
+// Days a note stays in the trash before the backend deletes it
+export const TRASH_RETENTION_DAYS = 30
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+export const filtersFromParams = (params: URLSearchParams): NoteFilters => {
+    const sort = params.get('sort') as NoteSort
+    const view = params.get('view') as NoteView
+    const language = params.get('lang') as DetectedLanguage
+    const from = params.get('from') ?? ''
+    const to = params.get('to') ?? ''
+    return {
+        q: params.get('q') ?? '',
+        from: DATE_RE.test(from) ? from : '',
+        to: DATE_RE.test(to) ? to : '',
+        language: DETECTED_LANGUAGES.includes(language) ? language : '',
+        sort: SORTS.includes(sort) ? sort : 'newest',
+        view: VIEWS.includes(view) ? view : 'notes',
+    }
+}
+
+// Only non-default values end up in the URL
+export const filtersToParams = (filters: NoteFilters) => {
+    const params = new URLSearchParams()
+    if (filters.q.trim()) params.set('q', filters.q.trim())
+    if (filters.from) params.set('from', filters.from)
+    if (filters.to) params.set('to', filters.to)
+    if (filters.language) params.set('lang', filters.language)
+    if (filters.sort !== 'newest') params.set('sort', filters.sort)
+    if (filters.view !== 'notes') params.set('view', filters.view)
+    return params
+}
+
+export const hasActiveFilters = (filters: NoteFilters) =>
+    Boolean(filters.q.trim() || filters.from || filters.to || filters.language)
+
+// Plain words from a search query, for highlighting. Drops operators and negated terms.
+export const searchTerms = (q: string) =>
+    q
+        .replace(/"/g, ' ')
+        .split(/\s+/)
+        .filter((term) => term && !term.startsWith('-') && term.toLowerCase() !== 'or')
+
+// A short window of text around the first matching term, or null if nothing matches
+export const snippetAround = (text: string, terms: string[], radius = 80) => {
+    const lower = text.toLowerCase()
+    const hit = terms
+        .map((term) => lower.indexOf(term.toLowerCase()))
+        .filter((index) => index >= 0)
+        .sort((a, b) => a - b)[0]
+    if (hit === undefined) return null
+
+    const start = Math.max(hit - radius, 0)
+    const end = Math.min(hit + radius, text.length)
+    return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`
+}
+
+const nextDay = (date: string) => {
+    const d = new Date(`${date}T00:00:00`)
+    d.setDate(d.getDate() + 1)
+    return d.toISOString()
+}
+
+export const NOTES_PAGE_SIZE = 20
+
+// Position of the last note on a page. Opaque to callers; passed back to load the next page.
+type NoteCursor = Pick<Summary, 'id' | 'created_at' | 'client_name'>
+
+export type NotesPage = {
+    notes: Summary[]
+    nextCursor: string | null
+}
+
+const encodeCursor = (note: Summary) => {
+    const cursor: NoteCursor = { id: note.id, created_at: note.created_at, client_name: note.client_name }
+    return btoa(encodeURIComponent(JSON.stringify(cursor)))
+}
+
+const decodeCursor = (cursor: string): NoteCursor | null => {
+    try {
+        return JSON.parse(decodeURIComponent(atob(cursor)))
+    } catch {
+        return null
+    }
+}
+
+// PostgREST filter values containing commas, dots or parentheses must be double-quoted
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+
+// Keyset condition for "rows after the cursor" in the given sort order. Ties on the
+// sort column are broken by created_at and then id, which are always part of the order.
+const afterCursor = (cursor: NoteCursor, sort: NoteSort) => {
+    const at = quote(cursor.created_at)
+    const id = quote(cursor.id)
+    if (sort !== 'client') {
+        const op = sort === 'oldest' ? 'gt' : 'lt'
+        return `created_at.${op}.${at},and(created_at.eq.${at},id.${op}.${id})`
+    }
+    // Client names sort A-Z with unnamed notes last, newest first within a name
+    if (cursor.client_name === null) {
+        return `and(client_name.is.null,created_at.lt.${at}),and(client_name.is.null,created_at.eq.${at},id.lt.${id})`
+    }
+    const name = quote(cursor.client_name)
+    return [
+        `client_name.gt.${name}`,
+        'client_name.is.null',
+        `and(client_name.eq.${name},created_at.lt.${at})`,
+        `and(client_name.eq.${name},created_at.eq.${at},id.lt.${id})`,
+    ].join(',')
+}
+
+// One page of notes matching the filters, starting after `cursor` (or from the top).
+// With a workspace, its notes by every member; without one, the user's personal notes.
+export const fetchNotesPage = async (
+    supabase: SupabaseClient,
+    filters: NoteFilters = emptyFilters,
+    workspaceId: string | null = null,
+    cursor: string | null = null,
+    limit = NOTES_PAGE_SIZE
+): Promise<NotesPage> => {
+    let query = supabase.from('summaries').select(SUMMARY_COLUMNS)
+    query = workspaceId ? query.eq('workspace_id', workspaceId) : query.is('workspace_id', null)
+
+    if (filters.view === 'trash') {
+        query = query.not('deleted_at', 'is', null)
+    } else {
+        query = query.is('deleted_at', null)
+        query = filters.view === 'archived' ? query.not('archived_at', 'is', null) : query.is('archived_at', null)
+    }
+
+    if (filters.q.trim()) {
+        query = query.textSearch('search_vector', filters.q.trim(), { type: 'websearch', config: 'simple' })
+    }
+    // Dates are picked in local time; the range covers the whole of the "to" day
+    if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString())
+    if (filters.to) query = query.lt('created_at', nextDay(filters.to))
+    if (filters.language) query = query.contains('detected_languages', [filters.language])
+
+    const position = cursor ? decodeCursor(cursor) : null
+    if (position) query = query.or(afterCursor(position, filters.sort))
+
+    const ascending = filters.sort === 'oldest'
+    if (filters.sort === 'client') {
+        query = query.order('client_name', { ascending: true, nullsFirst: false })
+    }
+    query = query
+        .order('created_at', { ascending })
+        .order('id', { ascending })
+        // One extra row tells us whether there is another page
+        .limit(limit + 1)
+
+    const { data, error } = await query
+    if (error) throw error
+
+    const rows = data as Summary[]
+    const notes = rows.slice(0, limit)
+    return {
+        notes,
+        nextCursor: rows.length > limit ? encodeCursor(notes[notes.length - 1]) : null,
+    }
+}
+
+// Whether a freshly created note belongs at the top of the list as currently filtered
+export const isNewNoteVisible = (filters: NoteFilters) =>
+    filters.sort === 'newest' && filters.view === 'notes' && !hasActiveFilters(filters)
+
+export const noteView = (note: Pick<Summary, 'archived_at' | 'deleted_at'>): NoteView =>
+    note.deleted_at ? 'trash' : note.archived_at ? 'archived' : 'notes'
+
+export type NoteState = Partial<Pick<Summary, 'archived_at' | 'deleted_at'>>
+
+// Archives, trashes or restores a note. Passing a note's old values back undoes the change.
+export const updateNoteState = async (supabase: SupabaseClient, id: string, state: NoteState) => {
+    const { data, error } = await supabase.from('summaries').update(state).eq('id', id).select(SUMMARY_COLUMNS).single()
+    if (error) throw error
+    return data as Summary
+}
+
+// When a trashed note will be deleted for good
+export const purgeDate = (deletedAt: string) =>
+    new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000)
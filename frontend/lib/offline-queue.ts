@@ -0,0 +1,167 @@
+// Local queue of recordings waiting to be processed by the backend.
+// Recordings are kept in IndexedDB so they survive failed uploads, reloads
+// and dropped connections until the backend has confirmed them.
+
+import type { RecordingLanguage, SummaryLanguage } from '@/lib/types'
+
+export type QueueStatus = 'pending' | 'uploading' | 'failed'
+
+export type QueuedRecording = {
+    id: string
+    created_at: string
+    // Who recorded it. Only that user's session uploads or lists it, so on a shared machine a
+    // recording never ends up under whoever signs in next. Entries queued before this was
+    // stored have no owner and are left alone.
+    user_id?: string
+    client_id: string | null
+    client_name: string
+    template_id: string | null
+    // Workspace the note goes into; null (or missing, on older entries) for a personal note
+    workspace_id?: string | null
+    // Transcription hint chosen when recording; missing on older entries, which let the model detect it
+    language?: RecordingLanguage
+    // Language to write the summary in; missing on older entries, which get English
+    output_language?: SummaryLanguage
+    audio: Blob
+    file_name: string
+    // Chunked upload on the backend holding (part of) this audio. Missing on entries queued before chunked uploads.
+    upload_id?: string | null
+    // Backend job processing the upload. Kept so a reopened tab follows the job instead of starting another.
+    job_id?: string | null
+    status: QueueStatus
+    attempts: number
+    last_error: string | null
+    // When the next automatic retry is due (ms since epoch). null = manual retry only.
+    next_attempt_at: number | null
+}
+
+const DB_NAME = 'janscribe'
+const DB_VERSION = 1
+const STORE = 'recordings'
+
+// Thrown by an upload function to tell the queue whether trying again later can help.
+// Network drops and server errors are retryable; a rejected recording (e.g. silent audio) is not.
+export class UploadError extends Error {
+    retryable: boolean
+
+    constructor(message: string, retryable: boolean) {
+        super(message)
+        this.name = 'UploadError'
+        this.retryable = retryable
+    }
+}
+
+const BASE_RETRY_DELAY_MS = 5_000
+const MAX_RETRY_DELAY_MS = 5 * 60_000
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION)
+            request.onupgradeneeded = () => {
+                const db = request.result
+                if (!db.objectStoreNames.contains(STORE)) {
+                    db.createObjectStore(STORE, { keyPath: 'id' })
+                }
+            }
+            request.onsuccess = () => resolve(request.result)
+            request.onerror = () => {
+                dbPromise = null
+                reject(request.error)
+            }
+        })
+    }
+    return dbPromise
+}
+
+// Runs a single request against the recordings store and resolves with its result.
+const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDb()
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE, mode)
+        const request = run(tx.objectStore(STORE))
+        tx.oncomplete = () => resolve(request.result)
+        tx.onerror = () => reject(tx.error)
+        tx.onabort = () => reject(tx.error)
+    })
+}
+
+// Exponential backoff with jitter: 5s, 10s, 20s ... capped at 5 minutes.
+export const retryDelay = (attempts: number) => {
+    const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS)
+    return Math.round(delay * (0.8 + Math.random() * 0.4))
+}
+
+// The client the recording is for. Name is kept alongside the ID for display while offline.
+export type QueuedClient = { id: string | null; name: string }
+
+export type EnqueueOptions = {
+    templateId?: string | null
+    workspaceId?: string | null
+    language?: RecordingLanguage
+    outputLanguage?: SummaryLanguage
+    fileName?: string
+    // Chunked upload already holding (part of) the audio
+    uploadId?: string | null
+}
+
+export const enqueueRecording = async (
+    userId: string,
+    audio: Blob,
+    client: QueuedClient,
+    {
+        templateId = null,
+        workspaceId = null,
+        language = 'auto',
+        outputLanguage = 'en',
+        fileName = 'recording.webm',
+        uploadId = null,
+    }: EnqueueOptions = {}
+): Promise<QueuedRecording> => {
+    const entry: QueuedRecording = {
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+        user_id: userId,
+        client_id: client.id,
+        client_name: client.name,
+        template_id: templateId,
+        workspace_id: workspaceId,
+        language,
+        output_language: outputLanguage,
+        audio,
+        file_name: fileName,
+        upload_id: uploadId,
+        status: 'pending',
+        attempts: 0,
+        last_error: null,
+        next_attempt_at: Date.now(),
+    }
+    await withStore('readwrite', (store) => store.put(entry))
+    return entry
+}
+
+// The recordings queued by one user, oldest first
+export const listQueuedRecordings = async (userId: string): Promise<QueuedRecording[]> => {
+    const entries = await withStore<QueuedRecording[]>('readonly', (store) => store.getAll())
+    return entries.filter((e) => e.user_id === userId).sort((a, b) => a.created_at.localeCompare(b.created_at))
+}
+
+export const updateQueuedRecording = async (
+    id: string,
+    changes: Partial<Omit<QueuedRecording, 'id'>>
+): Promise<QueuedRecording | null> => {
+    const current = await withStore<QueuedRecording | undefined>('readonly', (store) => store.get(id))
+    if (!current) return null
+    const updated = { ...current, ...changes }
+    await withStore('readwrite', (store) => store.put(updated))
+    return updated
+}
+
+export const removeQueuedRecording = async (id: string) => {
+    await withStore('readwrite', (store) => store.delete(id))
+}
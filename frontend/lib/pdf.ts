@@ -0,0 +1,226 @@
+import { jsPDF } from 'jspdf'
+import { formatDate } from '@/lib/dates'
+import { parseOrderedSummary } from '@/lib/sections'
+import type { DateFormat } from '@/lib/types'
+
+// Branding printed on every exported note. Anything left out falls back to plain JanScribe output.
+export type PdfLetterhead = {
+    practiceName: string
+    // Address, phone, registration number etc. printed under the practice name
+    lines?: string[]
+    // PNG/JPEG data URL, e.g. from FileReader.readAsDataURL
+    logoDataUrl?: string
+}
+
+export type PdfSignature = {
+    name: string
+    title?: string
+    registration?: string
+    imageDataUrl?: string
+}
+
+export type PdfNote = {
+    clientName?: string | null
+    noteDate: Date | string
+    summary: string
+}
+
+export type PdfOptions = {
+    letterhead?: PdfLetterhead
+    signature?: PdfSignature
+    title?: string
+    // Section headings from the note's template, in the order they should print
+    sectionOrder?: string[]
+    dateFormat?: DateFormat
+    // Intl locale for the note date when the browser prints the note. jsPDF's fonts only draw
+    // Latin script, so renderNotePdf keeps the browser default.
+    locale?: string
+}
+
+export const defaultLetterhead: PdfLetterhead = {
+    practiceName: process.env.NEXT_PUBLIC_PRACTICE_NAME || 'JanScribe',
+}
+
+// A4 in millimetres
+const PAGE_WIDTH = 210
+const PAGE_HEIGHT = 297
+const MARGIN_X = 20
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_X * 2
+const HEADER_BOTTOM = 38
+const FOOTER_TOP = PAGE_HEIGHT - 18
+const BODY_LINE_HEIGHT = 5.5
+const HEADING_LINE_HEIGHT = 7
+const SIGNATURE_BLOCK_HEIGHT = 40
+
+// Spelled out ("31 January 2026") unless the user picked a numeric format
+export const formatNoteDate = (date: Date | string, format: DateFormat = 'locale', locale?: string) =>
+    format === 'locale'
+        ? new Date(date).toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric' })
+        : formatDate(date, format)
+
+const drawHeader = (doc: jsPDF, letterhead: PdfLetterhead) => {
+    let textX = MARGIN_X
+    if (letterhead.logoDataUrl) {
+        try {
+            doc.addImage(letterhead.logoDataUrl, MARGIN_X, 10, 18, 18)
+            textX = MARGIN_X + 22
+        } catch {
+            // An unreadable logo shouldn't stop the export
+        }
+    }
+
+    doc.setFont('Helvetica', 'bold')
+    doc.setFontSize(14)
+    doc.setTextColor(20, 20, 20)
+    doc.text(letterhead.practiceName, textX, 16)
+
+    doc.setFont('Helvetica', 'normal')
+    doc.setFontSize(8.5)
+    doc.setTextColor(90, 90, 90)
+    const addressLines = letterhead.lines ?? []
+    addressLines.slice(0, 3).forEach((line, i) => {
+        doc.text(line, textX, 21 + i * 4)
+    })
+
+    doc.setDrawColor(37, 99, 235)
+    doc.setLineWidth(0.6)
+    doc.line(MARGIN_X, HEADER_BOTTOM - 4, PAGE_WIDTH - MARGIN_X, HEADER_BOTTOM - 4)
+}
+
+const drawFooter = (doc: jsPDF, letterhead: PdfLetterhead, noteDate: string, page: number, pageCount: number) => {
+    doc.setDrawColor(200, 200, 200)
+    doc.setLineWidth(0.2)
+    doc.line(MARGIN_X, FOOTER_TOP, PAGE_WIDTH - MARGIN_X, FOOTER_TOP)
+
+    doc.setFont('Helvetica', 'normal')
+    doc.setFontSize(8.5)
+    doc.setTextColor(110, 110, 110)
+    doc.text(`${letterhead.practiceName} · Note date: ${noteDate}`, MARGIN_X, FOOTER_TOP + 6)
+    doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN_X, FOOTER_TOP + 6, { align: 'right' })
+}
+
+const drawSignature = (doc: jsPDF, signature: PdfSignature, y: number) => {
+    let lineY = y + 18
+    if (signature.imageDataUrl) {
+        try {
+            doc.addImage(signature.imageDataUrl, MARGIN_X, y, 45, 15)
+        } catch {
+            // Fall back to a blank signature line
+        }
+    } else {
+        lineY = y + 12
+    }
+
+    doc.setDrawColor(60, 60, 60)
+    doc.setLineWidth(0.3)
+    doc.line(MARGIN_X, lineY, MARGIN_X + 70, lineY)
+
+    doc.setTextColor(20, 20, 20)
+    doc.setFont('Helvetica', 'bold')
+    doc.setFontSize(10)
+    doc.text(signature.name, MARGIN_X, lineY + 5)
+    doc.setFont('Helvetica', 'normal')
+    doc.setFontSize(9)
+    const details = [signature.title, signature.registration].filter(Boolean) as string[]
+    details.forEach((line, i) => doc.text(line, MARGIN_X, lineY + 10 + i * 4.5))
+}
+
+// Devanagari and Kannada script, which the built-in Helvetica font has no glyphs for
+const INDIC_SCRIPT = /[\u0900-\u097F\u0C80-\u0CFF]/
+
+// Notes with Indic script anywhere, the client's name included, are printed through printNote instead
+export const needsPrintedPdf = (note: Pick<PdfNote, 'clientName' | 'summary'>) =>
+    INDIC_SCRIPT.test(note.summary) || INDIC_SCRIPT.test(note.clientName ?? '')
+
+// Lays the note out over as many A4 pages as it needs, with letterhead, footer and signature.
+export const renderNotePdf = (note: PdfNote, options: PdfOptions = {}): jsPDF => {
+    if (needsPrintedPdf(note)) {
+        throw new Error('This note has Kannada or Devanagari text. Print it and save as PDF instead.')
+    }
+    const letterhead = options.letterhead ?? defaultLetterhead
+    const noteDate = formatNoteDate(note.noteDate, options.dateFormat)
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' })
+
+    let y = HEADER_BOTTOM + 4
+    const newPage = () => {
+        doc.addPage()
+        y = HEADER_BOTTOM + 4
+    }
+    const ensureSpace = (height: number) => {
+        if (y + height > FOOTER_TOP - 4) newPage()
+    }
+
+    // --- Title block ---
+    doc.setTextColor(20, 20, 20)
+    doc.setFont('Helvetica', 'bold')
+    doc.setFontSize(16)
+    doc.text(options.title ?? 'Consultation Summary', MARGIN_X, y)
+    y += 8
+    doc.setFont('Helvetica', 'normal')
+    doc.setFontSize(10.5)
+    doc.text(`Client: ${note.clientName || 'N/A'}`, MARGIN_X, y)
+    doc.text(`Date: ${noteDate}`, PAGE_WIDTH - MARGIN_X, y, { align: 'right' })
+    y += 10
+
+    // --- Body ---
+    const writeParagraphs = (text: string) => {
+        doc.setFont('Helvetica', 'normal')
+        doc.setFontSize(10.5)
+        doc.setTextColor(30, 30, 30)
+        for (const paragraph of text.split('\n')) {
+            if (!paragraph.trim()) {
+                y += BODY_LINE_HEIGHT / 2
+                continue
+            }
+            const lines: string[] = doc.splitTextToSize(paragraph.trim(), CONTENT_WIDTH)
+            for (const line of lines) {
+                ensureSpace(BODY_LINE_HEIGHT)
+                doc.text(line, MARGIN_X, y)
+                y += BODY_LINE_HEIGHT
+            }
+        }
+    }
+
+    const { sections } = parseOrderedSummary(note.summary, options.sectionOrder)
+    sections.forEach((section, i) => {
+        if (section.heading) {
+            // Keep a heading on the same page as at least two lines of its content
+            ensureSpace(HEADING_LINE_HEIGHT + BODY_LINE_HEIGHT * 2)
+            if (i > 0) y += 3
+            doc.setFont('Helvetica', 'bold')
+            doc.setFontSize(11.5)
+            doc.setTextColor(37, 99, 235)
+            doc.text(section.heading, MARGIN_X, y)
+            y += HEADING_LINE_HEIGHT
+        }
+        writeParagraphs(section.body)
+    })
+
+    // --- Signature ---
+    if (options.signature?.name) {
+        y += 8
+        ensureSpace(SIGNATURE_BLOCK_HEIGHT)
+        drawSignature(doc, options.signature, y)
+    }
+
+    // Header and footer go on last, once the total page count is known
+    const pageCount = doc.getNumberOfPages()
+    for (let page = 1; page <= pageCount; page++) {
+        doc.setPage(page)
+        drawHeader(doc, letterhead)
+        drawFooter(doc, letterhead, noteDate, page, pageCount)
+    }
+
+    return doc
+}
+
+// e.g. Summary_John_Doe_2025-01-31.pdf
+export const noteFileName = (note: Omit<PdfNote, 'summary'>, prefix = 'Summary', extension = 'pdf') => {
+    const name = (note.clientName || 'JanScribe').replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '_')
+    const date = new Date(note.noteDate).toISOString().slice(0, 10)
+    return `${prefix}_${name || 'JanScribe'}_${date}.${extension}`
+}
+
+export const downloadNotePdf = (note: PdfNote, options?: PdfOptions) => {
+    renderNotePdf(note, options).save(noteFileName(note))
+}
@@ -0,0 +1,56 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ExportOptions } from '@/lib/exporters'
+import type { DateFormat, RecordingLanguage, ThemePreference, UserPreferences } from '@/lib/types'
+
+// What a user gets before they first save /settings
+export const DEFAULT_PREFERENCES: UserPreferences = {
+    theme: 'system',
+    default_template_id: null,
+    recording_language: 'auto',
+    letterhead: null,
+    signature: null,
+    date_format: 'locale',
+    audio_retention_days: null,
+}
+
+// Each is labelled with its settings.theme.<theme> message
+export const THEMES: ThemePreference[] = ['system', 'light', 'dark']
+
+// Spoken-language choices for recordings; each is labelled with its language.<code> message
+export const RECORDING_LANGUAGES: RecordingLanguage[] = ['auto', 'en', 'kn', 'hi', 'tcy', 'mixed']
+
+// Each is labelled with its settings.dateFormat.<format> message
+export const DATE_FORMATS: DateFormat[] = ['locale', 'dmy', 'mdy', 'iso']
+
+// Choices for keeping recordings of new notes; 0 keeps them indefinitely
+export const AUDIO_RETENTION_OPTIONS_DAYS = [7, 30, 90, 365, 0]
+
+const PREFERENCE_COLUMNS = Object.keys(DEFAULT_PREFERENCES).join(', ')
+
+export const fetchPreferences = async (supabase: SupabaseClient, userId: string) => {
+    const { data, error } = await supabase
+        .from('user_preferences')
+        .select(PREFERENCE_COLUMNS)
+        .eq('user_id', userId)
+        .maybeSingle<UserPreferences>()
+    if (error) throw error
+    return { ...DEFAULT_PREFERENCES, ...data }
+}
+
+export const savePreferences = async (supabase: SupabaseClient, userId: string, preferences: UserPreferences) => {
+    const { data, error } = await supabase
+        .from('user_preferences')
+        .upsert({ ...preferences, user_id: userId, updated_at: new Date().toISOString() })
+        .select(PREFERENCE_COLUMNS)
+        .single<UserPreferences>()
+    if (error) throw error
+    return data
+}
+
+// Letterhead, signature and date format for the "Export as…" menu; `locale` is the interface language's Intl locale
+export const exportOptions = (preferences: UserPreferences, locale?: string): ExportOptions => ({
+    letterhead: preferences.letterhead?.practiceName ? preferences.letterhead : undefined,
+    signature: preferences.signature ?? undefined,
+    dateFormat: preferences.date_format,
+    locale,
+})
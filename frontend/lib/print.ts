@@ -0,0 +1,116 @@
+import { defaultLetterhead, formatNoteDate, type PdfNote, type PdfOptions } from '@/lib/pdf'
+import { parseOrderedSummary } from '@/lib/sections'
+
+// The same layout as renderNotePdf, printed by the browser instead of drawn by jsPDF.
+// The browser shapes Devanagari and Kannada properly, so "Save as PDF" in its print dialog
+// gives a readable PDF of notes jsPDF can't render.
+//
+// The page is one table: browsers repeat its thead and tfoot on every printed page, which gives
+// each page the letterhead and footer. Page numbers come from an @page margin box.
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const paragraphs = (text: string) =>
+    text
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => `<p>${escapeHtml(line.trim())}</p>`)
+        .join('')
+
+const STYLES = `
+    @page {
+        size: A4;
+        margin: 14mm 20mm 16mm;
+        @bottom-right { content: "Page " counter(page) " of " counter(pages); font-size: 8.5pt; color: #6e6e6e; }
+    }
+    body { font-family: 'Noto Sans', 'Noto Sans Kannada', 'Noto Sans Devanagari', Helvetica, Arial, sans-serif;
+        font-size: 10.5pt; color: #1e1e1e; margin: 0; }
+    table.page { width: 100%; border-collapse: collapse; }
+    table.page > * > tr > td { padding: 0; vertical-align: top; }
+    header { display: flex; gap: 4mm; align-items: center; border-bottom: 0.6mm solid #2563eb;
+        padding-bottom: 3mm; margin-bottom: 6mm; }
+    header img { width: 18mm; height: 18mm; object-fit: contain; }
+    header h1 { font-size: 14pt; margin: 0; }
+    header p { font-size: 8.5pt; color: #5a5a5a; margin: 0.5mm 0 0; }
+    .title { font-size: 16pt; font-weight: bold; margin: 0 0 2mm; }
+    .meta { display: flex; justify-content: space-between; margin-bottom: 6mm; }
+    h2 { font-size: 11.5pt; color: #2563eb; margin: 5mm 0 1.5mm; break-after: avoid; }
+    p { margin: 0 0 1.5mm; line-height: 1.45; }
+    .signature { margin-top: 10mm; break-inside: avoid; }
+    .signature img { width: 45mm; height: 15mm; object-fit: contain; display: block; }
+    .signature .line { width: 70mm; border-top: 0.3mm solid #3c3c3c; margin: 2mm 0 1.5mm; }
+    .signature p { margin: 0 0 1mm; font-size: 9pt; }
+    footer { margin-top: 6mm; border-top: 0.2mm solid #c8c8c8; padding-top: 2mm; font-size: 8.5pt; color: #6e6e6e; }
+`
+
+const buildNoteHtml = (note: PdfNote, options: PdfOptions, documentTitle: string) => {
+    const letterhead = options.letterhead ?? defaultLetterhead
+    const noteDate = formatNoteDate(note.noteDate, options.dateFormat, options.locale)
+    const { sections } = parseOrderedSummary(note.summary, options.sectionOrder)
+    const signature = options.signature?.name ? options.signature : null
+    const signatureDetails = [signature?.title, signature?.registration].filter(Boolean) as string[]
+
+    return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(documentTitle)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<table class="page">
+<thead><tr><td>
+<header>
+    ${letterhead.logoDataUrl ? `<img src="${escapeHtml(letterhead.logoDataUrl)}" alt="">` : ''}
+    <div>
+        <h1>${escapeHtml(letterhead.practiceName)}</h1>
+        ${(letterhead.lines ?? []).slice(0, 3).map((line) => `<p>${escapeHtml(line)}</p>`).join('')}
+    </div>
+</header>
+</td></tr></thead>
+<tfoot><tr><td>
+<footer>${escapeHtml(letterhead.practiceName)} · Note date: ${escapeHtml(noteDate)}</footer>
+</td></tr></tfoot>
+<tbody><tr><td>
+<p class="title">${escapeHtml(options.title ?? 'Consultation Summary')}</p>
+<div class="meta">
+    <span>Client: ${escapeHtml(note.clientName || 'N/A')}</span>
+    <span>Date: ${escapeHtml(noteDate)}</span>
+</div>
+${sections
+    .map((section) => `${section.heading ? `<h2>${escapeHtml(section.heading)}</h2>` : ''}${paragraphs(section.body)}`)
+    .join('\n')}
+${signature
+    ? `<div class="signature">
+    ${signature.imageDataUrl ? `<img src="${escapeHtml(signature.imageDataUrl)}" alt="">` : ''}
+    <div class="line"></div>
+    <p><strong>${escapeHtml(signature.name)}</strong></p>
+    ${signatureDetails.map((line) => `<p>${escapeHtml(line)}</p>`).join('')}
+</div>`
+    : ''}
+</td></tr></tbody>
+</table>
+</body>
+</html>`
+}
+
+// Opens the print dialog for the note in a hidden frame. Browsers suggest the document title as the
+// file name when saving as PDF, so it is given the name the download would have had.
+export const printNote = (note: PdfNote, options: PdfOptions = {}, fileName = 'JanScribe.pdf') => {
+    const frame = document.createElement('iframe')
+    frame.setAttribute('aria-hidden', 'true')
+    frame.style.position = 'fixed'
+    frame.style.width = '0'
+    frame.style.height = '0'
+    frame.style.border = '0'
+    frame.onload = () => {
+        const view = frame.contentWindow
+        if (!view) return
+        view.addEventListener('afterprint', () => frame.remove())
+        view.focus()
+        view.print()
+    }
+    frame.srcdoc = buildNoteHtml(note, options, fileName.replace(/\.pdf$/, ''))
+    document.body.appendChild(frame)
+}
@@ -0,0 +1,131 @@
+// Parses the plain-text summaries the model writes into typed sections.
+// The summarization prompt asks for ALL-CAPS headings with no markdown, e.g.
+//
+//   CHIEF COMPLAINT
+//   Fever for three days.
+//   PLAN: Paracetamol 500 mg, review in one week.
+//
+// Model output doesn't always follow the rules, so markdown-style headings are
+// accepted as a fallback, and text with no headings at all becomes a single untitled section.
+
+export type SummarySection = {
+    // null for text before the first heading, or for an unstructured summary
+    heading: string | null
+    body: string
+}
+
+export type ParsedSummary = {
+    sections: SummarySection[]
+    // false when no headings were found and the whole text is one untitled section
+    structured: boolean
+}
+
+const MAX_HEADING_LENGTH = 60
+const MAX_HEADING_WORDS = 8
+
+// A line made of an ALL-CAPS heading, optionally followed by ":" and inline text
+const CAPS_HEADING_RE = /^([A-Z][A-Z0-9 &/(),.'-]*?)\s*:?\s*$/
+const CAPS_INLINE_HEADING_RE = /^([A-Z][A-Z0-9 &/(),.'-]*?)\s*:\s+(.+)$/
+// Markdown the prompt forbids but the model sometimes writes anyway: "## Plan", "**Plan:**"
+const MARKDOWN_HEADING_RE = /^(?:#{1,6}\s+(.+?)|\*\*(.+?)\*\*)\s*:?\s*$/
+
+const looksLikeHeading = (text: string) => {
+    const compact = text.replace(/\s+/g, '')
+    const letters = compact.replace(/[^A-Za-z]/g, '').length
+    return (
+        text.length <= MAX_HEADING_LENGTH &&
+        text.split(/\s+/).length <= MAX_HEADING_WORDS &&
+        letters >= 3 &&
+        // A sentence in capitals ("NONE KNOWN.") is body text, not a heading
+        !text.endsWith('.') &&
+        // Rules out lines such as "BP 120/80" that are capitals but mostly figures
+        letters / compact.length >= 0.6
+    )
+}
+
+const normalizeHeading = (heading: string) => heading.replace(/[:\s]+$/, '').replace(/\s+/g, ' ').trim().toUpperCase()
+
+type HeadingMatch = { heading: string; inline: string | null }
+
+const matchCapsHeading = (line: string): HeadingMatch | null => {
+    const inline = line.match(CAPS_INLINE_HEADING_RE)
+    if (inline && looksLikeHeading(inline[1])) return { heading: normalizeHeading(inline[1]), inline: inline[2] }
+    const own = line.match(CAPS_HEADING_RE)
+    if (own && looksLikeHeading(own[1])) return { heading: normalizeHeading(own[1]), inline: null }
+    return null
+}
+
+const matchMarkdownHeading = (line: string): HeadingMatch | null => {
+    const match = line.match(MARKDOWN_HEADING_RE)
+    const text = match?.[1] ?? match?.[2]
+    return text && looksLikeHeading(text) ? { heading: normalizeHeading(text), inline: null } : null
+}
+
+const splitSections = (lines: string[], matchHeading: (line: string) => HeadingMatch | null) => {
+    const sections: SummarySection[] = []
+    let current: { heading: string | null; lines: string[] } = { heading: null, lines: [] }
+
+    const flush = () => {
+        const body = current.lines.join('\n').trim()
+        if (current.heading !== null || body) sections.push({ heading: current.heading, body })
+    }
+
+    for (const line of lines) {
+        const match = matchHeading(line.trim())
+        if (match) {
+            flush()
+            current = { heading: match.heading, lines: match.inline ? [match.inline] : [] }
+        } else {
+            current.lines.push(line)
+        }
+    }
+    flush()
+    return sections
+}
+
+export const parseSummary = (summary: string): ParsedSummary => {
+    const lines = (summary ?? '').replace(/\r\n/g, '\n').split('\n')
+
+    for (const matchHeading of [matchCapsHeading, matchMarkdownHeading]) {
+        const sections = splitSections(lines, matchHeading)
+        if (sections.some((section) => section.heading !== null)) {
+            return { sections, structured: true }
+        }
+    }
+
+    const body = lines.join('\n').trim()
+    return { sections: body ? [{ heading: null, body }] : [], structured: false }
+}
+
+const headingKey = (heading: string) => heading.replace(/[^A-Z0-9]+/gi, ' ').trim().toUpperCase()
+
+// Puts sections in the template's order. Sections the template doesn't list keep their
+// relative order after the listed ones; untitled text before the first heading stays on top.
+export const orderSections = (sections: SummarySection[], order: string[] = []) => {
+    if (order.length === 0) return sections
+    const rank = new Map(order.map((heading, i) => [headingKey(heading), i]))
+    return sections
+        .map((section, i) => ({
+            section,
+            i,
+            rank: section.heading === null ? -1 : rank.get(headingKey(section.heading)) ?? order.length,
+        }))
+        .sort((a, b) => a.rank - b.rank || a.i - b.i)
+        .map(({ section }) => section)
+}
+
+// Back to the plain-text format the model writes
+export const sectionsToText = (sections: SummarySection[]) =>
+    sections
+        .map((section) => (section.heading ? `${section.heading}\n${section.body}`.trim() : section.body))
+        .filter(Boolean)
+        .join('\n\n')
+
+export const parseOrderedSummary = (summary: string, order?: string[]) => {
+    const parsed = parseSummary(summary)
+    return { ...parsed, sections: orderSections(parsed.sections, order) }
+}
+
+// Convenience for plain-text views that only need the reordering
+export const orderSummarySections = (summary: string, order: string[] = []) =>
+    order.length === 0 ? summary : sectionsToText(parseOrderedSummary(summary, order).sections)
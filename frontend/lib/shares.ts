@@ -0,0 +1,71 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { NoteShare } from '@/lib/types'
+
+// Choices for how long a new link stays valid
+export const SHARE_EXPIRY_OPTIONS_DAYS = [1, 7, 30]
+
+// What the share page gets for a token. Only 'ok' counts as a view.
+// 'ready' comes only from fetchSharedNoteStatus: the link opens without a passcode.
+export type SharedNoteResult =
+    | { status: 'not_found' | 'expired' | 'passcode_required' | 'locked' | 'ready' }
+    // How many more tries before the link locks
+    | { status: 'wrong_passcode'; attempts_left: number }
+    | {
+        status: 'ok'
+        expires_at: string
+        note: { client_name: string | null; created_at: string; structured_summary: string; sections: string[] }
+    }
+
+export const shareUrl = (token: string, origin = window.location.origin) => `${origin}/share/${token}`
+
+export const isShareActive = (share: NoteShare, now = Date.now()) =>
+    !share.revoked_at && !share.locked_at && new Date(share.expires_at).getTime() > now
+
+// Newest first, including expired and revoked links so their view counts stay visible.
+// The note's author and workspace owners also get links made by colleagues.
+export const listNoteShares = async (supabase: SupabaseClient, summaryId: string) => {
+    const { data, error } = await supabase
+        .from('note_shares')
+        .select('*')
+        .eq('summary_id', summaryId)
+        .order('created_at', { ascending: false })
+    if (error) throw error
+    return data as NoteShare[]
+}
+
+export const createNoteShare = async (
+    supabase: SupabaseClient,
+    summaryId: string,
+    expiresInDays: number,
+    passcode: string | null
+) => {
+    const { data, error } = await supabase.rpc('create_note_share', {
+        p_summary_id: summaryId,
+        p_expires_at: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+        p_passcode: passcode || null,
+    })
+    if (error) throw error
+    return data as NoteShare
+}
+
+// Links can't be edited directly, so one can never be pointed at a different note
+export const revokeNoteShare = async (supabase: SupabaseClient, id: string) => {
+    const { data, error } = await supabase.rpc('revoke_note_share', { p_id: id })
+    if (error) throw error
+    return data as NoteShare
+}
+
+// Whether the link can be opened, without opening it: counts neither a view nor a passcode attempt,
+// so the server can render the share page for link previews
+export const fetchSharedNoteStatus = async (supabase: SupabaseClient, token: string) => {
+    const { data, error } = await supabase.rpc('get_shared_note_status', { p_token: token })
+    if (error) throw error
+    return data as SharedNoteResult
+}
+
+// Works without a session: the database function checks the token and passcode
+export const fetchSharedNote = async (supabase: SupabaseClient, token: string, passcode: string | null = null) => {
+    const { data, error } = await supabase.rpc('get_shared_note', { p_token: token, p_passcode: passcode })
+    if (error) throw error
+    return data as SharedNoteResult
+}
@@ -0,0 +1,40 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { NoteTemplate } from '@/lib/types'
+
+export type TemplateDraft = Pick<NoteTemplate, 'name' | 'description' | 'scribe_role' | 'sections' | 'instructions'>
+
+export const isBuiltInTemplate = (template: NoteTemplate) => template.user_id === null
+
+// Built-in templates first, then the user's own, each alphabetically
+export const listTemplates = async (supabase: SupabaseClient) => {
+    const { data, error } = await supabase
+        .from('note_templates')
+        .select('*')
+        .order('name')
+    if (error) throw error
+    const templates = data as NoteTemplate[]
+    return [...templates.filter(isBuiltInTemplate), ...templates.filter((t) => !isBuiltInTemplate(t))]
+}
+
+const cleanDraft = (draft: TemplateDraft): TemplateDraft => ({
+    name: draft.name.trim(),
+    description: draft.description?.trim() || null,
+    scribe_role: draft.scribe_role.trim() || 'an expert professional scribe',
+    // Headings are matched in ALL CAPS, like the model writes them
+    sections: draft.sections.map((s) => s.trim().toUpperCase()).filter(Boolean),
+    instructions: draft.instructions?.trim() || null,
+})
+
+export const saveTemplate = async (supabase: SupabaseClient, draft: TemplateDraft, id?: string) => {
+    const query = id
+        ? supabase.from('note_templates').update(cleanDraft(draft)).eq('id', id)
+        : supabase.from('note_templates').insert(cleanDraft(draft))
+    const { data, error } = await query.select('*').single()
+    if (error) throw error
+    return data as NoteTemplate
+}
+
+export const deleteTemplate = async (supabase: SupabaseClient, id: string) => {
+    const { error } = await supabase.from('note_templates').delete().eq('id', id)
+    if (error) throw error
+}
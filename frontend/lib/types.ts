@@ -0,0 +1,156 @@
+import type { PdfLetterhead, PdfSignature } from '@/lib/pdf'
+
+// Row shapes shared between the dashboard, note pages and exporters
+
+// A row of the `summaries` table
+export type Summary = {
+    id: string
+    created_at: string
+    // Name as recorded on the note; client_id links to the client record when there is one
+    client_name: string
+    client_id: string | null
+    template_id: string | null
+    // Shared with this workspace's members; null for a personal note
+    workspace_id: string | null
+    original_transcript: string
+    structured_summary: string
+    summary_language: SummaryLanguage
+    // The hint given when recording (null if the model was left to detect it), and what it actually heard,
+    // most used first. Empty for notes made before languages were recorded.
+    spoken_language_hint: Exclude<RecordingLanguage, 'auto'> | null
+    detected_languages: DetectedLanguage[]
+    // Source recording in the "note-audio" bucket; null once deleted, or for notes made before audio was kept
+    audio_path: string | null
+    // When the recording is (or was) deleted under the retention policy
+    audio_expires_at: string | null
+    // Hidden from the main list, but kept
+    archived_at: string | null
+    // In the trash; deleted for good 30 days after this
+    deleted_at: string | null
+}
+
+// A row of the `summary_versions` table. Version 1 is the AI-generated text.
+export type SummaryVersion = {
+    id: string
+    summary_id: string
+    version: number
+    structured_summary: string
+    edited_by: string | null
+    edited_by_email: string | null
+    restored_from: number | null
+    created_at: string
+}
+
+// A row of the `transcript_versions` table: version 1 is the model's transcript, later ones are edits
+export type TranscriptVersion = {
+    id: string
+    summary_id: string
+    version: number
+    original_transcript: string
+    edited_by: string | null
+    edited_by_email: string | null
+    restored_from: number | null
+    created_at: string
+}
+
+// A row of the `clients` table: a patient or legal client
+export type Client = {
+    id: string
+    created_at: string
+    // Shared with the members of this workspace; null for the user's personal clients
+    workspace_id: string | null
+    full_name: string
+    date_of_birth: string | null
+    sex: 'female' | 'male' | 'other' | null
+    phone: string | null
+    external_id: string | null
+}
+
+// A row of the `note_templates` table. Built-in templates have a `key` and no owner.
+export type NoteTemplate = {
+    id: string
+    user_id: string | null
+    key: string | null
+    name: string
+    description: string | null
+    scribe_role: string
+    sections: string[]
+    instructions: string | null
+    created_at: string
+}
+
+// A row of the `note_shares` table: a read-only link to one note, opened at /share/<token>
+export type NoteShare = {
+    id: string
+    summary_id: string
+    token: string
+    expires_at: string
+    // bcrypt hash; null when the link has no passcode
+    passcode_hash: string | null
+    view_count: number
+    last_viewed_at: string | null
+    revoked_at: string | null
+    // Wrong passcodes in a row; the link locks after five
+    failed_attempts: number
+    locked_at: string | null
+    created_at: string
+}
+
+// owner manages members; owner and clinician record and edit; assistant and read_only only read
+export type WorkspaceRole = 'owner' | 'clinician' | 'assistant' | 'read_only'
+
+// A row of the `workspaces` table: a clinic or law office whose members share notes
+export type Workspace = {
+    id: string
+    name: string
+    created_by: string | null
+    created_at: string
+    // Members must use two-factor authentication to see the workspace's notes
+    require_mfa: boolean
+}
+
+// A row of the `workspace_members` table
+export type WorkspaceMember = {
+    workspace_id: string
+    user_id: string
+    role: WorkspaceRole
+    email: string | null
+    created_at: string
+}
+
+// A row of the `workspace_invitations` table
+export type WorkspaceInvitation = {
+    id: string
+    workspace_id: string
+    email: string
+    role: WorkspaceRole
+    invited_by: string | null
+    created_at: string
+}
+
+export type ThemePreference = 'light' | 'dark' | 'system'
+
+// 'auto' lets the model detect the language; 'mixed' says the speakers switch between languages;
+// the rest are the languages JanScribe is tuned for
+export type RecordingLanguage = 'auto' | 'en' | 'kn' | 'hi' | 'tcy' | 'mixed'
+
+// Language a summary is written in. Headings stay in English whatever it is.
+export type SummaryLanguage = Exclude<RecordingLanguage, 'auto' | 'mixed'>
+
+// A language the transcription model heard; 'other' is anything JanScribe isn't tuned for
+export type DetectedLanguage = SummaryLanguage | 'other'
+
+// 'locale' follows the browser; the others are fixed numeric orders (31/01/2026, 01/31/2026, 2026-01-31)
+export type DateFormat = 'locale' | 'dmy' | 'mdy' | 'iso'
+
+// A row of the `user_preferences` table
+export type UserPreferences = {
+    theme: ThemePreference
+    default_template_id: string | null
+    recording_language: RecordingLanguage
+    letterhead: PdfLetterhead | null
+    signature: PdfSignature | null
+    date_format: DateFormat
+    // 0 keeps recordings; null uses the server's default
+    audio_retention_days: number | null
+}
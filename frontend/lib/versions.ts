@@ -0,0 +1,56 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { SummaryVersion, TranscriptVersion } from '@/lib/types'
+
+// Newest first
+export const listSummaryVersions = async (supabase: SupabaseClient, summaryId: string) => {
+    const { data, error } = await supabase
+        .from('summary_versions')
+        .select('*')
+        .eq('summary_id', summaryId)
+        .order('version', { ascending: false })
+    if (error) throw error
+    return data as SummaryVersion[]
+}
+
+// Creates a new version and makes it the note's current text. Never overwrites older versions.
+export const saveSummaryVersion = async (
+    supabase: SupabaseClient,
+    summaryId: string,
+    structuredSummary: string,
+    restoredFrom: number | null = null
+) => {
+    const { data, error } = await supabase.rpc('save_summary_version', {
+        p_summary_id: summaryId,
+        p_structured_summary: structuredSummary,
+        p_restored_from: restoredFrom,
+    })
+    if (error) throw error
+    return data as SummaryVersion
+}
+
+// Newest first
+export const listTranscriptVersions = async (supabase: SupabaseClient, summaryId: string) => {
+    const { data, error } = await supabase
+        .from('transcript_versions')
+        .select('*')
+        .eq('summary_id', summaryId)
+        .order('version', { ascending: false })
+    if (error) throw error
+    return data as TranscriptVersion[]
+}
+
+// Same for the original-language transcript: the model's transcript stays as version 1
+export const saveTranscriptVersion = async (
+    supabase: SupabaseClient,
+    summaryId: string,
+    transcript: string,
+    restoredFrom: number | null = null
+) => {
+    const { data, error } = await supabase.rpc('save_transcript_version', {
+        p_summary_id: summaryId,
+        p_original_transcript: transcript,
+        p_restored_from: restoredFrom,
+    })
+    if (error) throw error
+    return data as TranscriptVersion
+}
@@ -0,0 +1,127 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Workspace, WorkspaceInvitation, WorkspaceMember, WorkspaceRole } from '@/lib/types'
+
+// The workspace the dashboard shows. A cookie rather than localStorage so the server
+// can render the right notes; missing means the user's personal notes.
+export const WORKSPACE_COOKIE = 'janscribe-workspace'
+
+// Each is labelled with its role.<role> message
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'clinician', 'assistant', 'read_only']
+
+// Who may record notes into the workspace and edit, archive or delete its notes.
+// Assistants and read-only members can open, export and print them.
+export const canEditNotes = (role: WorkspaceRole | null) => role === null || role === 'owner' || role === 'clinician'
+
+// One of the user's workspaces, with their role in it
+export type Membership = Workspace & { role: WorkspaceRole }
+
+export const setCurrentWorkspace = (workspaceId: string | null) => {
+    document.cookie = workspaceId
+        ? `${WORKSPACE_COOKIE}=${workspaceId}; path=/; max-age=${60 * 60 * 24 * 365}; samesite=lax`
+        : `${WORKSPACE_COOKIE}=; path=/; max-age=0`
+}
+
+export const listMemberships = async (supabase: SupabaseClient, userId: string) => {
+    const { data, error } = await supabase
+        .from('workspace_members')
+        .select('role, workspaces(*)')
+        .eq('user_id', userId)
+    if (error) throw error
+    const rows = data as unknown as { role: WorkspaceRole; workspaces: Workspace | null }[]
+    return rows
+        .filter((row) => row.workspaces)
+        .map((row) => ({ ...(row.workspaces as Workspace), role: row.role }))
+        .sort((a, b) => a.name.localeCompare(b.name)) as Membership[]
+}
+
+export const createWorkspace = async (supabase: SupabaseClient, name: string) => {
+    const { data, error } = await supabase.rpc('create_workspace', { p_name: name })
+    if (error) throw error
+    return data as Workspace
+}
+
+export const listMembers = async (supabase: SupabaseClient, workspaceId: string) => {
+    const { data, error } = await supabase
+        .from('workspace_members')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .order('created_at', { ascending: true })
+    if (error) throw error
+    return data as WorkspaceMember[]
+}
+
+export const updateMemberRole = async (
+    supabase: SupabaseClient,
+    workspaceId: string,
+    userId: string,
+    role: WorkspaceRole
+) => {
+    const { error } = await supabase
+        .from('workspace_members')
+        .update({ role })
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', userId)
+    if (error) throw error
+}
+
+// Also how a member leaves a workspace
+export const removeMember = async (supabase: SupabaseClient, workspaceId: string, userId: string) => {
+    const { error } = await supabase
+        .from('workspace_members')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', userId)
+    if (error) throw error
+}
+
+// Owners only. Members without an authenticator app are asked to set one up before their next note.
+export const setWorkspaceRequiresMfa = async (supabase: SupabaseClient, workspaceId: string, requireMfa: boolean) => {
+    const { error } = await supabase.from('workspaces').update({ require_mfa: requireMfa }).eq('id', workspaceId)
+    if (error) throw error
+}
+
+// Invitations the workspace's owners have sent
+export const listInvitations = async (supabase: SupabaseClient, workspaceId: string) => {
+    const { data, error } = await supabase
+        .from('workspace_invitations')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .order('created_at', { ascending: false })
+    if (error) throw error
+    return data as WorkspaceInvitation[]
+}
+
+// An invitation addressed to the signed-in user, with the workspace's name
+export type ReceivedInvitation = WorkspaceInvitation & { workspaces: { name: string } | null }
+
+export const listMyInvitations = async (supabase: SupabaseClient, email: string) => {
+    const { data, error } = await supabase
+        .from('workspace_invitations')
+        .select('*, workspaces(name)')
+        .eq('email', email.toLowerCase())
+        .order('created_at', { ascending: false })
+    if (error) throw error
+    return data as ReceivedInvitation[]
+}
+
+export const inviteMember = async (supabase: SupabaseClient, workspaceId: string, email: string, role: WorkspaceRole) => {
+    const { data, error } = await supabase
+        .from('workspace_invitations')
+        .insert({ workspace_id: workspaceId, email: email.trim().toLowerCase(), role })
+        .select('*')
+        .single()
+    if (error) throw error
+    return data as WorkspaceInvitation
+}
+
+export const acceptInvitation = async (supabase: SupabaseClient, invitationId: string) => {
+    const { data, error } = await supabase.rpc('accept_workspace_invitation', { p_invitation_id: invitationId })
+    if (error) throw error
+    return data as WorkspaceMember
+}
+
+// Withdraws (owner) or declines (invitee) an invitation
+export const deleteInvitation = async (supabase: SupabaseClient, invitationId: string) => {
+    const { error } = await supabase.from('workspace_invitations').delete().eq('id', invitationId)
+    if (error) throw error
+}
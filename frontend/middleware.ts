@@ -1,19 +1,74 @@
 import { createMiddlewareClient } from '@supabase/auth-helpers-nextjs'
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { MFA_CHALLENGE_PATH, MFA_SETUP_PATH, mfaRequired, mfaStep, safeNextPath, type MfaStep } from '@/lib/auth'
+
+// Pages anyone may open. Everything else needs a signed-in user, so new pages are protected by default.
+const PUBLIC_PATHS = ['/login', '/signup', '/forgot-password']
+// The auth callback and its error page, and read-only share links (/share/<token>)
+const PUBLIC_PREFIXES = ['/auth/', '/share/']
 
 export async function middleware(req: NextRequest) {
     const res = NextResponse.next()
     const supabase = createMiddlewareClient({ req, res })
+    // getSession refreshes an expired access token and writes the new cookies onto `res`;
+    // getUser then checks the session with Supabase rather than trusting the cookie
+    await supabase.auth.getSession()
     const { data: { user } } = await supabase.auth.getUser()
+    const path = req.nextUrl.pathname
+    const here = path + req.nextUrl.search
+
+    // Redirects carry the refreshed session cookies too
+    const redirect = (url: URL) => {
+        const response = NextResponse.redirect(url)
+        res.cookies.getAll().forEach((cookie) => response.cookies.set(cookie))
+        return response
+    }
+    // `next` brings the user back to the page they asked for, e.g. a note a colleague linked
+    const redirectWithNext = (pathname: string, params: Record<string, string> = {}) => {
+        const url = new URL(pathname, req.url)
+        Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value))
+        url.searchParams.set('next', here)
+        return redirect(url)
+    }
 
-    if (!user && req.nextUrl.pathname === '/') {
-        return NextResponse.redirect(new URL('/login', req.url))
+    const isPublic = PUBLIC_PATHS.includes(path) || PUBLIC_PREFIXES.some((prefix) => path.startsWith(prefix))
+    if (!user) {
+        return isPublic ? res : redirectWithNext('/login')
     }
-    if (user && (req.nextUrl.pathname === '/login' || req.nextUrl.pathname === '/signup')) {
-        return NextResponse.redirect(new URL('/', req.url))
+    if (path === '/login' || path === '/signup') {
+        return redirect(new URL(safeNextPath(req.nextUrl.searchParams.get('next')), req.url))
+    }
+
+    // Users with an authenticator app enter its code before reading notes or changing their password.
+    // Users without one set it up first if a workspace they belong to requires it.
+    const showsNotes = path === '/' || path.startsWith('/notes/') || path.startsWith('/clients/')
+    if (showsNotes || path === '/update-password' || path === MFA_CHALLENGE_PATH) {
+        let step: MfaStep
+        let mustEnrol: boolean
+        try {
+            step = await mfaStep(supabase)
+            mustEnrol = step === 'enrol' && showsNotes && (await mfaRequired(supabase, user.id))
+        } catch (error) {
+            // Without the assurance level there is no telling whether the page may be shown, so it isn't
+            console.error('Failed to check two-factor authentication', error)
+            return redirectWithNext('/auth/error', { reason: 'mfa_check_failed' })
+        }
+        if (step === 'challenge' && path !== MFA_CHALLENGE_PATH) {
+            return redirectWithNext(MFA_CHALLENGE_PATH)
+        }
+        if (mustEnrol) {
+            return redirectWithNext(MFA_SETUP_PATH)
+        }
+        // Nothing left to verify
+        if (step !== 'challenge' && path === MFA_CHALLENGE_PATH) {
+            return redirect(new URL(safeNextPath(req.nextUrl.searchParams.get('next')), req.url))
+        }
     }
     return res
 }
 
-export const config = { matcher: ['/', '/login', '/signup'] }
\ No newline at end of file
+// Everything except Next's build output and static files
+export const config = {
+    matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)'],
+}
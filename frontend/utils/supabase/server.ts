@@ -2,6 +2,11 @@ import { createServerComponentClient } from '@supabase/auth-helpers-nextjs'
 import { cookies } from 'next/headers'
 
 // Client for server components (needs cookies function)
-export const createClient = () => {
-    return createServerComponentClient({ cookies })
+// auth-helpers reads the cookie store synchronously, but cookies() is async since Next 15,
+// so the store is resolved first and handed over as-is.
+export const createClient = async () => {
+    const cookieStore = await cookies()
+    return createServerComponentClient({
+        cookies: () => cookieStore as unknown as ReturnType<typeof cookies>,
+    })
 }
\ No newline at end of file
@@ -0,0 +1,31 @@
+-- Notes as they were before migrations were kept: one row per recording with its transcript and
+-- structured summary, readable and writable only by the user who recorded it. Later migrations add
+-- versions, search, clients, templates, audio, trash, workspaces and languages on top.
+--
+-- Existing projects already have this table from the dashboard, so nothing here replaces it.
+
+create table if not exists public.summaries (
+    id uuid primary key default gen_random_uuid(),
+    created_at timestamptz not null default now(),
+    user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+    client_name text,
+    original_transcript text,
+    structured_summary text
+);
+
+create index if not exists summaries_user_created_at_idx on public.summaries (user_id, created_at desc);
+
+alter table public.summaries enable row level security;
+
+drop policy if exists "Users can read their own notes" on public.summaries;
+create policy "Users can read their own notes"
+    on public.summaries for select using (user_id = auth.uid());
+drop policy if exists "Users can create their own notes" on public.summaries;
+create policy "Users can create their own notes"
+    on public.summaries for insert with check (user_id = auth.uid());
+drop policy if exists "Users can update their own notes" on public.summaries;
+create policy "Users can update their own notes"
+    on public.summaries for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+drop policy if exists "Users can delete their own notes" on public.summaries;
+create policy "Users can delete their own notes"
+    on public.summaries for delete using (user_id = auth.uid());
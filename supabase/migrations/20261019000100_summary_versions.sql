@@ -0,0 +1,95 @@
+-- Every edit to a note's structured summary is kept as a new version.
+-- summaries.structured_summary always holds the text of the latest version,
+-- so the list, exports and PDF keep reading from the summaries row.
+
+create table if not exists public.summary_versions (
+    id uuid primary key default gen_random_uuid(),
+    summary_id uuid not null references public.summaries (id) on delete cascade,
+    version integer not null,
+    structured_summary text not null,
+    edited_by uuid references auth.users (id) on delete set null,
+    edited_by_email text,
+    -- Set when this version was created by restoring an older one
+    restored_from integer,
+    created_at timestamptz not null default now(),
+    unique (summary_id, version)
+);
+
+create index if not exists summary_versions_summary_id_idx
+    on public.summary_versions (summary_id, version desc);
+
+alter table public.summary_versions enable row level security;
+
+create policy "Users can read versions of their own notes"
+    on public.summary_versions for select
+    using (exists (
+        select 1 from public.summaries s
+        where s.id = summary_versions.summary_id and s.user_id = auth.uid()
+    ));
+
+-- Version 1 is the AI-generated summary, recorded when the note is created
+create or replace function public.create_initial_summary_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    insert into public.summary_versions (summary_id, version, structured_summary, edited_by)
+    values (new.id, 1, new.structured_summary, new.user_id);
+    return new;
+end;
+$$;
+
+drop trigger if exists summaries_initial_version on public.summaries;
+create trigger summaries_initial_version
+    after insert on public.summaries
+    for each row execute function public.create_initial_summary_version();
+
+-- Saves a new version and makes it current in one transaction
+create or replace function public.save_summary_version(
+    p_summary_id uuid,
+    p_structured_summary text,
+    p_restored_from integer default null
+)
+returns public.summary_versions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    next_version integer;
+    saved public.summary_versions;
+begin
+    perform 1 from public.summaries
+    where id = p_summary_id and user_id = auth.uid()
+    for update;
+    if not found then
+        raise exception 'Note not found' using errcode = 'P0002';
+    end if;
+
+    select coalesce(max(version), 0) + 1 into next_version
+    from public.summary_versions
+    where summary_id = p_summary_id;
+
+    insert into public.summary_versions
+        (summary_id, version, structured_summary, edited_by, edited_by_email, restored_from)
+    values
+        (p_summary_id, next_version, p_structured_summary, auth.uid(), auth.jwt() ->> 'email', p_restored_from)
+    returning * into saved;
+
+    update public.summaries
+    set structured_summary = p_structured_summary
+    where id = p_summary_id;
+
+    return saved;
+end;
+$$;
+
+grant execute on function public.save_summary_version(uuid, text, integer) to authenticated;
+
+-- Backfill version 1 for notes created before versioning existed
+insert into public.summary_versions (summary_id, version, structured_summary, edited_by, created_at)
+select s.id, 1, s.structured_summary, s.user_id, s.created_at
+from public.summaries s
+where not exists (select 1 from public.summary_versions v where v.summary_id = s.id);
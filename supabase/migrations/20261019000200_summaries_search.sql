@@ -0,0 +1,17 @@
+-- Full-text search over past notes. The 'simple' configuration is used because
+-- transcripts are in Kannada, Tulu and Hindi as well as English, and no stemmer
+-- covers all of them; client names rank highest, then the summary, then the transcript.
+
+alter table public.summaries
+    add column if not exists search_vector tsvector
+    generated always as (
+        setweight(to_tsvector('simple', coalesce(client_name, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(structured_summary, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(original_transcript, '')), 'C')
+    ) stored;
+
+create index if not exists summaries_search_vector_idx
+    on public.summaries using gin (search_vector);
+
+create index if not exists summaries_user_created_at_idx
+    on public.summaries (user_id, created_at desc);
@@ -0,0 +1,48 @@
+-- Patients / clients as records instead of a free-text name on each note.
+-- summaries.client_name is kept as the display name at the time of the visit,
+-- so search and exports keep working without a join.
+
+create table if not exists public.clients (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+    full_name text not null check (length(trim(full_name)) > 0),
+    date_of_birth date,
+    sex text check (sex in ('female', 'male', 'other')),
+    phone text,
+    -- Hospital MRN, case number or any identifier from another system
+    external_id text,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists clients_user_name_idx on public.clients (user_id, lower(full_name));
+create unique index if not exists clients_user_external_id_idx
+    on public.clients (user_id, external_id)
+    where external_id is not null;
+
+alter table public.clients enable row level security;
+
+create policy "Users can read their own clients"
+    on public.clients for select using (user_id = auth.uid());
+create policy "Users can create their own clients"
+    on public.clients for insert with check (user_id = auth.uid());
+create policy "Users can update their own clients"
+    on public.clients for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+alter table public.summaries
+    add column if not exists client_id uuid references public.clients (id) on delete set null;
+
+create index if not exists summaries_client_id_idx on public.summaries (client_id, created_at desc);
+
+-- Turn existing free-text names into client records, one per distinct name per user
+insert into public.clients (user_id, full_name, created_at)
+select s.user_id, trim(s.client_name), min(s.created_at)
+from public.summaries s
+where s.client_id is null and coalesce(trim(s.client_name), '') <> ''
+group by s.user_id, trim(s.client_name);
+
+update public.summaries s
+set client_id = c.id
+from public.clients c
+where s.client_id is null
+    and c.user_id = s.user_id
+    and c.full_name = trim(s.client_name);
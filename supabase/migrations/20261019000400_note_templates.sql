@@ -0,0 +1,57 @@
+-- Note templates decide which sections the summary has and in what order.
+-- Built-in templates have no owner and are visible to everyone; users can add their own.
+
+create table if not exists public.note_templates (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid references auth.users (id) on delete cascade,
+    -- Stable identifier for built-in templates
+    key text unique,
+    name text not null check (length(trim(name)) > 0),
+    description text,
+    -- Who the model should act as, e.g. "a general practitioner's medical scribe"
+    scribe_role text not null default 'an expert professional scribe',
+    -- Section headings in the order they should appear
+    sections text[] not null default '{}',
+    -- Extra guidance passed to the model
+    instructions text,
+    created_at timestamptz not null default now(),
+    check (user_id is not null or key is not null)
+);
+
+alter table public.note_templates enable row level security;
+
+create policy "Users can read built-in and their own templates"
+    on public.note_templates for select
+    using (user_id is null or user_id = auth.uid());
+create policy "Users can create their own templates"
+    on public.note_templates for insert with check (user_id = auth.uid());
+create policy "Users can update their own templates"
+    on public.note_templates for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy "Users can delete their own templates"
+    on public.note_templates for delete using (user_id = auth.uid());
+
+alter table public.summaries
+    add column if not exists template_id uuid references public.note_templates (id) on delete set null;
+
+insert into public.note_templates (key, name, description, scribe_role, sections, instructions) values
+    ('general', 'General', 'Free-form structured summary; the model picks the headings.',
+        'an expert professional assistant (like a doctor''s or lawyer''s scribe)', '{}', null),
+    ('soap', 'SOAP Note', 'Subjective, Objective, Assessment, Plan.',
+        'a clinical scribe for a general practitioner',
+        array['SUBJECTIVE', 'OBJECTIVE', 'ASSESSMENT', 'PLAN'],
+        'Put patient-reported symptoms under SUBJECTIVE and examination findings or vitals under OBJECTIVE.'),
+    ('history_physical', 'History & Physical', 'Full admission-style history and examination.',
+        'a clinical scribe for a hospital physician',
+        array['CHIEF COMPLAINT', 'HISTORY OF PRESENT ILLNESS', 'PAST MEDICAL HISTORY', 'MEDICATIONS', 'ALLERGIES',
+              'SOCIAL HISTORY', 'FAMILY HISTORY', 'REVIEW OF SYSTEMS', 'PHYSICAL EXAMINATION', 'ASSESSMENT', 'PLAN'],
+        null),
+    ('legal_intake', 'Legal Client Intake', 'First meeting with a legal-aid client.',
+        'a paralegal taking notes for a legal-aid lawyer',
+        array['CLIENT DETAILS', 'NATURE OF MATTER', 'FACTS AS STATED', 'PARTIES INVOLVED', 'KEY DATES',
+              'DOCUMENTS MENTIONED', 'CLIENT OBJECTIVES', 'ADVICE GIVEN', 'NEXT STEPS'],
+        'Record facts as the client stated them without judging their truth.'),
+    ('meeting_minutes', 'Meeting Minutes', 'Attendees, discussion, decisions and actions.',
+        'a professional minute-taker',
+        array['ATTENDEES', 'AGENDA', 'DISCUSSION', 'DECISIONS', 'ACTION ITEMS'],
+        'List each action item with its owner and due date when mentioned.')
+on conflict (key) do nothing;
@@ -0,0 +1,21 @@
+-- Source audio for each note, kept in the private "note-audio" bucket under <user_id>/.
+-- The backend uploads with the service role and deletes recordings once audio_expires_at has passed.
+-- audio_path is cleared at that point; audio_expires_at stays so the note can say when the audio went.
+
+alter table public.summaries
+    add column if not exists audio_path text,
+    add column if not exists audio_mime_type text,
+    add column if not exists audio_expires_at timestamptz;
+
+-- The purge job only looks at notes that still have audio
+create index if not exists summaries_audio_expires_at_idx
+    on public.summaries (audio_expires_at)
+    where audio_path is not null;
+
+insert into storage.buckets (id, name, public)
+values ('note-audio', 'note-audio', false)
+on conflict (id) do nothing;
+
+create policy "Users can play their own recordings"
+    on storage.objects for select
+    using (bucket_id = 'note-audio' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,25 @@
+-- Resumable uploads: long recordings are sent in parts while recording and put back
+-- together by /process-audio/. Parts are stored in the note-audio bucket under
+-- <user_id>/uploads/<upload_id>/ and listed here in order.
+-- An upload is deleted once its note is saved; abandoned ones are purged after a week.
+
+create table if not exists public.audio_uploads (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+    file_name text not null,
+    mime_type text not null,
+    -- Bytes confirmed so far; the client resumes from here
+    received_bytes bigint not null default 0,
+    -- Storage paths of the accepted parts, in byte order
+    parts text[] not null default '{}',
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists audio_uploads_updated_at_idx on public.audio_uploads (updated_at);
+
+-- Written only by the backend's service role; users can see their own
+alter table public.audio_uploads enable row level security;
+
+create policy "Users can read their own uploads"
+    on public.audio_uploads for select using (user_id = auth.uid());
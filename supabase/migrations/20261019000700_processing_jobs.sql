@@ -0,0 +1,28 @@
+-- Processing jobs: /process-audio/ returns a job straight away and runs it in the background.
+-- The client polls the job's stage, so closing the tab doesn't lose the result; reopening it
+-- picks the job up again from the ID stored with the queued recording.
+
+create table if not exists public.processing_jobs (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+    -- A chunked upload is processed by at most one job; retries reuse it
+    upload_id uuid unique,
+    stage text not null default 'queued'
+        check (stage in ('queued', 'transcribing', 'summarizing', 'saving', 'done', 'failed', 'cancelled')),
+    -- Set when stage is 'failed'; the same status, code and message the endpoint would have returned
+    error_status integer,
+    error_code text,
+    error_message text,
+    -- The saved note, once stage is 'done'
+    summary_id uuid references public.summaries (id) on delete set null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists processing_jobs_user_id_idx on public.processing_jobs (user_id);
+
+-- Written only by the backend's service role; users can see their own
+alter table public.processing_jobs enable row level security;
+
+create policy "Users can read their own processing jobs"
+    on public.processing_jobs for select using (user_id = auth.uid());
@@ -0,0 +1,6 @@
+-- Broadcast changes to notes over Supabase Realtime, so a note recorded on one device shows
+-- up on the others without a reload. Realtime applies the summaries RLS policies, so each
+-- user only receives their own rows.
+-- Deletes only carry the primary key, which is all the dashboard needs to drop the note.
+
+alter publication supabase_realtime add table public.summaries;
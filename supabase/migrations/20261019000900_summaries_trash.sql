@@ -0,0 +1,12 @@
+-- Archive and trash for notes. Archived notes are hidden from the main list but kept.
+-- Deleting a note only sets deleted_at, so it can be undone or restored from the trash;
+-- the backend deletes notes (and their recordings) 30 days after they were trashed.
+
+alter table public.summaries
+    add column if not exists archived_at timestamptz,
+    add column if not exists deleted_at timestamptz;
+
+-- The purge job and the Trash view only look at trashed notes
+create index if not exists summaries_deleted_at_idx
+    on public.summaries (deleted_at)
+    where deleted_at is not null;
@@ -0,0 +1,130 @@
+-- Read-only share links for single notes, e.g. for a referring doctor or co-counsel without an account.
+-- A link is a random token opened at /share/<token>. It expires, can be revoked, can require a
+-- passcode (stored as a bcrypt hash), and counts how often it was opened.
+-- Visitors never read this table or summaries directly: get_shared_note checks the link and
+-- returns only what the share page shows.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.note_shares (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+    summary_id uuid not null references public.summaries (id) on delete cascade,
+    token text not null unique,
+    expires_at timestamptz not null,
+    passcode_hash text,
+    view_count integer not null default 0,
+    last_viewed_at timestamptz,
+    revoked_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists note_shares_summary_id_idx on public.note_shares (summary_id, created_at desc);
+
+alter table public.note_shares enable row level security;
+
+create policy "Users can read their own share links"
+    on public.note_shares for select using (user_id = auth.uid());
+
+-- Revoking sets revoked_at
+create policy "Users can update their own share links"
+    on public.note_shares for update using (user_id = auth.uid());
+
+-- Creates a link for one of the user's own notes. The passcode is hashed here so it never gets stored.
+create or replace function public.create_note_share(
+    p_summary_id uuid,
+    p_expires_at timestamptz,
+    p_passcode text default null
+)
+returns public.note_shares
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    created public.note_shares;
+begin
+    perform 1 from public.summaries
+    where id = p_summary_id and user_id = auth.uid() and deleted_at is null;
+    if not found then
+        raise exception 'Note not found' using errcode = 'P0002';
+    end if;
+    if p_expires_at <= now() then
+        raise exception 'The expiry date must be in the future' using errcode = '22023';
+    end if;
+
+    insert into public.note_shares (user_id, summary_id, token, expires_at, passcode_hash)
+    values (
+        auth.uid(),
+        p_summary_id,
+        -- 144 random bits, URL-safe
+        translate(encode(extensions.gen_random_bytes(18), 'base64'), '+/', '-_'),
+        p_expires_at,
+        case when nullif(p_passcode, '') is null then null
+             else extensions.crypt(p_passcode, extensions.gen_salt('bf')) end
+    )
+    returning * into created;
+
+    return created;
+end;
+$$;
+
+grant execute on function public.create_note_share(uuid, timestamptz, text) to authenticated;
+
+-- Opens a share link. Returns { status } where status is one of 'ok', 'not_found', 'expired',
+-- 'passcode_required' or 'wrong_passcode'; 'ok' also carries the note and counts as a view.
+-- Revoked links, and links to notes in the trash, look the same as links that never existed.
+create or replace function public.get_shared_note(p_token text, p_passcode text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    share public.note_shares;
+    note public.summaries;
+    sections jsonb;
+begin
+    select * into share from public.note_shares where token = p_token and revoked_at is null;
+    if not found then
+        return jsonb_build_object('status', 'not_found');
+    end if;
+
+    select * into note from public.summaries where id = share.summary_id and deleted_at is null;
+    if not found then
+        return jsonb_build_object('status', 'not_found');
+    end if;
+
+    if share.expires_at <= now() then
+        return jsonb_build_object('status', 'expired');
+    end if;
+
+    if share.passcode_hash is not null then
+        if nullif(p_passcode, '') is null then
+            return jsonb_build_object('status', 'passcode_required');
+        end if;
+        if extensions.crypt(p_passcode, share.passcode_hash) <> share.passcode_hash then
+            return jsonb_build_object('status', 'wrong_passcode');
+        end if;
+    end if;
+
+    update public.note_shares
+    set view_count = view_count + 1, last_viewed_at = now()
+    where id = share.id;
+
+    select to_jsonb(t.sections) into sections from public.note_templates t where t.id = note.template_id;
+
+    return jsonb_build_object(
+        'status', 'ok',
+        'expires_at', share.expires_at,
+        'note', jsonb_build_object(
+            'client_name', note.client_name,
+            'created_at', note.created_at,
+            'structured_summary', note.structured_summary,
+            'sections', coalesce(sections, '[]'::jsonb)
+        )
+    );
+end;
+$$;
+
+grant execute on function public.get_shared_note(text, text) to anon, authenticated;
@@ -0,0 +1,268 @@
+-- Workspaces: a clinic or law office whose members share notes.
+-- Notes with a workspace_id belong to that workspace; notes without one stay personal to their author.
+--
+-- Roles:
+--   owner      manages members and invitations; records, edits and reads all notes
+--   clinician  records, edits and reads all notes
+--   assistant  reads and prints all notes (front desk)
+--   read_only  reads all notes
+--
+-- Invitations are addressed to an email; the invitee sees them after logging in with that address.
+
+create table if not exists public.workspaces (
+    id uuid primary key default gen_random_uuid(),
+    name text not null check (length(trim(name)) > 0),
+    created_by uuid references auth.users (id) on delete set null default auth.uid(),
+    created_at timestamptz not null default now()
+);
+
+create table if not exists public.workspace_members (
+    workspace_id uuid not null references public.workspaces (id) on delete cascade,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    role text not null check (role in ('owner', 'clinician', 'assistant', 'read_only')),
+    -- Copied from the account so members can see who is who
+    email text,
+    created_at timestamptz not null default now(),
+    primary key (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_id_idx on public.workspace_members (user_id);
+
+create table if not exists public.workspace_invitations (
+    id uuid primary key default gen_random_uuid(),
+    workspace_id uuid not null references public.workspaces (id) on delete cascade,
+    email text not null,
+    role text not null check (role in ('owner', 'clinician', 'assistant', 'read_only')),
+    invited_by uuid references auth.users (id) on delete set null default auth.uid(),
+    created_at timestamptz not null default now(),
+    unique (workspace_id, email)
+);
+
+alter table public.summaries
+    add column if not exists workspace_id uuid references public.workspaces (id) on delete set null;
+
+create index if not exists summaries_workspace_created_at_idx
+    on public.summaries (workspace_id, created_at desc)
+    where workspace_id is not null;
+
+-- The signed-in user's role in a workspace, or null if they aren't a member.
+-- security definer so policies on workspace_members can use it without recursing.
+create or replace function public.workspace_role(p_workspace_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select role from public.workspace_members
+    where workspace_id = p_workspace_id and user_id = auth.uid();
+$$;
+
+grant execute on function public.workspace_role(uuid) to authenticated;
+
+-- Whether the signed-in user may change a note: its author, or an owner or clinician of its workspace
+create or replace function public.can_edit_note(p_user_id uuid, p_workspace_id uuid)
+returns boolean
+language sql
+stable
+as $$
+    select p_user_id = auth.uid()
+        or (p_workspace_id is not null and public.workspace_role(p_workspace_id) in ('owner', 'clinician'));
+$$;
+
+-- --- Row level security ---
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.workspace_invitations enable row level security;
+
+create policy "Members can read their workspaces"
+    on public.workspaces for select using (public.workspace_role(id) is not null);
+-- So an invitation can show which workspace it is for
+create policy "Invitees can read the workspace they are invited to"
+    on public.workspaces for select
+    using (exists (
+        select 1 from public.workspace_invitations i
+        where i.workspace_id = workspaces.id and lower(i.email) = lower(auth.jwt() ->> 'email')
+    ));
+create policy "Owners can rename their workspaces"
+    on public.workspaces for update using (public.workspace_role(id) = 'owner');
+
+create policy "Members can see who else is in the workspace"
+    on public.workspace_members for select using (public.workspace_role(workspace_id) is not null);
+create policy "Owners can change roles"
+    on public.workspace_members for update using (public.workspace_role(workspace_id) = 'owner');
+-- Members may also leave on their own
+create policy "Owners can remove members, and members can leave"
+    on public.workspace_members for delete
+    using (public.workspace_role(workspace_id) = 'owner' or user_id = auth.uid());
+
+create policy "Owners and invitees can read invitations"
+    on public.workspace_invitations for select
+    using (public.workspace_role(workspace_id) = 'owner' or lower(email) = lower(auth.jwt() ->> 'email'));
+create policy "Owners can invite"
+    on public.workspace_invitations for insert with check (public.workspace_role(workspace_id) = 'owner');
+create policy "Owners and invitees can delete invitations"
+    on public.workspace_invitations for delete
+    using (public.workspace_role(workspace_id) = 'owner' or lower(email) = lower(auth.jwt() ->> 'email'));
+
+-- Workspace notes, alongside the existing policies for a user's own notes
+create policy "Members can read their workspace's notes"
+    on public.summaries for select
+    using (workspace_id is not null and public.workspace_role(workspace_id) is not null);
+create policy "Owners and clinicians can update their workspace's notes"
+    on public.summaries for update
+    using (workspace_id is not null and public.workspace_role(workspace_id) in ('owner', 'clinician'));
+
+drop policy if exists "Users can read versions of their own notes" on public.summary_versions;
+create policy "Users can read versions of notes they can read"
+    on public.summary_versions for select
+    using (exists (
+        select 1 from public.summaries s
+        where s.id = summary_versions.summary_id
+          and (s.user_id = auth.uid() or (s.workspace_id is not null and public.workspace_role(s.workspace_id) is not null))
+    ));
+
+create policy "Members can play their workspace's recordings"
+    on storage.objects for select
+    using (bucket_id = 'note-audio' and exists (
+        select 1 from public.summaries s
+        where s.audio_path = storage.objects.name
+          and s.workspace_id is not null
+          and public.workspace_role(s.workspace_id) is not null
+    ));
+
+-- --- Functions ---
+
+-- Creates a workspace with the signed-in user as its owner
+create or replace function public.create_workspace(p_name text)
+returns public.workspaces
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    created public.workspaces;
+begin
+    if auth.uid() is null then
+        raise exception 'Not signed in' using errcode = '42501';
+    end if;
+
+    insert into public.workspaces (name, created_by) values (trim(p_name), auth.uid())
+    returning * into created;
+
+    insert into public.workspace_members (workspace_id, user_id, role, email)
+    values (created.id, auth.uid(), 'owner', auth.jwt() ->> 'email');
+
+    return created;
+end;
+$$;
+
+grant execute on function public.create_workspace(text) to authenticated;
+
+-- Joins a workspace from an invitation addressed to the signed-in user's email
+create or replace function public.accept_workspace_invitation(p_invitation_id uuid)
+returns public.workspace_members
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    invitation public.workspace_invitations;
+    joined public.workspace_members;
+begin
+    select * into invitation from public.workspace_invitations
+    where id = p_invitation_id and lower(email) = lower(auth.jwt() ->> 'email');
+    if not found then
+        raise exception 'Invitation not found' using errcode = 'P0002';
+    end if;
+
+    insert into public.workspace_members (workspace_id, user_id, role, email)
+    values (invitation.workspace_id, auth.uid(), invitation.role, auth.jwt() ->> 'email')
+    on conflict (workspace_id, user_id) do update set role = excluded.role
+    returning * into joined;
+
+    delete from public.workspace_invitations where id = invitation.id;
+    return joined;
+end;
+$$;
+
+grant execute on function public.accept_workspace_invitation(uuid) to authenticated;
+
+-- Editing a workspace note is allowed for its owners and clinicians, not only its author
+create or replace function public.save_summary_version(
+    p_summary_id uuid,
+    p_structured_summary text,
+    p_restored_from integer default null
+)
+returns public.summary_versions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    next_version integer;
+    saved public.summary_versions;
+begin
+    perform 1 from public.summaries
+    where id = p_summary_id and public.can_edit_note(user_id, workspace_id)
+    for update;
+    if not found then
+        raise exception 'Note not found' using errcode = 'P0002';
+    end if;
+
+    select coalesce(max(version), 0) + 1 into next_version
+    from public.summary_versions
+    where summary_id = p_summary_id;
+
+    insert into public.summary_versions
+        (summary_id, version, structured_summary, edited_by, edited_by_email, restored_from)
+    values
+        (p_summary_id, next_version, p_structured_summary, auth.uid(), auth.jwt() ->> 'email', p_restored_from)
+    returning * into saved;
+
+    update public.summaries
+    set structured_summary = p_structured_summary
+    where id = p_summary_id;
+
+    return saved;
+end;
+$$;
+
+-- Likewise for sharing a workspace note
+create or replace function public.create_note_share(
+    p_summary_id uuid,
+    p_expires_at timestamptz,
+    p_passcode text default null
+)
+returns public.note_shares
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    created public.note_shares;
+begin
+    perform 1 from public.summaries
+    where id = p_summary_id and public.can_edit_note(user_id, workspace_id) and deleted_at is null;
+    if not found then
+        raise exception 'Note not found' using errcode = 'P0002';
+    end if;
+    if p_expires_at <= now() then
+        raise exception 'The expiry date must be in the future' using errcode = '22023';
+    end if;
+
+    insert into public.note_shares (user_id, summary_id, token, expires_at, passcode_hash)
+    values (
+        auth.uid(),
+        p_summary_id,
+        -- 144 random bits, URL-safe
+        translate(encode(extensions.gen_random_bytes(18), 'base64'), '+/', '-_'),
+        p_expires_at,
+        case when nullif(p_passcode, '') is null then null
+             else extensions.crypt(p_passcode, extensions.gen_salt('bf')) end
+    )
+    returning * into created;
+
+    return created;
+end;
+$$;
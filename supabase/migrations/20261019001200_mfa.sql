@@ -0,0 +1,53 @@
+-- Two-factor authentication for patient data.
+-- Users enrol a TOTP authenticator app through Supabase Auth; signing in with it raises the
+-- session's assurance level (the "aal" JWT claim) from aal1 to aal2. Compliance requires MFA for
+-- anyone viewing patient notes, so the tables holding them only answer aal2 sessions.
+--
+-- These policies are restrictive: they are ANDed with the existing per-user and workspace policies
+-- rather than widening them. Share links are unaffected; get_shared_note is security definer and
+-- serves visitors without an account. The backend uses the service role and checks the claim itself.
+
+create or replace function public.is_mfa_verified()
+returns boolean
+language sql
+stable
+as $$
+    select coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2';
+$$;
+
+-- save_summary_version and create_note_share are security definer and skip the policies below,
+-- so the check they share requires a two-factor session too
+create or replace function public.can_edit_note(p_user_id uuid, p_workspace_id uuid)
+returns boolean
+language sql
+stable
+as $$
+    select public.is_mfa_verified() and (
+        p_user_id = auth.uid()
+        or (p_workspace_id is not null and public.workspace_role(p_workspace_id) in ('owner', 'clinician'))
+    );
+$$;
+
+create policy "Patient notes need a two-factor session"
+    on public.summaries as restrictive for all to authenticated
+    using (public.is_mfa_verified())
+    with check (public.is_mfa_verified());
+
+create policy "Note versions need a two-factor session"
+    on public.summary_versions as restrictive for all to authenticated
+    using (public.is_mfa_verified())
+    with check (public.is_mfa_verified());
+
+create policy "Clients need a two-factor session"
+    on public.clients as restrictive for all to authenticated
+    using (public.is_mfa_verified())
+    with check (public.is_mfa_verified());
+
+create policy "Share links need a two-factor session"
+    on public.note_shares as restrictive for all to authenticated
+    using (public.is_mfa_verified())
+    with check (public.is_mfa_verified());
+
+create policy "Recordings need a two-factor session"
+    on storage.objects as restrictive for select to authenticated
+    using (bucket_id <> 'note-audio' or public.is_mfa_verified());
@@ -0,0 +1,32 @@
+-- Per-user settings, edited on /settings. One row per user, created on first save; until then the
+-- app uses its defaults.
+--
+--   theme                 light, dark or system (follows the device)
+--   default_template_id   template preselected on the dashboard; null for the built-in General one
+--   recording_language    hint for transcription ('auto' lets the model detect it)
+--   letterhead, signature printed on PDF exports; shapes match PdfLetterhead and PdfSignature
+--   date_format           how dates are shown in the app and in exports
+--   audio_retention_days  days to keep the recordings of new notes; 0 keeps them, null uses the server default
+
+create table if not exists public.user_preferences (
+    user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+    theme text not null default 'system' check (theme in ('light', 'dark', 'system')),
+    default_template_id uuid references public.note_templates (id) on delete set null,
+    recording_language text not null default 'auto' check (recording_language in ('auto', 'en', 'kn', 'hi', 'tcy')),
+    letterhead jsonb,
+    signature jsonb,
+    date_format text not null default 'locale' check (date_format in ('locale', 'dmy', 'mdy', 'iso')),
+    audio_retention_days integer check (audio_retention_days between 0 and 3650),
+    updated_at timestamptz not null default now(),
+    -- Logos and signature images are data URLs; keep the row small enough to load on every page
+    check (coalesce(pg_column_size(letterhead), 0) + coalesce(pg_column_size(signature), 0) < 512 * 1024)
+);
+
+alter table public.user_preferences enable row level security;
+
+create policy "Users can read their own preferences"
+    on public.user_preferences for select using (user_id = auth.uid());
+create policy "Users can create their own preferences"
+    on public.user_preferences for insert with check (user_id = auth.uid());
+create policy "Users can update their own preferences"
+    on public.user_preferences for update using (user_id = auth.uid());
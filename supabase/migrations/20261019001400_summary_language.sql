@@ -0,0 +1,7 @@
+-- Language each summary is written in. Clinicians can have a summary written in the patient's own
+-- language to hand to them; the section headings stay in English so notes keep their structure.
+-- Notes made before this were always translated into English.
+
+alter table public.summaries
+    add column if not exists summary_language text not null default 'en'
+        check (summary_language in ('en', 'kn', 'hi', 'tcy'));
@@ -0,0 +1,23 @@
+-- Language metadata for each note, so wrong-language transcriptions (most often Tulu heard as
+-- Kannada) can be spotted and counted.
+--
+--   spoken_language_hint  what the user said the recording was in; null when they let the model detect it
+--   detected_languages    what the transcription model heard, most used first; 'other' for anything
+--                         outside the supported languages. Empty for notes made before this.
+
+alter table public.summaries
+    add column if not exists spoken_language_hint text
+        check (spoken_language_hint in ('en', 'kn', 'hi', 'tcy', 'mixed')),
+    add column if not exists detected_languages text[] not null default '{}'
+        check (detected_languages <@ array['en', 'kn', 'hi', 'tcy', 'other']);
+
+-- The notes list filters on "detected_languages contains X"
+create index if not exists summaries_detected_languages_idx
+    on public.summaries using gin (detected_languages);
+
+-- "mixed" is also a valid default hint on /settings
+alter table public.user_preferences
+    drop constraint if exists user_preferences_recording_language_check;
+alter table public.user_preferences
+    add constraint user_preferences_recording_language_check
+        check (recording_language in ('auto', 'en', 'kn', 'hi', 'tcy', 'mixed'));
@@ -0,0 +1,125 @@
+-- Edits to a note's original-language transcript are versioned like summary edits.
+-- The transcript is the record of what the patient actually said, so the model's version is kept
+-- as version 1 and every edit is a new version with its author. summaries.original_transcript
+-- always holds the latest version, so exports and share links keep reading from the summaries row.
+
+create table if not exists public.transcript_versions (
+    id uuid primary key default gen_random_uuid(),
+    summary_id uuid not null references public.summaries (id) on delete cascade,
+    version integer not null,
+    original_transcript text not null,
+    edited_by uuid references auth.users (id) on delete set null,
+    edited_by_email text,
+    -- Set when this version was created by restoring an older one
+    restored_from integer,
+    created_at timestamptz not null default now(),
+    unique (summary_id, version)
+);
+
+create index if not exists transcript_versions_summary_id_idx
+    on public.transcript_versions (summary_id, version desc);
+
+alter table public.transcript_versions enable row level security;
+
+create policy "Users can read transcript versions of notes they can read"
+    on public.transcript_versions for select
+    using (exists (
+        select 1 from public.summaries s
+        where s.id = transcript_versions.summary_id
+          and (s.user_id = auth.uid() or (s.workspace_id is not null and public.workspace_role(s.workspace_id) is not null))
+    ));
+
+create policy "Transcript versions need a two-factor session"
+    on public.transcript_versions as restrictive for all to authenticated
+    using (public.is_mfa_verified())
+    with check (public.is_mfa_verified());
+
+-- Version 1 is the model's transcript, recorded when the note is created
+create or replace function public.create_initial_transcript_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    insert into public.transcript_versions (summary_id, version, original_transcript, edited_by)
+    values (new.id, 1, coalesce(new.original_transcript, ''), new.user_id);
+    return new;
+end;
+$$;
+
+drop trigger if exists summaries_initial_transcript_version on public.summaries;
+create trigger summaries_initial_transcript_version
+    after insert on public.summaries
+    for each row execute function public.create_initial_transcript_version();
+
+-- Saves a new transcript version and makes it current in one transaction
+create or replace function public.save_transcript_version(
+    p_summary_id uuid,
+    p_original_transcript text,
+    p_restored_from integer default null
+)
+returns public.transcript_versions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    next_version integer;
+    saved public.transcript_versions;
+begin
+    perform 1 from public.summaries
+    where id = p_summary_id and public.can_edit_note(user_id, workspace_id)
+    for update;
+    if not found then
+        raise exception 'Note not found' using errcode = 'P0002';
+    end if;
+
+    select coalesce(max(version), 0) + 1 into next_version
+    from public.transcript_versions
+    where summary_id = p_summary_id;
+
+    insert into public.transcript_versions
+        (summary_id, version, original_transcript, edited_by, edited_by_email, restored_from)
+    values
+        (p_summary_id, next_version, p_original_transcript, auth.uid(), auth.jwt() ->> 'email', p_restored_from)
+    returning * into saved;
+
+    -- Lets the update through guard_transcript_edits below
+    perform set_config('janscribe.saving_version', 'on', true);
+    update public.summaries
+    set original_transcript = p_original_transcript
+    where id = p_summary_id;
+    perform set_config('janscribe.saving_version', 'off', true);
+
+    return saved;
+end;
+$$;
+
+grant execute on function public.save_transcript_version(uuid, text, integer) to authenticated;
+
+-- A direct update of the transcript would leave no version behind, so only
+-- save_transcript_version may change it
+create or replace function public.guard_transcript_edits()
+returns trigger
+language plpgsql
+as $$
+begin
+    if new.original_transcript is distinct from old.original_transcript
+       and coalesce(current_setting('janscribe.saving_version', true), 'off') <> 'on' then
+        raise exception 'Transcripts are changed through save_transcript_version' using errcode = '42501';
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists summaries_guard_transcript_edits on public.summaries;
+create trigger summaries_guard_transcript_edits
+    before update of original_transcript on public.summaries
+    for each row execute function public.guard_transcript_edits();
+
+-- Backfill version 1 for notes created before transcripts were versioned
+insert into public.transcript_versions (summary_id, version, original_transcript, edited_by, created_at)
+select s.id, 1, coalesce(s.original_transcript, ''), s.user_id, s.created_at
+from public.summaries s
+where not exists (select 1 from public.transcript_versions v where v.summary_id = s.id);
@@ -0,0 +1,63 @@
+-- The update policies on summaries still let authors, owners and clinicians set structured_summary
+-- directly, which would skip the version history. Only save_summary_version may change it now,
+-- the same way save_transcript_version guards the transcript.
+
+create or replace function public.save_summary_version(
+    p_summary_id uuid,
+    p_structured_summary text,
+    p_restored_from integer default null
+)
+returns public.summary_versions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    next_version integer;
+    saved public.summary_versions;
+begin
+    perform 1 from public.summaries
+    where id = p_summary_id and public.can_edit_note(user_id, workspace_id)
+    for update;
+    if not found then
+        raise exception 'Note not found' using errcode = 'P0002';
+    end if;
+
+    select coalesce(max(version), 0) + 1 into next_version
+    from public.summary_versions
+    where summary_id = p_summary_id;
+
+    insert into public.summary_versions
+        (summary_id, version, structured_summary, edited_by, edited_by_email, restored_from)
+    values
+        (p_summary_id, next_version, p_structured_summary, auth.uid(), auth.jwt() ->> 'email', p_restored_from)
+    returning * into saved;
+
+    -- Lets the update through guard_summary_edits below
+    perform set_config('janscribe.saving_version', 'on', true);
+    update public.summaries
+    set structured_summary = p_structured_summary
+    where id = p_summary_id;
+    perform set_config('janscribe.saving_version', 'off', true);
+
+    return saved;
+end;
+$$;
+
+create or replace function public.guard_summary_edits()
+returns trigger
+language plpgsql
+as $$
+begin
+    if new.structured_summary is distinct from old.structured_summary
+       and coalesce(current_setting('janscribe.saving_version', true), 'off') <> 'on' then
+        raise exception 'Summaries are changed through save_summary_version' using errcode = '42501';
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists summaries_guard_summary_edits on public.summaries;
+create trigger summaries_guard_summary_edits
+    before update of structured_summary on public.summaries
+    for each row execute function public.guard_summary_edits();
@@ -0,0 +1,103 @@
+-- Share links could be pointed at another note: the update policy let a user change any column of
+-- their own link, including summary_id, and get_shared_note (security definer) would then serve
+-- whatever note it named. Links are now only revoked, through revoke_note_share.
+--
+-- Passcodes could also be guessed without limit. A link now locks after five wrong passcodes in a
+-- row; its owner can create a new one.
+
+drop policy if exists "Users can update their own share links" on public.note_shares;
+revoke update on public.note_shares from authenticated, anon;
+
+alter table public.note_shares
+    add column if not exists failed_attempts integer not null default 0,
+    add column if not exists locked_at timestamptz;
+
+-- Revokes one of the signed-in user's links and returns it
+create or replace function public.revoke_note_share(p_id uuid)
+returns public.note_shares
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    revoked public.note_shares;
+begin
+    update public.note_shares
+    set revoked_at = coalesce(revoked_at, now())
+    where id = p_id and user_id = auth.uid() and public.is_mfa_verified()
+    returning * into revoked;
+    if not found then
+        raise exception 'Share link not found' using errcode = 'P0002';
+    end if;
+    return revoked;
+end;
+$$;
+
+grant execute on function public.revoke_note_share(uuid) to authenticated;
+
+-- As before, plus 'locked' once too many wrong passcodes have been tried
+create or replace function public.get_shared_note(p_token text, p_passcode text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    max_attempts constant integer := 5;
+    share public.note_shares;
+    note public.summaries;
+    sections jsonb;
+begin
+    select * into share from public.note_shares where token = p_token and revoked_at is null;
+    if not found then
+        return jsonb_build_object('status', 'not_found');
+    end if;
+
+    select * into note from public.summaries where id = share.summary_id and deleted_at is null;
+    if not found then
+        return jsonb_build_object('status', 'not_found');
+    end if;
+
+    if share.expires_at <= now() then
+        return jsonb_build_object('status', 'expired');
+    end if;
+
+    if share.locked_at is not null then
+        return jsonb_build_object('status', 'locked');
+    end if;
+
+    if share.passcode_hash is not null then
+        if nullif(p_passcode, '') is null then
+            return jsonb_build_object('status', 'passcode_required');
+        end if;
+        if extensions.crypt(p_passcode, share.passcode_hash) <> share.passcode_hash then
+            update public.note_shares
+            set failed_attempts = failed_attempts + 1,
+                locked_at = case when failed_attempts + 1 >= max_attempts then now() end
+            where id = share.id
+            returning * into share;
+            if share.locked_at is not null then
+                return jsonb_build_object('status', 'locked');
+            end if;
+            return jsonb_build_object('status', 'wrong_passcode', 'attempts_left', max_attempts - share.failed_attempts);
+        end if;
+    end if;
+
+    update public.note_shares
+    set view_count = view_count + 1, last_viewed_at = now(), failed_attempts = 0
+    where id = share.id;
+
+    select to_jsonb(t.sections) into sections from public.note_templates t where t.id = note.template_id;
+
+    return jsonb_build_object(
+        'status', 'ok',
+        'expires_at', share.expires_at,
+        'note', jsonb_build_object(
+            'client_name', note.client_name,
+            'created_at', note.created_at,
+            'structured_summary', note.structured_summary,
+            'sections', coalesce(sections, '[]'::jsonb)
+        )
+    );
+end;
+$$;
@@ -0,0 +1,57 @@
+-- Clients belong to a workspace the same way notes do, so every member finds the same patient
+-- record instead of each clinician making their own. Clients without a workspace_id stay
+-- personal to the user who added them.
+-- Members read a workspace's clients; owners and clinicians add and edit them.
+
+alter table public.clients
+    add column if not exists workspace_id uuid references public.workspaces (id) on delete set null;
+
+create index if not exists clients_workspace_name_idx
+    on public.clients (workspace_id, lower(full_name))
+    where workspace_id is not null;
+
+-- An external ID identifies one client per workspace, or per user for personal clients
+drop index if exists public.clients_user_external_id_idx;
+create unique index if not exists clients_user_external_id_idx
+    on public.clients (user_id, external_id)
+    where external_id is not null and workspace_id is null;
+create unique index if not exists clients_workspace_external_id_idx
+    on public.clients (workspace_id, external_id)
+    where external_id is not null and workspace_id is not null;
+
+create policy "Members can read their workspace's clients"
+    on public.clients for select
+    using (workspace_id is not null and public.workspace_role(workspace_id) is not null);
+
+-- The insert and update policies also decide which workspace a client may be put in
+drop policy if exists "Users can create their own clients" on public.clients;
+create policy "Users can create their own clients"
+    on public.clients for insert
+    with check (
+        user_id = auth.uid()
+        and (workspace_id is null or public.workspace_role(workspace_id) in ('owner', 'clinician'))
+    );
+
+drop policy if exists "Users can update their own clients" on public.clients;
+create policy "Users can update their own clients"
+    on public.clients for update
+    using (
+        (workspace_id is null and user_id = auth.uid())
+        or (workspace_id is not null and public.workspace_role(workspace_id) in ('owner', 'clinician'))
+    )
+    with check (
+        (workspace_id is null and user_id = auth.uid())
+        or (workspace_id is not null and public.workspace_role(workspace_id) in ('owner', 'clinician'))
+    );
+
+-- Clients whose notes are all in one workspace move into it
+update public.clients c
+set workspace_id = used.workspace_id
+from (
+    select client_id, (array_agg(distinct workspace_id))[1] as workspace_id
+    from public.summaries
+    where client_id is not null
+    group by client_id
+    having count(distinct workspace_id) = 1 and bool_and(workspace_id is not null)
+) used
+where c.id = used.client_id and c.workspace_id is null;
@@ -0,0 +1,130 @@
+-- Two-factor authentication becomes optional. 20261019001200_mfa.sql made every session prove aal2
+-- before it could read a note, which forced every account (magic-link and Google users included)
+-- to enrol an authenticator app, with no way back in after losing the phone.
+--
+-- A session now needs aal2 when:
+--   * the user has set up an authenticator app (then they always use it), or
+--   * the note, client or recording belongs to a workspace whose owners turned on require_mfa.
+-- Everyone else reads their notes with an ordinary session.
+
+alter table public.workspaces
+    add column if not exists require_mfa boolean not null default false;
+
+-- Whether the signed-in user has a confirmed authenticator app.
+-- security definer because auth.mfa_factors isn't readable by signed-in users.
+create or replace function public.has_mfa_factor()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1 from auth.mfa_factors
+        where user_id = auth.uid() and status = 'verified'
+    );
+$$;
+
+create or replace function public.workspace_requires_mfa(p_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select coalesce((select require_mfa from public.workspaces where id = p_workspace_id), false);
+$$;
+
+-- Whether the session may see data in the workspace (or the user's personal data, for null)
+create or replace function public.mfa_satisfied(p_workspace_id uuid)
+returns boolean
+language sql
+stable
+as $$
+    select public.is_mfa_verified()
+        or (not public.has_mfa_factor() and not public.workspace_requires_mfa(p_workspace_id));
+$$;
+
+grant execute on function public.has_mfa_factor() to authenticated;
+grant execute on function public.workspace_requires_mfa(uuid) to authenticated;
+grant execute on function public.mfa_satisfied(uuid) to authenticated;
+
+-- save_summary_version, save_transcript_version and create_note_share check through this
+create or replace function public.can_edit_note(p_user_id uuid, p_workspace_id uuid)
+returns boolean
+language sql
+stable
+as $$
+    select public.mfa_satisfied(p_workspace_id) and (
+        p_user_id = auth.uid()
+        or (p_workspace_id is not null and public.workspace_role(p_workspace_id) in ('owner', 'clinician'))
+    );
+$$;
+
+-- --- The restrictive policies, now asking for aal2 only where it is required ---
+drop policy if exists "Patient notes need a two-factor session" on public.summaries;
+create policy "Patient notes need a two-factor session"
+    on public.summaries as restrictive for all to authenticated
+    using (public.mfa_satisfied(workspace_id))
+    with check (public.mfa_satisfied(workspace_id));
+
+drop policy if exists "Note versions need a two-factor session" on public.summary_versions;
+create policy "Note versions need a two-factor session"
+    on public.summary_versions as restrictive for all to authenticated
+    using (exists (
+        select 1 from public.summaries s
+        where s.id = summary_versions.summary_id and public.mfa_satisfied(s.workspace_id)
+    ));
+
+drop policy if exists "Transcript versions need a two-factor session" on public.transcript_versions;
+create policy "Transcript versions need a two-factor session"
+    on public.transcript_versions as restrictive for all to authenticated
+    using (exists (
+        select 1 from public.summaries s
+        where s.id = transcript_versions.summary_id and public.mfa_satisfied(s.workspace_id)
+    ));
+
+drop policy if exists "Clients need a two-factor session" on public.clients;
+create policy "Clients need a two-factor session"
+    on public.clients as restrictive for all to authenticated
+    using (public.mfa_satisfied(workspace_id))
+    with check (public.mfa_satisfied(workspace_id));
+
+drop policy if exists "Share links need a two-factor session" on public.note_shares;
+create policy "Share links need a two-factor session"
+    on public.note_shares as restrictive for all to authenticated
+    using (exists (
+        select 1 from public.summaries s
+        where s.id = note_shares.summary_id and public.mfa_satisfied(s.workspace_id)
+    ));
+
+drop policy if exists "Recordings need a two-factor session" on storage.objects;
+create policy "Recordings need a two-factor session"
+    on storage.objects as restrictive for select to authenticated
+    using (
+        bucket_id <> 'note-audio'
+        or public.mfa_satisfied((select s.workspace_id from public.summaries s where s.audio_path = storage.objects.name limit 1))
+    );
+
+-- As in 20261019001800_note_share_hardening.sql, with the check above
+create or replace function public.revoke_note_share(p_id uuid)
+returns public.note_shares
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    revoked public.note_shares;
+begin
+    update public.note_shares ns
+    set revoked_at = coalesce(ns.revoked_at, now())
+    from public.summaries s
+    where ns.id = p_id and ns.user_id = auth.uid()
+      and s.id = ns.summary_id and public.mfa_satisfied(s.workspace_id)
+    returning ns.* into revoked;
+    if not found then
+        raise exception 'Share link not found' using errcode = 'P0002';
+    end if;
+    return revoked;
+end;
+$$;
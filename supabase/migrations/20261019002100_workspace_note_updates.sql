@@ -0,0 +1,51 @@
+-- "Owners and clinicians can update their workspace's notes" had no with check and no limit on
+-- columns, so a member could rewrite any column of a colleague's note: move it to another workspace
+-- (or out of every workspace), or change its author, client or recording.
+--
+-- The policy now keeps an updated note in a workspace where the caller is an owner or clinician,
+-- and the trigger below lets a member who isn't the author change only archived_at and deleted_at
+-- (updateNoteState in the frontend). The text still changes through save_summary_version and
+-- save_transcript_version.
+
+drop policy if exists "Owners and clinicians can update their workspace's notes" on public.summaries;
+create policy "Owners and clinicians can update their workspace's notes"
+    on public.summaries for update
+    using (workspace_id is not null and public.workspace_role(workspace_id) in ('owner', 'clinician'))
+    with check (workspace_id is not null and public.workspace_role(workspace_id) in ('owner', 'clinician'));
+
+create or replace function public.guard_workspace_note_updates()
+returns trigger
+language plpgsql
+as $$
+begin
+    -- The backend signs in with the service role and isn't limited here
+    if auth.uid() is null then
+        return new;
+    end if;
+
+    -- Nobody, the author included, moves a note into a workspace they can't edit
+    if new.workspace_id is distinct from old.workspace_id
+       and new.workspace_id is not null
+       and coalesce(public.workspace_role(new.workspace_id), '') not in ('owner', 'clinician') then
+        raise exception 'Notes can only be moved into a workspace you edit notes in' using errcode = '42501';
+    end if;
+
+    if old.user_id = auth.uid()
+       or coalesce(current_setting('janscribe.saving_version', true), 'off') = 'on' then
+        return new;
+    end if;
+
+    -- search_vector is generated, so it isn't filled in yet when this runs
+    if (to_jsonb(new) - array['archived_at', 'deleted_at', 'search_vector'])
+       is distinct from (to_jsonb(old) - array['archived_at', 'deleted_at', 'search_vector']) then
+        raise exception 'Only the author can change this note; members can archive, trash or restore it'
+            using errcode = '42501';
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists summaries_guard_workspace_note_updates on public.summaries;
+create trigger summaries_guard_workspace_note_updates
+    before update on public.summaries
+    for each row execute function public.guard_workspace_note_updates();
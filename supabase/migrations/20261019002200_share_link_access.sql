@@ -0,0 +1,92 @@
+-- Share links were only visible to, and revocable by, the user who made them. A workspace link made
+-- by a clinician who has since left could then not be found or revoked by anyone.
+-- The note's author and the owners of its workspace now see and revoke every link to the note.
+--
+-- The share page also opened the link while the server rendered it, so link previews in chat apps
+-- counted as views. It now asks get_shared_note_status, which counts nothing, and calls
+-- get_shared_note only when the visitor opens the note.
+
+-- Whether the signed-in user may see and revoke links to a note: the link's creator,
+-- the note's author, or an owner of the note's workspace
+create or replace function public.can_manage_note_share(p_share_user_id uuid, p_summary_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select p_share_user_id = auth.uid() or exists (
+        select 1 from public.summaries s
+        where s.id = p_summary_id
+          and (s.user_id = auth.uid()
+               or (s.workspace_id is not null and public.workspace_role(s.workspace_id) = 'owner'))
+    );
+$$;
+
+grant execute on function public.can_manage_note_share(uuid, uuid) to authenticated;
+
+drop policy if exists "Users can read their own share links" on public.note_shares;
+drop policy if exists "Creators, note authors and workspace owners can read share links" on public.note_shares;
+create policy "Creators, note authors and workspace owners can read share links"
+    on public.note_shares for select
+    using (public.can_manage_note_share(user_id, summary_id));
+
+-- As in 20261019002000_optional_mfa.sql, for any link the user may manage
+create or replace function public.revoke_note_share(p_id uuid)
+returns public.note_shares
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    revoked public.note_shares;
+begin
+    update public.note_shares ns
+    set revoked_at = coalesce(ns.revoked_at, now())
+    from public.summaries s
+    where ns.id = p_id and public.can_manage_note_share(ns.user_id, ns.summary_id)
+      and s.id = ns.summary_id and public.mfa_satisfied(s.workspace_id)
+    returning ns.* into revoked;
+    if not found then
+        raise exception 'Share link not found' using errcode = 'P0002';
+    end if;
+    return revoked;
+end;
+$$;
+
+-- What the share page shows before the note is opened. Returns { status } with the same
+-- 'not_found', 'expired', 'locked' and 'passcode_required' as get_shared_note, or 'ready' when the
+-- link opens without a passcode. Counts neither views nor passcode attempts.
+create or replace function public.get_shared_note_status(p_token text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+    share public.note_shares;
+begin
+    select * into share from public.note_shares where token = p_token and revoked_at is null;
+    if not found then
+        return jsonb_build_object('status', 'not_found');
+    end if;
+
+    perform 1 from public.summaries where id = share.summary_id and deleted_at is null;
+    if not found then
+        return jsonb_build_object('status', 'not_found');
+    end if;
+
+    if share.expires_at <= now() then
+        return jsonb_build_object('status', 'expired');
+    end if;
+
+    if share.locked_at is not null then
+        return jsonb_build_object('status', 'locked');
+    end if;
+
+    return jsonb_build_object('status', case when share.passcode_hash is null then 'ready' else 'passcode_required' end);
+end;
+$$;
+
+grant execute on function public.get_shared_note_status(text) to anon, authenticated;